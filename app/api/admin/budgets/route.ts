@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth-middleware";
+import {
+  GLOBAL_BUDGET_SCOPE,
+  getUserById,
+  listBudgets,
+  type StoredBudget,
+  saveBudget,
+} from "@/lib/persistence";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function isLimit(value: unknown) {
+  return (
+    value === null ||
+    (typeof value === "number" && Number.isFinite(value) && value >= 0)
+  );
+}
+
+function validateBudget(body: any): string | null {
+  if (!body || typeof body.scope !== "string" || !body.scope) {
+    return "scope is required";
+  }
+  if (body.scope !== GLOBAL_BUDGET_SCOPE && !getUserById(body.scope)) {
+    return "Unknown user";
+  }
+  if (
+    !isLimit(body.dailyLimit ?? null) ||
+    !isLimit(body.monthlyLimit ?? null)
+  ) {
+    return "Limits must be non-negative numbers or null";
+  }
+  const warn = body.warnPercent ?? null;
+  if (
+    warn !== null &&
+    !(typeof warn === "number" && warn >= 1 && warn <= 100)
+  ) {
+    return "warnPercent must be between 1 and 100";
+  }
+  return null;
+}
+
+export async function GET() {
+  try {
+    await requireAdmin();
+    return NextResponse.json({
+      budgets: listBudgets(),
+      globalScope: GLOBAL_BUDGET_SCOPE,
+    });
+  } catch (error) {
+    const message = (error as Error).message;
+    if (message.includes("Authentication") || message.includes("Admin")) {
+      return NextResponse.json({ error: message }, { status: 403 });
+    }
+    console.error("[admin/budgets] GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to load budgets" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    await requireAdmin();
+    const body = await request.json();
+    const invalid = validateBudget(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+    const budget: StoredBudget = {
+      scope: body.scope,
+      dailyLimit: body.dailyLimit ?? null,
+      monthlyLimit: body.monthlyLimit ?? null,
+      warnPercent: body.warnPercent ?? null,
+    };
+    saveBudget(budget);
+    return NextResponse.json({ ok: true, budget });
+  } catch (error) {
+    const message = (error as Error).message;
+    if (message.includes("Authentication") || message.includes("Admin")) {
+      return NextResponse.json({ error: message }, { status: 403 });
+    }
+    console.error("[admin/budgets] PUT error:", error);
+    return NextResponse.json(
+      { error: "Failed to save budget" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth-middleware";
+import { listUsers } from "@/lib/persistence";
+import { summarizeCostsByUser } from "@/lib/pricing";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    await requireAdmin();
+    const usernames = new Map(listUsers().map((u) => [u.id, u.username]));
+    const users = summarizeCostsByUser().map((row) => ({
+      ...row,
+      username: row.userId ? usernames.get(row.userId) || null : null,
+    }));
+    return NextResponse.json({ users });
+  } catch (error) {
+    const message = (error as Error).message;
+    if (message.includes("Authentication") || message.includes("Admin")) {
+      return NextResponse.json({ error: message }, { status: 403 });
+    }
+    console.error("[admin/costs] GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to load user costs" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-middleware";
+import { revokeApiToken } from "@/lib/persistence";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = Promise<{ id: string }>;
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Params },
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    if (!revokeApiToken(id, user.id)) {
+      return NextResponse.json({ error: "Token not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const message = (error as Error).message;
+    if (message.includes("Authentication")) {
+      return NextResponse.json({ error: message }, { status: 403 });
+    }
+    console.error("[auth/tokens/[id]] DELETE error:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke API token" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-middleware";
+import { createApiToken, listApiTokens } from "@/lib/persistence";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const user = await requireAuth();
+    return NextResponse.json({ tokens: listApiTokens(user.id) });
+  } catch (error) {
+    const message = (error as Error).message;
+    if (message.includes("Authentication")) {
+      return NextResponse.json({ error: message }, { status: 403 });
+    }
+    console.error("[auth/tokens] GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to list API tokens" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireAuth();
+    const body = await request.json().catch(() => ({}));
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) {
+      return NextResponse.json({ error: "Name is required" }, { status: 400 });
+    }
+    if (name.length > 60) {
+      return NextResponse.json(
+        { error: "Name must be 60 characters or less" },
+        { status: 400 },
+      );
+    }
+
+    const { token, record } = createApiToken(user.id, name);
+    return NextResponse.json({ ok: true, token, record });
+  } catch (error) {
+    const message = (error as Error).message;
+    if (message.includes("Authentication")) {
+      return NextResponse.json({ error: message }, { status: 403 });
+    }
+    console.error("[auth/tokens] POST error:", error);
+    return NextResponse.json(
+      { error: "Failed to create API token" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,4 +1,6 @@
 import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { isBudgetError } from "@/lib/budgets";
 import { runChat } from "@/lib/chat";
 
 export const runtime = "nodejs";
@@ -7,13 +9,20 @@ export const dynamic = "force-dynamic";
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const result = await runChat(body);
+    const user = await getCurrentUser();
+    const result = await runChat(body, {
+      userId: user?.id,
+      signal: request.signal,
+    });
     return NextResponse.json(result);
   } catch (err) {
     console.error("Chat error:", err);
-    return NextResponse.json({
-      content: `Error: ${(err as Error).message}`,
-      error: (err as Error).message,
-    });
+    return NextResponse.json(
+      {
+        content: `Error: ${(err as Error).message}`,
+        error: (err as Error).message,
+      },
+      { status: isBudgetError(err) ? 402 : 200 },
+    );
   }
 }
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { stopChatStream } from "@/lib/chat";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST { messageId } stops the caller's answer streaming into that message.
+// The stream then ends with `meta.stopped` and the answer is saved as far as
+// it got. `stopped` is false when the answer had already finished.
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  if (typeof body?.messageId !== "string") {
+    return NextResponse.json({ error: "Missing messageId" }, { status: 400 });
+  }
+  const user = await getCurrentUser();
+  return NextResponse.json({
+    stopped: stopChatStream(body.messageId, user?.id),
+  });
+}
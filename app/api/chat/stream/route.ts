@@ -1,16 +1,35 @@
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { isBudgetError } from "@/lib/budgets";
 import { streamChat } from "@/lib/chat";
+import { providerErrorKind } from "@/lib/provider-routing";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function POST(request: Request) {
   const body = await request.json();
+  const user = await getCurrentUser();
   const encoder = new TextEncoder();
+  // A client that goes away, by aborting the request or just no longer
+  // reading the stream, cancels the provider request and fails the answer.
+  // Stopping it on purpose goes through /api/chat/stop.
+  const cancelled = new AbortController();
+  const signal = AbortSignal.any([request.signal, cancelled.signal]);
 
   const stream = new ReadableStream<Uint8Array>({
     start(controller) {
-      const send = (obj: any) =>
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify(obj)}\n\n`));
+      // Nobody is listening once the client has gone
+      const write = (text: string) => {
+        if (!signal.aborted) controller.enqueue(encoder.encode(text));
+      };
+      const send = (obj: any) => write(`data: ${JSON.stringify(obj)}\n\n`);
+      // Named events still carry the type in the payload so data-only
+      // parsers can handle them too
+      const sendEvent = (event: string, obj: any) =>
+        write(`event: ${event}\ndata: ${JSON.stringify(obj)}\n\n`);
+      const close = () => {
+        if (!signal.aborted) controller.close();
+      };
 
       // Keep-alive pings to prevent client-side stall watchdogs from aborting
       send({ meta: { status: "started" } });
@@ -22,28 +41,46 @@ export async function POST(request: Request) {
         }
       }, 10000);
 
-      streamChat(body, (chunk) => {
-        if (chunk?.content) send({ content: chunk.content });
-        if (chunk?.reasoning) send({ reasoning: chunk.reasoning });
-        if (chunk?.reasoning_details)
-          send({ reasoning_details: chunk.reasoning_details });
-      })
+      streamChat(
+        body,
+        (chunk) => {
+          if (chunk?.content) send({ content: chunk.content });
+          if (chunk?.reasoning) send({ reasoning: chunk.reasoning });
+          if (chunk?.reasoning_details)
+            send({ reasoning_details: chunk.reasoning_details });
+          if (chunk?.toolCall) sendEvent(chunk.toolCall.type, chunk.toolCall);
+        },
+        { userId: user?.id, signal },
+      )
         .then((meta) => {
           if (
             meta &&
-            (meta.cost != null || meta.model || meta.usage !== undefined)
+            (meta.cost != null ||
+              meta.model ||
+              meta.usage !== undefined ||
+              meta.budgetWarning)
           ) {
             send({ meta });
           }
-          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
-          controller.close();
+          write("data: [DONE]\n\n");
+          close();
         })
         .catch((error) => {
-          send({ error: (error as Error).message });
-          controller.close();
+          // The response is already a 200 stream, so the status travels in
+          // the event for the client to tell budget refusals from failures,
+          // and the kind for it to tell failures routing already retried
+          send({
+            error: (error as Error).message,
+            kind: providerErrorKind(error),
+            ...(isBudgetError(error) ? { status: 402 } : {}),
+          });
+          close();
         })
         .finally(() => clearInterval(keepAlive));
     },
+    cancel() {
+      cancelled.abort();
+    },
   });
 
   return new Response(stream, {
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { isBudgetError } from "@/lib/budgets";
+import { generateChatTitle } from "@/lib/chat";
+import { setGeneratedChatTitle } from "@/lib/persistence";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST { chatId, messages, provider, model, ... } titles a saved chat from its
+// opening exchange. `chat` is null when the user renamed the chat meanwhile.
+export async function POST(request: Request) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.chatId !== "string" || !Array.isArray(body.messages)) {
+      return NextResponse.json(
+        { error: "Missing chatId or messages array" },
+        { status: 400 },
+      );
+    }
+
+    const { title, cost } = await generateChatTitle(body, { userId: user.id });
+    const chat = title
+      ? setGeneratedChatTitle(body.chatId, title, user.id)
+      : null;
+    return NextResponse.json({ title, cost, chat });
+  } catch (err) {
+    console.error("[chat/title] POST error", err);
+    return NextResponse.json(
+      { error: (err as Error).message },
+      { status: isBudgetError(err) ? 402 : 500 },
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { extractDocument } from "@/lib/document-extraction";
+import {
+  documentFormat,
+  type ExtractedDocument,
+  MAX_DOCUMENT_BYTES,
+} from "@/lib/documents";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST multipart/form-data { file } extracts the text of a PDF, DOCX, XLSX,
+// CSV or PPTX file as chunks. Nothing is stored; the client keeps the result
+// with the attachment.
+export async function POST(request: Request) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const form = await request.formData().catch(() => null);
+    const file = form?.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "Missing file" }, { status: 400 });
+    }
+    const format = documentFormat(file.name, file.type);
+    if (!format) {
+      return NextResponse.json(
+        { error: `Unsupported document type: ${file.name}` },
+        { status: 415 },
+      );
+    }
+    if (file.size > MAX_DOCUMENT_BYTES) {
+      return NextResponse.json(
+        {
+          error: `Documents must be ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB or less`,
+        },
+        { status: 413 },
+      );
+    }
+
+    let document: ExtractedDocument;
+    try {
+      document = await extractDocument(
+        new Uint8Array(await file.arrayBuffer()),
+        format,
+      );
+    } catch (err) {
+      console.warn("[documents] extraction failed", file.name, err);
+      return NextResponse.json(
+        { error: `Could not read ${file.name}` },
+        { status: 422 },
+      );
+    }
+    return NextResponse.json({ document });
+  } catch (err) {
+    console.error("[documents] POST error", err);
+    return NextResponse.json(
+      { error: (err as Error).message },
+      { status: 500 },
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { checkBudget } from "@/lib/budgets";
 import { env } from "@/lib/env";
+import { inlineImageUrl, storeImageUrl } from "@/lib/image-blobs";
 import { getNanoApiBase } from "@/lib/nanogpt";
 import { recordGenericCost } from "@/lib/pricing";
 
@@ -19,6 +22,9 @@ type ImageGenRequest = {
   seed?: number;
   kontext_max_mode?: boolean;
   apiKey?: string;
+  /** Chat and message the image is for, used to attribute cost. */
+  chatId?: string;
+  messageId?: string;
 };
 
 type NanoGPTImageResponse = {
@@ -33,6 +39,7 @@ const buildGenerateImageUrl = () =>
   `${getNanoApiBase(env.nanogptBaseUrl)}/images/generations`;
 
 export async function POST(request: Request) {
+  const user = await getCurrentUser();
   let body: ImageGenRequest;
   try {
     body = await request.json();
@@ -43,7 +50,7 @@ export async function POST(request: Request) {
     );
   }
 
-  const { prompt, apiKey: clientApiKey, ...options } = body;
+  const { prompt, apiKey: clientApiKey, chatId, messageId, ...options } = body;
 
   if (!prompt?.trim()) {
     return NextResponse.json(
@@ -60,6 +67,11 @@ export async function POST(request: Request) {
     );
   }
 
+  const budget = checkBudget(user?.id);
+  if (budget.exceeded) {
+    return NextResponse.json({ error: budget.message }, { status: 402 });
+  }
+
   const model = options.model || env.imageModelNanogpt || "chroma";
   const url = buildGenerateImageUrl();
 
@@ -71,7 +83,8 @@ export async function POST(request: Request) {
   };
 
   if (options.size) payload.size = options.size;
-  if (options.imageDataUrl) payload.imageDataUrl = options.imageDataUrl;
+  if (options.imageDataUrl)
+    payload.imageDataUrl = inlineImageUrl(options.imageDataUrl, user?.id);
   if (options.guidance_scale) payload.guidance_scale = options.guidance_scale;
   if (options.num_inference_steps)
     payload.num_inference_steps = options.num_inference_steps;
@@ -137,7 +150,8 @@ export async function POST(request: Request) {
         return { url: img.url };
       }
       if (img.b64_json) {
-        return { url: `data:image/png;base64,${img.b64_json}` };
+        const dataUrl = `data:image/png;base64,${img.b64_json}`;
+        return { url: user ? storeImageUrl(dataUrl, user.id) : dataUrl };
       }
       return { url: "" };
     });
@@ -156,6 +170,9 @@ export async function POST(request: Request) {
           model,
           cost: data.cost,
           currency: "USD",
+          userId: user?.id,
+          chatId,
+          messageId,
           metadata: { type: "image" },
         });
       } catch (err) {
@@ -168,6 +185,7 @@ export async function POST(request: Request) {
       model,
       cost: data.cost,
       remainingBalance: data.remainingBalance,
+      budgetWarning: budget.warning,
     });
   } catch (error) {
     console.error("[ImageGen] Request failed:", error);
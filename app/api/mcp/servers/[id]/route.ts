@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth-middleware";
+import { parseMcpServerInput, resetMcpServer } from "@/lib/mcp";
+import {
+  deleteMcpServer,
+  getMcpServer,
+  saveMcpServer,
+} from "@/lib/persistence";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = Promise<{ id: string }>;
+
+export async function PATCH(request: Request, { params }: { params: Params }) {
+  try {
+    await requireAdmin();
+    const { id } = await params;
+    const existing = getMcpServer(id);
+    if (!existing) {
+      return NextResponse.json({ error: "Server not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { server, error } = parseMcpServerInput(body, existing);
+    if (!server) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    saveMcpServer(server);
+    resetMcpServer(id);
+    return NextResponse.json({ ok: true, server });
+  } catch (error) {
+    const message = (error as Error).message;
+    if (message.includes("Authentication") || message.includes("Admin")) {
+      return NextResponse.json({ error: message }, { status: 403 });
+    }
+    if (message.includes("UNIQUE constraint")) {
+      return NextResponse.json(
+        { error: "A server with that name already exists" },
+        { status: 409 },
+      );
+    }
+    console.error("[mcp/servers/[id]] PATCH error:", error);
+    return NextResponse.json(
+      { error: "Failed to update MCP server" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Params },
+) {
+  try {
+    await requireAdmin();
+    const { id } = await params;
+    if (!deleteMcpServer(id)) {
+      return NextResponse.json({ error: "Server not found" }, { status: 404 });
+    }
+    resetMcpServer(id);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const message = (error as Error).message;
+    if (message.includes("Authentication") || message.includes("Admin")) {
+      return NextResponse.json({ error: message }, { status: 403 });
+    }
+    console.error("[mcp/servers/[id]] DELETE error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete MCP server" },
+      { status: 500 },
+    );
+  }
+}
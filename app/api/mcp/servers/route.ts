@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth-middleware";
+import { parseMcpServerInput, probeMcpServer, resetMcpServer } from "@/lib/mcp";
+import { getMcpServer, listMcpServers, saveMcpServer } from "@/lib/persistence";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    await requireAdmin();
+    const servers = listMcpServers();
+    const probe = new URL(request.url).searchParams.get("probe") === "1";
+    if (!probe) return NextResponse.json({ servers });
+
+    const statuses = await Promise.all(
+      servers.map((server) =>
+        server.enabled
+          ? probeMcpServer(server)
+          : Promise.resolve({ ok: false, error: "Disabled" }),
+      ),
+    );
+    return NextResponse.json({
+      servers: servers.map((server, index) => ({
+        ...server,
+        status: statuses[index],
+      })),
+    });
+  } catch (error) {
+    const message = (error as Error).message;
+    if (message.includes("Authentication") || message.includes("Admin")) {
+      return NextResponse.json({ error: message }, { status: 403 });
+    }
+    console.error("[mcp/servers] GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to list MCP servers" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    await requireAdmin();
+    const body = await request.json();
+    const { server, error } = parseMcpServerInput(body);
+    if (!server) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    if (getMcpServer(server.id)) {
+      return NextResponse.json(
+        { error: "A server with that name already exists" },
+        { status: 409 },
+      );
+    }
+
+    saveMcpServer(server);
+    resetMcpServer(server.id);
+    return NextResponse.json({ ok: true, server });
+  } catch (error) {
+    const message = (error as Error).message;
+    if (message.includes("Authentication") || message.includes("Admin")) {
+      return NextResponse.json({ error: message }, { status: 403 });
+    }
+    if (message.includes("UNIQUE constraint")) {
+      return NextResponse.json(
+        { error: "A server with that name already exists" },
+        { status: 409 },
+      );
+    }
+    console.error("[mcp/servers] POST error:", error);
+    return NextResponse.json(
+      { error: "Failed to save MCP server" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { getMcpToolRoute, getMcpTools } from "@/lib/mcp";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const tools = await getMcpTools();
+    return NextResponse.json({
+      tools: tools.map((tool) => {
+        const name = "function" in tool ? tool.function.name : "";
+        const route = getMcpToolRoute(name);
+        return {
+          name,
+          description: "function" in tool ? tool.function.description : "",
+          server: route?.serverName || "",
+          tool: route?.tool || name,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("[mcp/tools] GET error:", error);
+    return NextResponse.json(
+      { error: (error as Error).message || "Failed to load tools" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { listChatChanges } from "@/lib/persistence";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET ?since=<cursor> returns the chat changes after `since`; without it,
+// only the cursor to start polling from
+export async function GET(request: Request) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const raw = new URL(request.url).searchParams.get("since");
+    const since = raw === null ? undefined : Number(raw);
+    if (since !== undefined && !Number.isInteger(since)) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+    return NextResponse.json(listChatChanges(user.id, since));
+  } catch (error) {
+    console.error("[persistence/changes] GET error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { parseGenerationParams } from "@/lib/generation-params";
+import { applyChatPatch, type ChatPatch } from "@/lib/persistence";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function validatePatch(body: any): string | null {
+  if (!body || typeof body !== "object") return "Invalid body";
+  if (body.messages !== undefined && !Array.isArray(body.messages)) {
+    return "messages must be an array";
+  }
+  for (const msg of body.messages || []) {
+    if (!msg || typeof msg.id !== "string" || !msg.id) {
+      return "Every message needs an id";
+    }
+    if (typeof msg.role !== "string") return `Message ${msg.id} has no role`;
+    if (
+      msg.baseVersion !== undefined &&
+      msg.baseVersion !== null &&
+      typeof msg.baseVersion !== "number"
+    ) {
+      return `Message ${msg.id} has an invalid baseVersion`;
+    }
+  }
+  if (
+    body.enabledTools !== undefined &&
+    body.enabledTools !== null &&
+    !Array.isArray(body.enabledTools)
+  ) {
+    return "enabledTools must be an array or null";
+  }
+  if (
+    body.presetId !== undefined &&
+    body.presetId !== null &&
+    typeof body.presetId !== "string"
+  ) {
+    return "presetId must be a string or null";
+  }
+  if (body.generation !== undefined && body.generation !== null) {
+    const { error } = parseGenerationParams(body.generation);
+    if (error) return error;
+  }
+  if (
+    body.collectionId !== undefined &&
+    body.collectionId !== null &&
+    typeof body.collectionId !== "string"
+  ) {
+    return "collectionId must be a string or null";
+  }
+  return null;
+}
+
+// PATCH { messages: [{ ...message, baseVersion }], activeLeafId, enabledTools,
+//   presetId, generation, collectionId }
+// Writes messages whose baseVersion matches the stored version and returns the
+// rest as conflicts, with the stored copy, for the client to adopt.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const invalid = validatePatch(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const result = applyChatPatch(id, body as ChatPatch, user.id);
+    if (!result) {
+      return NextResponse.json(
+        { error: "Not found or not authorized" },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json(result, {
+      status: result.conflicts.length ? 409 : 200,
+    });
+  } catch (error) {
+    console.error("[persistence/chat/:id/messages] PATCH error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
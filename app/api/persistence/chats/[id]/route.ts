@@ -1,6 +1,11 @@
 import { type NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth-middleware";
-import { deleteChat, getChat } from "@/lib/persistence";
+import {
+  type ChatOrganization,
+  deleteChat,
+  getChat,
+  updateChatOrganization,
+} from "@/lib/persistence";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -29,6 +34,83 @@ export async function GET(
   }
 }
 
+const MAX_TITLE_LENGTH = 120;
+
+function validateOrganization(body: any): string | null {
+  if (!body || typeof body !== "object") return "Invalid body";
+  if (
+    body.title !== undefined &&
+    (typeof body.title !== "string" || !body.title.trim())
+  ) {
+    return "title must be a non-empty string";
+  }
+  if (body.title?.trim().length > MAX_TITLE_LENGTH) {
+    return `title must be ${MAX_TITLE_LENGTH} characters or less`;
+  }
+  if (
+    body.folderId !== undefined &&
+    body.folderId !== null &&
+    typeof body.folderId !== "string"
+  ) {
+    return "folderId must be a string or null";
+  }
+  if (body.pinned !== undefined && typeof body.pinned !== "boolean") {
+    return "pinned must be a boolean";
+  }
+  if (
+    body.tagIds !== undefined &&
+    (!Array.isArray(body.tagIds) ||
+      body.tagIds.some((tagId: unknown) => typeof tagId !== "string"))
+  ) {
+    return "tagIds must be an array of strings";
+  }
+  return null;
+}
+
+// PATCH { title, folderId, pinned, tagIds } renames, files, pins or tags the
+// chat and returns its updated summary. Omitted fields are left unchanged.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const invalid = validateOrganization(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const chat = updateChatOrganization(id, user.id, {
+      title: body.title?.trim(),
+      folderId: body.folderId,
+      pinned: body.pinned,
+      tagIds: body.tagIds,
+    } satisfies ChatOrganization);
+    if (!chat) {
+      return NextResponse.json(
+        { error: "Not found or not authorized" },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json({ chat });
+  } catch (error) {
+    console.error("[persistence/chat/:id] PATCH error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
+
 export async function DELETE(
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
@@ -1,8 +1,8 @@
 import { NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth-middleware";
 import {
-  getChat,
-  listChats,
+  decodeChatCursor,
+  listChatSummaries,
   type StoredChat,
   saveChat,
 } from "@/lib/persistence";
@@ -10,18 +10,33 @@ import {
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-export async function GET() {
+// GET ?cursor=&limit= returns one page of chat summaries, newest first.
+// Messages are loaded per chat from /api/persistence/chats/[id]. Optional
+// filters: folderId (empty for unfiled chats), tagId and pinned=true|false.
+export async function GET(request: Request) {
   try {
     const user = await getCurrentUser();
     if (!user) {
       return NextResponse.json({ error: "Authentication required" }, { status: 401 });
     }
 
-    const summaries = listChats(user.id);
-    const chats = summaries
-      .map((c) => getChat(c.id, user.id))
-      .filter(Boolean) as StoredChat[];
-    return NextResponse.json({ chats });
+    const url = new URL(request.url);
+    const rawCursor = url.searchParams.get("cursor");
+    const cursor = rawCursor ? decodeChatCursor(rawCursor) : null;
+    if (rawCursor && !cursor) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+    const limit = Number(url.searchParams.get("limit")) || undefined;
+    const pinned = url.searchParams.get("pinned");
+    return NextResponse.json(
+      listChatSummaries(user.id, {
+        cursor,
+        limit,
+        folderId: url.searchParams.get("folderId") ?? undefined,
+        tagId: url.searchParams.get("tagId") || undefined,
+        pinned: pinned === null ? undefined : pinned === "true",
+      }),
+    );
   } catch (error) {
     console.error("[persistence/chats] GET error", error);
     return NextResponse.json(
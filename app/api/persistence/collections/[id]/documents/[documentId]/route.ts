@@ -0,0 +1,77 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import {
+  deleteKnowledgeDocument,
+  getKnowledgeDocument,
+} from "@/lib/persistence";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string; documentId: string }> };
+
+// GET returns the document's text as stored, passage by passage; answers link
+// here from their knowledge citations
+export async function GET(_request: NextRequest, { params }: Params) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const { id, documentId } = await params;
+    const document = getKnowledgeDocument(id, documentId, user.id);
+    if (!document) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    let lastLabel: string | null = null;
+    const sections = document.chunks.map((chunk) => {
+      const heading =
+        chunk.label && chunk.label !== lastLabel ? `[${chunk.label}]\n` : "";
+      lastLabel = chunk.label;
+      return `${heading}${chunk.text}`;
+    });
+    return new NextResponse([document.name, ...sections].join("\n\n"), {
+      headers: { "Content-Type": "text/plain; charset=utf-8" },
+    });
+  } catch (error) {
+    console.error(
+      "[persistence/collections/:id/documents/:id] GET error",
+      error,
+    );
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const { id, documentId } = await params;
+    if (!deleteKnowledgeDocument(id, documentId, user.id)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error(
+      "[persistence/collections/:id/documents/:id] DELETE error",
+      error,
+    );
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
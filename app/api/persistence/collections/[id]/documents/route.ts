@@ -0,0 +1,140 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { isBudgetError } from "@/lib/budgets";
+import { collectionEmbedder } from "@/lib/chat";
+import { extractDocument } from "@/lib/document-extraction";
+import {
+  documentFormat,
+  type ExtractedDocument,
+  MAX_DOCUMENT_BYTES,
+} from "@/lib/documents";
+import { KNOWLEDGE_CHUNK_CHARS } from "@/lib/knowledge";
+import { embedDocument } from "@/lib/knowledge-base";
+import {
+  addKnowledgeDocument,
+  getKnowledgeCollection,
+} from "@/lib/persistence";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST multipart/form-data { file } adds a PDF, DOCX, XLSX, CSV or PPTX file
+// to the collection: its text is split into passages and embedded with the
+// collection's model, using the user's saved keys and local URL.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+    const collection = getKnowledgeCollection(id, user.id);
+    if (!collection) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const form = await request.formData().catch(() => null);
+    const file = form?.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "Missing file" }, { status: 400 });
+    }
+    const format = documentFormat(file.name, file.type);
+    if (!format) {
+      return NextResponse.json(
+        { error: `Unsupported document type: ${file.name}` },
+        { status: 415 },
+      );
+    }
+    if (file.size > MAX_DOCUMENT_BYTES) {
+      return NextResponse.json(
+        {
+          error: `Documents must be ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB or less`,
+        },
+        { status: 413 },
+      );
+    }
+
+    let extracted: ExtractedDocument;
+    try {
+      extracted = await extractDocument(
+        new Uint8Array(await file.arrayBuffer()),
+        format,
+        KNOWLEDGE_CHUNK_CHARS,
+      );
+    } catch (err) {
+      console.warn(
+        "[persistence/collections] extraction failed",
+        file.name,
+        err,
+      );
+      return NextResponse.json(
+        { error: `Could not read ${file.name}` },
+        { status: 422 },
+      );
+    }
+    if (!extracted.chunks.length) {
+      return NextResponse.json(
+        { error: `No text found in ${file.name}` },
+        { status: 422 },
+      );
+    }
+
+    let chunks: Awaited<ReturnType<typeof embedDocument>>;
+    try {
+      const embed = collectionEmbedder(collection, {
+        userId: user.id,
+        costMetadata: { source: "collection", document: file.name },
+      });
+      chunks = await embedDocument(embed, collection, extracted);
+    } catch (err) {
+      console.warn(
+        "[persistence/collections] embedding failed",
+        file.name,
+        err,
+      );
+      if (isBudgetError(err)) {
+        return NextResponse.json(
+          { error: (err as Error).message },
+          { status: 402 },
+        );
+      }
+      return NextResponse.json(
+        { error: `Embedding failed: ${(err as Error).message}` },
+        { status: 502 },
+      );
+    }
+
+    const document = addKnowledgeDocument(
+      id,
+      {
+        name: file.name,
+        format,
+        pages: extracted.pages,
+        chars: extracted.chars,
+      },
+      chunks,
+      user.id,
+    );
+    if (!document) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({
+      document,
+      collection: getKnowledgeCollection(id, user.id),
+      truncated: extracted.truncated,
+    });
+  } catch (error) {
+    console.error("[persistence/collections/:id/documents] POST error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
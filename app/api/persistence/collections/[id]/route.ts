@@ -0,0 +1,138 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { parseCollectionInput } from "@/lib/knowledge";
+import {
+  deleteKnowledgeCollection,
+  getKnowledgeCollection,
+  listKnowledgeCollections,
+  listKnowledgeDocuments,
+  saveKnowledgeCollection,
+} from "@/lib/persistence";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET returns the collection with its documents
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+    const collection = getKnowledgeCollection(id, user.id);
+    if (!collection) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({
+      collection,
+      documents: listKnowledgeDocuments(id, user.id) || [],
+    });
+  } catch (error) {
+    console.error("[persistence/collections/:id] GET error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
+
+// PATCH { name, description, provider, embeddingModel } replaces the
+// collection. The embedding model can only change while it has no documents,
+// since their vectors would no longer be comparable with the queries.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const { collection, error } = parseCollectionInput(body);
+    if (!collection) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    const collections = listKnowledgeCollections(user.id);
+    const current = collections.find((existing) => existing.id === id);
+    if (!current) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    if (
+      collections.some(
+        (existing) => existing.id !== id && existing.name === collection.name,
+      )
+    ) {
+      return NextResponse.json(
+        { error: `A collection named "${collection.name}" already exists` },
+        { status: 409 },
+      );
+    }
+    if (
+      current.documentCount > 0 &&
+      (current.provider !== collection.provider ||
+        current.embeddingModel !== collection.embeddingModel)
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "Remove the collection's documents before changing its embedding model",
+        },
+        { status: 409 },
+      );
+    }
+    const saved = saveKnowledgeCollection({ ...collection, id }, user.id);
+    if (!saved) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({ collection: saved });
+  } catch (error) {
+    console.error("[persistence/collections/:id] PATCH error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE removes the collection and its documents; chats that searched it are
+// answered without
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+    if (!deleteKnowledgeCollection(id, user.id)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("[persistence/collections/:id] DELETE error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
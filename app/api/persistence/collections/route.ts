@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { parseCollectionInput } from "@/lib/knowledge";
+import {
+  listKnowledgeCollections,
+  saveKnowledgeCollection,
+} from "@/lib/persistence";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+    return NextResponse.json({
+      collections: listKnowledgeCollections(user.id),
+    });
+  } catch (error) {
+    console.error("[persistence/collections] GET error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
+
+// POST { name, description, provider, embeddingModel } creates an empty
+// collection
+export async function POST(request: Request) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { collection, error } = parseCollectionInput(body);
+    if (!collection) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    const taken = listKnowledgeCollections(user.id).some(
+      (existing) => existing.name === collection.name,
+    );
+    if (taken) {
+      return NextResponse.json(
+        { error: `A collection named "${collection.name}" already exists` },
+        { status: 409 },
+      );
+    }
+    return NextResponse.json({
+      collection: saveKnowledgeCollection(collection, user.id),
+    });
+  } catch (error) {
+    console.error("[persistence/collections] POST error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { deleteChatFolder, saveChatFolder } from "@/lib/persistence";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_FOLDER_NAME = 60;
+
+function validateFolder(body: any): string | null {
+  if (!body || typeof body !== "object") return "Invalid body";
+  if (typeof body.name !== "string" || !body.name.trim()) {
+    return "Name is required";
+  }
+  if (body.name.trim().length > MAX_FOLDER_NAME) {
+    return `Name must be ${MAX_FOLDER_NAME} characters or less`;
+  }
+  if (body.position !== undefined && !Number.isInteger(body.position)) {
+    return "position must be an integer";
+  }
+  return null;
+}
+
+// PATCH { name, position } renames or moves the folder
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const invalid = validateFolder(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+    const folder = saveChatFolder(
+      { id, name: body.name.trim(), position: body.position },
+      user.id,
+    );
+    if (!folder) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({ folder });
+  } catch (error) {
+    console.error("[persistence/folders/:id] PATCH error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE keeps the folder's chats, moving them out of it
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+    if (!deleteChatFolder(id, user.id)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("[persistence/folders/:id] DELETE error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { listChatFolders, saveChatFolder } from "@/lib/persistence";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_FOLDER_NAME = 60;
+
+function validateFolderName(name: unknown): string | null {
+  if (typeof name !== "string" || !name.trim()) return "Name is required";
+  if (name.trim().length > MAX_FOLDER_NAME) {
+    return `Name must be ${MAX_FOLDER_NAME} characters or less`;
+  }
+  return null;
+}
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+    return NextResponse.json({ folders: listChatFolders(user.id) });
+  } catch (error) {
+    console.error("[persistence/folders] GET error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
+
+// POST { name } creates a folder after the existing ones
+export async function POST(request: Request) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const invalid = validateFolderName(body?.name);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+    const folder = saveChatFolder({ name: body.name.trim() }, user.id);
+    return NextResponse.json({ folder });
+  } catch (error) {
+    console.error("[persistence/folders] POST error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
@@ -1,10 +1,58 @@
 import { NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth-middleware";
+import { readImage } from "@/lib/image-blobs";
 import { deleteImage } from "@/lib/persistence";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+// GET serves a stored image file by its content hash; DELETE removes a gallery
+// entry by its id.
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> },
+) {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const image = readImage(id, user.id);
+        if (!image) {
+            return NextResponse.json({ error: "Image not found" }, { status: 404 });
+        }
+
+        // Content-addressed, so the bytes behind an id never change
+        const etag = `"${id}"`;
+        const headers = {
+            "Cache-Control": "private, max-age=31536000, immutable",
+            ETag: etag,
+            // Served from the app's origin, so never let it be read as
+            // anything but an image or run anything
+            "X-Content-Type-Options": "nosniff",
+            "Content-Security-Policy": "default-src 'none'",
+        };
+        if (request.headers.get("if-none-match") === etag) {
+            return new Response(null, { status: 304, headers });
+        }
+        return new Response(new Uint8Array(image.data), {
+            headers: {
+                ...headers,
+                "Content-Type": image.mime,
+                "Content-Length": String(image.data.length),
+            },
+        });
+    } catch (error) {
+        console.error("[persistence/images/[id]] GET error", error);
+        return NextResponse.json(
+            { error: "Persistence error", details: (error as Error).message },
+            { status: 500 },
+        );
+    }
+}
+
 export async function DELETE(
     _request: Request,
     { params }: { params: Promise<{ id: string }> },
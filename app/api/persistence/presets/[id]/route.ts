@@ -0,0 +1,75 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { deletePromptPreset, savePromptPreset } from "@/lib/persistence";
+import { parsePromptPresetInput } from "@/lib/prompt-presets";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// PATCH replaces the preset; only its owner or an admin may change it
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const { preset, error } = parsePromptPresetInput(body);
+    if (!preset) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    const saved = savePromptPreset({ ...preset, id }, user);
+    if (!saved) {
+      return NextResponse.json(
+        { error: "Not found or not authorized" },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json({ preset: saved });
+  } catch (error) {
+    console.error("[persistence/presets/:id] PATCH error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE leaves chats that use the preset on the user's settings
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+    if (!deletePromptPreset(id, user)) {
+      return NextResponse.json(
+        { error: "Not found or not authorized" },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("[persistence/presets/:id] DELETE error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { listPromptPresets, savePromptPreset } from "@/lib/persistence";
+import { parsePromptPresetInput } from "@/lib/prompt-presets";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET lists the user's own presets and those shared by others
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+    return NextResponse.json({ presets: listPromptPresets(user) });
+  } catch (error) {
+    console.error("[persistence/presets] GET error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
+
+// POST { name, systemPrompt, provider, model, deepSearch, temperature, shared }
+export async function POST(request: Request) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { preset, error } = parsePromptPresetInput(body);
+    if (!preset) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    return NextResponse.json({ preset: savePromptPreset(preset, user) });
+  } catch (error) {
+    console.error("[persistence/presets] POST error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
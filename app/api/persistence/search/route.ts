@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { searchChats } from "@/lib/search";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_LIMIT = 100;
+
+// GET ?q=terms&limit=30&folderId=&tagId=
+export async function GET(request: Request) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const url = new URL(request.url);
+    const query = url.searchParams.get("q") || "";
+    const limit = Math.min(
+      Math.max(Number(url.searchParams.get("limit")) || 30, 1),
+      MAX_LIMIT,
+    );
+    const results = searchChats(query, user.id, limit, {
+      folderId: url.searchParams.get("folderId"),
+      tagId: url.searchParams.get("tagId"),
+    });
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("[persistence/search] GET error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { deleteChatTag, listChatTags, saveChatTag } from "@/lib/persistence";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_TAG_NAME = 30;
+
+function validateTag(body: any): string | null {
+  if (!body || typeof body !== "object") return "Invalid body";
+  if (typeof body.name !== "string" || !body.name.trim()) {
+    return "Name is required";
+  }
+  if (body.name.trim().length > MAX_TAG_NAME) {
+    return `Name must be ${MAX_TAG_NAME} characters or less`;
+  }
+  if (typeof body.color !== "string" || !/^#[0-9a-f]{6}$/i.test(body.color)) {
+    return "color must be a hex color like #60a5fa";
+  }
+  return null;
+}
+
+// PATCH { name, color } renames or recolors the tag
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const invalid = validateTag(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+    const name = body.name.trim();
+    const taken = listChatTags(user.id).some(
+      (tag) => tag.id !== id && tag.name === name,
+    );
+    if (taken) {
+      return NextResponse.json(
+        { error: "A tag with this name already exists" },
+        { status: 409 },
+      );
+    }
+    const tag = saveChatTag(
+      { id, name, color: body.color.toLowerCase() },
+      user.id,
+    );
+    if (!tag) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({ tag });
+  } catch (error) {
+    console.error("[persistence/tags/:id] PATCH error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE also removes the tag from every chat
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+    if (!deleteChatTag(id, user.id)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("[persistence/tags/:id] DELETE error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { listChatTags, saveChatTag } from "@/lib/persistence";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_TAG_NAME = 30;
+
+function validateTag(body: any): string | null {
+  if (!body || typeof body !== "object") return "Invalid body";
+  if (typeof body.name !== "string" || !body.name.trim()) {
+    return "Name is required";
+  }
+  if (body.name.trim().length > MAX_TAG_NAME) {
+    return `Name must be ${MAX_TAG_NAME} characters or less`;
+  }
+  if (typeof body.color !== "string" || !/^#[0-9a-f]{6}$/i.test(body.color)) {
+    return "color must be a hex color like #60a5fa";
+  }
+  return null;
+}
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+    return NextResponse.json({ tags: listChatTags(user.id) });
+  } catch (error) {
+    console.error("[persistence/tags] GET error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
+
+// POST { name, color } creates a tag, or recolors the tag with that name
+export async function POST(request: Request) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const invalid = validateTag(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+    const tag = saveChatTag(
+      { name: body.name.trim(), color: body.color.toLowerCase() },
+      user.id,
+    );
+    return NextResponse.json({ tag });
+  } catch (error) {
+    console.error("[persistence/tags] POST error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
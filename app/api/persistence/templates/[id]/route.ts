@@ -0,0 +1,81 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import {
+  deletePromptTemplate,
+  listPromptTemplates,
+  savePromptTemplate,
+} from "@/lib/persistence";
+import { parsePromptTemplateInput } from "@/lib/prompt-templates";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// PATCH { name, description, body } replaces the template
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const { template, error } = parsePromptTemplateInput(body);
+    if (!template) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    const taken = listPromptTemplates(user.id).some(
+      (existing) => existing.id !== id && existing.name === template.name,
+    );
+    if (taken) {
+      return NextResponse.json(
+        { error: `A template named /${template.name} already exists` },
+        { status: 409 },
+      );
+    }
+    const saved = savePromptTemplate({ ...template, id }, user.id);
+    if (!saved) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({ template: saved });
+  } catch (error) {
+    console.error("[persistence/templates/:id] PATCH error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+    if (!deletePromptTemplate(id, user.id)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("[persistence/templates/:id] DELETE error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { importPromptTemplates, listPromptTemplates } from "@/lib/persistence";
+import { parseTemplateImport } from "@/lib/prompt-templates";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST an exported file ({ templates: [...] }) or a bare array. Templates
+// replace the user's templates of the same name; nothing is written when any
+// of them is invalid.
+export async function POST(request: Request) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { templates, error } = parseTemplateImport(body);
+    if (!templates) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    const imported = importPromptTemplates(templates, user.id);
+    return NextResponse.json({
+      imported,
+      templates: listPromptTemplates(user.id),
+    });
+  } catch (error) {
+    console.error("[persistence/templates/import] POST error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
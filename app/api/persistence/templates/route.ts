@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { listPromptTemplates, savePromptTemplate } from "@/lib/persistence";
+import { parsePromptTemplateInput } from "@/lib/prompt-templates";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+    return NextResponse.json({ templates: listPromptTemplates(user.id) });
+  } catch (error) {
+    console.error("[persistence/templates] GET error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
+
+// POST { name, description, body } creates a template
+export async function POST(request: Request) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { template, error } = parsePromptTemplateInput(body);
+    if (!template) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    const taken = listPromptTemplates(user.id).some(
+      (existing) => existing.name === template.name,
+    );
+    if (taken) {
+      return NextResponse.json(
+        { error: `A template named /${template.name} already exists` },
+        { status: 409 },
+      );
+    }
+    return NextResponse.json({
+      template: savePromptTemplate(template, user.id),
+    });
+  } catch (error) {
+    console.error("[persistence/templates] POST error", error);
+    return NextResponse.json(
+      { error: "Persistence error", details: (error as Error).message },
+      { status: 500 },
+    );
+  }
+}
@@ -1,24 +1,33 @@
 import { NextResponse } from "next/server";
-import { listRecentCosts } from "@/lib/pricing";
+import { requireAuth } from "@/lib/auth-middleware";
+import { costQueryFromParams, listRecentCosts } from "@/lib/pricing";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function GET(request: Request) {
   try {
+    const user = await requireAuth();
     const url = new URL(request.url);
     const limitParam = Number(url.searchParams.get("limit"));
     const limit =
       Number.isFinite(limitParam) && limitParam > 0
         ? Math.min(Math.max(Math.floor(limitParam), 1), 500)
         : 50;
-    const costs = listRecentCosts(limit);
+    const query = Object.fromEntries(url.searchParams);
+    const userId = user.isAdmin ? query.userId || undefined : user.id;
+    const { filter } = costQueryFromParams(query);
+    const costs = listRecentCosts(limit, { ...filter, userId });
     return NextResponse.json({ costs });
   } catch (error) {
+    const message = (error as Error).message;
+    if (message.includes("Authentication")) {
+      return NextResponse.json({ error: message }, { status: 403 });
+    }
     return NextResponse.json(
       {
         error: "Failed to load pricing costs",
-        details: (error as Error).message,
+        details: message,
       },
       { status: 500 },
     );
@@ -1,18 +1,28 @@
 import { NextResponse } from "next/server";
-import { summarizeCosts } from "@/lib/pricing";
+import { requireAuth } from "@/lib/auth-middleware";
+import { costQueryFromParams, summarizeCosts } from "@/lib/pricing";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const summary = summarizeCosts();
+    const user = await requireAuth();
+    // Admins may look at anyone's spend (or everyone's); users see their own
+    const query = Object.fromEntries(new URL(request.url).searchParams);
+    const userId = user.isAdmin ? query.userId || undefined : user.id;
+    const { filter } = costQueryFromParams(query);
+    const summary = summarizeCosts({ ...filter, userId });
     return NextResponse.json(summary);
   } catch (error) {
+    const message = (error as Error).message;
+    if (message.includes("Authentication")) {
+      return NextResponse.json({ error: message }, { status: 403 });
+    }
     return NextResponse.json(
       {
         error: "Failed to load pricing summary",
-        details: (error as Error).message,
+        details: message,
       },
       { status: 500 },
     );
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-middleware";
+import {
+  costQueryFromParams,
+  costSeriesToCsv,
+  costTimeSeries,
+} from "@/lib/pricing";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET ?bucket=day|week|month&groupBy=provider|model&provider=&model=
+//     &from=YYYY-MM-DD&to=YYYY-MM-DD&userId=&format=csv
+export async function GET(request: Request) {
+  try {
+    const user = await requireAuth();
+    const url = new URL(request.url);
+    const query = Object.fromEntries(url.searchParams);
+    const { filter, bucket, groupBy } = costQueryFromParams(query);
+    const userId = user.isAdmin ? query.userId || undefined : user.id;
+    const series = costTimeSeries(bucket, { ...filter, userId }, groupBy);
+
+    if (query.format === "csv") {
+      return new Response(costSeriesToCsv(series, groupBy), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="costs-by-${bucket}.csv"`,
+        },
+      });
+    }
+    return NextResponse.json({ bucket, groupBy, series });
+  } catch (error) {
+    const message = (error as Error).message;
+    if (message.includes("Authentication")) {
+      return NextResponse.json({ error: message }, { status: 403 });
+    }
+    return NextResponse.json(
+      {
+        error: "Failed to load cost time series",
+        details: message,
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { getApiUser } from "@/lib/auth-middleware";
+import {
+  createCompletion,
+  errorBody,
+  type GatewayRequest,
+  streamCompletion,
+  upstreamStatus,
+  validateGatewayRequest,
+} from "@/lib/openai-gateway";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const user = getApiUser(request);
+  if (!user) {
+    return NextResponse.json(
+      errorBody("Invalid or missing API token", "authentication_error"),
+      { status: 401 },
+    );
+  }
+
+  let body: GatewayRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(errorBody("Request body must be JSON"), {
+      status: 400,
+    });
+  }
+  const invalid = validateGatewayRequest(body);
+  if (invalid) {
+    return NextResponse.json(errorBody(invalid), { status: 400 });
+  }
+
+  try {
+    if (body.stream) {
+      const stream = await streamCompletion(user, body, request.signal);
+      return new Response(stream, {
+        headers: {
+          "Content-Type": "text/event-stream; charset=utf-8",
+          "Cache-Control": "no-cache, no-transform",
+          Connection: "keep-alive",
+          "X-Accel-Buffering": "no",
+        },
+      });
+    }
+    return NextResponse.json(
+      await createCompletion(user, body, request.signal),
+    );
+  } catch (error) {
+    console.error("[v1/chat/completions] POST error:", error);
+    const status = upstreamStatus(error);
+    return NextResponse.json(
+      errorBody(
+        (error as Error).message,
+        status === 402 ? "insufficient_quota" : "api_error",
+      ),
+      { status },
+    );
+  }
+}
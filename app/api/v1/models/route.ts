@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getApiUser } from "@/lib/auth-middleware";
+import { errorBody, listModels } from "@/lib/openai-gateway";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const user = getApiUser(request);
+  if (!user) {
+    return NextResponse.json(
+      errorBody("Invalid or missing API token", "authentication_error"),
+      { status: 401 },
+    );
+  }
+
+  const provider = new URL(request.url).searchParams.get("provider");
+  return NextResponse.json(await listModels(user, provider || undefined));
+}
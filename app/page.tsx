@@ -9,19 +9,34 @@ import { ChatSidebar } from "@/components/chat-sidebar";
 import { ChatThread } from "@/components/chat-thread";
 import { SettingsModal } from "@/components/settings-modal";
 import {
-  chatsArrayToMap,
-  createMessageId,
-  messageText,
-  threadToStored,
-} from "@/lib/chat-utils";
+  activePath,
+  deepestLeaf,
+  normalizeTree,
+  siblingsOf,
+} from "@/lib/chat-tree";
+import { createMessageId, messageText } from "@/lib/chat-utils";
+import {
+  MIN_COMPARE_TARGETS,
+  openComparison,
+  usableCompareTargets,
+} from "@/lib/compare";
 import {
   deepSearchPrompt,
   defaultImageModel,
   defaultModels,
   mergeEnvDefaults,
 } from "@/lib/config-utils";
+import {
+  DOCUMENT_ACCEPT,
+  DOCUMENT_CONTEXT_CHARS,
+  documentContext,
+} from "@/lib/documents";
 import { exportChat } from "@/lib/export";
 import { readAttachment } from "@/lib/file-utils";
+import {
+  generationForProvider,
+  mergeGenerationParams,
+} from "@/lib/generation-params";
 import {
   loadCustomShortcuts,
   SHORTCUT_CONFIGS,
@@ -30,20 +45,31 @@ import {
 import { estimateImageCost } from "@/lib/model-utils";
 import { useAuthStore } from "@/lib/store/auth-store";
 import { useChatStore } from "@/lib/store/chat-store";
+import { useCollectionStore } from "@/lib/store/collection-store";
 import { useConfigStore } from "@/lib/store/config-store";
 import { useModelStore } from "@/lib/store/model-store";
+import { usePresetStore } from "@/lib/store/preset-store";
+import { useTemplateStore } from "@/lib/store/template-store";
 import { useUIStore } from "@/lib/store/ui-store";
 import { useTheme } from "@/lib/theme";
 import type {
   ChatMap,
   ChatMessage,
+  Citation,
+  CompareTarget,
   ContentPart,
+  GenerationParams,
+  MessageTokens,
+  PromptPreset,
   Provider,
+  ProviderErrorKind,
+  ToolCallStep,
   UiConfig,
 } from "@/types/chat";
 
 const _MAX_UPLOAD_BYTES = 8 * 1024 * 1024;
 const MAX_MESSAGE_CHARS = 16000;
+const CHANGE_POLL_MS = 5000;
 
 // Utils moved to lib/chat-utils.ts and lib/config-utils.ts
 
@@ -88,6 +114,17 @@ export default function Page() {
   const {
     chats,
     setChats,
+    chatInfo,
+    setChatInfo,
+    updateChatInfo,
+    summaries,
+    pinned,
+    loadSummaries,
+    loadOrganization,
+    loadChat,
+    syncChats,
+    pullChanges,
+    generateTitle,
     currentChatId,
     setCurrentChatId,
     attachments,
@@ -96,6 +133,8 @@ export default function Page() {
     // setSearchQuery,
     messageSearch,
     setMessageSearch,
+    focusMessageId,
+    setFocusMessageId,
     regeneratingId,
     setRegeneratingId,
     copiedId,
@@ -125,19 +164,33 @@ export default function Page() {
     // setImageSettingsExpanded,
     showReasoning,
     setShowReasoning,
+    compareOn,
+    setCompareOn,
+    compareTargets,
+    setCompareTargets,
   } = useUIStore();
 
+  const { presets, loadPresets } = usePresetStore();
+  const { collections, loadCollections } = useCollectionStore();
+  const loadTemplates = useTemplateStore((state) => state.loadTemplates);
+
   // Local state for things that don't need to be in global store or are derived
 
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
   const [deepSearchActive, setDeepSearchActive] = useState(false);
+  const [budgetWarning, setBudgetWarning] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
 
   // Refs
   const editInputRef = useRef<HTMLTextAreaElement>(null);
   const swRegisteredRef = useRef(false);
-  const heroInputRef = useRef<HTMLInputElement>(null);
-  const composerInputRef = useRef<HTMLInputElement>(null);
+  const heroInputRef = useRef<HTMLTextAreaElement>(null);
+  const composerInputRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Stops for the answers streaming now, by assistant message id
+  const stopControllers = useRef(new Map<string, AbortController>());
 
   // Helper function to get API keys
   function getProviderApiKey(provider: Provider, cfg: UiConfig = config) {
@@ -203,20 +256,25 @@ export default function Page() {
         }
       } catch { }
 
+      loadPresets().catch(() => undefined);
+      loadTemplates().catch(() => undefined);
+      loadCollections().catch(() => undefined);
       try {
-        const chatRes = await fetch("/api/persistence/chats", {
-          cache: "no-store",
-        });
-        if (chatRes.ok) {
-          const data = await chatRes.json();
-          if (Array.isArray(data?.chats)) {
-            const mapped = chatsArrayToMap(data.chats);
-            // Replace localStorage chats with server chats (user-specific data)
-            setChats(mapped);
-            const firstId =
-              Object.keys(mapped)[0] || "";
-            if (firstId) setCurrentChatId(firstId);
-          }
+        // Start following the change feed before reading, so nothing saved
+        // in between is missed
+        await pullChanges();
+        await Promise.all([loadSummaries(), loadOrganization()]);
+        // Server chats replace anything created before they arrived; their
+        // messages load when each chat is opened
+        setChats({});
+        setChatInfo({});
+        const state = useChatStore.getState();
+        const loaded = [...state.pinned, ...state.summaries];
+        if (
+          loaded.length &&
+          !loaded.some((c) => c.id === state.currentChatId)
+        ) {
+          setCurrentChatId(loaded[0].id);
         }
       } catch { }
       setPersistLoaded(true);
@@ -225,7 +283,14 @@ export default function Page() {
     hydrated,
     serverDefaults,
     setConfig,
+    pullChanges,
+    loadSummaries,
+    loadOrganization,
+    loadPresets,
+    loadTemplates,
+    loadCollections,
     setChats,
+    setChatInfo,
     setCurrentChatId,
     setPersistLoaded,
   ]);
@@ -243,7 +308,7 @@ export default function Page() {
       let changed = false;
       const next: ChatMap = {};
       Object.entries(prev).forEach(([id, msgs]) => {
-        next[id] = (msgs || []).map((m, idx) => {
+        const withIds = (msgs || []).map((m, idx) => {
           if (m.id) return m;
           changed = true;
           return {
@@ -252,15 +317,28 @@ export default function Page() {
             createdAt: m.createdAt || Date.now(),
           };
         });
+        next[id] = normalizeTree(withIds);
+        if (next[id] !== withIds) changed = true;
       });
       return changed ? next : prev;
     });
   }, [hydrated, setChats]);
 
+  // The open chat is on the server but its messages are not loaded yet
+  const chatLoading =
+    !!currentChatId &&
+    !chats[currentChatId] &&
+    [...pinned, ...summaries].some((c) => c.id === currentChatId);
+
+  useEffect(() => {
+    if (!chatLoading) return;
+    loadChat(currentChatId).catch(() => undefined);
+  }, [chatLoading, currentChatId, loadChat]);
+
   useEffect(() => {
     if (!hydrated) return;
     if (currentChatId) {
-      if (!chats[currentChatId]) {
+      if (!chats[currentChatId] && !chatLoading) {
         setChats((prev) => ({
           ...prev,
           [currentChatId]: prev[currentChatId] || [],
@@ -286,7 +364,7 @@ export default function Page() {
     try {
       localStorage.setItem("currentChatId", id);
     } catch { }
-  }, [currentChatId, chats, hydrated, setCurrentChatId, setChats]);
+  }, [currentChatId, chats, chatLoading, hydrated, setCurrentChatId, setChats]);
 
   useEffect(() => {
     try {
@@ -306,26 +384,58 @@ export default function Page() {
     return () => clearTimeout(timer);
   }, [config, hydrated, persistLoaded]);
 
+  // Save changed messages once edits settle
   useEffect(() => {
-    try {
-      localStorage.setItem("chats", JSON.stringify(chats));
-    } catch { }
-  }, [chats]);
+    if (!hydrated || !persistLoaded) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = useChatStore.subscribe((state, prev) => {
+      if (state.chats === prev.chats && state.chatInfo === prev.chatInfo) {
+        return;
+      }
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        syncChats().catch(() => undefined);
+      }, 800);
+    });
+    return () => {
+      unsubscribe();
+      clearTimeout(timer);
+    };
+  }, [hydrated, persistLoaded, syncChats]);
 
+  // Follow changes made in other tabs and on other devices
   useEffect(() => {
     if (!hydrated || !persistLoaded) return;
-    const thread = chats[currentChatId] || [];
-    if (!thread.length) return;
-    const payload = threadToStored(currentChatId, thread);
-    const timer = setTimeout(() => {
-      fetch("/api/persistence/chats", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      }).catch(() => undefined);
-    }, 800);
-    return () => clearTimeout(timer);
-  }, [chats, currentChatId, hydrated, persistLoaded]);
+    const pull = () => {
+      if (document.visibilityState !== "visible") return;
+      pullChanges().catch(() => undefined);
+    };
+    // Folders, tags, personas, templates and collections are not in the
+    // change feed; refresh them on return
+    const refresh = () => {
+      pull();
+      if (document.visibilityState === "visible") {
+        loadOrganization().catch(() => undefined);
+        loadPresets().catch(() => undefined);
+        loadTemplates().catch(() => undefined);
+        loadCollections().catch(() => undefined);
+      }
+    };
+    const timer = setInterval(pull, CHANGE_POLL_MS);
+    document.addEventListener("visibilitychange", refresh);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener("visibilitychange", refresh);
+    };
+  }, [
+    hydrated,
+    persistLoaded,
+    pullChanges,
+    loadOrganization,
+    loadPresets,
+    loadTemplates,
+    loadCollections,
+  ]);
 
   useEffect(() => {
     const onDragOver = (e: DragEvent) => e.preventDefault();
@@ -496,11 +606,12 @@ export default function Page() {
     });
   }
 
+  const activeLeafId = chatInfo[currentChatId]?.activeLeafId;
   const thread = useMemo(
-    () => chats[currentChatId] || [],
-    [chats, currentChatId],
+    () => activePath(chats[currentChatId] || [], activeLeafId),
+    [chats, currentChatId, activeLeafId],
   );
-  const isEmpty = thread.length === 0;
+  const isEmpty = thread.length === 0 && !chatLoading;
 
   const visibleThread = useMemo(() => {
     const q = messageSearch.trim().toLowerCase();
@@ -514,6 +625,44 @@ export default function Page() {
 
   const searchActive = !!messageSearch.trim();
 
+  // Jump to a message picked from search: show its branch, clear the thread
+  // filter if it hides the message, then scroll to it
+  useEffect(() => {
+    if (!focusMessageId) return;
+    const messages = chats[currentChatId] || [];
+    if (!messages.some((m) => m.id === focusMessageId)) return;
+    if (!thread.some((m) => m.id === focusMessageId)) {
+      updateChatInfo(currentChatId, {
+        activeLeafId: deepestLeaf(normalizeTree(messages), focusMessageId),
+      });
+      return;
+    }
+    if (!visibleThread.some((m) => m.id === focusMessageId)) {
+      setMessageSearch("");
+      return;
+    }
+    document
+      .querySelector(`[data-message-id="${CSS.escape(focusMessageId)}"]`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedMessageId(focusMessageId);
+    setFocusMessageId(null);
+  }, [
+    focusMessageId,
+    chats,
+    currentChatId,
+    thread,
+    visibleThread,
+    updateChatInfo,
+    setMessageSearch,
+    setFocusMessageId,
+  ]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
   function formatMessageTime(msg: ChatMessage) {
     const ts =
       msg.createdAt ||
@@ -537,33 +686,61 @@ export default function Page() {
     else heroInputRef.current?.focus();
   }
 
-  function getActiveModel() {
+  function getActiveModel(provider: Provider = config.provider) {
     return (
-      config.models?.[config.provider] ||
-      config.model ||
-      (config.provider === "openrouter"
-        ? defaultModels.openrouter
-        : config.provider === "nanogpt"
-          ? defaultModels.nanogpt
-          : defaultModels.local)
+      config.models?.[provider] ||
+      (provider === config.provider ? config.model : "") ||
+      defaultModels[provider]
     );
   }
 
-  function buildPayload(messages: ChatMessage[]) {
-    const deepSearchEnabled = config.deepSearch;
-    const apiKey = getProviderApiKey(config.provider);
+  // The chat's persona, unless it was deleted or is no longer shared
+  function presetOf(chatId: string) {
+    const presetId = chatInfo[chatId]?.presetId;
+    return presets.find((preset) => preset.id === presetId) || null;
+  }
+
+  // Generation params from the settings and the persona's temperature; a
+  // chat's own overrides go on top
+  function inheritedGeneration(preset: PromptPreset | null) {
+    return mergeGenerationParams(config.generation, {
+      temperature: preset?.temperature ?? undefined,
+    });
+  }
+
+  // A persona replaces the system prompt and deep search setting, and the
+  // provider, model and temperature it sets; regenerating later resolves the
+  // same persona from the chat. A compare target overrides the provider and
+  // model of both.
+  function buildPayload(messages: ChatMessage[], target?: CompareTarget) {
+    const preset = presetOf(currentChatId);
+    const deepSearchEnabled = preset ? preset.deepSearch : config.deepSearch;
+    const provider = target?.provider || preset?.provider || config.provider;
+    const apiKey = getProviderApiKey(provider);
     return {
       messages,
-      provider: config.provider,
-      model: getActiveModel(),
+      provider,
+      model: target?.model || preset?.model || getActiveModel(provider),
       apiKey,
       apiKeyOpenrouter: config.apiKeyOpenrouter,
       apiKeyNanogpt: config.apiKeyNanogpt,
       localUrl: config.localUrl,
       systemPrompt:
-        (config.systemPrompt || "") +
+        (preset ? preset.systemPrompt : config.systemPrompt || "") +
         (deepSearchEnabled ? deepSearchPrompt : ""),
       deepSearch: deepSearchEnabled,
+      // Also recorded on the answer
+      generation: generationForProvider(
+        mergeGenerationParams(
+          inheritedGeneration(preset),
+          chatInfo[currentChatId]?.generation,
+        ),
+        provider,
+      ),
+      enabledTools: chatInfo[currentChatId]?.enabledTools ?? null,
+      collectionId: chatInfo[currentChatId]?.collectionId ?? null,
+      // A compared answer has to come from the model it is shown as
+      routing: target ? { ...config.routing, fallbacks: [] } : config.routing,
     };
   }
 
@@ -571,6 +748,8 @@ export default function Page() {
     const parts: ContentPart[] = [];
     if (text?.trim()) parts.push({ type: "text", text });
     const provider = config.provider;
+    // Shared by every document in the message
+    let documentBudget = DOCUMENT_CONTEXT_CHARS;
     for (const a of attachments) {
       if (a.kind === "image") {
         if ((provider === "openrouter" || provider === "nanogpt") && a.url) {
@@ -582,6 +761,14 @@ export default function Page() {
       } else if (a.kind === "text") {
         const text = a.text ?? "";
         parts.push({ type: "text", text: `File ${a.name}:\n${text}` });
+      } else if (a.kind === "document" && a.document) {
+        const { text, used } = documentContext(
+          a.name,
+          a.document,
+          documentBudget,
+        );
+        documentBudget -= used;
+        parts.push({ type: "text", text });
       } else if (a.kind === "note") {
         const text = a.text ?? "";
         parts.push({ type: "text", text });
@@ -594,7 +781,7 @@ export default function Page() {
   async function sendMessage(source: "hero" | "composer") {
     const text = source === "hero" ? heroValue.trim() : composerValue.trim();
     let message = text;
-    if (config.deepSearch) {
+    if (deepOn) {
       const lower = message.toLowerCase();
       if (!lower.startsWith("search for:") && !lower.startsWith("search:")) {
         message =
@@ -617,36 +804,82 @@ export default function Page() {
 
     const userContent = buildUserContentParts(message);
     const chatId = currentChatId || Date.now().toString();
+    const branch = branchOf(chatId);
+    const parent = branch[branch.length - 1];
+    // Replying to an open comparison continues from the answer on screen
+    if (parent && openComparison(chats[chatId] || [], parent)) {
+      pickWinner(chatId, parent);
+    }
     const userMsg: ChatMessage = {
       role: "user",
       content: userContent,
       id: createMessageId(),
+      parentId: parent?.id ?? null,
       createdAt: Date.now(),
     };
-    const assistantId = createMessageId();
-    const pending: ChatMessage = {
-      role: "assistant",
-      content: "",
-      pending: true,
-      id: assistantId,
-      createdAt: Date.now(),
-      reasoning: "",
-      reasoningDetails: undefined,
-    };
-
-    const nextThread = (chats[chatId] ? [...chats[chatId]] : []).concat(
-      userMsg,
-      pending,
+    const targets = compareOn ? usableCompareTargets(compareTargets) : [];
+    const comparing = targets.length >= MIN_COMPARE_TARGETS;
+    const pendings: ChatMessage[] = (comparing ? targets : [null]).map(
+      (target) => ({
+        role: "assistant",
+        content: "",
+        pending: true,
+        id: createMessageId(),
+        parentId: userMsg.id,
+        createdAt: Date.now(),
+        reasoning: "",
+        reasoningDetails: undefined,
+        ...(target
+          ? {
+              provider: target.provider,
+              model: target.model,
+              compareGroup: userMsg.id,
+            }
+          : {}),
+      }),
     );
 
-    setChats((prev) => ({ ...prev, [chatId]: nextThread }));
+    setChats((prev) => ({
+      ...prev,
+      [chatId]: [...(prev[chatId] || []), userMsg, ...pendings],
+    }));
+    updateChatInfo(chatId, { activeLeafId: pendings[0].id });
     setAttachments([]);
     setSidebarOpen(false);
 
-    const messagesToSend = threadWithoutPending(nextThread);
-    const payload = buildPayload(messagesToSend);
+    const messagesToSend = threadWithoutPending([...branch, userMsg]);
+    if (comparing) {
+      // Each answer is its own request, so each is billed to its message
+      await Promise.all(
+        pendings.map((pending, i) =>
+          streamAssistantResponse(
+            chatId,
+            buildPayload(messagesToSend, targets[i]),
+            pending.id,
+          ),
+        ),
+      );
+    } else {
+      await streamAssistantResponse(
+        chatId,
+        buildPayload(messagesToSend),
+        pendings[0].id,
+      );
+    }
+    // Name the chat after its first reply
+    if (!branch.length && config.autoTitle) {
+      generateTitle(chatId, {
+        provider: config.provider,
+        model: (config.titleModel || "").trim() || getActiveModel(),
+        apiKey: getProviderApiKey(config.provider),
+        localUrl: config.localUrl,
+      }).catch(() => undefined);
+    }
+  }
 
-    await streamAssistantResponse(chatId, payload, assistantId);
+  // The branch currently shown for a chat, root first
+  function branchOf(chatId: string) {
+    return activePath(chats[chatId] || [], chatInfo[chatId]?.activeLeafId);
   }
 
   function threadWithoutPending(
@@ -663,13 +896,39 @@ export default function Page() {
     const shouldTrackDeep = !!payload?.deepSearch;
     if (shouldTrackDeep) setDeepSearchActive(true);
     const controller = new AbortController();
-    const stallAbortMs = config.deepSearch ? 120000 : 45000;
+    // Kept apart from the stall watchdog, which retries rather than stops.
+    // A stop is asked of the server, which ends the stream and saves the
+    // answer as stopped.
+    const stopper = new AbortController();
+    if (targetAssistantId) {
+      stopControllers.current.set(targetAssistantId, stopper);
+      stopper.signal.addEventListener(
+        "abort",
+        () => {
+          fetch("/api/chat/stop", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ messageId: targetAssistantId }),
+          }).catch(() => undefined);
+        },
+        { once: true },
+      );
+    }
+    const stallAbortMs = shouldTrackDeep ? 120000 : 45000;
     let lastChunkAt = Date.now();
     let assembled = "";
     let assembledReasoning = "";
     let hasContent = false;
     let latestCost: number | undefined;
+    let latestProvider: Provider | undefined;
+    let latestModel: string | undefined;
+    let latestFallbackReason: ProviderErrorKind | undefined;
+    let latestTokens: MessageTokens | undefined;
+    let latestLatency: number | undefined;
     let latestReasoningDetails: unknown;
+    let toolSteps: ToolCallStep[] = [];
+    let latestCitations: Citation[] | undefined;
+    let stopped = false;
 
     const update = (finalize = false, errorText?: string) => {
       setChats((prev) => {
@@ -691,6 +950,15 @@ export default function Page() {
             pending: !finalize,
             error: errorText,
             cost: latestCost ?? thread[idx].cost,
+            toolCalls: toolSteps.length ? toolSteps : undefined,
+            citations: latestCitations,
+            generation: payload?.generation,
+            provider: latestProvider ?? payload?.provider,
+            model: latestModel ?? payload?.model,
+            fallbackReason: latestFallbackReason,
+            tokens: latestTokens,
+            latencyMs: latestLatency,
+            stopped: stopped || undefined,
           };
         }
         return { ...prev, [chatId]: thread };
@@ -710,7 +978,11 @@ export default function Page() {
       const res = await fetch("/api/chat/stream", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
+        body: JSON.stringify({
+          ...payload,
+          chatId,
+          messageId: targetAssistantId,
+        }),
         signal: controller.signal,
       });
 
@@ -718,7 +990,12 @@ export default function Page() {
         setProviderError(
           `Streaming failed (${res.status || "network error"}) — retrying fallback.`,
         );
-        await fallbackToSingle(chatId, payload, targetAssistantId);
+        await fallbackToSingle(
+          chatId,
+          payload,
+          targetAssistantId,
+          stopper.signal,
+        );
         return;
       }
 
@@ -748,13 +1025,46 @@ export default function Page() {
             const data = JSON.parse(payloadLine);
             if (data?.error) {
               update(true, data.error);
-              await fallbackToSingle(chatId, payload, targetAssistantId);
+              // Over budget, retrying without streaming would be refused too;
+              // classified provider errors were already retried on the server
+              if (data.status === 402) return;
+              if (data.kind && data.kind !== "other") return;
+              await fallbackToSingle(
+                chatId,
+                payload,
+                targetAssistantId,
+                stopper.signal,
+              );
               return;
             }
+            if (data?.toolCall?.id) {
+              const step = data.toolCall as ToolCallStep;
+              toolSteps = toolSteps.some((t) => t.id === step.id)
+                ? toolSteps.map((t) => (t.id === step.id ? step : t))
+                : [...toolSteps, step];
+              update(false);
+              continue;
+            }
             if (data?.meta) {
               if (typeof data.meta.cost === "number") {
                 latestCost = data.meta.cost;
               }
+              if (typeof data.meta.model === "string") {
+                latestProvider = data.meta.provider;
+                latestModel = data.meta.model;
+                latestFallbackReason = data.meta.fallbackReason;
+              }
+              if (data.meta.tokens) latestTokens = data.meta.tokens;
+              if (typeof data.meta.latencyMs === "number") {
+                latestLatency = data.meta.latencyMs;
+              }
+              if (Array.isArray(data.meta.citations)) {
+                latestCitations = data.meta.citations;
+              }
+              if (data.meta.budgetWarning) {
+                setBudgetWarning(data.meta.budgetWarning);
+              }
+              if (data.meta.stopped) stopped = true;
               continue;
             }
             if (typeof data.reasoning === "string") {
@@ -774,12 +1084,23 @@ export default function Page() {
         }
         if (finished) break;
       }
-      if (!hasContent) {
-        await fallbackToSingle(chatId, payload, targetAssistantId);
+      if (!hasContent && !stopped) {
+        await fallbackToSingle(
+          chatId,
+          payload,
+          targetAssistantId,
+          stopper.signal,
+        );
         return;
       }
       update(true);
     } catch (_err) {
+      // Nothing to retry for an answer the user asked to stop
+      if (stopper.signal.aborted) {
+        stopped = true;
+        update(true);
+        return;
+      }
       if (hasContent) {
         update(true, "Stream interrupted; content may be incomplete.");
         return;
@@ -789,9 +1110,15 @@ export default function Page() {
           ? "Streaming stalled — retrying fallback."
           : "Streaming error — retrying fallback.",
       );
-      await fallbackToSingle(chatId, payload, targetAssistantId);
+      await fallbackToSingle(
+        chatId,
+        payload,
+        targetAssistantId,
+        stopper.signal,
+      );
     } finally {
       clearInterval(watchdog);
+      if (targetAssistantId) stopControllers.current.delete(targetAssistantId);
       if (shouldTrackDeep) setDeepSearchActive(false);
     }
   }
@@ -800,14 +1127,35 @@ export default function Page() {
     chatId: string,
     payload: any,
     targetAssistantId?: string,
+    signal?: AbortSignal,
   ) {
     try {
       const r = await fetch("/api/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
+        body: JSON.stringify({
+          ...payload,
+          chatId,
+          messageId: targetAssistantId,
+        }),
+        signal,
       });
-      const { content, cost, reasoning, reasoning_details } = await r.json();
+      const {
+        content,
+        cost,
+        provider,
+        model,
+        fallbackReason,
+        tokens,
+        latencyMs,
+        reasoning,
+        reasoning_details,
+        toolCalls,
+        citations,
+        error,
+        budgetWarning: warning,
+      } = await r.json();
+      if (warning) setBudgetWarning(warning);
       setChats((prev) => {
         const thread = [...(prev[chatId] || [])];
         const idx =
@@ -826,13 +1174,24 @@ export default function Page() {
                 ? reasoning_details
                 : thread[idx].reasoningDetails,
             pending: false,
-            error: undefined,
+            error: r.status === 402 ? error : undefined,
             cost: typeof cost === "number" ? cost : thread[idx].cost,
+            toolCalls: Array.isArray(toolCalls)
+              ? toolCalls
+              : thread[idx].toolCalls,
+            citations: Array.isArray(citations) ? citations : undefined,
+            generation: payload?.generation,
+            provider: provider ?? payload?.provider,
+            model: typeof model === "string" ? model : payload?.model,
+            fallbackReason,
+            tokens,
+            latencyMs,
           };
         }
         return { ...prev, [chatId]: thread };
       });
     } catch (e) {
+      const stopped = !!signal?.aborted;
       setChats((prev) => {
         const thread = [...(prev[chatId] || [])];
         const idx =
@@ -840,20 +1199,65 @@ export default function Page() {
             ? thread.findIndex((m) => m.id === targetAssistantId)
             : thread.length - 1;
         if (idx >= 0 && thread[idx]?.role === "assistant") {
-          thread[idx] = {
-            ...thread[idx],
-            role: "assistant",
-            content: `Error: ${(e as Error).message}`,
-            pending: false,
-            error: (e as Error).message,
-          };
+          thread[idx] = stopped
+            ? { ...thread[idx], pending: false, stopped: true }
+            : {
+                ...thread[idx],
+                role: "assistant",
+                content: `Error: ${(e as Error).message}`,
+                pending: false,
+                error: (e as Error).message,
+              };
         }
         return { ...prev, [chatId]: thread };
       });
-      setProviderError((e as Error).message || "Request failed.");
+      if (!stopped) {
+        setProviderError((e as Error).message || "Request failed.");
+      }
     }
   }
 
+  // Stops every answer streaming into the current chat. What they got to is
+  // kept, and billed for what the provider generated.
+  function stopGeneration() {
+    for (const msg of chats[currentChatId] || []) {
+      if (msg.pending && msg.id) stopControllers.current.get(msg.id)?.abort();
+    }
+  }
+
+  // Continues the chat from one answer of a comparison; the others stay
+  // reachable as branches
+  function pickWinner(chatId: string, msg: ChatMessage) {
+    if (!msg.id) return;
+    setChats((prev) => ({
+      ...prev,
+      [chatId]: (prev[chatId] || []).map((m) =>
+        m.id === msg.id ? { ...m, compareWinner: true } : m,
+      ),
+    }));
+    updateChatInfo(chatId, { activeLeafId: msg.id });
+  }
+
+  function branchInfo(msg: ChatMessage) {
+    const siblings = siblingsOf(chats[currentChatId] || [], msg);
+    if (siblings.length < 2) return null;
+    return {
+      index: siblings.findIndex((m) => m.id === msg.id),
+      total: siblings.length,
+    };
+  }
+
+  function switchBranch(msg: ChatMessage, direction: -1 | 1) {
+    const nodes = chats[currentChatId] || [];
+    const siblings = siblingsOf(nodes, msg);
+    const index = siblings.findIndex((m) => m.id === msg.id);
+    const target = siblings[index + direction];
+    if (!target?.id) return;
+    updateChatInfo(currentChatId, {
+      activeLeafId: deepestLeaf(nodes, target.id),
+    });
+  }
+
   function copyMessage(msg: ChatMessage) {
     const text = messageText(msg, { includeReasoning: showReasoning });
     if (!text) return;
@@ -892,43 +1296,42 @@ export default function Page() {
 
   async function saveEditedMessage() {
     if (!editingMessageId || !currentChatId) return;
-    const thread = chats[currentChatId] || [];
     const userIdx = thread.findIndex((m) => m.id === editingMessageId);
     if (userIdx === -1) return;
 
+    // The edit becomes a sibling branch so the original exchange is kept
     const pendingId = createMessageId();
-    const updatedUser: ChatMessage = {
+    const editedUser: ChatMessage = {
       ...thread[userIdx],
+      id: createMessageId(),
+      createdAt: Date.now(),
       content: editDraft,
       edited: true,
       pending: false,
       error: undefined,
     };
-
-    const assistantIdx = thread.findIndex(
-      (m, idx) => idx > userIdx && m.role === "assistant",
-    );
-    let nextThread =
-      assistantIdx !== -1
-        ? thread.slice(0, assistantIdx)
-        : thread.slice(0, userIdx + 1);
-
-    nextThread[userIdx] = updatedUser;
-    nextThread = nextThread.concat({
+    const pending: ChatMessage = {
       role: "assistant",
       content: "",
       pending: true,
       id: pendingId,
+      parentId: editedUser.id,
       createdAt: Date.now(),
       reasoning: "",
       reasoningDetails: undefined,
-    });
+    };
 
-    setChats((prev) => ({ ...prev, [currentChatId]: nextThread }));
+    setChats((prev) => ({
+      ...prev,
+      [currentChatId]: [...(prev[currentChatId] || []), editedUser, pending],
+    }));
+    updateChatInfo(currentChatId, { activeLeafId: pendingId });
     setEditingMessageId(null);
     setEditDraft("");
 
-    const messagesToSend = threadWithoutPending(nextThread);
+    const messagesToSend = threadWithoutPending(
+      thread.slice(0, userIdx).concat(editedUser),
+    );
     const payload = buildPayload(messagesToSend);
     await streamAssistantResponse(currentChatId, payload, pendingId);
   }
@@ -968,24 +1371,28 @@ export default function Page() {
 
   async function regenerateImageMessage(
     chatId: string,
-    targetIdx: number,
     targetMsg: ChatMessage,
     originalMessageId: string,
-    threadSnapshot: ChatMessage[],
     prompt: string | null,
   ) {
     const pendingId = createMessageId();
-    const nextThread = threadSnapshot.slice(0, targetIdx).concat({
+    const sibling: ChatMessage = {
       ...targetMsg,
       id: pendingId,
+      createdAt: Date.now(),
       content: "",
       reasoning: "",
       reasoningDetails: undefined,
+      cost: undefined,
       pending: true,
       error: undefined,
-    });
+    };
 
-    setChats((prev) => ({ ...prev, [chatId]: nextThread }));
+    setChats((prev) => ({
+      ...prev,
+      [chatId]: [...(prev[chatId] || []), sibling],
+    }));
+    updateChatInfo(chatId, { activeLeafId: pendingId });
     setRegeneratingId(originalMessageId);
     setIsGeneratingImage(true);
     setProviderError(null);
@@ -1023,6 +1430,8 @@ export default function Page() {
           guidance_scale: config.imageGuidanceScale,
           seed: config.imageSeed,
           apiKey: getProviderApiKey("nanogpt"),
+          chatId,
+          messageId: pendingId,
         }),
       });
 
@@ -1049,6 +1458,7 @@ export default function Page() {
         return;
       }
 
+      if (data.budgetWarning) setBudgetWarning(data.budgetWarning);
       const imageUrl = data.images[0].url;
       const imageContent: ContentPart[] = [
         { type: "image_url", image_url: { url: imageUrl } },
@@ -1107,7 +1517,6 @@ export default function Page() {
 
   async function regenerateAssistant(messageId: string) {
     if (!messageId || !currentChatId) return;
-    const thread = chats[currentChatId] || [];
     const targetIdx = thread.findIndex((m) => m.id === messageId);
     if (targetIdx === -1) return;
 
@@ -1119,30 +1528,49 @@ export default function Page() {
     if (isImageResponse) {
       await regenerateImageMessage(
         currentChatId,
-        targetIdx,
         targetMsg,
         messageId,
-        thread,
         imagePrompt,
       );
       return;
     }
 
+    // Regenerations are added next to the original answer, not over it
     const pendingId = createMessageId();
-    const nextThread = thread.slice(0, targetIdx).concat({
-      ...thread[targetIdx],
+    const sibling: ChatMessage = {
+      ...targetMsg,
       id: pendingId,
+      createdAt: Date.now(),
       content: "",
       reasoning: "",
       reasoningDetails: undefined,
+      cost: undefined,
+      toolCalls: undefined,
+      citations: undefined,
       pending: true,
       error: undefined,
-    });
+      tokens: undefined,
+      latencyMs: undefined,
+      compareGroup: undefined,
+      compareWinner: undefined,
+      fallbackReason: undefined,
+      stopped: undefined,
+    };
 
-    setChats((prev) => ({ ...prev, [currentChatId]: nextThread }));
+    setChats((prev) => ({
+      ...prev,
+      [currentChatId]: [...(prev[currentChatId] || []), sibling],
+    }));
+    updateChatInfo(currentChatId, { activeLeafId: pendingId });
     setRegeneratingId(messageId);
-    const messagesToSend = threadWithoutPending(nextThread);
-    const payload = buildPayload(messagesToSend);
+    const messagesToSend = threadWithoutPending(thread.slice(0, targetIdx));
+    // A compared answer is regenerated by the model that gave it
+    const payload = buildPayload(
+      messagesToSend,
+      targetMsg.compareGroup && targetMsg.provider && targetMsg.model
+        ? { provider: targetMsg.provider, model: targetMsg.model }
+        : undefined,
+    );
     try {
       await streamAssistantResponse(currentChatId, payload, pendingId);
     } finally {
@@ -1165,10 +1593,12 @@ export default function Page() {
     setProviderError(null);
 
     const chatId = currentChatId || Date.now().toString();
+    const branch = branchOf(chatId);
     const userMsg: ChatMessage = {
       role: "user",
       content: `[Image] Generate: ${text}`,
       id: createMessageId(),
+      parentId: branch[branch.length - 1]?.id ?? null,
       createdAt: Date.now(),
     };
     const assistantId = createMessageId();
@@ -1177,17 +1607,17 @@ export default function Page() {
       content: "",
       pending: true,
       id: assistantId,
+      parentId: userMsg.id,
       createdAt: Date.now(),
       reasoning: "",
       reasoningDetails: undefined,
     };
 
-    const nextThread = (chats[chatId] ? [...chats[chatId]] : []).concat(
-      userMsg,
-      pending,
-    );
-
-    setChats((prev) => ({ ...prev, [chatId]: nextThread }));
+    setChats((prev) => ({
+      ...prev,
+      [chatId]: [...(prev[chatId] || []), userMsg, pending],
+    }));
+    updateChatInfo(chatId, { activeLeafId: assistantId });
     setSidebarOpen(false);
 
     const imageAttachment = attachments.find(
@@ -1209,6 +1639,8 @@ export default function Page() {
           guidance_scale: config.imageGuidanceScale,
           seed: config.imageSeed,
           apiKey: getProviderApiKey("nanogpt"),
+          chatId,
+          messageId: assistantId,
           ...(supportsImg2Img && imageAttachment?.url
             ? { imageDataUrl: imageAttachment.url }
             : {}),
@@ -1238,6 +1670,7 @@ export default function Page() {
         return;
       }
 
+      if (data.budgetWarning) setBudgetWarning(data.budgetWarning);
       const imageUrl = data.images[0].url;
       const imageContent: ContentPart[] = [
         { type: "image_url", image_url: { url: imageUrl } },
@@ -1302,6 +1735,12 @@ export default function Page() {
     if (empty) {
       nextChats[id] = nextChats[empty];
       delete nextChats[empty];
+      const emptyInfo = chatInfo[empty];
+      if (emptyInfo) {
+        const nextInfo = { ...chatInfo, [id]: emptyInfo };
+        delete nextInfo[empty];
+        setChatInfo(nextInfo);
+      }
     } else {
       nextChats[id] = [];
     }
@@ -1338,7 +1777,20 @@ export default function Page() {
     setAttachments((prev) => prev.filter((_, i) => i !== idx));
   }
 
-  const deepOn = !!config.deepSearch;
+  const currentPreset = presetOf(currentChatId);
+  const deepOn = currentPreset ? currentPreset.deepSearch : !!config.deepSearch;
+  const enabledTools = chatInfo[currentChatId]?.enabledTools ?? null;
+  const setEnabledTools = (next: string[] | null) =>
+    updateChatInfo(currentChatId, { enabledTools: next });
+  const presetId = chatInfo[currentChatId]?.presetId ?? null;
+  const setPresetId = (next: string | null) =>
+    updateChatInfo(currentChatId, { presetId: next });
+  const chatGeneration = chatInfo[currentChatId]?.generation ?? null;
+  const setChatGeneration = (next: GenerationParams | null) =>
+    updateChatInfo(currentChatId, { generation: next });
+  const collectionId = chatInfo[currentChatId]?.collectionId ?? null;
+  const setCollectionId = (next: string | null) =>
+    updateChatInfo(currentChatId, { collectionId: next });
 
   return (
     <>
@@ -1409,6 +1861,24 @@ export default function Page() {
             openFilePicker={openFilePicker}
             toggleDeepSearch={toggleDeepSearch}
             deepOn={deepOn}
+            deepSearchSetBy={currentPreset?.name}
+            enabledTools={enabledTools}
+            onEnabledToolsChange={setEnabledTools}
+            presets={presets}
+            presetId={presetId}
+            onPresetChange={setPresetId}
+            collections={collections}
+            collectionId={collectionId}
+            onCollectionChange={setCollectionId}
+            generation={chatGeneration}
+            inheritedGeneration={inheritedGeneration(currentPreset)}
+            generationProvider={currentPreset?.provider || config.provider}
+            onGenerationChange={setChatGeneration}
+            compareOn={compareOn}
+            compareTargets={compareTargets}
+            modelFor={getActiveModel}
+            onCompareToggle={setCompareOn}
+            onCompareTargetsChange={setCompareTargets}
             configProvider={config.provider}
             isGeneratingImage={isGeneratingImage}
             onGenerateImage={() => generateImage("hero")}
@@ -1438,6 +1908,19 @@ export default function Page() {
                 </button>
               </div>
             ) : null}
+            {budgetWarning ? (
+              <output className="provider-error info">
+                <span>{budgetWarning}</span>
+                <button
+                  type="button"
+                  className="mini-btn ghost"
+                  onClick={() => setBudgetWarning(null)}
+                  title="Dismiss"
+                >
+                  Dismiss
+                </button>
+              </output>
+            ) : null}
             {deepSearchActive ? (
               <output className="provider-error info">
                 <span>DeepSearch is running tools for this message…</span>
@@ -1455,6 +1938,7 @@ export default function Page() {
               editInputRef={editInputRef}
               regeneratingId={regeneratingId}
               copiedId={copiedId}
+              highlightedMessageId={highlightedMessageId}
               messageSearch={messageSearch}
               setMessageSearch={setMessageSearch}
               onCopyMessage={copyMessage}
@@ -1464,6 +1948,12 @@ export default function Page() {
               onEditDraftChange={setEditDraft}
               onRegenerate={regenerateAssistant}
               onRetry={regenerateAssistant}
+              branchInfo={branchInfo}
+              onSwitchBranch={switchBranch}
+              comparison={(msg) =>
+                openComparison(chats[currentChatId] || [], msg)
+              }
+              onPickWinner={(msg) => pickWinner(currentChatId, msg)}
               formatMessageTime={formatMessageTime}
               formatCost={formatCost}
               showReasoning={showReasoning}
@@ -1477,9 +1967,31 @@ export default function Page() {
           composerValue={composerValue}
           onChange={setComposerValue}
           onSend={() => sendMessage("composer")}
+          generating={(chats[currentChatId] || []).some(
+            (m) => m.pending && !!m.id && stopControllers.current.has(m.id),
+          )}
+          onStop={stopGeneration}
           openFilePicker={openFilePicker}
           toggleDeepSearch={toggleDeepSearch}
           deepOn={deepOn}
+          deepSearchSetBy={currentPreset?.name}
+          enabledTools={enabledTools}
+          onEnabledToolsChange={setEnabledTools}
+          presets={presets}
+          presetId={presetId}
+          onPresetChange={setPresetId}
+          collections={collections}
+          collectionId={collectionId}
+          onCollectionChange={setCollectionId}
+          generation={chatGeneration}
+          inheritedGeneration={inheritedGeneration(currentPreset)}
+          generationProvider={currentPreset?.provider || config.provider}
+          onGenerationChange={setChatGeneration}
+          compareOn={compareOn}
+          compareTargets={compareTargets}
+          modelFor={getActiveModel}
+          onCompareToggle={setCompareOn}
+          onCompareTargetsChange={setCompareTargets}
           configProvider={config.provider}
           isGeneratingImage={isGeneratingImage}
           onGenerateImage={() => generateImage("composer")}
@@ -1498,7 +2010,7 @@ export default function Page() {
         ref={fileInputRef}
         style={{ display: "none" }}
         multiple
-        accept="image/*,.txt,.md,.csv,.json,.log,.html,.htm,.pdf"
+        accept={`image/*,.txt,.md,.json,.log,.html,.htm,${DOCUMENT_ACCEPT}`}
         onChange={onFileInput}
       />
     </>
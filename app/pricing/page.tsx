@@ -1,4 +1,14 @@
-import { listRecentCosts, summarizeCosts } from "@/lib/pricing";
+import { redirect } from "next/navigation";
+import { CostChart } from "@/components/cost-chart";
+import { getCurrentUser } from "@/lib/auth-middleware";
+import { listUsers } from "@/lib/persistence";
+import {
+  costQueryFromParams,
+  costTimeSeries,
+  listRecentCosts,
+  summarizeCosts,
+  summarizeModelUsage,
+} from "@/lib/pricing";
 
 export const dynamic = "force-dynamic";
 
@@ -8,15 +18,58 @@ function formatCurrency(value: number | null | undefined) {
   return `$${value.toFixed(4)}`;
 }
 
+type PricingSearchParams = {
+  user?: string;
+  from?: string;
+  to?: string;
+  provider?: string;
+  model?: string;
+  bucket?: string;
+  groupBy?: string;
+};
+
+function formatLatency(ms: number | null) {
+  if (ms == null) return "—";
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+}
+
 function formatDate(ts: number | undefined) {
   if (!ts) return "—";
   const date = new Date(ts);
   return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`;
 }
 
-export default function PricingPage() {
-  const summary = summarizeCosts();
-  const costs = listRecentCosts(200);
+export default async function PricingPage({
+  searchParams,
+}: {
+  searchParams: Promise<PricingSearchParams>;
+}) {
+  const user = await getCurrentUser();
+  if (!user) redirect("/login");
+
+  // Admins see everyone by default and can narrow to one user
+  const params = await searchParams;
+  const userId = user.isAdmin ? params.user || undefined : user.id;
+  const users = user.isAdmin ? listUsers() : [];
+  const usernames = new Map(users.map((u) => [u.id, u.username]));
+  const showUserColumn = user.isAdmin && !userId;
+
+  const query = costQueryFromParams(params);
+  const filter = { ...query.filter, userId };
+  const summary = summarizeCosts(filter);
+  const costs = listRecentCosts(200, filter);
+  const series = costTimeSeries(query.bucket, filter, query.groupBy);
+  const modelUsage = summarizeModelUsage(filter);
+
+  const csvParams = new URLSearchParams({
+    bucket: query.bucket,
+    groupBy: query.groupBy,
+    format: "csv",
+  });
+  for (const key of ["from", "to", "provider", "model"] as const) {
+    if (params[key]) csvParams.set(key, params[key]);
+  }
+  if (userId && user.isAdmin) csvParams.set("userId", userId);
   const imageCosts = costs.filter(
     (row) => (row.metadata as any)?.type === "image",
   );
@@ -29,8 +82,11 @@ export default function PricingPage() {
           <p className="eyebrow">Usage &amp; spend</p>
           <h1>Pricing dashboard</h1>
           <p className="subhead">
-            Live totals from local SQLite log (captured after each OpenRouter /
-            NanoGPT call).
+            {userId
+              ? `Spend for ${usernames.get(userId) || user.username}`
+              : "Spend across all users"}{" "}
+            from the local SQLite log (captured after each OpenRouter, NanoGPT
+            and local model call).
           </p>
         </div>
         <div className="pricing-actions">
@@ -40,6 +96,92 @@ export default function PricingPage() {
         </div>
       </header>
 
+      <form className="pricing-filter" method="get">
+        {user.isAdmin && (
+          <select
+            name="user"
+            className="field"
+            defaultValue={userId || ""}
+            aria-label="Filter by user"
+          >
+            <option value="">All users</option>
+            {users.map((u) => (
+              <option key={u.id} value={u.id}>
+                {u.username}
+              </option>
+            ))}
+          </select>
+        )}
+        <input
+          type="date"
+          name="from"
+          className="field"
+          defaultValue={params.from || ""}
+          aria-label="From date"
+        />
+        <input
+          type="date"
+          name="to"
+          className="field"
+          defaultValue={params.to || ""}
+          aria-label="To date"
+        />
+        <select
+          name="provider"
+          className="field"
+          defaultValue={query.filter.provider || ""}
+          aria-label="Filter by provider"
+        >
+          <option value="">All providers</option>
+          <option value="openrouter">openrouter</option>
+          <option value="nanogpt">nanogpt</option>
+          <option value="local">local</option>
+        </select>
+        <input
+          type="text"
+          name="model"
+          className="field"
+          defaultValue={query.filter.model || ""}
+          placeholder="Model"
+          aria-label="Filter by model"
+        />
+        <select
+          name="bucket"
+          className="field"
+          defaultValue={query.bucket}
+          aria-label="Group by period"
+        >
+          <option value="day">Daily</option>
+          <option value="week">Weekly</option>
+          <option value="month">Monthly</option>
+        </select>
+        <select
+          name="groupBy"
+          className="field"
+          defaultValue={query.groupBy}
+          aria-label="Stack by"
+        >
+          <option value="provider">By provider</option>
+          <option value="model">By model</option>
+        </select>
+        <button type="submit" className="chip ghost">
+          Apply
+        </button>
+      </form>
+
+      <section className="pricing-panel">
+        <div className="panel-header">
+          <h2>Spend over time</h2>
+          <a
+            className="chip ghost"
+            href={`/api/pricing/timeseries?${csvParams.toString()}`}
+          >
+            Download CSV
+          </a>
+        </div>
+        <CostChart points={series} />
+      </section>
+
       <section className="pricing-grid">
         <div className="pricing-card">
           <div className="label">Total cost</div>
@@ -83,6 +225,63 @@ export default function PricingPage() {
         </div>
       </section>
 
+      <section className="pricing-panel">
+        <div className="panel-header">
+          <h2>Token volume &amp; latency</h2>
+          <span className="hint">
+            Local models are free; shadow cost uses LOCAL_SHADOW_PRICES
+          </span>
+        </div>
+        <div className="table-scroll">
+          <table className="pricing-table">
+            <thead>
+              <tr>
+                <th>Provider</th>
+                <th>Model</th>
+                <th>Calls</th>
+                <th>Prompt</th>
+                <th>Completion</th>
+                <th>Avg latency</th>
+                <th>Tokens/s</th>
+                <th>Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {modelUsage.length ? (
+                modelUsage.map((row) => (
+                  <tr key={`${row.provider}-${row.model}`}>
+                    <td className="mono">{row.provider}</td>
+                    <td className="mono">{row.model}</td>
+                    <td>{row.count}</td>
+                    <td>{row.promptTokens.toLocaleString()}</td>
+                    <td>{row.completionTokens.toLocaleString()}</td>
+                    <td>{formatLatency(row.avgLatencyMs)}</td>
+                    <td>
+                      {row.tokensPerSecond != null
+                        ? row.tokensPerSecond.toFixed(1)
+                        : "—"}
+                    </td>
+                    <td className="mono">
+                      {row.provider === "local"
+                        ? row.shadowCost
+                          ? `${formatCurrency(row.shadowCost)} shadow`
+                          : "free"
+                        : formatCurrency(row.cost)}
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td className="pricing-empty" colSpan={8}>
+                    No usage recorded yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
       <section className="pricing-panel">
         <div className="panel-header">
           <h2>Recent calls</h2>
@@ -93,6 +292,7 @@ export default function PricingPage() {
             <thead>
               <tr>
                 <th>Time</th>
+                {showUserColumn && <th>User</th>}
                 <th>Provider</th>
                 <th>Type</th>
                 <th>Model</th>
@@ -106,6 +306,11 @@ export default function PricingPage() {
                 costs.map((row) => (
                   <tr key={row.id || `${row.provider}-${row.createdAt}`}>
                     <td>{formatDate(row.createdAt)}</td>
+                    {showUserColumn && (
+                      <td className="mono">
+                        {(row.userId && usernames.get(row.userId)) || "—"}
+                      </td>
+                    )}
                     <td className="mono">{row.provider}</td>
                     <td className="mono">
                       {(row.metadata as any)?.type === "image"
@@ -120,7 +325,10 @@ export default function PricingPage() {
                 ))
               ) : (
                 <tr>
-                  <td className="pricing-empty" colSpan={7}>
+                  <td
+                    className="pricing-empty"
+                    colSpan={showUserColumn ? 8 : 7}
+                  >
                     No cost data yet.
                   </td>
                 </tr>
@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import { BudgetsPanel } from "@/components/budgets-panel";
 import { useAuthStore } from "@/lib/store/auth-store";
 
 type User = {
@@ -10,12 +11,25 @@ type User = {
     createdAt: number;
 };
 
+type UserSpend = {
+    userId: string | null;
+    username: string | null;
+    cost: number;
+    count: number;
+    lastAt: number | null;
+};
+
+function formatCost(value: number) {
+    return `$${value.toFixed(value >= 1 ? 2 : 4)}`;
+}
+
 export function AdminPanel() {
     const { user } = useAuthStore();
     const [users, setUsers] = useState<User[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState("");
     const [success, setSuccess] = useState("");
+    const [spend, setSpend] = useState<UserSpend[]>([]);
 
     // New user form
     const [newUsername, setNewUsername] = useState("");
@@ -44,6 +58,17 @@ export function AdminPanel() {
         fetchUsers();
     }, []);
 
+    useEffect(() => {
+        // Spend is informational; the user list still works without it
+        fetch("/api/admin/costs")
+            .then((res) => (res.ok ? res.json() : { users: [] }))
+            .then((data) => setSpend(data.users || []))
+            .catch(() => undefined);
+    }, []);
+
+    const spendFor = (userId: string) => spend.find((s) => s.userId === userId);
+    const unattributed = spend.find((s) => !s.userId);
+
     const handleCreateUser = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!newUsername.trim() || !newPassword) {
@@ -193,6 +218,10 @@ export function AdminPanel() {
                                 <span className="admin-user-date">
                                     Created {new Date(u.createdAt).toLocaleDateString()}
                                 </span>
+                                <span className="admin-user-date">
+                                    Spend {formatCost(spendFor(u.id)?.cost || 0)} ·{" "}
+                                    {spendFor(u.id)?.count || 0} calls
+                                </span>
                             </div>
                             <div className="admin-user-actions">
                                 {changingPasswordFor === u.id ? (
@@ -242,6 +271,17 @@ export function AdminPanel() {
                         </div>
                     ))}
                 </div>
+                {unattributed && (
+                    <p className="admin-user-date">
+                        Unattributed (before per-user tracking): {formatCost(unattributed.cost)} ·{" "}
+                        {unattributed.count} calls
+                    </p>
+                )}
+            </div>
+
+            <div className="admin-section">
+                <h3 className="admin-section-title">Budgets</h3>
+                <BudgetsPanel users={users} />
             </div>
 
             <style jsx>{`
@@ -0,0 +1,280 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type ApiToken = {
+  id: string;
+  name: string;
+  prefix: string;
+  createdAt: number;
+  lastUsedAt?: number;
+};
+
+function formatDate(ts?: number) {
+  return ts ? new Date(ts).toLocaleDateString() : "never";
+}
+
+export function ApiTokensPanel() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [name, setName] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [created, setCreated] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      const res = await fetch("/api/auth/tokens");
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load tokens");
+      setTokens(data.tokens || []);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError("");
+    setCreated(null);
+    setCopied(false);
+    try {
+      const res = await fetch("/api/auth/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim() }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to create token");
+      setCreated(data.token);
+      setName("");
+      fetchTokens();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (
+      !confirm(`Revoke token "${token.name}"? Apps using it will stop working.`)
+    ) {
+      return;
+    }
+    setError("");
+    try {
+      const res = await fetch(
+        `/api/auth/tokens/${encodeURIComponent(token.id)}`,
+        { method: "DELETE" },
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to revoke token");
+      fetchTokens();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const copyCreated = () => {
+    if (!created) return;
+    navigator.clipboard
+      .writeText(created)
+      .then(() => setCopied(true))
+      .catch(() => undefined);
+  };
+
+  if (loading) {
+    return <div className="token-panel">Loading tokens...</div>;
+  }
+
+  return (
+    <div className="token-panel">
+      {error && <div className="token-error">{error}</div>}
+
+      {created && (
+        <div className="token-created">
+          <p>Copy this token now. It will not be shown again.</p>
+          <div className="token-row">
+            <code className="token-secret">{created}</code>
+            <button
+              type="button"
+              className="token-button"
+              onClick={copyCreated}
+            >
+              {copied ? "Copied" : "Copy"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="token-section">
+        <h3 className="token-section-title">Create Token</h3>
+        <form onSubmit={handleCreate} className="token-row">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (e.g. editor plugin)"
+            className="token-input"
+            disabled={creating}
+          />
+          <button
+            type="submit"
+            className="token-button"
+            disabled={creating || !name.trim()}
+          >
+            {creating ? "Creating..." : "Create"}
+          </button>
+        </form>
+      </div>
+
+      <div className="token-section">
+        <h3 className="token-section-title">Active Tokens ({tokens.length})</h3>
+        {tokens.length === 0 && <p className="token-muted">No tokens yet.</p>}
+        <div className="token-list">
+          {tokens.map((token) => (
+            <div key={token.id} className="token-item">
+              <div className="token-info">
+                <span className="token-name">{token.name}</span>
+                <span className="token-muted">
+                  <code>{token.prefix}…</code> · created{" "}
+                  {formatDate(token.createdAt)} · last used{" "}
+                  {formatDate(token.lastUsedAt)}
+                </span>
+              </div>
+              <button
+                type="button"
+                className="token-button token-button-danger"
+                onClick={() => handleRevoke(token)}
+              >
+                Revoke
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <style jsx>{`
+        .token-panel {
+          display: flex;
+          flex-direction: column;
+          gap: 1.5rem;
+        }
+        .token-section {
+          background: rgba(0, 0, 0, 0.2);
+          border-radius: 8px;
+          padding: 1rem;
+        }
+        .token-section-title {
+          font-size: 0.95rem;
+          font-weight: 600;
+          margin: 0 0 1rem 0;
+          color: #ddd;
+        }
+        .token-muted {
+          color: #888;
+          font-size: 0.85rem;
+          margin: 0;
+        }
+        .token-row {
+          display: flex;
+          gap: 0.75rem;
+          align-items: center;
+        }
+        .token-input {
+          flex: 1;
+          min-width: 120px;
+          background: rgba(0, 0, 0, 0.3);
+          border: 1px solid rgba(255, 255, 255, 0.15);
+          border-radius: 6px;
+          padding: 0.5rem 0.75rem;
+          color: #fff;
+          font-size: 0.9rem;
+        }
+        .token-input:focus {
+          outline: none;
+          border-color: #3b82f6;
+        }
+        .token-button {
+          background: linear-gradient(135deg, #3b82f6, #8b5cf6);
+          border: none;
+          border-radius: 6px;
+          padding: 0.375rem 0.75rem;
+          color: #fff;
+          font-size: 0.8rem;
+          font-weight: 500;
+          cursor: pointer;
+          transition: opacity 0.2s;
+        }
+        .token-button:hover:not(:disabled) {
+          opacity: 0.9;
+        }
+        .token-button:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+        .token-button-danger {
+          background: #ef4444;
+        }
+        .token-list {
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+        }
+        .token-item {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          padding: 0.75rem;
+          background: rgba(255, 255, 255, 0.05);
+          border-radius: 6px;
+          gap: 1rem;
+        }
+        .token-info {
+          display: flex;
+          flex-direction: column;
+          gap: 0.25rem;
+          min-width: 0;
+        }
+        .token-name {
+          font-weight: 500;
+          color: #fff;
+        }
+        .token-created {
+          background: rgba(34, 197, 94, 0.15);
+          border: 1px solid rgba(34, 197, 94, 0.3);
+          border-radius: 6px;
+          padding: 0.75rem;
+          color: #22c55e;
+          font-size: 0.9rem;
+        }
+        .token-created p {
+          margin: 0 0 0.5rem 0;
+        }
+        .token-secret {
+          flex: 1;
+          font-family: monospace;
+          word-break: break-all;
+          color: #fff;
+        }
+        .token-error {
+          background: rgba(239, 68, 68, 0.15);
+          border: 1px solid rgba(239, 68, 68, 0.3);
+          border-radius: 6px;
+          padding: 0.75rem;
+          color: #ef4444;
+          font-size: 0.9rem;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -1,5 +1,12 @@
 "use client";
 
+import { useState } from "react";
+import {
+  DOCUMENT_CONTEXT_CHARS,
+  describeDocument,
+  type ExtractedDocument,
+} from "@/lib/documents";
+
 function extOf(name: string) {
   const m = name?.match(/\.([^.]+)$/);
   return m ? m[1].toLowerCase() : "";
@@ -10,6 +17,10 @@ export type Attachment = {
   name: string;
   text?: string;
   url?: string;
+  // Extracted text of a "document" attachment
+  document?: ExtractedDocument;
+  // Why the file could not be read
+  error?: string;
 };
 
 export function AttachmentList({
@@ -19,23 +30,76 @@ export function AttachmentList({
   attachments: Attachment[];
   removeAttachment: (idx: number) => void;
 }) {
+  // Document whose text is shown below the list
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const open = expanded === null ? undefined : attachments[expanded];
+
   return (
-    <div className="attach-list" id="hero-attachments">
-      {attachments.map((a, idx) => {
-        const ext = a.kind === "image" ? "image" : extOf(a.name) || a.kind;
-        return (
-          <span key={`${a.name}-${idx}`} className="attach-chip">
-            <span className="ext">{ext}</span> {a.name}{" "}
-            <button
-              type="button"
-              title="Remove"
-              onClick={() => removeAttachment(idx)}
+    <>
+      <div className="attach-list" id="hero-attachments">
+        {attachments.map((a, idx) => {
+          const ext = a.kind === "image" ? "image" : extOf(a.name) || a.kind;
+          const size = a.document ? describeDocument(a.document) : "";
+          return (
+            <span
+              key={`${a.name}-${idx}`}
+              className="attach-chip"
+              title={a.error}
+            >
+              <span className="ext">{ext}</span> {a.name}{" "}
+              {a.document && (
+                <button
+                  type="button"
+                  className="attach-size"
+                  title="Show extracted text"
+                  aria-expanded={expanded === idx}
+                  onClick={() => setExpanded(expanded === idx ? null : idx)}
+                >
+                  {size || `${a.document.chars.toLocaleString()} chars`}
+                </button>
+              )}
+              {a.error && <span className="attach-error">unreadable</span>}
+              <button
+                type="button"
+                title="Remove"
+                onClick={() => {
+                  setExpanded(null);
+                  removeAttachment(idx);
+                }}
+              >
+                ×
+              </button>
+            </span>
+          );
+        })}
+      </div>
+      {open?.document && (
+        <div className="attach-preview">
+          <div className="attach-preview-head">
+            <span>{open.name}</span>
+            <span>
+              {open.document.chars.toLocaleString()} characters
+              {open.document.chars > DOCUMENT_CONTEXT_CHARS ||
+              open.document.truncated
+                ? " · too long for one message, the end will be left out"
+                : ""}
+            </span>
+          </div>
+          {open.document.chunks.map((chunk, index) => (
+            <div
+              // biome-ignore lint/suspicious/noArrayIndexKey: chunks never reorder
+              key={index}
+              className="attach-preview-chunk"
             >
-              ×
-            </button>
-          </span>
-        );
-      })}
-    </div>
+              {chunk.label &&
+                chunk.label !== open.document?.chunks[index - 1]?.label && (
+                  <div className="attach-preview-label">{chunk.label}</div>
+                )}
+              {chunk.text}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
   );
 }
@@ -0,0 +1,234 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Budget = {
+  scope: string;
+  dailyLimit: number | null;
+  monthlyLimit: number | null;
+  warnPercent: number | null;
+};
+
+type Draft = { daily: string; monthly: string; warn: string };
+
+type Props = {
+  users: Array<{ id: string; username: string }>;
+};
+
+const GLOBAL_SCOPE = "global";
+
+function toInput(value: number | null | undefined) {
+  return value == null ? "" : String(value);
+}
+
+function toLimit(value: string) {
+  return value.trim() === "" ? null : Number(value);
+}
+
+export function BudgetsPanel({ users }: Props) {
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [savingScope, setSavingScope] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState("");
+
+  useEffect(() => {
+    fetch("/api/admin/budgets")
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to load budgets");
+        const next: Record<string, Draft> = {};
+        for (const budget of (data.budgets || []) as Budget[]) {
+          next[budget.scope] = {
+            daily: toInput(budget.dailyLimit),
+            monthly: toInput(budget.monthlyLimit),
+            warn: toInput(budget.warnPercent),
+          };
+        }
+        setDrafts(next);
+      })
+      .catch((err) => setError((err as Error).message));
+  }, []);
+
+  const draftFor = (scope: string): Draft =>
+    drafts[scope] || { daily: "", monthly: "", warn: "" };
+
+  const updateDraft = (scope: string, patch: Partial<Draft>) =>
+    setDrafts((prev) => ({
+      ...prev,
+      [scope]: { ...draftFor(scope), ...patch },
+    }));
+
+  const save = async (scope: string, label: string) => {
+    const draft = draftFor(scope);
+    setSavingScope(scope);
+    setError("");
+    setSaved("");
+    try {
+      const res = await fetch("/api/admin/budgets", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          scope,
+          dailyLimit: toLimit(draft.daily),
+          monthlyLimit: toLimit(draft.monthly),
+          warnPercent: scope === GLOBAL_SCOPE ? toLimit(draft.warn) : null,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save budget");
+      setSaved(`Saved budget for ${label}`);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSavingScope(null);
+    }
+  };
+
+  const rows = [
+    { scope: GLOBAL_SCOPE, label: "Team (all users)" },
+    ...users.map((u) => ({ scope: u.id, label: u.username })),
+  ];
+
+  return (
+    <div className="budget-panel">
+      <p className="budget-muted">
+        Limits are in USD per UTC day and month. Leave a field empty for no
+        limit. Users are warned at the team warning threshold (80% by default)
+        and refused once a limit is reached.
+      </p>
+      {error && <div className="budget-error">{error}</div>}
+      {saved && <div className="budget-saved">{saved}</div>}
+      <div className="budget-grid">
+        <span className="budget-head">Scope</span>
+        <span className="budget-head">Daily $</span>
+        <span className="budget-head">Monthly $</span>
+        <span className="budget-head">Warn %</span>
+        <span />
+        {rows.map(({ scope, label }) => {
+          const draft = draftFor(scope);
+          return (
+            <div key={scope} className="budget-row">
+              <span className="budget-label">{label}</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                className="budget-input"
+                value={draft.daily}
+                placeholder="∞"
+                onChange={(e) => updateDraft(scope, { daily: e.target.value })}
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                className="budget-input"
+                value={draft.monthly}
+                placeholder="∞"
+                onChange={(e) =>
+                  updateDraft(scope, { monthly: e.target.value })
+                }
+              />
+              {scope === GLOBAL_SCOPE ? (
+                <input
+                  type="number"
+                  min="1"
+                  max="100"
+                  className="budget-input"
+                  value={draft.warn}
+                  placeholder="80"
+                  onChange={(e) => updateDraft(scope, { warn: e.target.value })}
+                />
+              ) : (
+                <span />
+              )}
+              <button
+                type="button"
+                className="budget-button"
+                disabled={savingScope === scope}
+                onClick={() => save(scope, label)}
+              >
+                {savingScope === scope ? "Saving..." : "Save"}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <style jsx>{`
+        .budget-panel {
+          display: flex;
+          flex-direction: column;
+          gap: 0.75rem;
+        }
+        .budget-muted {
+          color: #888;
+          font-size: 0.85rem;
+          margin: 0;
+        }
+        .budget-grid {
+          display: grid;
+          grid-template-columns: minmax(100px, 1fr) 90px 90px 70px auto;
+          gap: 0.5rem;
+          align-items: center;
+        }
+        .budget-row {
+          display: contents;
+        }
+        .budget-head {
+          color: #888;
+          font-size: 0.75rem;
+          text-transform: uppercase;
+        }
+        .budget-label {
+          color: #fff;
+          font-size: 0.9rem;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+        .budget-input {
+          width: 100%;
+          background: rgba(0, 0, 0, 0.3);
+          border: 1px solid rgba(255, 255, 255, 0.15);
+          border-radius: 6px;
+          padding: 0.375rem 0.5rem;
+          color: #fff;
+          font-size: 0.85rem;
+        }
+        .budget-input:focus {
+          outline: none;
+          border-color: #3b82f6;
+        }
+        .budget-button {
+          background: linear-gradient(135deg, #3b82f6, #8b5cf6);
+          border: none;
+          border-radius: 6px;
+          padding: 0.375rem 0.75rem;
+          color: #fff;
+          font-size: 0.8rem;
+          cursor: pointer;
+        }
+        .budget-button:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+        .budget-error {
+          background: rgba(239, 68, 68, 0.15);
+          border: 1px solid rgba(239, 68, 68, 0.3);
+          border-radius: 6px;
+          padding: 0.75rem;
+          color: #ef4444;
+          font-size: 0.9rem;
+        }
+        .budget-saved {
+          background: rgba(34, 197, 94, 0.15);
+          border: 1px solid rgba(34, 197, 94, 0.3);
+          border-radius: 6px;
+          padding: 0.75rem;
+          color: #22c55e;
+          font-size: 0.9rem;
+        }
+      `}</style>
+    </div>
+  );
+}
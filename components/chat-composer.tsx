@@ -4,6 +4,18 @@ import clsx from "clsx";
 import type { RefObject } from "react";
 
 import { type Attachment, AttachmentList } from "@/components/attachment-list";
+import { CollectionPicker } from "@/components/collection-picker";
+import { ComparePicker } from "@/components/compare-picker";
+import { GenerationPicker } from "@/components/generation-picker";
+import { PersonaPicker } from "@/components/persona-picker";
+import { useTemplateMenu } from "@/components/template-menu";
+import { ToolPicker } from "@/components/tool-picker";
+import type {
+  CompareTarget,
+  GenerationParams,
+  KnowledgeCollection,
+  PromptPreset,
+} from "@/types/chat";
 
 type Provider = "local" | "openrouter" | "nanogpt";
 
@@ -11,15 +23,39 @@ type Props = {
   composerValue: string;
   onChange: (value: string) => void;
   onSend: () => void;
+  // While an answer is streaming the send button stops it instead
+  generating?: boolean;
+  onStop?: () => void;
   openFilePicker: () => void;
   toggleDeepSearch: () => void;
   deepOn: boolean;
+  // Name of the persona that decides deep search for this chat
+  deepSearchSetBy?: string;
+  enabledTools?: string[] | null;
+  onEnabledToolsChange?: (enabledTools: string[] | null) => void;
+  presets?: PromptPreset[];
+  presetId?: string | null;
+  onPresetChange?: (presetId: string | null) => void;
+  collections?: KnowledgeCollection[];
+  collectionId?: string | null;
+  onCollectionChange?: (collectionId: string | null) => void;
+  generation?: GenerationParams | null;
+  // Params the chat gets without overrides, and the provider answering it
+  inheritedGeneration?: GenerationParams;
+  generationProvider?: Provider;
+  onGenerationChange?: (generation: GenerationParams | null) => void;
+  compareOn?: boolean;
+  compareTargets?: CompareTarget[];
+  // The configured model for a provider, to prefill compare targets
+  modelFor?: (provider: Provider) => string;
+  onCompareToggle?: (on: boolean) => void;
+  onCompareTargetsChange?: (targets: CompareTarget[]) => void;
   configProvider: Provider;
   isGeneratingImage: boolean;
   onGenerateImage: () => void;
   attachments: Attachment[];
   removeAttachment: (idx: number) => void;
-  inputRef: RefObject<HTMLInputElement | null>;
+  inputRef: RefObject<HTMLTextAreaElement | null>;
   visible?: boolean;
   currentModel?: string;
   onOpenConfig?: () => void;
@@ -29,9 +65,29 @@ export function ChatComposer({
   composerValue,
   onChange,
   onSend,
+  generating = false,
+  onStop,
   openFilePicker,
   toggleDeepSearch,
   deepOn,
+  deepSearchSetBy,
+  enabledTools,
+  onEnabledToolsChange,
+  presets = [],
+  presetId,
+  onPresetChange,
+  collections = [],
+  collectionId,
+  onCollectionChange,
+  generation,
+  inheritedGeneration = {},
+  generationProvider,
+  onGenerationChange,
+  compareOn = false,
+  compareTargets = [],
+  modelFor,
+  onCompareToggle,
+  onCompareTargetsChange,
   configProvider,
   isGeneratingImage,
   onGenerateImage,
@@ -42,6 +98,11 @@ export function ChatComposer({
   currentModel: _currentModel,
   onOpenConfig: _onOpenConfig,
 }: Props) {
+  const templateMenu = useTemplateMenu({
+    value: composerValue,
+    onChange,
+    inputRef,
+  });
   const _displayModel = _currentModel?.split("/").pop() || "Model";
 
   return (
@@ -68,36 +129,63 @@ export function ChatComposer({
           </svg>
         </button>
 
-        <input
+        <textarea
           className="input"
           id="composer-input"
           ref={inputRef}
           placeholder="What do you want to know?"
+          rows={1}
           value={composerValue}
           onChange={(e) => onChange(e.target.value)}
-          onKeyDown={(e) => e.key === "Enter" && onSend()}
+          onKeyDown={(e) => {
+            if (templateMenu.onKeyDown(e)) return;
+            // Shift+Enter adds a line
+            if (
+              e.key === "Enter" &&
+              !e.shiftKey &&
+              !e.nativeEvent.isComposing
+            ) {
+              e.preventDefault();
+              onSend();
+            }
+          }}
         />
+        {templateMenu.menu}
 
-        <button
-          type="button"
-          className="voice-btn"
-          onClick={onSend}
-          title="Send message"
-        >
-          <svg
-            width="18"
-            height="18"
-            viewBox="0 0 24 24"
-            fill="none"
-            stroke="currentColor"
-            strokeWidth="2.5"
-            strokeLinecap="round"
-            strokeLinejoin="round"
+        {generating && onStop ? (
+          <button
+            type="button"
+            className="voice-btn"
+            onClick={onStop}
+            title="Stop generating"
+            aria-label="Stop generating"
           >
-            <line x1="22" y1="2" x2="11" y2="13" />
-            <polygon points="22,2 15,22 11,13 2,9" />
-          </svg>
-        </button>
+            <svg width="18" height="18" viewBox="0 0 24 24" fill="currentColor">
+              <rect x="6" y="6" width="12" height="12" rx="2" />
+            </svg>
+          </button>
+        ) : (
+          <button
+            type="button"
+            className="voice-btn"
+            onClick={onSend}
+            title="Send message"
+          >
+            <svg
+              width="18"
+              height="18"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2.5"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <line x1="22" y1="2" x2="11" y2="13" />
+              <polygon points="22,2 15,22 11,13 2,9" />
+            </svg>
+          </button>
+        )}
       </div>
 
       <div className="composer-actions">
@@ -105,6 +193,12 @@ export function ChatComposer({
           type="button"
           className={clsx("chip", "toggle", { active: deepOn })}
           onClick={toggleDeepSearch}
+          disabled={!!deepSearchSetBy}
+          title={
+            deepSearchSetBy
+              ? `Set by the ${deepSearchSetBy} persona`
+              : undefined
+          }
         >
           <svg
             width="14"
@@ -120,6 +214,49 @@ export function ChatComposer({
           DeepSearch
         </button>
 
+        {onPresetChange && presets.length > 0 && (
+          <PersonaPicker
+            presets={presets}
+            presetId={presetId}
+            onChange={onPresetChange}
+          />
+        )}
+
+        {onCollectionChange && collections.length > 0 && (
+          <CollectionPicker
+            collections={collections}
+            collectionId={collectionId}
+            onChange={onCollectionChange}
+          />
+        )}
+
+        {onGenerationChange && (
+          <GenerationPicker
+            generation={generation}
+            inherited={inheritedGeneration}
+            provider={generationProvider ?? configProvider}
+            onChange={onGenerationChange}
+          />
+        )}
+
+        {modelFor && onCompareToggle && onCompareTargetsChange && (
+          <ComparePicker
+            compareOn={compareOn}
+            targets={compareTargets}
+            modelFor={modelFor}
+            defaultProvider={configProvider}
+            onToggle={onCompareToggle}
+            onChange={onCompareTargetsChange}
+          />
+        )}
+
+        {deepOn && onEnabledToolsChange && (
+          <ToolPicker
+            enabledTools={enabledTools}
+            onChange={onEnabledToolsChange}
+          />
+        )}
+
         {configProvider === "nanogpt" && (
           <button
             type="button"
@@ -4,6 +4,18 @@ import clsx from "clsx";
 import type { RefObject } from "react";
 
 import { type Attachment, AttachmentList } from "@/components/attachment-list";
+import { CollectionPicker } from "@/components/collection-picker";
+import { ComparePicker } from "@/components/compare-picker";
+import { GenerationPicker } from "@/components/generation-picker";
+import { PersonaPicker } from "@/components/persona-picker";
+import { useTemplateMenu } from "@/components/template-menu";
+import { ToolPicker } from "@/components/tool-picker";
+import type {
+  CompareTarget,
+  GenerationParams,
+  KnowledgeCollection,
+  PromptPreset,
+} from "@/types/chat";
 
 type Provider = "local" | "openrouter" | "nanogpt";
 
@@ -15,12 +27,33 @@ type Props = {
   openFilePicker: () => void;
   toggleDeepSearch: () => void;
   deepOn: boolean;
+  // Name of the persona that decides deep search for this chat
+  deepSearchSetBy?: string;
+  enabledTools?: string[] | null;
+  onEnabledToolsChange?: (enabledTools: string[] | null) => void;
+  presets?: PromptPreset[];
+  presetId?: string | null;
+  onPresetChange?: (presetId: string | null) => void;
+  collections?: KnowledgeCollection[];
+  collectionId?: string | null;
+  onCollectionChange?: (collectionId: string | null) => void;
+  generation?: GenerationParams | null;
+  // Params the chat gets without overrides, and the provider answering it
+  inheritedGeneration?: GenerationParams;
+  generationProvider?: Provider;
+  onGenerationChange?: (generation: GenerationParams | null) => void;
+  compareOn?: boolean;
+  compareTargets?: CompareTarget[];
+  // The configured model for a provider, to prefill compare targets
+  modelFor?: (provider: Provider) => string;
+  onCompareToggle?: (on: boolean) => void;
+  onCompareTargetsChange?: (targets: CompareTarget[]) => void;
   configProvider: Provider;
   isGeneratingImage: boolean;
   onGenerateImage: () => void;
   attachments: Attachment[];
   removeAttachment: (idx: number) => void;
-  inputRef: RefObject<HTMLInputElement | null>;
+  inputRef: RefObject<HTMLTextAreaElement | null>;
   onOpenConfig: () => void;
   currentModel?: string;
 };
@@ -33,6 +66,24 @@ export function ChatHero({
   openFilePicker,
   toggleDeepSearch,
   deepOn,
+  deepSearchSetBy,
+  enabledTools,
+  onEnabledToolsChange,
+  presets = [],
+  presetId,
+  onPresetChange,
+  collections = [],
+  collectionId,
+  onCollectionChange,
+  generation,
+  inheritedGeneration = {},
+  generationProvider,
+  onGenerationChange,
+  compareOn = false,
+  compareTargets = [],
+  modelFor,
+  onCompareToggle,
+  onCompareTargetsChange,
   configProvider,
   isGeneratingImage,
   onGenerateImage,
@@ -42,6 +93,11 @@ export function ChatHero({
   onOpenConfig: _onOpenConfig,
   currentModel,
 }: Props) {
+  const templateMenu = useTemplateMenu({
+    value: heroValue,
+    onChange,
+    inputRef,
+  });
   if (!isEmpty) return null;
 
   const _displayModel = currentModel?.split("/").pop() || "Select Model";
@@ -74,15 +130,28 @@ export function ChatHero({
             </svg>
           </button>
 
-          <input
+          <textarea
             className="input"
             id="input"
             ref={inputRef}
             placeholder="What do you want to know?"
+            rows={1}
             value={heroValue}
             onChange={(e) => onChange(e.target.value)}
-            onKeyDown={(e) => e.key === "Enter" && onSend()}
+            onKeyDown={(e) => {
+              if (templateMenu.onKeyDown(e)) return;
+              // Shift+Enter adds a line
+              if (
+                e.key === "Enter" &&
+                !e.shiftKey &&
+                !e.nativeEvent.isComposing
+              ) {
+                e.preventDefault();
+                onSend();
+              }
+            }}
           />
+          {templateMenu.menu}
 
           {/* Voice/Send Button */}
           <button
@@ -119,6 +188,12 @@ export function ChatHero({
           type="button"
           className={clsx("chip", "toggle", { active: deepOn })}
           onClick={toggleDeepSearch}
+          disabled={!!deepSearchSetBy}
+          title={
+            deepSearchSetBy
+              ? `Set by the ${deepSearchSetBy} persona`
+              : undefined
+          }
         >
           <svg
             width="16"
@@ -136,6 +211,49 @@ export function ChatHero({
           DeepSearch
         </button>
 
+        {onPresetChange && presets.length > 0 && (
+          <PersonaPicker
+            presets={presets}
+            presetId={presetId}
+            onChange={onPresetChange}
+          />
+        )}
+
+        {onCollectionChange && collections.length > 0 && (
+          <CollectionPicker
+            collections={collections}
+            collectionId={collectionId}
+            onChange={onCollectionChange}
+          />
+        )}
+
+        {onGenerationChange && (
+          <GenerationPicker
+            generation={generation}
+            inherited={inheritedGeneration}
+            provider={generationProvider ?? configProvider}
+            onChange={onGenerationChange}
+          />
+        )}
+
+        {modelFor && onCompareToggle && onCompareTargetsChange && (
+          <ComparePicker
+            compareOn={compareOn}
+            targets={compareTargets}
+            modelFor={modelFor}
+            defaultProvider={configProvider}
+            onToggle={onCompareToggle}
+            onChange={onCompareTargetsChange}
+          />
+        )}
+
+        {deepOn && onEnabledToolsChange && (
+          <ToolPicker
+            enabledTools={enabledTools}
+            onChange={onEnabledToolsChange}
+          />
+        )}
+
         {configProvider === "nanogpt" && (
           <button
             type="button"
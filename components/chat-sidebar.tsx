@@ -3,16 +3,85 @@
 import clsx from "clsx";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import type { ReactNode } from "react";
+import { type DragEvent, type ReactNode, useEffect, useState } from "react";
 import { formatCost } from "@/lib/chat-utils";
+import type { SearchHit, SnippetPart } from "@/lib/search";
 import { useChatStore } from "@/lib/store/chat-store";
 import { useUIStore } from "@/lib/store/ui-store";
+import type { ChatSummary } from "@/types/chat";
 
 type Props = {
   onExport: () => void;
   extraNav?: ReactNode;
 };
 
+const MIN_SEARCH_LENGTH = 2;
+// Data type carrying a dragged chat's id onto a folder
+const CHAT_DRAG_TYPE = "application/x-superkagi-chat";
+const TAG_COLORS = ["#60a5fa", "#a78bfa", "#34d399", "#fbbf24", "#f472b6"];
+
+type ChatItem = {
+  id: string;
+  // Full title; `label` is shortened to fit the sidebar
+  title: string;
+  label: string;
+  dateText: string;
+  timeText: string;
+  costText: string;
+  pinned: boolean;
+  tagIds: string[];
+};
+
+function Snippet({ parts }: { parts: SnippetPart[] }) {
+  let offset = 0;
+  return (
+    <span className="search-snippet">
+      {parts.map((part) => {
+        const key = offset;
+        offset += part.text.length;
+        return part.match ? (
+          <mark key={key}>{part.text}</mark>
+        ) : (
+          <span key={key}>{part.text}</span>
+        );
+      })}
+    </span>
+  );
+}
+
+function NameInput({
+  value,
+  placeholder,
+  maxLength,
+  onChange,
+  onSave,
+  onCancel,
+}: {
+  value: string;
+  placeholder: string;
+  maxLength: number;
+  onChange: (value: string) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}) {
+  return (
+    <input
+      type="text"
+      placeholder={placeholder}
+      value={value}
+      maxLength={maxLength}
+      // biome-ignore lint/a11y/noAutofocus: the input only appears on request
+      autoFocus
+      onChange={(e) => onChange(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") onSave();
+        if (e.key === "Escape") onCancel();
+      }}
+      onBlur={onCancel}
+    />
+  );
+}
+
 export function ChatSidebar({ onExport, extraNav }: Props) {
   const pathname = usePathname();
   const {
@@ -23,7 +92,35 @@ export function ChatSidebar({ onExport, extraNav }: Props) {
     createChat,
     deleteChat,
     setCurrentChatId,
+    setFocusMessageId,
+    summaries,
+    summaryCursor,
+    loadSummaries,
+    loadChat,
+    pinned,
+    folders,
+    tags,
+    filter,
+    setFilter,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    createTag,
+    deleteTag,
+    organizeChat,
   } = useChatStore();
+  const [searchHits, setSearchHits] = useState<SearchHit[]>([]);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Folder being named inline: "new" for a folder not created yet
+  const [editingFolder, setEditingFolder] = useState<string | null>(null);
+  const [folderName, setFolderName] = useState("");
+  const [dropFolder, setDropFolder] = useState<string | null>(null);
+  const [addingTag, setAddingTag] = useState(false);
+  const [tagName, setTagName] = useState("");
+  const [tagColor, setTagColor] = useState(TAG_COLORS[0]);
+  const [taggingChatId, setTaggingChatId] = useState<string | null>(null);
+  const [renamingChatId, setRenamingChatId] = useState<string | null>(null);
+  const [chatName, setChatName] = useState("");
 
   const {
     sidebarOpen,
@@ -35,52 +132,126 @@ export function ChatSidebar({ onExport, extraNav }: Props) {
 
   const isImaginePage = pathname === "/imagine";
 
-  // Derived filtered listing
+  // Full-text matches from the server, including chats and messages that are
+  // not loaded in the browser
+  useEffect(() => {
+    const q = searchQuery.trim();
+    if (q.length < MIN_SEARCH_LENGTH) {
+      setSearchHits([]);
+      return;
+    }
+    const params = new URLSearchParams({ q });
+    if (filter.folderId !== null) params.set("folderId", filter.folderId);
+    if (filter.tagId) params.set("tagId", filter.tagId);
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch(`/api/persistence/search?${params}`, {
+        signal: controller.signal,
+      })
+        .then((res) => (res.ok ? res.json() : { results: [] }))
+        .then((data) => setSearchHits(data.results || []))
+        .catch(() => null);
+    }, 250);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchQuery, filter]);
+
+  // Derived filtered listing: chats not on the server yet first, then the
+  // server pages. Opened chats are described from their loaded messages.
+  // Local chats are in no folder and have no tags, so folder and tag filters
+  // hide them.
+  const q = searchQuery.toLowerCase();
+  const matchesQuery = (item: ChatItem) =>
+    !q || item.label.toLowerCase().includes(q);
+  const pinnedItems = pinned.map(itemFromServer).filter(matchesQuery);
   const filteredChatItems = (() => {
-    const q = searchQuery.toLowerCase();
-    return Object.keys(chats)
-      .sort() // Sort logic should match page.tsx (reverse chronological usually by ID or created)
+    const serverIds = new Set([...pinned, ...summaries].map((c) => c.id));
+    const showLocal = !filter.folderId && !filter.tagId;
+    const localItems = Object.keys(chats)
+      .filter((id) => showLocal && !serverIds.has(id))
+      .sort()
       .reverse() // Assuming IDs are timestamps
-      .map((id) => {
-        const last = (chats[id] || [])
-          .slice()
-          .reverse()
-          .find((m) => m.role === "user");
-        const lastTime =
-          last?.createdAt ||
-          (chats[id] || []).find((m) => m.createdAt)?.createdAt ||
-          parseInt(id, 10) ||
-          Date.now();
-        const dateText = new Date(lastTime).toLocaleDateString();
-        const timeText = new Date(lastTime).toLocaleTimeString([], {
-          hour: "2-digit",
-          minute: "2-digit",
-        });
-        let labelText = "";
-        if (Array.isArray(last?.content)) {
-          labelText = last.content
-            .map(
-              (p) => (p as any).text || ((p as any).image_url ? "[image]" : ""),
-            )
-            .join(" ")
-            .trim();
-        } else {
-          labelText = (last?.content as string) || "";
-        }
-        const label = (labelText || `Chat ${id.slice(-4)}`).slice(0, 40);
-
-        if (q && !label.toLowerCase().includes(q)) return null;
-
-        const totalCost = (chats[id] || []).reduce(
-          (sum, msg) => sum + (msg.cost || 0),
-          0,
-        );
-        const costText = totalCost > 0 ? formatCost(totalCost) : "";
-        return { id, label, dateText, timeText, costText };
-      })
-      .filter((item): item is NonNullable<typeof item> => !!item);
+      .map((id) => itemFromMessages(id));
+    const serverItems = summaries.map(itemFromServer);
+    return [...localItems, ...serverItems].filter(matchesQuery);
   })();
 
+  function itemFromServer(summary: ChatSummary) {
+    return chats[summary.id]
+      ? itemFromMessages(summary.id, summary)
+      : itemFromSummary(summary);
+  }
+
+  function itemFromMessages(id: string, summary?: ChatSummary) {
+    const last = (chats[id] || [])
+      .slice()
+      .reverse()
+      .find((m) => m.role === "user");
+    const lastTime =
+      last?.createdAt ||
+      (chats[id] || []).find((m) => m.createdAt)?.createdAt ||
+      parseInt(id, 10) ||
+      Date.now();
+    let labelText = "";
+    if (Array.isArray(last?.content)) {
+      labelText = last.content
+        .map((p) => (p as any).text || ((p as any).image_url ? "[image]" : ""))
+        .join(" ")
+        .trim();
+    } else {
+      labelText = (last?.content as string) || "";
+    }
+    if (summary && summary.titleSource !== "derived") {
+      labelText = summary.title;
+    }
+    const totalCost = (chats[id] || []).reduce(
+      (sum, msg) => sum + (msg.cost || 0),
+      0,
+    );
+    return chatItem(id, labelText, lastTime, totalCost, summary);
+  }
+
+  function itemFromSummary(summary: ChatSummary) {
+    return chatItem(
+      summary.id,
+      summary.titleSource !== "derived"
+        ? summary.title
+        : summary.snippet || summary.title,
+      summary.updatedAt || summary.createdAt,
+      summary.cost,
+      summary,
+    );
+  }
+
+  function chatItem(
+    id: string,
+    labelText: string,
+    time: number,
+    totalCost: number,
+    summary?: ChatSummary,
+  ): ChatItem {
+    const title = labelText || `Chat ${id.slice(-4)}`;
+    const label = title.slice(0, 40);
+    const dateText = new Date(time).toLocaleDateString();
+    const timeText = new Date(time).toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    const costText = totalCost > 0 ? formatCost(totalCost) : "";
+    return {
+      id,
+      title,
+      label,
+      dateText,
+      timeText,
+      costText,
+      pinned: summary?.pinned ?? false,
+      tagIds: summary?.tagIds ?? [],
+    };
+  }
+
   function handleNewChat() {
     createChat();
     // Assuming createChat updates currentChatId in store
@@ -99,6 +270,245 @@ export function ChatSidebar({ onExport, extraNav }: Props) {
     }
   }
 
+  function handleLoadMore() {
+    setLoadingMore(true);
+    loadSummaries(summaryCursor)
+      .catch(() => null)
+      .finally(() => setLoadingMore(false));
+  }
+
+  function handleOpenHit(hit: SearchHit) {
+    // The hit may be older than the loaded summary pages
+    if (!chats[hit.chatId]) loadChat(hit.chatId).catch(() => null);
+    handleSwitchChat(hit.chatId);
+    setFocusMessageId(hit.messageId ?? null);
+  }
+
+  function handleSaveFolder() {
+    const name = folderName.trim();
+    const id = editingFolder;
+    setEditingFolder(null);
+    if (!name || !id) return;
+    const saving = id === "new" ? createFolder(name) : renameFolder(id, name);
+    saving.catch((err) => alert((err as Error).message));
+  }
+
+  function handleRenameChat() {
+    const title = chatName.trim();
+    const id = renamingChatId;
+    setRenamingChatId(null);
+    if (!title || !id) return;
+    organizeChat(id, { title }).catch((err) => alert((err as Error).message));
+  }
+
+  function handleDeleteFolder(id: string, name: string) {
+    if (!confirm(`Delete folder "${name}"? Its chats are kept.`)) return;
+    deleteFolder(id).catch((err) => alert((err as Error).message));
+  }
+
+  function handleDrop(e: DragEvent, folderId: string | null) {
+    e.preventDefault();
+    setDropFolder(null);
+    const chatId = e.dataTransfer.getData(CHAT_DRAG_TYPE);
+    if (!chatId) return;
+    organizeChat(chatId, { folderId }).catch((err) =>
+      alert((err as Error).message),
+    );
+  }
+
+  function folderDropProps(key: string, folderId: string | null) {
+    return {
+      onDragOver: (e: DragEvent) => {
+        if (!e.dataTransfer.types.includes(CHAT_DRAG_TYPE)) return;
+        e.preventDefault();
+        setDropFolder(key);
+      },
+      onDragLeave: () => setDropFolder(null),
+      onDrop: (e: DragEvent) => handleDrop(e, folderId),
+    };
+  }
+
+  function handleAddTag() {
+    const name = tagName.trim();
+    setAddingTag(false);
+    setTagName("");
+    if (!name) return;
+    createTag(name, tagColor).catch((err) => alert((err as Error).message));
+  }
+
+  function handleDeleteTag(id: string, name: string) {
+    if (!confirm(`Delete tag "${name}" from every chat?`)) return;
+    deleteTag(id).catch((err) => alert((err as Error).message));
+  }
+
+  function handleToggleTag(item: ChatItem, tagId: string) {
+    const tagIds = item.tagIds.includes(tagId)
+      ? item.tagIds.filter((id) => id !== tagId)
+      : [...item.tagIds, tagId];
+    organizeChat(item.id, { tagIds }).catch((err) =>
+      alert((err as Error).message),
+    );
+  }
+
+  function handleTogglePin(item: ChatItem) {
+    organizeChat(item.id, { pinned: !item.pinned }).catch((err) =>
+      alert((err as Error).message),
+    );
+  }
+
+  function renderChatItem(item: ChatItem) {
+    const itemTags = tags.filter((tag) => item.tagIds.includes(tag.id));
+    return (
+      <li
+        key={item.id}
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.setData(CHAT_DRAG_TYPE, item.id);
+          e.dataTransfer.effectAllowed = "move";
+        }}
+        onClick={() => handleSwitchChat(item.id)}
+      >
+        <div
+          className={clsx("chat-item", {
+            active: item.id === currentChatId,
+          })}
+          title={item.title}
+        >
+          <div>
+            {renamingChatId === item.id ? (
+              <NameInput
+                value={chatName}
+                placeholder="Chat name"
+                maxLength={120}
+                onChange={setChatName}
+                onSave={handleRenameChat}
+                onCancel={() => setRenamingChatId(null)}
+              />
+            ) : (
+              <span
+                className="chat-title"
+                onDoubleClick={(e) => {
+                  e.stopPropagation();
+                  setChatName(item.title);
+                  setRenamingChatId(item.id);
+                }}
+              >
+                {item.label}
+              </span>
+            )}
+            <span className="chat-meta">
+              {item.dateText} • {item.timeText}
+              {item.costText ? ` • ${item.costText}` : ""}
+            </span>
+            {itemTags.length ? (
+              <span className="chat-tags">
+                {itemTags.map((tag) => (
+                  <span key={tag.id} className="tag-label">
+                    <span
+                      className="tag-dot"
+                      style={{ background: tag.color }}
+                    />
+                    {tag.name}
+                  </span>
+                ))}
+              </span>
+            ) : null}
+          </div>
+          <div className="chat-item-actions">
+            <button
+              type="button"
+              className={clsx("mini-btn icon-only", { active: item.pinned })}
+              title={item.pinned ? "Unpin" : "Pin"}
+              onClick={(e) => {
+                e.stopPropagation();
+                handleTogglePin(item);
+              }}
+            >
+              <svg
+                width="14"
+                height="14"
+                viewBox="0 0 24 24"
+                fill={item.pinned ? "currentColor" : "none"}
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M12 17v5" />
+                <path d="M9 10.76a2 2 0 0 1-1.11 1.79l-1.78.9A2 2 0 0 0 5 15.24V17h14v-1.76a2 2 0 0 0-1.11-1.79l-1.78-.9A2 2 0 0 1 15 10.76V7a1 1 0 0 1 1-1 2 2 0 0 0 0-4H8a2 2 0 0 0 0 4 1 1 0 0 1 1 1z" />
+              </svg>
+            </button>
+            {tags.length ? (
+              <button
+                type="button"
+                className="mini-btn icon-only"
+                title="Tags"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setTaggingChatId(taggingChatId === item.id ? null : item.id);
+                }}
+              >
+                <svg
+                  width="14"
+                  height="14"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <path d="M12.586 2.586A2 2 0 0 0 11.172 2H4a2 2 0 0 0-2 2v7.172a2 2 0 0 0 .586 1.414l8.704 8.704a2.426 2.426 0 0 0 3.42 0l6.58-6.58a2.426 2.426 0 0 0 0-3.42z" />
+                  <circle cx="7.5" cy="7.5" r=".5" fill="currentColor" />
+                </svg>
+              </button>
+            ) : null}
+            <button
+              type="button"
+              className="mini-btn icon-only"
+              title="Delete"
+              onClick={(e) => {
+                e.stopPropagation();
+                deleteChat(item.id);
+              }}
+            >
+              <svg
+                width="14"
+                height="14"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M3 6h18" />
+                <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+              </svg>
+            </button>
+          </div>
+        </div>
+        {taggingChatId === item.id ? (
+          <div className="tag-picker" onClick={(e) => e.stopPropagation()}>
+            {tags.map((tag) => (
+              <button
+                key={tag.id}
+                type="button"
+                className={clsx("tag-chip", {
+                  active: item.tagIds.includes(tag.id),
+                })}
+                onClick={() => handleToggleTag(item, tag.id)}
+              >
+                <span className="tag-dot" style={{ background: tag.color }} />
+                {tag.name}
+              </button>
+            ))}
+          </div>
+        ) : null}
+      </li>
+    );
+  }
+
   function handleToggleSidebar() {
     if (window.innerWidth <= 780) {
       setSidebarOpen(!sidebarOpen);
@@ -263,49 +673,215 @@ export function ChatSidebar({ onExport, extraNav }: Props) {
           </div>
         </div>
 
-        <h3 className="section-title">History</h3>
-        <ul className="chat-list" id="chat-list">
-          {filteredChatItems.map((item) => (
-            <li key={item.id} onClick={() => handleSwitchChat(item.id)}>
-              <div
-                className={clsx("chat-item", {
-                  active: item.id === currentChatId,
+        {searchHits.length ? (
+          <>
+            <h3 className="section-title">Matches</h3>
+            <ul className="chat-list search-results">
+              {searchHits.map((hit) => (
+                <li
+                  key={`${hit.chatId}:${hit.messageId ?? ""}`}
+                  onClick={() => handleOpenHit(hit)}
+                >
+                  <div className="chat-item" title={hit.title}>
+                    <div>
+                      <span className="chat-title">
+                        {hit.title || `Chat ${hit.chatId.slice(-4)}`}
+                      </span>
+                      <Snippet parts={hit.snippet} />
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : null}
+
+        <h3 className="section-title folder-title">
+          Folders
+          <button
+            type="button"
+            className="mini-btn icon-only"
+            title="New folder"
+            onClick={() => {
+              setFolderName("");
+              setEditingFolder("new");
+            }}
+          >
+            +
+          </button>
+        </h3>
+        <ul className="folder-list">
+          <li
+            className={clsx("folder-item", {
+              active: filter.folderId === null,
+            })}
+            onClick={() => setFilter({ folderId: null }).catch(() => null)}
+          >
+            All chats
+          </li>
+          <li
+            className={clsx("folder-item", {
+              active: filter.folderId === "",
+              "drop-target": dropFolder === "",
+            })}
+            onClick={() => setFilter({ folderId: "" }).catch(() => null)}
+            {...folderDropProps("", null)}
+          >
+            Unfiled
+          </li>
+          {folders.map((folder) =>
+            editingFolder === folder.id ? (
+              <li key={folder.id} className="folder-item editing">
+                <NameInput
+                  value={folderName}
+                  placeholder="Folder name"
+                  maxLength={60}
+                  onChange={setFolderName}
+                  onSave={handleSaveFolder}
+                  onCancel={() => setEditingFolder(null)}
+                />
+              </li>
+            ) : (
+              <li
+                key={folder.id}
+                className={clsx("folder-item", {
+                  active: filter.folderId === folder.id,
+                  "drop-target": dropFolder === folder.id,
                 })}
-                title={item.label}
+                onClick={() =>
+                  setFilter({ folderId: folder.id }).catch(() => null)
+                }
+                onDoubleClick={() => {
+                  setFolderName(folder.name);
+                  setEditingFolder(folder.id);
+                }}
+                title="Double-click to rename"
+                {...folderDropProps(folder.id, folder.id)}
               >
-                <div>
-                  <span className="chat-title">{item.label}</span>
-                  <span className="chat-meta">
-                    {item.dateText} • {item.timeText}
-                    {item.costText ? ` • ${item.costText}` : ""}
-                  </span>
-                </div>
+                <span className="folder-name">{folder.name}</span>
                 <button
                   type="button"
                   className="mini-btn icon-only"
-                  title="Delete"
+                  title="Delete folder"
                   onClick={(e) => {
                     e.stopPropagation();
-                    deleteChat(item.id);
+                    handleDeleteFolder(folder.id, folder.name);
                   }}
                 >
-                  <svg
-                    width="14"
-                    height="14"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="2"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                  >
-                    <path d="M3 6h18" />
-                    <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
-                  </svg>
+                  ×
                 </button>
-              </div>
+              </li>
+            ),
+          )}
+          {editingFolder === "new" ? (
+            <li className="folder-item editing">
+              <NameInput
+                value={folderName}
+                placeholder="Folder name"
+                maxLength={60}
+                onChange={setFolderName}
+                onSave={handleSaveFolder}
+                onCancel={() => setEditingFolder(null)}
+              />
             </li>
+          ) : null}
+        </ul>
+
+        <div className="tag-chips">
+          {tags.map((tag) => (
+            <span
+              key={tag.id}
+              className={clsx("tag-chip", { active: filter.tagId === tag.id })}
+            >
+              <button
+                type="button"
+                onClick={() =>
+                  setFilter({
+                    tagId: filter.tagId === tag.id ? null : tag.id,
+                  }).catch(() => null)
+                }
+              >
+                <span className="tag-dot" style={{ background: tag.color }} />
+                {tag.name}
+              </button>
+              <button
+                type="button"
+                className="tag-remove"
+                title="Delete tag"
+                onClick={() => handleDeleteTag(tag.id, tag.name)}
+              >
+                ×
+              </button>
+            </span>
           ))}
+          {addingTag ? (
+            <span className="tag-chip editing">
+              <input
+                type="color"
+                value={tagColor}
+                onChange={(e) => setTagColor(e.target.value)}
+                aria-label="Tag color"
+              />
+              <input
+                type="text"
+                placeholder="Tag name"
+                // biome-ignore lint/a11y/noAutofocus: the input only appears on request
+                autoFocus
+                value={tagName}
+                maxLength={30}
+                onChange={(e) => setTagName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleAddTag();
+                  if (e.key === "Escape") setAddingTag(false);
+                }}
+                onBlur={(e) => {
+                  // Moving to the color input keeps the form open
+                  if (
+                    !e.currentTarget.parentElement?.contains(e.relatedTarget)
+                  ) {
+                    setAddingTag(false);
+                  }
+                }}
+              />
+            </span>
+          ) : (
+            <button
+              type="button"
+              className="tag-chip"
+              onClick={() => {
+                setTagColor(TAG_COLORS[tags.length % TAG_COLORS.length]);
+                setAddingTag(true);
+              }}
+            >
+              + Tag
+            </button>
+          )}
+        </div>
+
+        {pinnedItems.length ? (
+          <>
+            <h3 className="section-title">Pinned</h3>
+            <ul className="chat-list pinned-list">
+              {pinnedItems.map(renderChatItem)}
+            </ul>
+          </>
+        ) : null}
+
+        <h3 className="section-title">History</h3>
+        <ul className="chat-list" id="chat-list">
+          {filteredChatItems.map(renderChatItem)}
+          {summaryCursor ? (
+            <li className="chat-list-more">
+              <button
+                type="button"
+                className="chip"
+                disabled={loadingMore}
+                onClick={handleLoadMore}
+              >
+                {loadingMore ? "Loading…" : "Load older chats"}
+              </button>
+            </li>
+          ) : null}
         </ul>
       </aside>
 
@@ -2,9 +2,13 @@
 
 import clsx from "clsx";
 import Image from "next/image";
-import type { RefObject } from "react";
+import type { CSSProperties, RefObject } from "react";
 
 import { MarkdownRenderer } from "@/components/markdown-renderer";
+import { ToolCallSteps } from "@/components/tool-call-steps";
+import { compareTargetLabel, formatLatency, formatTokens } from "@/lib/compare";
+import { describeGenerationParams } from "@/lib/generation-params";
+import { PROVIDER_ERROR_LABELS } from "@/lib/routing";
 import type { ChatMessage } from "@/types/chat";
 
 type Props = {
@@ -18,6 +22,7 @@ type Props = {
   editInputRef: RefObject<HTMLTextAreaElement | null>;
   regeneratingId: string | null;
   copiedId: string | null;
+  highlightedMessageId?: string | null;
   messageSearch: string;
   setMessageSearch: (value: string) => void;
   onCopyMessage: (msg: ChatMessage) => void;
@@ -27,6 +32,11 @@ type Props = {
   onEditDraftChange: (value: string) => void;
   onRegenerate: (id: string) => void;
   onRetry: (id: string) => void;
+  branchInfo?: (msg: ChatMessage) => { index: number; total: number } | null;
+  onSwitchBranch?: (msg: ChatMessage, direction: -1 | 1) => void;
+  // Answers shown side by side with `msg` while its comparison is open
+  comparison?: (msg: ChatMessage) => ChatMessage[] | null;
+  onPickWinner?: (msg: ChatMessage) => void;
   formatMessageTime: (msg: ChatMessage) => string;
   formatCost: (cost?: number | null) => string;
   renderMarkdown?: boolean;
@@ -51,7 +61,9 @@ function _messageText(content: ChatMessage["content"]): string {
 function sanitizeUrl(value: string): string {
   if (!value) return "";
   const trimmed = value.trim();
-  return /^(https?:|data:|blob:)/i.test(trimmed) ? trimmed : "";
+  return /^(https?:|data:|blob:|\/api\/persistence\/images\/)/i.test(trimmed)
+    ? trimmed
+    : "";
 }
 
 function sanitizeFilename(value?: string): string {
@@ -70,6 +82,7 @@ export function ChatThread({
   editInputRef,
   regeneratingId,
   copiedId,
+  highlightedMessageId,
   messageSearch,
   setMessageSearch,
   onCopyMessage,
@@ -79,6 +92,10 @@ export function ChatThread({
   onEditDraftChange,
   onRegenerate,
   onRetry,
+  branchInfo,
+  onSwitchBranch,
+  comparison,
+  onPickWinner,
   formatMessageTime,
   formatCost,
   showReasoning,
@@ -135,7 +152,9 @@ export function ChatThread({
 
       return (
         <div>
-          {textParts && <MarkdownRenderer content={textParts} />}
+          {textParts && (
+            <MarkdownRenderer content={textParts} citations={msg.citations} />
+          )}
           {imageParts.map((part) => (
             <div
               key={part.image_url.url}
@@ -167,7 +186,9 @@ export function ChatThread({
       );
     }
 
-    return <MarkdownRenderer content={msg.content || ""} />;
+    return (
+      <MarkdownRenderer content={msg.content || ""} citations={msg.citations} />
+    );
   };
 
   return (
@@ -209,12 +230,102 @@ export function ChatThread({
         </div>
       ) : null}
       {visibleThread.map((msg, idx) => {
+        const columns = msg.role === "assistant" ? comparison?.(msg) : null;
+        if (columns?.length) {
+          const deciding = columns.some((m) => m.pending);
+          return (
+            <div
+              key={msg.id || `${idx}`}
+              className="compare-row"
+              style={
+                {
+                  "--compare-columns": columns.length,
+                } as CSSProperties
+              }
+            >
+              {columns.map((column) => {
+                const columnId = column.id || "";
+                const stats = [
+                  column.cost != null && !Number.isNaN(column.cost)
+                    ? formatCost(column.cost)
+                    : "",
+                  formatLatency(column.latencyMs),
+                  formatTokens(column.tokens),
+                  column.stopped ? "Stopped" : "",
+                ].filter(Boolean);
+                return (
+                  <div
+                    key={columnId}
+                    className={clsx("compare-column", {
+                      highlighted: columnId === highlightedMessageId,
+                    })}
+                    data-message-id={columnId}
+                  >
+                    <div className="compare-column-head">
+                      <span title={column.model}>
+                        {compareTargetLabel(column)}
+                      </span>
+                      <button
+                        type="button"
+                        className="mini-btn"
+                        title="Continue the chat from this answer"
+                        onClick={() => onPickWinner?.(column)}
+                        disabled={deciding || !!column.error}
+                      >
+                        Pick
+                      </button>
+                    </div>
+                    <div
+                      className={clsx("bubble", "assistant", {
+                        typing: column.pending,
+                      })}
+                    >
+                      {column.toolCalls?.length ? (
+                        <ToolCallSteps steps={column.toolCalls} />
+                      ) : null}
+                      {renderMessageContent(column)}
+                      {column.pending ? (
+                        <output className="typing-dots" aria-live="polite">
+                          <span className="dot" />
+                          <span className="dot" />
+                          <span className="dot" />
+                        </output>
+                      ) : null}
+                    </div>
+                    <div className="message-actions">
+                      <button
+                        type="button"
+                        className="mini-btn ghost"
+                        title="Copy message"
+                        onClick={() => onCopyMessage(column)}
+                      >
+                        {copiedId === columnId ? "Copied" : "Copy"}
+                      </button>
+                    </div>
+                    <div className="message-meta">{stats.join(" • ")}</div>
+                    {column.error ? (
+                      <div className="message-error">
+                        <div className="error-text">{column.error}</div>
+                      </div>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        }
+
         const messageId = msg.id || `${idx}`;
         const canEdit = msg.role === "user" && !msg.pending;
         const canRegenerate = msg.role === "assistant" && !msg.pending;
         const isEditingMessage = editingMessageId === messageId;
         const isRegenerating = regeneratingId === messageId;
         const isCopying = copiedId === messageId;
+        const branch = branchInfo?.(msg) ?? null;
+        const generatedWith = describeGenerationParams(msg.generation);
+        const fallbackNote = msg.fallbackReason
+          ? `Answered by ${compareTargetLabel(msg)} after the chat's model failed: ${PROVIDER_ERROR_LABELS[msg.fallbackReason]}`
+          : "";
         const errorText =
           msg.error ||
           (typeof msg.content === "string" &&
@@ -223,7 +334,13 @@ export function ChatThread({
             : "");
 
         return (
-          <div key={messageId} className={clsx("message", msg.role)}>
+          <div
+            key={messageId}
+            className={clsx("message", msg.role, {
+              highlighted: messageId === highlightedMessageId,
+            })}
+            data-message-id={messageId}
+          >
             <div
               className={clsx("bubble", msg.role, {
                 typing: msg.pending,
@@ -269,6 +386,9 @@ export function ChatThread({
                       />
                     </section>
                   ) : null}
+                  {msg.toolCalls?.length ? (
+                    <ToolCallSteps steps={msg.toolCalls} />
+                  ) : null}
                   {renderMessageContent(msg)}
                   {msg.pending ? (
                     <output className="typing-dots" aria-live="polite">
@@ -280,7 +400,36 @@ export function ChatThread({
                 </>
               )}
             </div>
-            <div className="message-actions">
+            <div
+              className={clsx("message-actions", { "has-branches": branch })}
+            >
+              {branch ? (
+                <div className="branch-switcher">
+                  <button
+                    type="button"
+                    className="mini-btn ghost"
+                    title="Previous version"
+                    aria-label="Previous version"
+                    onClick={() => onSwitchBranch?.(msg, -1)}
+                    disabled={branch.index <= 0}
+                  >
+                    ‹
+                  </button>
+                  <span className="branch-count">
+                    {branch.index + 1}/{branch.total}
+                  </span>
+                  <button
+                    type="button"
+                    className="mini-btn ghost"
+                    title="Next version"
+                    aria-label="Next version"
+                    onClick={() => onSwitchBranch?.(msg, 1)}
+                    disabled={branch.index >= branch.total - 1}
+                  >
+                    ›
+                  </button>
+                </div>
+              ) : null}
               <button
                 type="button"
                 className="mini-btn ghost"
@@ -311,12 +460,24 @@ export function ChatThread({
                 </button>
               )}
             </div>
-            <div className="message-meta">
+            <div
+              className="message-meta"
+              title={
+                generatedWith ? `Generated with ${generatedWith}` : undefined
+              }
+            >
               {formatMessageTime(msg)}
+              {msg.compareGroup || msg.fallbackReason
+                ? ` • ${compareTargetLabel(msg)}`
+                : ""}
+              {fallbackNote ? (
+                <span title={fallbackNote}> (fallback)</span>
+              ) : null}
               {msg.cost != null && !Number.isNaN(msg.cost)
                 ? ` • ${formatCost(msg.cost)}`
                 : ""}
               {msg.edited ? " • Edited" : ""}
+              {msg.stopped ? " • Stopped" : ""}
             </div>
             {errorText ? (
               <div className="message-error">
@@ -0,0 +1,60 @@
+"use client";
+
+import clsx from "clsx";
+import type { KnowledgeCollection } from "@/types/chat";
+
+type Props = {
+  collections: KnowledgeCollection[];
+  collectionId?: string | null;
+  onChange: (collectionId: string | null) => void;
+};
+
+// Knowledge collection searched before each answer in the current chat. An
+// id whose collection was deleted shows as none, which is also how the chat
+// is answered.
+export function CollectionPicker({
+  collections,
+  collectionId,
+  onChange,
+}: Props) {
+  const selected = collections.find(
+    (collection) => collection.id === collectionId,
+  );
+
+  return (
+    <label
+      className={clsx("chip", "collection-picker", { active: !!selected })}
+      title={
+        selected
+          ? `Searching ${selected.name}`
+          : "Choose a knowledge collection to search in this chat"
+      }
+    >
+      <svg
+        width="14"
+        height="14"
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      >
+        <path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20" />
+        <path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z" />
+      </svg>
+      <select
+        value={selected?.id ?? ""}
+        onChange={(e) => onChange(e.target.value || null)}
+        aria-label="Knowledge collection"
+      >
+        <option value="">No knowledge</option>
+        {collections.map((collection) => (
+          <option key={collection.id} value={collection.id}>
+            {collection.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import clsx from "clsx";
+import { useEffect, useRef, useState } from "react";
+import {
+  MAX_COMPARE_TARGETS,
+  MIN_COMPARE_TARGETS,
+  usableCompareTargets,
+} from "@/lib/compare";
+import type { CompareTarget, Provider } from "@/types/chat";
+
+type Props = {
+  compareOn: boolean;
+  targets: CompareTarget[];
+  // Prefills a new row with the provider's configured model
+  modelFor: (provider: Provider) => string;
+  defaultProvider: Provider;
+  onToggle: (on: boolean) => void;
+  onChange: (targets: CompareTarget[]) => void;
+};
+
+const providerLabels: Record<Provider, string> = {
+  local: "Local",
+  openrouter: "OpenRouter",
+  nanogpt: "NanoGPT",
+};
+
+// Provider/model pairs a prompt goes to in compare mode. Rows without a model
+// and repeats are kept while editing but not sent to.
+export function ComparePicker({
+  compareOn,
+  targets,
+  modelFor,
+  defaultProvider,
+  onToggle,
+  onChange,
+}: Props) {
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("pointerdown", onPointerDown);
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("pointerdown", onPointerDown);
+      document.removeEventListener("keydown", onKeyDown);
+    };
+  }, [open]);
+
+  const usable = usableCompareTargets(targets).length;
+  const ready = usable >= MIN_COMPARE_TARGETS;
+
+  const update = (index: number, patch: Partial<CompareTarget>) =>
+    onChange(targets.map((t, i) => (i === index ? { ...t, ...patch } : t)));
+
+  return (
+    <div className="tool-picker" ref={rootRef}>
+      <button
+        type="button"
+        className={clsx("chip", { active: open || (compareOn && ready) })}
+        onClick={() => setOpen((prev) => !prev)}
+        title="Send each prompt to several models side by side"
+        aria-haspopup="dialog"
+        aria-expanded={open}
+      >
+        <svg
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <rect x="3" y="4" width="7" height="16" rx="1" />
+          <rect x="14" y="4" width="7" height="16" rx="1" />
+        </svg>
+        {compareOn && ready ? `Compare ${usable}` : "Compare"}
+      </button>
+
+      {open && (
+        <div
+          className="tool-picker-popover compare-popover"
+          role="dialog"
+          aria-label="Compare models"
+        >
+          <div className="tool-picker-head">
+            <label className="compare-toggle">
+              <input
+                type="checkbox"
+                checked={compareOn}
+                onChange={(e) => onToggle(e.target.checked)}
+              />
+              <span>Compare models</span>
+            </label>
+            <div className="tool-picker-bulk">
+              <button
+                type="button"
+                className="mini-btn ghost"
+                disabled={targets.length >= MAX_COMPARE_TARGETS}
+                onClick={() =>
+                  onChange([
+                    ...targets,
+                    {
+                      provider: defaultProvider,
+                      model: modelFor(defaultProvider),
+                    },
+                  ])
+                }
+              >
+                Add model
+              </button>
+            </div>
+          </div>
+          <div className="compare-targets">
+            {targets.map((target, index) => (
+              <div
+                // biome-ignore lint/suspicious/noArrayIndexKey: rows have no identity beyond their position
+                key={index}
+                className="compare-target"
+              >
+                <select
+                  className="field"
+                  value={target.provider}
+                  aria-label={`Provider ${index + 1}`}
+                  onChange={(e) => {
+                    const provider = e.target.value as Provider;
+                    update(index, { provider, model: modelFor(provider) });
+                  }}
+                >
+                  {(Object.keys(providerLabels) as Provider[]).map((p) => (
+                    <option key={p} value={p}>
+                      {providerLabels[p]}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  className="field"
+                  value={target.model}
+                  placeholder="Model"
+                  aria-label={`Model ${index + 1}`}
+                  onChange={(e) => update(index, { model: e.target.value })}
+                />
+                <button
+                  type="button"
+                  className="mini-btn ghost"
+                  title="Remove model"
+                  aria-label={`Remove model ${index + 1}`}
+                  onClick={() =>
+                    onChange(targets.filter((_, i) => i !== index))
+                  }
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+          {!ready ? (
+            <div className="compare-hint">
+              Add {MIN_COMPARE_TARGETS}–{MAX_COMPARE_TARGETS} different models
+              to compare their answers.
+            </div>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import type { CostSeriesPoint } from "@/lib/pricing";
+
+type Props = {
+  points: CostSeriesPoint[];
+};
+
+const COLORS = [
+  "#60a5fa",
+  "#a78bfa",
+  "#34d399",
+  "#fbbf24",
+  "#f472b6",
+  "#22d3ee",
+  "#f87171",
+];
+const OTHER_COLOR = "#6b7280";
+
+function formatCost(value: number) {
+  return value >= 1 ? `$${value.toFixed(2)}` : `$${value.toFixed(4)}`;
+}
+
+// Stacked bar chart rendered as plain markup so the pricing page can stay a
+// server component. Keys beyond the palette are folded into "other".
+export function CostChart({ points }: Props) {
+  if (!points.length) {
+    return <div className="hint">No spend recorded in this range.</div>;
+  }
+
+  const totals = new Map<string, number>();
+  for (const point of points) {
+    totals.set(point.key, (totals.get(point.key) || 0) + point.cost);
+  }
+  const ranked = [...totals.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([key]) => key);
+  const shown = ranked.slice(0, COLORS.length);
+  const keys = ranked.length > shown.length ? [...shown, "other"] : shown;
+  const colorOf = (key: string) =>
+    key === "other" ? OTHER_COLOR : COLORS[shown.indexOf(key)];
+
+  const periods = new Map<string, Map<string, number>>();
+  for (const point of points) {
+    const key = shown.includes(point.key) ? point.key : "other";
+    const stack = periods.get(point.period) || new Map<string, number>();
+    stack.set(key, (stack.get(key) || 0) + point.cost);
+    periods.set(point.period, stack);
+  }
+  const sum = (stack: Map<string, number>) =>
+    [...stack.values()].reduce((total, cost) => total + cost, 0);
+  const max = Math.max(...[...periods.values()].map(sum), 0);
+
+  return (
+    <div className="cost-chart">
+      <div className="cost-chart-bars">
+        {[...periods.entries()].map(([period, stack]) => {
+          const total = sum(stack);
+          return (
+            <div
+              key={period}
+              className="cost-chart-column"
+              title={`${period}: ${formatCost(total)}`}
+            >
+              <div
+                className="cost-chart-stack"
+                style={{ height: max > 0 ? `${(total / max) * 100}%` : 0 }}
+              >
+                {keys.map((key) => {
+                  const cost = stack.get(key);
+                  if (!cost) return null;
+                  return (
+                    <div
+                      key={key}
+                      className="cost-chart-segment"
+                      style={{
+                        height: `${(cost / total) * 100}%`,
+                        background: colorOf(key),
+                      }}
+                      title={`${period} · ${key}: ${formatCost(cost)}`}
+                    />
+                  );
+                })}
+              </div>
+              <span className="cost-chart-label">{period}</span>
+            </div>
+          );
+        })}
+      </div>
+      <div className="cost-chart-legend">
+        {keys.map((key) => (
+          <span key={key} className="cost-chart-key">
+            <span
+              className="cost-chart-swatch"
+              style={{ background: colorOf(key) }}
+            />
+            {key}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
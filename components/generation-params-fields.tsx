@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import {
+  GENERATION_LABELS,
+  type GenerationField,
+  MAX_STOP_SEQUENCES,
+  parseGenerationParams,
+  supportedGenerationFields,
+} from "@/lib/generation-params";
+import type { GenerationParams, Provider } from "@/types/chat";
+
+type Props = {
+  params: GenerationParams;
+  onChange: (params: GenerationParams) => void;
+  provider: Provider;
+  // Values used for fields left empty, shown as placeholders
+  inherited?: GenerationParams;
+};
+
+type NumberField = "temperature" | "topP" | "maxTokens" | "seed";
+
+type Draft = Record<NumberField, string> & { stop: string };
+
+const NUMBER_FIELDS: Array<{ key: NumberField; step: string; hint: string }> = [
+  { key: "temperature", step: "0.1", hint: "0–2" },
+  { key: "topP", step: "0.05", hint: "0–1" },
+  { key: "maxTokens", step: "1", hint: "tokens" },
+  { key: "seed", step: "1", hint: "integer" },
+];
+
+// Stop sequences are edited one per line, with \n for a line break
+const showStop = (stop?: string[]) =>
+  (stop || []).map((item) => item.replaceAll("\n", "\\n")).join("\n");
+const readStop = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.replaceAll("\\n", "\n"))
+    .filter((line) => line.length);
+
+function toDraft(params: GenerationParams): Draft {
+  const show = (value?: number) => (value === undefined ? "" : String(value));
+  return {
+    temperature: show(params.temperature),
+    topP: show(params.topP),
+    maxTokens: show(params.maxTokens),
+    seed: show(params.seed),
+    stop: showStop(params.stop),
+  };
+}
+
+/**
+ * Inputs for generation parameters. Only valid values are passed to
+ * `onChange`; fields the provider ignores are marked but stay editable, since
+ * the same settings are used when switching providers.
+ */
+export function GenerationParamsFields({
+  params,
+  onChange,
+  provider,
+  inherited = {},
+}: Props) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(params));
+  const [error, setError] = useState("");
+  const supported = supportedGenerationFields(provider);
+
+  const apply = (nextDraft: Draft, jsonMode = params.jsonMode) => {
+    setDraft(nextDraft);
+    const number = (text: string) =>
+      text.trim() === "" ? undefined : Number(text);
+    const { params: parsed, error: invalid } = parseGenerationParams({
+      temperature: number(nextDraft.temperature),
+      topP: number(nextDraft.topP),
+      maxTokens: number(nextDraft.maxTokens),
+      seed: number(nextDraft.seed),
+      stop: readStop(nextDraft.stop),
+      jsonMode,
+    });
+    setError(invalid || "");
+    if (parsed) onChange(parsed);
+  };
+
+  const label = (key: GenerationField) => (
+    <span className="gen-params-label">
+      {GENERATION_LABELS[key]}
+      {!supported.includes(key) && (
+        <span className="gen-params-note">not sent to {provider}</span>
+      )}
+    </span>
+  );
+
+  return (
+    <div className="gen-params">
+      <div className="gen-params-grid">
+        {NUMBER_FIELDS.map(({ key, step, hint }) => (
+          <label key={key} className="gen-params-field">
+            {label(key)}
+            <input
+              className="field"
+              type="number"
+              step={step}
+              value={draft[key]}
+              placeholder={
+                inherited[key] !== undefined ? String(inherited[key]) : hint
+              }
+              onChange={(e) => apply({ ...draft, [key]: e.target.value })}
+            />
+          </label>
+        ))}
+      </div>
+      <label className="gen-params-field">
+        {label("stop")}
+        <textarea
+          className="field field-textarea"
+          rows={2}
+          value={draft.stop}
+          placeholder={
+            inherited.stop?.length
+              ? showStop(inherited.stop)
+              : `Up to ${MAX_STOP_SEQUENCES}, one per line`
+          }
+          onChange={(e) => apply({ ...draft, stop: e.target.value })}
+        />
+      </label>
+      <label className="gen-params-check">
+        <input
+          type="checkbox"
+          checked={!!(params.jsonMode ?? inherited.jsonMode)}
+          onChange={(e) => apply(draft, e.target.checked)}
+        />
+        {label("jsonMode")}
+      </label>
+      {error && <div className="gen-params-error">{error}</div>}
+    </div>
+  );
+}
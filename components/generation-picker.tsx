@@ -0,0 +1,115 @@
+"use client";
+
+import clsx from "clsx";
+import { useEffect, useRef, useState } from "react";
+import { GenerationParamsFields } from "@/components/generation-params-fields";
+import { describeGenerationParams } from "@/lib/generation-params";
+import type { GenerationParams, Provider } from "@/types/chat";
+
+type Props = {
+  // This chat's overrides; null follows the settings
+  generation?: GenerationParams | null;
+  // Params the chat gets without overrides
+  inherited: GenerationParams;
+  provider: Provider;
+  onChange: (generation: GenerationParams | null) => void;
+};
+
+export function GenerationPicker({
+  generation,
+  inherited,
+  provider,
+  onChange,
+}: Props) {
+  const [open, setOpen] = useState(false);
+  // Remounts the fields when the overrides are reset
+  const [resets, setResets] = useState(0);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("pointerdown", onPointerDown);
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("pointerdown", onPointerDown);
+      document.removeEventListener("keydown", onKeyDown);
+    };
+  }, [open]);
+
+  const summary = describeGenerationParams(generation);
+
+  return (
+    <div className="tool-picker" ref={rootRef}>
+      <button
+        type="button"
+        className={clsx("chip", { active: open || !!summary })}
+        onClick={() => setOpen((prev) => !prev)}
+        title="Generation parameters for this chat"
+        aria-haspopup="dialog"
+        aria-expanded={open}
+      >
+        <svg
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <line x1="4" y1="21" x2="4" y2="14" />
+          <line x1="4" y1="10" x2="4" y2="3" />
+          <line x1="12" y1="21" x2="12" y2="12" />
+          <line x1="12" y1="8" x2="12" y2="3" />
+          <line x1="20" y1="21" x2="20" y2="16" />
+          <line x1="20" y1="12" x2="20" y2="3" />
+          <line x1="1" y1="14" x2="7" y2="14" />
+          <line x1="9" y1="8" x2="15" y2="8" />
+          <line x1="17" y1="16" x2="23" y2="16" />
+        </svg>
+        {summary || "Parameters"}
+      </button>
+
+      {open && (
+        <div
+          className="tool-picker-popover generation-popover"
+          role="dialog"
+          aria-label="Generation parameters"
+        >
+          <div className="tool-picker-head">
+            <span>Parameters for this chat</span>
+            <div className="tool-picker-bulk">
+              <button
+                type="button"
+                className="mini-btn ghost"
+                disabled={!generation}
+                onClick={() => {
+                  onChange(null);
+                  setResets((count) => count + 1);
+                }}
+              >
+                Use settings
+              </button>
+            </div>
+          </div>
+          <GenerationParamsFields
+            key={resets}
+            params={generation || {}}
+            inherited={inherited}
+            provider={provider}
+            onChange={(next) =>
+              onChange(Object.keys(next).length ? next : null)
+            }
+          />
+        </div>
+      )}
+    </div>
+  );
+}
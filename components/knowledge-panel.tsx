@@ -0,0 +1,580 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { DOCUMENT_ACCEPT } from "@/lib/documents";
+import {
+  DEFAULT_EMBEDDING_MODELS,
+  describeCollection,
+  knowledgeDocumentUrl,
+  MAX_COLLECTION_DESCRIPTION,
+  MAX_COLLECTION_NAME,
+} from "@/lib/knowledge";
+import { useCollectionStore } from "@/lib/store/collection-store";
+import type {
+  KnowledgeCollection,
+  KnowledgeDocument,
+  Provider,
+} from "@/types/chat";
+
+type Draft = {
+  name: string;
+  description: string;
+  provider: Provider;
+  embeddingModel: string;
+};
+
+const emptyDraft: Draft = {
+  name: "",
+  description: "",
+  provider: "local",
+  embeddingModel: "",
+};
+
+const providerLabels: Record<Provider, string> = {
+  local: "Local",
+  openrouter: "OpenRouter",
+  nanogpt: "NanoGPT",
+};
+
+function collectionToDraft(collection: KnowledgeCollection): Draft {
+  return {
+    name: collection.name,
+    description: collection.description,
+    provider: collection.provider,
+    embeddingModel: collection.embeddingModel,
+  };
+}
+
+function plural(count: number, unit: string) {
+  return `${count} ${unit}${count === 1 ? "" : "s"}`;
+}
+
+function describeDocumentRow(document: KnowledgeDocument) {
+  const unit =
+    document.format === "pptx"
+      ? "slide"
+      : document.format === "xlsx"
+        ? "sheet"
+        : "page";
+  const parts = [
+    document.format.toUpperCase(),
+    document.pages === null ? "" : plural(document.pages, unit),
+    plural(document.chunkCount, "passage"),
+    new Date(document.createdAt).toLocaleDateString(),
+  ];
+  return parts.filter(Boolean).join(" · ");
+}
+
+export function KnowledgePanel() {
+  const {
+    collections,
+    loadCollections,
+    saveCollection,
+    deleteCollection,
+    loadDocuments,
+    uploadDocument,
+    deleteDocument,
+  } = useCollectionStore();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Collection whose documents are listed
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  // Name of the file being embedded
+  const [uploading, setUploading] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCollections()
+      .catch((err) => setError((err as Error).message))
+      .finally(() => setLoading(false));
+  }, [loadCollections]);
+
+  const editing = collections.find((c) => c.id === editingId);
+  // Stored vectors only match the model that made them
+  const modelLocked = !!editing?.documentCount;
+
+  const resetForm = () => {
+    setDraft(emptyDraft);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError("");
+    setSuccess("");
+    try {
+      const saved = await saveCollection({
+        name: draft.name.trim(),
+        description: draft.description.trim(),
+        provider: draft.provider,
+        embeddingModel: draft.embeddingModel.trim(),
+        id: editingId ?? undefined,
+      });
+      setSuccess(
+        `Collection "${saved.name}" ${editingId ? "updated" : "added"}`,
+      );
+      resetForm();
+      if (!editingId) await openDocuments(saved.id);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (collection: KnowledgeCollection) => {
+    if (
+      !confirm(
+        `Delete collection "${collection.name}" and its ${collection.documentCount} documents? Chats that use it will be answered without it.`,
+      )
+    ) {
+      return;
+    }
+    setError("");
+    setSuccess("");
+    try {
+      await deleteCollection(collection.id);
+      setSuccess(`Collection "${collection.name}" deleted`);
+      if (editingId === collection.id) resetForm();
+      if (openId === collection.id) setOpenId(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const openDocuments = async (collectionId: string) => {
+    setOpenId(collectionId);
+    setDocuments([]);
+    try {
+      setDocuments(await loadDocuments(collectionId));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleUpload = async (collectionId: string, files: File[]) => {
+    setError("");
+    setSuccess("");
+    const added: string[] = [];
+    for (const file of files) {
+      setUploading(file.name);
+      try {
+        const { truncated } = await uploadDocument(collectionId, file);
+        added.push(truncated ? `${file.name} (shortened)` : file.name);
+      } catch (err) {
+        setError(`${file.name}: ${(err as Error).message}`);
+        break;
+      }
+    }
+    setUploading(null);
+    if (added.length) setSuccess(`Added ${added.join(", ")}`);
+    setDocuments(await loadDocuments(collectionId).catch(() => documents));
+  };
+
+  const handleRemoveDocument = async (
+    collectionId: string,
+    document: KnowledgeDocument,
+  ) => {
+    if (!confirm(`Remove "${document.name}" from the collection?`)) return;
+    setError("");
+    setSuccess("");
+    try {
+      setDocuments(await deleteDocument(collectionId, document.id));
+      setSuccess(`Removed "${document.name}"`);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  if (loading && !collections.length) {
+    return <div className="kb-panel">Loading collections...</div>;
+  }
+
+  return (
+    <div className="kb-panel">
+      {error && <div className="kb-error">{error}</div>}
+      {success && <div className="kb-success">{success}</div>}
+
+      <div className="kb-section">
+        <h3 className="kb-section-title">Collections ({collections.length})</h3>
+        {collections.length === 0 && (
+          <p className="kb-muted">
+            No collections yet. Add one below, then upload documents to it.
+          </p>
+        )}
+        <div className="kb-list">
+          {collections.map((collection) => (
+            <div key={collection.id} className="kb-item">
+              <div className="kb-item-head">
+                <div className="kb-info">
+                  <span className="kb-name">{collection.name}</span>
+                  <span className="kb-meta">
+                    {describeCollection(collection)} ·{" "}
+                    {providerLabels[collection.provider]}{" "}
+                    {collection.embeddingModel}
+                  </span>
+                  {collection.description && (
+                    <span className="kb-description">
+                      {collection.description}
+                    </span>
+                  )}
+                </div>
+                <div className="kb-actions">
+                  <button
+                    type="button"
+                    className="kb-button kb-button-secondary"
+                    aria-expanded={openId === collection.id}
+                    onClick={() =>
+                      openId === collection.id
+                        ? setOpenId(null)
+                        : openDocuments(collection.id)
+                    }
+                  >
+                    Documents
+                  </button>
+                  <button
+                    type="button"
+                    className="kb-button kb-button-secondary"
+                    onClick={() => {
+                      setEditingId(collection.id);
+                      setDraft(collectionToDraft(collection));
+                    }}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    className="kb-button kb-button-danger"
+                    onClick={() => handleDelete(collection)}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {openId === collection.id && (
+                <div className="kb-documents">
+                  {documents.length === 0 && (
+                    <p className="kb-muted">No documents yet.</p>
+                  )}
+                  {documents.map((document) => (
+                    <div key={document.id} className="kb-document">
+                      <div className="kb-info">
+                        <a
+                          className="kb-document-name"
+                          href={knowledgeDocumentUrl(
+                            collection.id,
+                            document.id,
+                          )}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          {document.name}
+                        </a>
+                        <span className="kb-meta">
+                          {describeDocumentRow(document)}
+                        </span>
+                      </div>
+                      <button
+                        type="button"
+                        className="kb-button kb-button-secondary"
+                        onClick={() =>
+                          handleRemoveDocument(collection.id, document)
+                        }
+                        disabled={!!uploading}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                  <label className="kb-upload">
+                    <input
+                      type="file"
+                      multiple
+                      accept={DOCUMENT_ACCEPT}
+                      disabled={!!uploading}
+                      onChange={(e) => {
+                        const files = Array.from(e.target.files || []);
+                        e.target.value = "";
+                        if (files.length) handleUpload(collection.id, files);
+                      }}
+                    />
+                    <span className="kb-button">
+                      {uploading
+                        ? `Embedding ${uploading}...`
+                        : "Upload documents"}
+                    </span>
+                    <span className="kb-muted">
+                      PDF, DOCX, XLSX, CSV or PPTX
+                    </span>
+                  </label>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="kb-section">
+        <h3 className="kb-section-title">
+          {editingId
+            ? `Edit "${editing?.name ?? draft.name}"`
+            : "Add Collection"}
+        </h3>
+        <form onSubmit={handleSubmit} className="kb-form">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Name (e.g. Product manuals)"
+            className="kb-input"
+            maxLength={MAX_COLLECTION_NAME}
+            disabled={saving}
+          />
+          <input
+            type="text"
+            value={draft.description}
+            onChange={(e) =>
+              setDraft({ ...draft, description: e.target.value })
+            }
+            placeholder="Description (optional)"
+            className="kb-input"
+            maxLength={MAX_COLLECTION_DESCRIPTION}
+            disabled={saving}
+          />
+          <div className="kb-row">
+            <select
+              value={draft.provider}
+              onChange={(e) =>
+                setDraft({ ...draft, provider: e.target.value as Provider })
+              }
+              className="kb-input kb-input-small"
+              disabled={saving || modelLocked}
+            >
+              {(Object.keys(providerLabels) as Provider[]).map((key) => (
+                <option key={key} value={key}>
+                  {providerLabels[key]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={draft.embeddingModel}
+              onChange={(e) =>
+                setDraft({ ...draft, embeddingModel: e.target.value })
+              }
+              placeholder={`Embedding model (${DEFAULT_EMBEDDING_MODELS[draft.provider]})`}
+              className="kb-input"
+              disabled={saving || modelLocked}
+            />
+          </div>
+          <p className="kb-muted">
+            {modelLocked
+              ? "Remove the documents to change the embedding model; their passages were embedded with this one."
+              : "Documents are embedded with this model. For local use, pull an embedding model into Ollama first."}
+          </p>
+          <div className="kb-row kb-row-end">
+            {(editingId || draft !== emptyDraft) && (
+              <button
+                type="button"
+                className="kb-button kb-button-secondary"
+                onClick={resetForm}
+                disabled={saving}
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              className="kb-button"
+              disabled={saving || !draft.name.trim()}
+            >
+              {saving ? "Saving..." : editingId ? "Save" : "Add Collection"}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <style jsx>{`
+        .kb-panel {
+          display: flex;
+          flex-direction: column;
+          gap: 1.5rem;
+        }
+        .kb-section {
+          background: rgba(0, 0, 0, 0.2);
+          border-radius: 8px;
+          padding: 1rem;
+        }
+        .kb-section-title {
+          font-size: 0.95rem;
+          font-weight: 600;
+          margin: 0 0 1rem 0;
+          color: #ddd;
+        }
+        .kb-muted {
+          color: #888;
+          font-size: 0.85rem;
+          margin: 0;
+        }
+        .kb-form {
+          display: flex;
+          flex-direction: column;
+          gap: 0.75rem;
+        }
+        .kb-row {
+          display: flex;
+          gap: 0.75rem;
+          align-items: center;
+          flex-wrap: wrap;
+        }
+        .kb-row-end {
+          justify-content: flex-end;
+        }
+        .kb-input {
+          flex: 1;
+          min-width: 120px;
+          background: rgba(0, 0, 0, 0.3);
+          border: 1px solid rgba(255, 255, 255, 0.15);
+          border-radius: 6px;
+          padding: 0.5rem 0.75rem;
+          color: #fff;
+          font-size: 0.9rem;
+          font-family: inherit;
+        }
+        .kb-input:focus {
+          outline: none;
+          border-color: #3b82f6;
+        }
+        .kb-input:disabled {
+          opacity: 0.6;
+        }
+        .kb-input-small {
+          flex: 0 1 auto;
+          width: 140px;
+        }
+        .kb-button {
+          background: linear-gradient(135deg, #3b82f6, #8b5cf6);
+          border: none;
+          border-radius: 6px;
+          padding: 0.375rem 0.75rem;
+          color: #fff;
+          font-size: 0.8rem;
+          font-weight: 500;
+          cursor: pointer;
+          transition: opacity 0.2s;
+          white-space: nowrap;
+        }
+        .kb-button:hover:not(:disabled) {
+          opacity: 0.9;
+        }
+        .kb-button:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+        .kb-button-secondary {
+          background: rgba(255, 255, 255, 0.1);
+        }
+        .kb-button-danger {
+          background: #ef4444;
+        }
+        .kb-list {
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+        }
+        .kb-item {
+          padding: 0.75rem;
+          background: rgba(255, 255, 255, 0.05);
+          border-radius: 6px;
+        }
+        .kb-item-head {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 1rem;
+          flex-wrap: wrap;
+        }
+        .kb-info {
+          display: flex;
+          flex-direction: column;
+          gap: 0.25rem;
+          min-width: 0;
+          flex: 1;
+        }
+        .kb-name {
+          font-weight: 500;
+          color: #fff;
+        }
+        .kb-meta {
+          font-size: 0.8rem;
+          color: #888;
+        }
+        .kb-description {
+          font-size: 0.8rem;
+          color: #aaa;
+        }
+        .kb-actions {
+          display: flex;
+          gap: 0.5rem;
+          flex-wrap: wrap;
+        }
+        .kb-documents {
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+          margin-top: 0.75rem;
+          padding-top: 0.75rem;
+          border-top: 1px solid rgba(255, 255, 255, 0.08);
+        }
+        .kb-document {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 1rem;
+        }
+        .kb-document-name {
+          color: #ddd;
+          font-size: 0.9rem;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+          text-decoration: none;
+        }
+        .kb-document-name:hover {
+          text-decoration: underline;
+        }
+        .kb-upload {
+          display: flex;
+          align-items: center;
+          gap: 0.75rem;
+          cursor: pointer;
+        }
+        .kb-upload input {
+          display: none;
+        }
+        .kb-error {
+          background: rgba(239, 68, 68, 0.15);
+          border: 1px solid rgba(239, 68, 68, 0.3);
+          border-radius: 6px;
+          padding: 0.75rem;
+          color: #ef4444;
+          font-size: 0.9rem;
+        }
+        .kb-success {
+          background: rgba(34, 197, 94, 0.15);
+          border: 1px solid rgba(34, 197, 94, 0.3);
+          border-radius: 6px;
+          padding: 0.75rem;
+          color: #22c55e;
+          font-size: 0.9rem;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -5,10 +5,27 @@ import { useCallback, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import rehypeHighlight from "rehype-highlight";
 import remarkGfm from "remark-gfm";
+import { linkCitations } from "@/lib/citations";
+import type { Citation } from "@/types/chat";
 
 interface MarkdownRendererProps {
   content: string;
   className?: string;
+  citations?: Citation[];
+}
+
+function hostname(url: string) {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+function citationNumber(children: React.ReactNode) {
+  const text = Array.isArray(children) ? children.join("") : children;
+  const match = typeof text === "string" ? /^\[(\d+)\]$/.exec(text) : null;
+  return match ? Number(match[1]) : null;
 }
 
 // Code block component with copy functionality
@@ -86,7 +103,15 @@ function CodeBlock({
 export function MarkdownRenderer({
   content,
   className = "",
+  citations,
 }: MarkdownRendererProps) {
+  // List the sources the answer actually cites; fall back to all of them
+  const citedNumbers = new Set(
+    Array.from(content.matchAll(/\[(\d{1,3})\]/g), (m) => Number(m[1])),
+  );
+  const cited = citations?.filter((c) => citedNumbers.has(c.index));
+  const sources = cited?.length ? cited : citations;
+
   return (
     <div className={`markdown-content ${className}`}>
       <ReactMarkdown
@@ -119,6 +144,25 @@ export function MarkdownRenderer({
           },
           // Custom link component
           a({ href, children }) {
+            const cited = citationNumber(children);
+            const citation =
+              cited != null
+                ? citations?.find((c) => c.index === cited)
+                : undefined;
+            if (citation) {
+              return (
+                <sup className="citation-ref">
+                  <a
+                    href={citation.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title={citation.title || citation.url}
+                  >
+                    {cited}
+                  </a>
+                </sup>
+              );
+            }
             return (
               <a
                 href={href}
@@ -147,9 +191,29 @@ export function MarkdownRenderer({
           },
         }}
       >
-        {content}
+        {linkCitations(content, citations)}
       </ReactMarkdown>
 
+      {sources?.length ? (
+        <ol className="citation-list" aria-label="Sources">
+          {sources.map((citation) => (
+            <li key={citation.index} value={citation.index}>
+              <a
+                href={citation.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="markdown-link"
+              >
+                {citation.title || citation.url}
+              </a>
+              {citation.title ? (
+                <span className="citation-host">{hostname(citation.url)}</span>
+              ) : null}
+            </li>
+          ))}
+        </ol>
+      ) : null}
+
       <style jsx>{`
         .markdown-content {
           line-height: 1.5;
@@ -188,6 +252,43 @@ export function MarkdownRenderer({
           margin: 0.5rem 0;
         }
 
+        .citation-ref {
+          font-size: 0.7em;
+          line-height: 0;
+          margin: 0 1px;
+        }
+
+        .citation-ref a {
+          display: inline-block;
+          min-width: 1.4em;
+          padding: 0 0.3em;
+          border-radius: 4px;
+          background: var(--accent-muted);
+          color: var(--muted);
+          text-align: center;
+          text-decoration: none;
+        }
+
+        .citation-ref a:hover {
+          color: var(--text);
+        }
+
+        .citation-list {
+          margin: 0.75rem 0 0;
+          padding: 0.5rem 0 0 1.5rem;
+          border-top: 1px solid var(--border);
+          font-size: 0.85em;
+        }
+
+        .citation-list li {
+          margin: 0.2rem 0;
+        }
+
+        .citation-host {
+          margin-left: 0.4rem;
+          color: var(--muted);
+        }
+
         .markdown-content ul,
         .markdown-content ol {
           margin: 0.5rem 0;
@@ -0,0 +1,553 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type McpTransport = "stdio" | "http" | "sse";
+
+type McpServer = {
+  id: string;
+  name: string;
+  transport: McpTransport;
+  command?: string;
+  args?: string[];
+  url?: string;
+  env?: Record<string, string>;
+  headers?: Record<string, string>;
+  enabled: boolean;
+  createdAt: number;
+  status?: { ok: boolean; tools?: string[]; error?: string };
+};
+
+type Draft = {
+  name: string;
+  transport: McpTransport;
+  command: string;
+  args: string;
+  url: string;
+  env: string;
+  headers: string;
+  enabled: boolean;
+};
+
+const emptyDraft: Draft = {
+  name: "",
+  transport: "stdio",
+  command: "",
+  args: "",
+  url: "",
+  env: "",
+  headers: "",
+  enabled: true,
+};
+
+const transportLabels: Record<McpTransport, string> = {
+  stdio: "Command (stdio)",
+  http: "Streamable HTTP",
+  sse: "SSE",
+};
+
+// biome-ignore lint/suspicious/noTemplateCurlyInString: literal placeholder
+const envPlaceholder = "Environment, KEY=value per line\nAPI_KEY=${MY_API_KEY}";
+const headersPlaceholder =
+  // biome-ignore lint/suspicious/noTemplateCurlyInString: literal placeholder
+  "Headers, Name: value per line\nAuthorization: Bearer ${MY_TOKEN}";
+
+function recordToText(record: Record<string, string> | undefined, sep: string) {
+  return Object.entries(record || {})
+    .map(([key, value]) => `${key}${sep}${value}`)
+    .join("\n");
+}
+
+function textToRecord(text: string, sep: string) {
+  const out: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const index = line.indexOf(sep);
+    if (index <= 0) continue;
+    out[line.slice(0, index).trim()] = line.slice(index + sep.length).trim();
+  }
+  return out;
+}
+
+function serverToDraft(server: McpServer): Draft {
+  return {
+    name: server.name,
+    transport: server.transport,
+    command: server.command || "",
+    args: (server.args || []).join("\n"),
+    url: server.url || "",
+    env: recordToText(server.env, "="),
+    headers: recordToText(server.headers, ": "),
+    enabled: server.enabled,
+  };
+}
+
+function draftToBody(draft: Draft) {
+  return {
+    name: draft.name.trim(),
+    transport: draft.transport,
+    command: draft.command.trim(),
+    args: draft.args
+      .split("\n")
+      .map((arg) => arg.trim())
+      .filter(Boolean),
+    url: draft.url.trim(),
+    env: textToRecord(draft.env, "="),
+    headers: textToRecord(draft.headers, ":"),
+    enabled: draft.enabled,
+  };
+}
+
+export function McpServersPanel() {
+  const [servers, setServers] = useState<McpServer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchServers = useCallback(async () => {
+    try {
+      const res = await fetch("/api/mcp/servers?probe=1");
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load servers");
+      setServers(data.servers || []);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchServers();
+  }, [fetchServers]);
+
+  const resetForm = () => {
+    setDraft(emptyDraft);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError("");
+    setSuccess("");
+    try {
+      const res = await fetch(
+        editingId
+          ? `/api/mcp/servers/${encodeURIComponent(editingId)}`
+          : "/api/mcp/servers",
+        {
+          method: editingId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(draftToBody(draft)),
+        },
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save server");
+      setSuccess(
+        `Server "${data.server?.name || draft.name}" ${editingId ? "updated" : "added"}`,
+      );
+      resetForm();
+      fetchServers();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (server: McpServer) => {
+    setError("");
+    setSuccess("");
+    try {
+      const res = await fetch(
+        `/api/mcp/servers/${encodeURIComponent(server.id)}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ enabled: !server.enabled }),
+        },
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to update server");
+      fetchServers();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleDelete = async (server: McpServer) => {
+    if (!confirm(`Remove MCP server "${server.name}"?`)) return;
+    setError("");
+    setSuccess("");
+    try {
+      const res = await fetch(
+        `/api/mcp/servers/${encodeURIComponent(server.id)}`,
+        { method: "DELETE" },
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to delete server");
+      setSuccess(`Server "${server.name}" removed`);
+      if (editingId === server.id) resetForm();
+      fetchServers();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  if (loading) {
+    return <div className="mcp-panel">Loading servers...</div>;
+  }
+
+  return (
+    <div className="mcp-panel">
+      {error && <div className="mcp-error">{error}</div>}
+      {success && <div className="mcp-success">{success}</div>}
+
+      <div className="mcp-section">
+        <h3 className="mcp-section-title">Servers ({servers.length})</h3>
+        {servers.length === 0 && (
+          <p className="mcp-muted">
+            No servers configured. Deep search has no tools.
+          </p>
+        )}
+        <div className="mcp-list">
+          {servers.map((server) => (
+            <div key={server.id} className="mcp-item">
+              <div className="mcp-info">
+                <span className="mcp-name">
+                  {server.name}
+                  <span className="mcp-badge">
+                    {transportLabels[server.transport]}
+                  </span>
+                  {!server.enabled && (
+                    <span className="mcp-badge muted">Disabled</span>
+                  )}
+                </span>
+                <span className="mcp-target">
+                  {server.transport === "stdio"
+                    ? [server.command, ...(server.args || [])].join(" ")
+                    : server.url}
+                </span>
+                {server.enabled && server.status && (
+                  <span
+                    className={
+                      server.status.ok ? "mcp-status ok" : "mcp-status"
+                    }
+                    title={server.status.tools?.join("\n")}
+                  >
+                    {server.status.ok
+                      ? `${server.status.tools?.length ?? 0} tools`
+                      : server.status.error}
+                  </span>
+                )}
+              </div>
+              <div className="mcp-actions">
+                <button
+                  type="button"
+                  className="mcp-button mcp-button-secondary"
+                  onClick={() => handleToggle(server)}
+                >
+                  {server.enabled ? "Disable" : "Enable"}
+                </button>
+                <button
+                  type="button"
+                  className="mcp-button mcp-button-secondary"
+                  onClick={() => {
+                    setEditingId(server.id);
+                    setDraft(serverToDraft(server));
+                  }}
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  className="mcp-button mcp-button-danger"
+                  onClick={() => handleDelete(server)}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="mcp-section">
+        <h3 className="mcp-section-title">
+          {editingId ? `Edit "${draft.name}"` : "Add Server"}
+        </h3>
+        <form onSubmit={handleSubmit} className="mcp-form">
+          <div className="mcp-row">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Name (e.g. kagi)"
+              className="mcp-input"
+              disabled={saving}
+            />
+            <select
+              value={draft.transport}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  transport: e.target.value as McpTransport,
+                })
+              }
+              className="mcp-input mcp-input-small"
+              disabled={saving}
+            >
+              {(Object.keys(transportLabels) as McpTransport[]).map((key) => (
+                <option key={key} value={key}>
+                  {transportLabels[key]}
+                </option>
+              ))}
+            </select>
+          </div>
+          {draft.transport === "stdio" ? (
+            <>
+              <input
+                type="text"
+                value={draft.command}
+                onChange={(e) =>
+                  setDraft({ ...draft, command: e.target.value })
+                }
+                placeholder="Command (e.g. uvx)"
+                className="mcp-input"
+                disabled={saving}
+              />
+              <textarea
+                value={draft.args}
+                onChange={(e) => setDraft({ ...draft, args: e.target.value })}
+                placeholder="Arguments, one per line"
+                className="mcp-input"
+                rows={2}
+                disabled={saving}
+              />
+              <textarea
+                value={draft.env}
+                onChange={(e) => setDraft({ ...draft, env: e.target.value })}
+                placeholder={envPlaceholder}
+                className="mcp-input"
+                rows={3}
+                disabled={saving}
+              />
+            </>
+          ) : (
+            <>
+              <input
+                type="url"
+                value={draft.url}
+                onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                placeholder="https://example.com/mcp"
+                className="mcp-input"
+                disabled={saving}
+              />
+              <textarea
+                value={draft.headers}
+                onChange={(e) =>
+                  setDraft({ ...draft, headers: e.target.value })
+                }
+                placeholder={headersPlaceholder}
+                className="mcp-input"
+                rows={3}
+                disabled={saving}
+              />
+            </>
+          )}
+          <div className="mcp-row">
+            <label className="mcp-checkbox">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) =>
+                  setDraft({ ...draft, enabled: e.target.checked })
+                }
+                disabled={saving}
+              />
+              <span>Enabled</span>
+            </label>
+            <div className="mcp-actions">
+              {editingId && (
+                <button
+                  type="button"
+                  className="mcp-button mcp-button-secondary"
+                  onClick={resetForm}
+                  disabled={saving}
+                >
+                  Cancel
+                </button>
+              )}
+              <button type="submit" className="mcp-button" disabled={saving}>
+                {saving ? "Saving..." : editingId ? "Save" : "Add Server"}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+
+      <style jsx>{`
+        .mcp-panel {
+          display: flex;
+          flex-direction: column;
+          gap: 1.5rem;
+        }
+        .mcp-section {
+          background: rgba(0, 0, 0, 0.2);
+          border-radius: 8px;
+          padding: 1rem;
+        }
+        .mcp-section-title {
+          font-size: 0.95rem;
+          font-weight: 600;
+          margin: 0 0 1rem 0;
+          color: #ddd;
+        }
+        .mcp-muted {
+          color: #888;
+          font-size: 0.85rem;
+          margin: 0;
+        }
+        .mcp-form {
+          display: flex;
+          flex-direction: column;
+          gap: 0.75rem;
+        }
+        .mcp-row {
+          display: flex;
+          gap: 0.75rem;
+          align-items: center;
+          justify-content: space-between;
+          flex-wrap: wrap;
+        }
+        .mcp-input {
+          flex: 1;
+          min-width: 120px;
+          background: rgba(0, 0, 0, 0.3);
+          border: 1px solid rgba(255, 255, 255, 0.15);
+          border-radius: 6px;
+          padding: 0.5rem 0.75rem;
+          color: #fff;
+          font-size: 0.9rem;
+          font-family: inherit;
+          resize: vertical;
+        }
+        .mcp-input:focus {
+          outline: none;
+          border-color: #3b82f6;
+        }
+        .mcp-input-small {
+          flex: 0 1 auto;
+          width: 180px;
+        }
+        .mcp-checkbox {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          color: #aaa;
+          font-size: 0.9rem;
+          cursor: pointer;
+        }
+        .mcp-button {
+          background: linear-gradient(135deg, #3b82f6, #8b5cf6);
+          border: none;
+          border-radius: 6px;
+          padding: 0.375rem 0.75rem;
+          color: #fff;
+          font-size: 0.8rem;
+          font-weight: 500;
+          cursor: pointer;
+          transition: opacity 0.2s;
+        }
+        .mcp-button:hover:not(:disabled) {
+          opacity: 0.9;
+        }
+        .mcp-button:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+        .mcp-button-secondary {
+          background: rgba(255, 255, 255, 0.1);
+        }
+        .mcp-button-danger {
+          background: #ef4444;
+        }
+        .mcp-list {
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+        }
+        .mcp-item {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          padding: 0.75rem;
+          background: rgba(255, 255, 255, 0.05);
+          border-radius: 6px;
+          gap: 1rem;
+          flex-wrap: wrap;
+        }
+        .mcp-info {
+          display: flex;
+          flex-direction: column;
+          gap: 0.25rem;
+          min-width: 0;
+        }
+        .mcp-name {
+          font-weight: 500;
+          color: #fff;
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+        }
+        .mcp-target {
+          font-family: monospace;
+          font-size: 0.8rem;
+          color: #888;
+          word-break: break-all;
+        }
+        .mcp-status {
+          font-size: 0.8rem;
+          color: #ef4444;
+        }
+        .mcp-status.ok {
+          color: #22c55e;
+        }
+        .mcp-badge {
+          background: #3b82f6;
+          font-size: 0.7rem;
+          padding: 0.125rem 0.375rem;
+          border-radius: 4px;
+          font-weight: 600;
+        }
+        .mcp-badge.muted {
+          background: rgba(255, 255, 255, 0.2);
+        }
+        .mcp-actions {
+          display: flex;
+          gap: 0.5rem;
+          flex-wrap: wrap;
+        }
+        .mcp-error {
+          background: rgba(239, 68, 68, 0.15);
+          border: 1px solid rgba(239, 68, 68, 0.3);
+          border-radius: 6px;
+          padding: 0.75rem;
+          color: #ef4444;
+          font-size: 0.9rem;
+        }
+        .mcp-success {
+          background: rgba(34, 197, 94, 0.15);
+          border: 1px solid rgba(34, 197, 94, 0.3);
+          border-radius: 6px;
+          padding: 0.75rem;
+          color: #22c55e;
+          font-size: 0.9rem;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import clsx from "clsx";
+import type { PromptPreset } from "@/types/chat";
+
+type Props = {
+  presets: PromptPreset[];
+  presetId?: string | null;
+  onChange: (presetId: string | null) => void;
+};
+
+// Persona for the current chat. An id whose preset was deleted or unshared
+// shows as the default, which is also how the chat is answered.
+export function PersonaPicker({ presets, presetId, onChange }: Props) {
+  const selected = presets.find((preset) => preset.id === presetId);
+
+  return (
+    <label
+      className={clsx("chip", "persona-picker", { active: !!selected })}
+      title={
+        selected
+          ? `Persona: ${selected.name}`
+          : "Choose the persona that answers in this chat"
+      }
+    >
+      <svg
+        width="14"
+        height="14"
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      >
+        <path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2" />
+        <circle cx="12" cy="7" r="4" />
+      </svg>
+      <select
+        value={selected?.id ?? ""}
+        onChange={(e) => onChange(e.target.value || null)}
+        aria-label="Persona"
+      >
+        <option value="">Default persona</option>
+        {presets.map((preset) => (
+          <option key={preset.id} value={preset.id}>
+            {preset.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,476 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { MAX_PRESET_NAME, MAX_PRESET_PROMPT } from "@/lib/prompt-presets";
+import { usePresetStore } from "@/lib/store/preset-store";
+import type { PromptPreset, Provider } from "@/types/chat";
+
+type Draft = {
+  name: string;
+  systemPrompt: string;
+  provider: Provider | "";
+  model: string;
+  deepSearch: boolean;
+  temperature: string;
+  shared: boolean;
+};
+
+const emptyDraft: Draft = {
+  name: "",
+  systemPrompt: "",
+  provider: "",
+  model: "",
+  deepSearch: false,
+  temperature: "",
+  shared: false,
+};
+
+const providerLabels: Record<Provider, string> = {
+  local: "Local",
+  openrouter: "OpenRouter",
+  nanogpt: "NanoGPT",
+};
+
+function presetToDraft(preset: PromptPreset): Draft {
+  return {
+    name: preset.name,
+    systemPrompt: preset.systemPrompt,
+    provider: preset.provider || "",
+    model: preset.model || "",
+    deepSearch: preset.deepSearch,
+    temperature: preset.temperature === null ? "" : String(preset.temperature),
+    shared: preset.shared,
+  };
+}
+
+function draftToInput(draft: Draft) {
+  const temperature = draft.temperature.trim();
+  return {
+    name: draft.name.trim(),
+    systemPrompt: draft.systemPrompt,
+    provider: draft.provider || null,
+    model: draft.model.trim() || null,
+    deepSearch: draft.deepSearch,
+    temperature: temperature ? Number(temperature) : null,
+    shared: draft.shared,
+  };
+}
+
+function describePreset(preset: PromptPreset) {
+  const parts = [
+    preset.provider ? providerLabels[preset.provider] : "",
+    preset.model || "",
+    preset.temperature === null ? "" : `temp ${preset.temperature}`,
+    preset.deepSearch ? "DeepSearch" : "",
+  ].filter(Boolean);
+  return parts.length ? parts.join(" · ") : "Uses your model settings";
+}
+
+export function PromptPresetsPanel() {
+  const { presets, loadPresets, savePreset, deletePreset } = usePresetStore();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadPresets()
+      .catch((err) => setError((err as Error).message))
+      .finally(() => setLoading(false));
+  }, [loadPresets]);
+
+  const resetForm = () => {
+    setDraft(emptyDraft);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError("");
+    setSuccess("");
+    try {
+      const saved = await savePreset({
+        ...draftToInput(draft),
+        id: editingId ?? undefined,
+      });
+      setSuccess(`Persona "${saved.name}" ${editingId ? "updated" : "added"}`);
+      resetForm();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (preset: PromptPreset) => {
+    const warning = preset.shared
+      ? `Delete persona "${preset.name}"? It is shared, so chats of other users that use it go back to their own settings.`
+      : `Delete persona "${preset.name}"?`;
+    if (!confirm(warning)) return;
+    setError("");
+    setSuccess("");
+    try {
+      await deletePreset(preset.id);
+      setSuccess(`Persona "${preset.name}" deleted`);
+      if (editingId === preset.id) resetForm();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  if (loading && !presets.length) {
+    return <div className="preset-panel">Loading personas...</div>;
+  }
+
+  return (
+    <div className="preset-panel">
+      {error && <div className="preset-error">{error}</div>}
+      {success && <div className="preset-success">{success}</div>}
+
+      <div className="preset-section">
+        <h3 className="preset-section-title">Personas ({presets.length})</h3>
+        {presets.length === 0 && (
+          <p className="preset-muted">
+            No personas yet. Chats use the system prompt from Text Models.
+          </p>
+        )}
+        <div className="preset-list">
+          {presets.map((preset) => (
+            <div key={preset.id} className="preset-item">
+              <div className="preset-info">
+                <span className="preset-name">
+                  {preset.name}
+                  {preset.shared && (
+                    <span className="preset-badge">Shared</span>
+                  )}
+                  {!preset.editable && (
+                    <span className="preset-badge muted">
+                      by {preset.ownerName || "another user"}
+                    </span>
+                  )}
+                </span>
+                <span className="preset-meta">{describePreset(preset)}</span>
+                {preset.systemPrompt && (
+                  <span className="preset-prompt">{preset.systemPrompt}</span>
+                )}
+              </div>
+              <div className="preset-actions">
+                <button
+                  type="button"
+                  className="preset-button preset-button-secondary"
+                  onClick={() => {
+                    setEditingId(null);
+                    setDraft({
+                      ...presetToDraft(preset),
+                      name: `${preset.name} (copy)`.slice(0, MAX_PRESET_NAME),
+                      shared: false,
+                    });
+                  }}
+                >
+                  Duplicate
+                </button>
+                {preset.editable && (
+                  <>
+                    <button
+                      type="button"
+                      className="preset-button preset-button-secondary"
+                      onClick={() => {
+                        setEditingId(preset.id);
+                        setDraft(presetToDraft(preset));
+                      }}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      className="preset-button preset-button-danger"
+                      onClick={() => handleDelete(preset)}
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="preset-section">
+        <h3 className="preset-section-title">
+          {editingId ? `Edit "${draft.name}"` : "Add Persona"}
+        </h3>
+        <form onSubmit={handleSubmit} className="preset-form">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Name (e.g. Code reviewer)"
+            className="preset-input"
+            maxLength={MAX_PRESET_NAME}
+            disabled={saving}
+          />
+          <textarea
+            value={draft.systemPrompt}
+            onChange={(e) =>
+              setDraft({ ...draft, systemPrompt: e.target.value })
+            }
+            placeholder="System prompt"
+            className="preset-input"
+            rows={6}
+            maxLength={MAX_PRESET_PROMPT}
+            disabled={saving}
+          />
+          <div className="preset-row">
+            <select
+              value={draft.provider}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  provider: e.target.value as Draft["provider"],
+                })
+              }
+              className="preset-input preset-input-small"
+              disabled={saving}
+            >
+              <option value="">My provider</option>
+              {(Object.keys(providerLabels) as Provider[]).map((key) => (
+                <option key={key} value={key}>
+                  {providerLabels[key]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={draft.model}
+              onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+              placeholder="Model (empty uses the provider's model)"
+              className="preset-input"
+              disabled={saving}
+            />
+            <input
+              type="number"
+              value={draft.temperature}
+              onChange={(e) =>
+                setDraft({ ...draft, temperature: e.target.value })
+              }
+              placeholder="Temperature"
+              className="preset-input preset-input-small"
+              min={0}
+              max={2}
+              step={0.1}
+              disabled={saving}
+            />
+          </div>
+          <div className="preset-row">
+            <div className="preset-row">
+              <label className="preset-checkbox">
+                <input
+                  type="checkbox"
+                  checked={draft.deepSearch}
+                  onChange={(e) =>
+                    setDraft({ ...draft, deepSearch: e.target.checked })
+                  }
+                  disabled={saving}
+                />
+                <span>DeepSearch</span>
+              </label>
+              <label className="preset-checkbox">
+                <input
+                  type="checkbox"
+                  checked={draft.shared}
+                  onChange={(e) =>
+                    setDraft({ ...draft, shared: e.target.checked })
+                  }
+                  disabled={saving}
+                />
+                <span>Share with everyone</span>
+              </label>
+            </div>
+            <div className="preset-actions">
+              {(editingId || draft !== emptyDraft) && (
+                <button
+                  type="button"
+                  className="preset-button preset-button-secondary"
+                  onClick={resetForm}
+                  disabled={saving}
+                >
+                  Cancel
+                </button>
+              )}
+              <button
+                type="submit"
+                className="preset-button"
+                disabled={saving || !draft.name.trim()}
+              >
+                {saving ? "Saving..." : editingId ? "Save" : "Add Persona"}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+
+      <style jsx>{`
+        .preset-panel {
+          display: flex;
+          flex-direction: column;
+          gap: 1.5rem;
+        }
+        .preset-section {
+          background: rgba(0, 0, 0, 0.2);
+          border-radius: 8px;
+          padding: 1rem;
+        }
+        .preset-section-title {
+          font-size: 0.95rem;
+          font-weight: 600;
+          margin: 0 0 1rem 0;
+          color: #ddd;
+        }
+        .preset-muted {
+          color: #888;
+          font-size: 0.85rem;
+          margin: 0;
+        }
+        .preset-form {
+          display: flex;
+          flex-direction: column;
+          gap: 0.75rem;
+        }
+        .preset-row {
+          display: flex;
+          gap: 0.75rem;
+          align-items: center;
+          justify-content: space-between;
+          flex-wrap: wrap;
+        }
+        .preset-input {
+          flex: 1;
+          min-width: 120px;
+          background: rgba(0, 0, 0, 0.3);
+          border: 1px solid rgba(255, 255, 255, 0.15);
+          border-radius: 6px;
+          padding: 0.5rem 0.75rem;
+          color: #fff;
+          font-size: 0.9rem;
+          font-family: inherit;
+          resize: vertical;
+        }
+        .preset-input:focus {
+          outline: none;
+          border-color: #3b82f6;
+        }
+        .preset-input-small {
+          flex: 0 1 auto;
+          width: 140px;
+        }
+        .preset-checkbox {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          color: #aaa;
+          font-size: 0.9rem;
+          cursor: pointer;
+        }
+        .preset-button {
+          background: linear-gradient(135deg, #3b82f6, #8b5cf6);
+          border: none;
+          border-radius: 6px;
+          padding: 0.375rem 0.75rem;
+          color: #fff;
+          font-size: 0.8rem;
+          font-weight: 500;
+          cursor: pointer;
+          transition: opacity 0.2s;
+        }
+        .preset-button:hover:not(:disabled) {
+          opacity: 0.9;
+        }
+        .preset-button:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+        .preset-button-secondary {
+          background: rgba(255, 255, 255, 0.1);
+        }
+        .preset-button-danger {
+          background: #ef4444;
+        }
+        .preset-list {
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+        }
+        .preset-item {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          padding: 0.75rem;
+          background: rgba(255, 255, 255, 0.05);
+          border-radius: 6px;
+          gap: 1rem;
+          flex-wrap: wrap;
+        }
+        .preset-info {
+          display: flex;
+          flex-direction: column;
+          gap: 0.25rem;
+          min-width: 0;
+          flex: 1;
+        }
+        .preset-name {
+          font-weight: 500;
+          color: #fff;
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+        }
+        .preset-meta {
+          font-size: 0.8rem;
+          color: #888;
+        }
+        .preset-prompt {
+          font-size: 0.8rem;
+          color: #aaa;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+        .preset-badge {
+          background: #3b82f6;
+          font-size: 0.7rem;
+          padding: 0.125rem 0.375rem;
+          border-radius: 4px;
+          font-weight: 600;
+        }
+        .preset-badge.muted {
+          background: rgba(255, 255, 255, 0.2);
+        }
+        .preset-actions {
+          display: flex;
+          gap: 0.5rem;
+          flex-wrap: wrap;
+        }
+        .preset-error {
+          background: rgba(239, 68, 68, 0.15);
+          border: 1px solid rgba(239, 68, 68, 0.3);
+          border-radius: 6px;
+          padding: 0.75rem;
+          color: #ef4444;
+          font-size: 0.9rem;
+        }
+        .preset-success {
+          background: rgba(34, 197, 94, 0.15);
+          border: 1px solid rgba(34, 197, 94, 0.3);
+          border-radius: 6px;
+          padding: 0.75rem;
+          color: #22c55e;
+          font-size: 0.9rem;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,422 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { downloadFile } from "@/lib/export";
+import {
+  BUILTIN_VARIABLES,
+  exportTemplates,
+  MAX_TEMPLATE_BODY,
+  MAX_TEMPLATE_DESCRIPTION,
+  MAX_TEMPLATE_NAME,
+  templateVariables,
+} from "@/lib/prompt-templates";
+import { useTemplateStore } from "@/lib/store/template-store";
+import type { PromptTemplate } from "@/types/chat";
+
+type Draft = {
+  name: string;
+  description: string;
+  body: string;
+};
+
+const emptyDraft: Draft = { name: "", description: "", body: "" };
+
+const bodyPlaceholder =
+  "Review the following {{language}} code for bugs and style issues:\n\n{{selection}}";
+
+export function PromptTemplatesPanel() {
+  const {
+    templates,
+    loadTemplates,
+    saveTemplate,
+    deleteTemplate,
+    importTemplates,
+  } = useTemplateStore();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadTemplates()
+      .catch((err) => setError((err as Error).message))
+      .finally(() => setLoading(false));
+  }, [loadTemplates]);
+
+  const resetForm = () => {
+    setDraft(emptyDraft);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError("");
+    setSuccess("");
+    try {
+      const saved = await saveTemplate({
+        name: draft.name.trim(),
+        description: draft.description.trim(),
+        body: draft.body,
+        id: editingId ?? undefined,
+      });
+      setSuccess(`Template /${saved.name} ${editingId ? "updated" : "added"}`);
+      resetForm();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: PromptTemplate) => {
+    if (!confirm(`Delete template /${template.name}?`)) return;
+    setError("");
+    setSuccess("");
+    try {
+      await deleteTemplate(template.id);
+      setSuccess(`Template /${template.name} deleted`);
+      if (editingId === template.id) resetForm();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setError("");
+    setSuccess("");
+    try {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not valid JSON`);
+      }
+      const imported = await importTemplates(data);
+      setSuccess(
+        `Imported ${imported} template${imported === 1 ? "" : "s"}; templates with the same name were replaced`,
+      );
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const variables = templateVariables(draft.body);
+
+  if (loading && !templates.length) {
+    return <div className="template-panel">Loading templates...</div>;
+  }
+
+  return (
+    <div className="template-panel">
+      {error && <div className="template-error">{error}</div>}
+      {success && <div className="template-success">{success}</div>}
+
+      <div className="template-section">
+        <div className="template-section-head">
+          <h3 className="template-section-title">
+            Templates ({templates.length})
+          </h3>
+          <div className="template-actions">
+            <button
+              type="button"
+              className="template-button template-button-secondary"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Import
+            </button>
+            <button
+              type="button"
+              className="template-button template-button-secondary"
+              disabled={!templates.length}
+              onClick={() =>
+                downloadFile(
+                  exportTemplates(templates),
+                  "superkagi-templates.json",
+                  "application/json",
+                )
+              }
+            >
+              Export
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              hidden
+            />
+          </div>
+        </div>
+        {templates.length === 0 && (
+          <p className="template-muted">
+            No templates yet. Type / in the message box to insert one.
+          </p>
+        )}
+        <div className="template-list">
+          {templates.map((template) => (
+            <div key={template.id} className="template-item">
+              <div className="template-info">
+                <span className="template-name">/{template.name}</span>
+                {template.description && (
+                  <span className="template-meta">{template.description}</span>
+                )}
+                <span className="template-body">{template.body}</span>
+              </div>
+              <div className="template-actions">
+                <button
+                  type="button"
+                  className="template-button template-button-secondary"
+                  onClick={() => {
+                    setEditingId(template.id);
+                    setDraft({
+                      name: template.name,
+                      description: template.description,
+                      body: template.body,
+                    });
+                  }}
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  className="template-button template-button-danger"
+                  onClick={() => handleDelete(template)}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="template-section">
+        <h3 className="template-section-title">
+          {editingId ? `Edit /${draft.name}` : "Add Template"}
+        </h3>
+        <form onSubmit={handleSubmit} className="template-form">
+          <div className="template-row">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Command (e.g. code-review)"
+              className="template-input template-input-small"
+              maxLength={MAX_TEMPLATE_NAME}
+              disabled={saving}
+            />
+            <input
+              type="text"
+              value={draft.description}
+              onChange={(e) =>
+                setDraft({ ...draft, description: e.target.value })
+              }
+              placeholder="Description (optional)"
+              className="template-input"
+              maxLength={MAX_TEMPLATE_DESCRIPTION}
+              disabled={saving}
+            />
+          </div>
+          <textarea
+            value={draft.body}
+            onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+            placeholder={bodyPlaceholder}
+            className="template-input"
+            rows={6}
+            maxLength={MAX_TEMPLATE_BODY}
+            disabled={saving}
+          />
+          <p className="template-muted">
+            {variables.length
+              ? `Asks for: ${variables.join(", ")}. `
+              : "Use {{name}} for text to fill in when inserting. "}
+            Built in:{" "}
+            {Object.entries(BUILTIN_VARIABLES)
+              .map(
+                ([name, description]) =>
+                  `{{${name}}} ${description.toLowerCase()}`,
+              )
+              .join(", ")}
+            .
+          </p>
+          <div className="template-actions template-form-actions">
+            {editingId && (
+              <button
+                type="button"
+                className="template-button template-button-secondary"
+                onClick={resetForm}
+                disabled={saving}
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              className="template-button"
+              disabled={saving || !draft.name.trim() || !draft.body.trim()}
+            >
+              {saving ? "Saving..." : editingId ? "Save" : "Add Template"}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <style jsx>{`
+        .template-panel {
+          display: flex;
+          flex-direction: column;
+          gap: 1.5rem;
+        }
+        .template-section {
+          background: rgba(0, 0, 0, 0.2);
+          border-radius: 8px;
+          padding: 1rem;
+        }
+        .template-section-head {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 0.75rem;
+          margin-bottom: 1rem;
+        }
+        .template-section-head .template-section-title {
+          margin: 0;
+        }
+        .template-section-title {
+          font-size: 0.95rem;
+          font-weight: 600;
+          margin: 0 0 1rem 0;
+          color: #ddd;
+        }
+        .template-muted {
+          color: #888;
+          font-size: 0.85rem;
+          margin: 0;
+        }
+        .template-form {
+          display: flex;
+          flex-direction: column;
+          gap: 0.75rem;
+        }
+        .template-row {
+          display: flex;
+          gap: 0.75rem;
+          align-items: center;
+          flex-wrap: wrap;
+        }
+        .template-input {
+          flex: 1;
+          min-width: 120px;
+          background: rgba(0, 0, 0, 0.3);
+          border: 1px solid rgba(255, 255, 255, 0.15);
+          border-radius: 6px;
+          padding: 0.5rem 0.75rem;
+          color: #fff;
+          font-size: 0.9rem;
+          font-family: inherit;
+          resize: vertical;
+        }
+        .template-input:focus {
+          outline: none;
+          border-color: #3b82f6;
+        }
+        .template-input-small {
+          flex: 0 1 auto;
+          width: 200px;
+        }
+        .template-button {
+          background: linear-gradient(135deg, #3b82f6, #8b5cf6);
+          border: none;
+          border-radius: 6px;
+          padding: 0.375rem 0.75rem;
+          color: #fff;
+          font-size: 0.8rem;
+          font-weight: 500;
+          cursor: pointer;
+          transition: opacity 0.2s;
+        }
+        .template-button:hover:not(:disabled) {
+          opacity: 0.9;
+        }
+        .template-button:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+        .template-button-secondary {
+          background: rgba(255, 255, 255, 0.1);
+        }
+        .template-button-danger {
+          background: #ef4444;
+        }
+        .template-list {
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+        }
+        .template-item {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          padding: 0.75rem;
+          background: rgba(255, 255, 255, 0.05);
+          border-radius: 6px;
+          gap: 1rem;
+        }
+        .template-info {
+          display: flex;
+          flex-direction: column;
+          gap: 0.25rem;
+          min-width: 0;
+          flex: 1;
+        }
+        .template-name {
+          font-family: monospace;
+          font-weight: 600;
+          color: #fff;
+        }
+        .template-meta {
+          font-size: 0.8rem;
+          color: #aaa;
+        }
+        .template-body {
+          font-size: 0.8rem;
+          color: #888;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+        .template-actions {
+          display: flex;
+          gap: 0.5rem;
+          flex-wrap: wrap;
+        }
+        .template-form-actions {
+          justify-content: flex-end;
+        }
+        .template-error {
+          background: rgba(239, 68, 68, 0.15);
+          border: 1px solid rgba(239, 68, 68, 0.3);
+          border-radius: 6px;
+          padding: 0.75rem;
+          color: #ef4444;
+          font-size: 0.9rem;
+        }
+        .template-success {
+          background: rgba(34, 197, 94, 0.15);
+          border: 1px solid rgba(34, 197, 94, 0.3);
+          border-radius: 6px;
+          padding: 0.75rem;
+          color: #22c55e;
+          font-size: 0.9rem;
+        }
+      `}</style>
+    </div>
+  );
+}
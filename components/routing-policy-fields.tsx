@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import {
+  DEFAULT_ROUTING,
+  MAX_FALLBACKS,
+  MAX_RETRIES,
+  parseRoutingPolicy,
+} from "@/lib/routing";
+import type { ModelTarget, Provider, RoutingPolicy } from "@/types/chat";
+
+type Props = {
+  policy: RoutingPolicy;
+  onChange: (policy: RoutingPolicy) => void;
+  // Prefills a new fallback with the provider's configured model
+  modelFor: (provider: Provider) => string;
+};
+
+type Draft = {
+  retries: string;
+  retryDelayMs: string;
+  fallbacks: ModelTarget[];
+};
+
+const providerLabels: Record<Provider, string> = {
+  local: "Local",
+  openrouter: "OpenRouter",
+  nanogpt: "NanoGPT",
+};
+
+function toDraft(policy: RoutingPolicy): Draft {
+  return {
+    retries: String(policy.retries),
+    retryDelayMs: String(policy.retryDelayMs),
+    fallbacks: policy.fallbacks,
+  };
+}
+
+/**
+ * Retry and fallback settings. Like the generation fields, only a valid
+ * policy is passed to `onChange`, so a fallback without a model is kept in the
+ * form until it gets one.
+ */
+export function RoutingPolicyFields({ policy, onChange, modelFor }: Props) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(policy));
+  const [error, setError] = useState("");
+
+  const apply = (nextDraft: Draft) => {
+    setDraft(nextDraft);
+    const number = (text: string) =>
+      text.trim() === "" ? undefined : Number(text);
+    const { policy: parsed, error: invalid } = parseRoutingPolicy({
+      retries: number(nextDraft.retries),
+      retryDelayMs: number(nextDraft.retryDelayMs),
+      fallbacks: nextDraft.fallbacks,
+    });
+    setError(invalid || "");
+    if (parsed) onChange(parsed);
+  };
+
+  const updateFallback = (index: number, patch: Partial<ModelTarget>) =>
+    apply({
+      ...draft,
+      fallbacks: draft.fallbacks.map((f, i) =>
+        i === index ? { ...f, ...patch } : f,
+      ),
+    });
+
+  return (
+    <div className="gen-params">
+      <div className="gen-params-grid">
+        <label className="gen-params-field">
+          <span className="gen-params-label">Retries</span>
+          <input
+            className="field"
+            type="number"
+            step="1"
+            min="0"
+            max={MAX_RETRIES}
+            value={draft.retries}
+            placeholder={String(DEFAULT_ROUTING.retries)}
+            onChange={(e) => apply({ ...draft, retries: e.target.value })}
+          />
+        </label>
+        <label className="gen-params-field">
+          <span className="gen-params-label">First retry after (ms)</span>
+          <input
+            className="field"
+            type="number"
+            step="100"
+            min="0"
+            value={draft.retryDelayMs}
+            placeholder={String(DEFAULT_ROUTING.retryDelayMs)}
+            onChange={(e) => apply({ ...draft, retryDelayMs: e.target.value })}
+          />
+        </label>
+      </div>
+      <div className="gen-params-field">
+        <span className="gen-params-label">Fallback models, in order</span>
+        {draft.fallbacks.map((fallback, index) => (
+          <div
+            // biome-ignore lint/suspicious/noArrayIndexKey: rows have no identity beyond their position
+            key={index}
+            className="routing-target"
+          >
+            <select
+              className="field"
+              value={fallback.provider}
+              aria-label={`Fallback provider ${index + 1}`}
+              onChange={(e) => {
+                const provider = e.target.value as Provider;
+                updateFallback(index, { provider, model: modelFor(provider) });
+              }}
+            >
+              {(Object.keys(providerLabels) as Provider[]).map((p) => (
+                <option key={p} value={p}>
+                  {providerLabels[p]}
+                </option>
+              ))}
+            </select>
+            <input
+              className="field"
+              value={fallback.model}
+              placeholder="Model"
+              aria-label={`Fallback model ${index + 1}`}
+              onChange={(e) => updateFallback(index, { model: e.target.value })}
+            />
+            <button
+              type="button"
+              className="mini-btn ghost"
+              title="Remove fallback"
+              aria-label={`Remove fallback ${index + 1}`}
+              onClick={() =>
+                apply({
+                  ...draft,
+                  fallbacks: draft.fallbacks.filter((_, i) => i !== index),
+                })
+              }
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <div>
+          <button
+            type="button"
+            className="mini-btn"
+            disabled={draft.fallbacks.length >= MAX_FALLBACKS}
+            onClick={() =>
+              apply({
+                ...draft,
+                fallbacks: [
+                  ...draft.fallbacks,
+                  { provider: "openrouter", model: modelFor("openrouter") },
+                ],
+              })
+            }
+          >
+            Add fallback
+          </button>
+        </div>
+      </div>
+      {error && <div className="gen-params-error">{error}</div>}
+    </div>
+  );
+}
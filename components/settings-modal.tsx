@@ -4,8 +4,19 @@ import clsx from "clsx";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
 import { AdminPanel } from "@/components/admin-panel";
+import { ApiTokensPanel } from "@/components/api-tokens-panel";
+import { GenerationParamsFields } from "@/components/generation-params-fields";
+import { KnowledgePanel } from "@/components/knowledge-panel";
+import { McpServersPanel } from "@/components/mcp-servers-panel";
+import { PromptPresetsPanel } from "@/components/prompt-presets-panel";
+import { PromptTemplatesPanel } from "@/components/prompt-templates-panel";
+import { RoutingPolicyFields } from "@/components/routing-policy-fields";
 import { ShortcutsPanel } from "@/components/shortcuts-panel";
-import { defaultImageResolutions, initialConfig } from "@/lib/config-utils";
+import {
+  defaultImageResolutions,
+  defaultModels,
+  initialConfig,
+} from "@/lib/config-utils";
 import { useAuthStore } from "@/lib/store/auth-store";
 import { useConfigStore } from "@/lib/store/config-store";
 import { useModelStore } from "@/lib/store/model-store";
@@ -320,6 +331,78 @@ export function SettingsModal() {
               <span>Image Models</span>
             </button>
 
+            {/* Prompt Presets */}
+            <button
+              type="button"
+              className={clsx("nav-item-icon", {
+                active: settingsTab === "prompts",
+              })}
+              onClick={() => setSettingsTab("prompts")}
+            >
+              <svg
+                width="18"
+                height="18"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
+                <path d="M8 9h8M8 13h5" />
+              </svg>
+              <span>Personas</span>
+            </button>
+
+            {/* Prompt Templates */}
+            <button
+              type="button"
+              className={clsx("nav-item-icon", {
+                active: settingsTab === "templates",
+              })}
+              onClick={() => setSettingsTab("templates")}
+            >
+              <svg
+                width="18"
+                height="18"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+                <path d="M14 2v6h6M10 13l-2 4M14 13l-2 4" />
+              </svg>
+              <span>Templates</span>
+            </button>
+
+            {/* Knowledge Collections */}
+            <button
+              type="button"
+              className={clsx("nav-item-icon", {
+                active: settingsTab === "knowledge",
+              })}
+              onClick={() => setSettingsTab("knowledge")}
+            >
+              <svg
+                width="18"
+                height="18"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20" />
+                <path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z" />
+              </svg>
+              <span>Knowledge</span>
+            </button>
+
             {/* Keyboard Shortcuts */}
             <button
               type="button"
@@ -344,6 +427,30 @@ export function SettingsModal() {
               <span>Shortcuts</span>
             </button>
 
+            {/* API Tokens */}
+            <button
+              type="button"
+              className={clsx("nav-item-icon", {
+                active: settingsTab === "apiTokens",
+              })}
+              onClick={() => setSettingsTab("apiTokens")}
+            >
+              <svg
+                width="18"
+                height="18"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <circle cx="7.5" cy="15.5" r="5.5" />
+                <path d="M21 2l-9.6 9.6M15.5 7.5l3 3L22 7l-3-3" />
+              </svg>
+              <span>API Tokens</span>
+            </button>
+
             {/* Users (Admin Only) */}
             {user?.isAdmin && (
               <button
@@ -371,6 +478,33 @@ export function SettingsModal() {
                 <span>Users</span>
               </button>
             )}
+
+            {/* MCP Servers (Admin Only) */}
+            {user?.isAdmin && (
+              <button
+                type="button"
+                className={clsx("nav-item-icon", {
+                  active: settingsTab === "mcp",
+                })}
+                onClick={() => setSettingsTab("mcp")}
+              >
+                <svg
+                  width="18"
+                  height="18"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <rect x="2" y="2" width="20" height="8" rx="2" ry="2" />
+                  <rect x="2" y="14" width="20" height="8" rx="2" ry="2" />
+                  <path d="M6 6h.01M6 18h.01" />
+                </svg>
+                <span>MCP Servers</span>
+              </button>
+            )}
           </aside>
           <section className="settings-main">
             {settingsTab === "settings" && (
@@ -489,6 +623,51 @@ export function SettingsModal() {
                   </>
                 )}
 
+                <div className="settings-toggle-row">
+                  <div className="settings-toggle-info">
+                    <div className="settings-toggle-label">
+                      Automatic chat titles
+                    </div>
+                    <div className="settings-toggle-desc">
+                      After the first reply, ask a model to name the chat.
+                      Chats you rename keep your name.
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    role="switch"
+                    aria-checked={config.autoTitle}
+                    aria-label="Automatic chat titles"
+                    className={clsx("toggle-switch", {
+                      active: config.autoTitle,
+                    })}
+                    onClick={() =>
+                      setConfig((prev: UiConfig) => ({
+                        ...prev,
+                        autoTitle: !prev.autoTitle,
+                      }))
+                    }
+                  />
+                </div>
+                {config.autoTitle && (
+                  <div className="settings-row">
+                    <div className="row-label">Title model</div>
+                    <div className="row-content">
+                      <input
+                        className="field"
+                        value={config.titleModel || ""}
+                        onChange={(e) =>
+                          setConfig((prev: UiConfig) => ({
+                            ...prev,
+                            titleModel: e.target.value,
+                          }))
+                        }
+                        placeholder="Same as chat model; a small, cheap one works best"
+                      />
+                    </div>
+                  </div>
+                )}
+
                 <div className="settings-actions">
                   {statusMsg && (
                     <div
@@ -879,6 +1058,46 @@ export function SettingsModal() {
                   </div>
                 </div>
 
+                <div className="settings-row">
+                  <div className="row-label">Generation</div>
+                  <div className="row-content">
+                    <GenerationParamsFields
+                      params={config.generation ?? {}}
+                      provider={config.provider}
+                      onChange={(generation) =>
+                        setConfig((prev: UiConfig) => ({ ...prev, generation }))
+                      }
+                    />
+                  </div>
+                </div>
+                <p className="section-desc">
+                  Empty fields use the model&apos;s defaults. Each chat can
+                  override these from the Parameters chip under the message
+                  box.
+                </p>
+
+                <div className="settings-row">
+                  <div className="row-label">Failures</div>
+                  <div className="row-content">
+                    <RoutingPolicyFields
+                      policy={config.routing ?? initialConfig.routing}
+                      modelFor={(provider) =>
+                        config.models?.[provider] || defaultModels[provider]
+                      }
+                      onChange={(routing) =>
+                        setConfig((prev: UiConfig) => ({ ...prev, routing }))
+                      }
+                    />
+                  </div>
+                </div>
+                <p className="section-desc">
+                  Rate limits, provider errors and dropped connections are
+                  retried with growing pauses. When retries run out, or the
+                  model is refused for its key, context length or content
+                  filter, each fallback is tried in order. Compared answers
+                  never fall back.
+                </p>
+
                 <div className="settings-actions">
                   {statusMsg && (
                     <div
@@ -1093,6 +1312,42 @@ export function SettingsModal() {
               </div>
             )}
 
+            {settingsTab === "prompts" && (
+              <div className="section">
+                <div className="section-title">Personas</div>
+                <p className="section-desc">
+                  Named system prompts with their own model and deep search
+                  setting. Pick one per chat from the composer; shared personas
+                  are available to everyone on this server.
+                </p>
+                <PromptPresetsPanel />
+              </div>
+            )}
+
+            {settingsTab === "templates" && (
+              <div className="section">
+                <div className="section-title">Templates</div>
+                <p className="section-desc">
+                  Snippets inserted by typing / and their name in the message
+                  box. Share them with others by exporting a JSON file.
+                </p>
+                <PromptTemplatesPanel />
+              </div>
+            )}
+
+            {settingsTab === "knowledge" && (
+              <div className="section">
+                <div className="section-title">Knowledge</div>
+                <p className="section-desc">
+                  Collections of documents that chats can search. Each
+                  document is split into passages and embedded once; pick a
+                  collection in the composer and the closest passages are
+                  added to every answer, cited as sources.
+                </p>
+                <KnowledgePanel />
+              </div>
+            )}
+
             {settingsTab === "shortcuts" && (
               <ShortcutsPanel
                 customShortcuts={customShortcuts}
@@ -1104,6 +1359,18 @@ export function SettingsModal() {
               />
             )}
 
+            {settingsTab === "apiTokens" && (
+              <div className="section">
+                <div className="section-title">API Tokens</div>
+                <p className="section-desc">
+                  Use a token as the API key for OpenAI-compatible clients, with
+                  this server&apos;s /api/v1 as the base URL. Requests use your
+                  provider settings and count toward your spend.
+                </p>
+                <ApiTokensPanel />
+              </div>
+            )}
+
             {settingsTab === "users" && user?.isAdmin && (
               <div className="section">
                 <div className="section-title">User Management</div>
@@ -1113,6 +1380,18 @@ export function SettingsModal() {
                 <AdminPanel />
               </div>
             )}
+
+            {settingsTab === "mcp" && user?.isAdmin && (
+              <div className="section">
+                <div className="section-title">MCP Servers</div>
+                <p className="section-desc">
+                  Tool servers available to deep search. Tools are exposed to the model as
+                  server__tool. Use ${"{VAR}"} in env values and headers to read secrets from
+                  the server environment.
+                </p>
+                <McpServersPanel />
+              </div>
+            )}
           </section>
         </div>
       </div>
@@ -0,0 +1,210 @@
+"use client";
+
+import clsx from "clsx";
+import {
+  type KeyboardEvent,
+  type ReactNode,
+  type RefObject,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import {
+  builtinValues,
+  renderTemplate,
+  templateVariables,
+} from "@/lib/prompt-templates";
+import { useTemplateStore } from "@/lib/store/template-store";
+import type { PromptTemplate } from "@/types/chat";
+
+type Options = {
+  value: string;
+  onChange: (value: string) => void;
+  inputRef: RefObject<HTMLTextAreaElement | null>;
+};
+
+type Filling = {
+  template: PromptTemplate;
+  values: Record<string, string>;
+};
+
+// The whole input is "/" and the start of a template name
+const COMMAND_PATTERN = /^\/([\w-]*)$/;
+const MAX_MATCHES = 8;
+
+function matchTemplates(templates: PromptTemplate[], query: string) {
+  const q = query.toLowerCase();
+  const starts = templates.filter((t) => t.name.toLowerCase().startsWith(q));
+  const contains = templates.filter(
+    (t) =>
+      !t.name.toLowerCase().startsWith(q) && t.name.toLowerCase().includes(q),
+  );
+  return [...starts, ...contains].slice(0, MAX_MATCHES);
+}
+
+/**
+ * Slash commands for a chat input: typing /name lists matching templates, and
+ * picking one replaces the input with its text. Templates with their own
+ * variables first show a small form for them. `onKeyDown` returns true when
+ * it handled the key, so the input must not send.
+ */
+export function useTemplateMenu({ value, onChange, inputRef }: Options): {
+  onKeyDown: (e: KeyboardEvent<HTMLTextAreaElement>) => boolean;
+  menu: ReactNode;
+} {
+  const templates = useTemplateStore((state) => state.templates);
+  // Highlighted match, reset whenever the query changes
+  const [active, setActive] = useState({ query: "", index: 0 });
+  const [dismissedFor, setDismissedFor] = useState<string | null>(null);
+  const [filling, setFilling] = useState<Filling | null>(null);
+  // Focusing the input clears the page selection, so remember the last one
+  const lastSelection = useRef("");
+
+  useEffect(() => {
+    const onSelectionChange = () => {
+      const focused = document.activeElement;
+      if (focused instanceof HTMLInputElement) return;
+      if (focused instanceof HTMLTextAreaElement) return;
+      const text = window.getSelection()?.toString() || "";
+      if (text.trim()) lastSelection.current = text;
+    };
+    document.addEventListener("selectionchange", onSelectionChange);
+    return () =>
+      document.removeEventListener("selectionchange", onSelectionChange);
+  }, []);
+
+  const query = COMMAND_PATTERN.exec(value)?.[1];
+  const matches = query === undefined ? [] : matchTemplates(templates, query);
+  const open = !filling && matches.length > 0 && dismissedFor !== value;
+  const selected =
+    active.query === query ? Math.min(active.index, matches.length - 1) : 0;
+  const setActiveIndex = (index: number) =>
+    setActive({ query: query ?? "", index });
+
+  const insert = (template: PromptTemplate, values: Record<string, string>) => {
+    onChange(
+      renderTemplate(template.body, {
+        ...builtinValues(lastSelection.current),
+        ...values,
+      }),
+    );
+    setFilling(null);
+    requestAnimationFrame(() => {
+      const input = inputRef.current;
+      if (!input) return;
+      input.focus();
+      input.setSelectionRange(input.value.length, input.value.length);
+    });
+  };
+
+  const pick = (template: PromptTemplate) => {
+    const variables = templateVariables(template.body);
+    if (!variables.length) {
+      insert(template, {});
+      return;
+    }
+    setFilling({
+      template,
+      values: Object.fromEntries(variables.map((name) => [name, ""])),
+    });
+  };
+
+  const cancelFilling = () => {
+    setFilling(null);
+    inputRef.current?.focus();
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!open || e.nativeEvent.isComposing) return false;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((selected + step + matches.length) % matches.length);
+    } else if ((e.key === "Enter" && !e.shiftKey) || e.key === "Tab") {
+      pick(matches[selected]);
+    } else if (e.key === "Escape") {
+      setDismissedFor(value);
+    } else {
+      return false;
+    }
+    e.preventDefault();
+    return true;
+  };
+
+  let menu: ReactNode = null;
+  if (filling) {
+    const names = Object.keys(filling.values);
+    menu = (
+      <form
+        className="slash-menu slash-fill"
+        onSubmit={(e) => {
+          e.preventDefault();
+          insert(filling.template, filling.values);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") cancelFilling();
+        }}
+      >
+        <div className="slash-fill-head">
+          <span className="slash-name">/{filling.template.name}</span>
+          {filling.template.description && (
+            <span className="slash-desc">{filling.template.description}</span>
+          )}
+        </div>
+        {names.map((name, index) => (
+          <label key={name} className="slash-field">
+            <span>{name}</span>
+            <input
+              type="text"
+              value={filling.values[name]}
+              onChange={(e) =>
+                setFilling({
+                  ...filling,
+                  values: { ...filling.values, [name]: e.target.value },
+                })
+              }
+              // biome-ignore lint/a11y/noAutofocus: the form opens for typing
+              autoFocus={index === 0}
+            />
+          </label>
+        ))}
+        <div className="slash-fill-actions">
+          <button
+            type="button"
+            className="mini-btn ghost"
+            onClick={cancelFilling}
+          >
+            Cancel
+          </button>
+          <button type="submit" className="mini-btn">
+            Insert
+          </button>
+        </div>
+      </form>
+    );
+  } else if (open) {
+    menu = (
+      <div className="slash-menu" role="listbox" aria-label="Templates">
+        {matches.map((template, index) => (
+          <button
+            key={template.id}
+            type="button"
+            role="option"
+            aria-selected={index === selected}
+            className={clsx("slash-option", { active: index === selected })}
+            // Keep focus in the input
+            onMouseDown={(e) => e.preventDefault()}
+            onMouseEnter={() => setActiveIndex(index)}
+            onClick={() => pick(template)}
+          >
+            <span className="slash-name">/{template.name}</span>
+            <span className="slash-desc">
+              {template.description || template.body.slice(0, 80)}
+            </span>
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  return { onKeyDown, menu };
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import clsx from "clsx";
+
+import { describeToolCall } from "@/lib/chat-utils";
+import type { ToolCallStep } from "@/types/chat";
+
+type Props = {
+  steps: ToolCallStep[];
+};
+
+function formatDuration(ms?: number) {
+  if (ms == null) return "";
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+export function ToolCallSteps({ steps }: Props) {
+  if (!steps.length) return null;
+
+  return (
+    <section className="tool-steps" aria-label="Tool calls">
+      {steps.map((step) => (
+        <details key={step.id} className={clsx("tool-step", step.status)}>
+          <summary>
+            <span className="tool-step-status" aria-hidden="true" />
+            <span className="tool-step-label">{describeToolCall(step)}</span>
+            {step.durationMs != null ? (
+              <span className="tool-step-duration">
+                {formatDuration(step.durationMs)}
+              </span>
+            ) : null}
+          </summary>
+          <div className="tool-step-body">
+            <div className="tool-step-name">{step.name}</div>
+            <pre>{JSON.stringify(step.arguments, null, 2)}</pre>
+            {step.error ? (
+              <pre className="tool-step-error">{step.error}</pre>
+            ) : step.result ? (
+              <pre>{step.result}</pre>
+            ) : null}
+          </div>
+        </details>
+      ))}
+    </section>
+  );
+}
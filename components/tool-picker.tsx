@@ -0,0 +1,150 @@
+"use client";
+
+import clsx from "clsx";
+import { useEffect, useRef, useState } from "react";
+import type { McpToolOption } from "@/types/chat";
+
+type Props = {
+  enabledTools?: string[] | null;
+  onChange: (enabledTools: string[] | null) => void;
+};
+
+export function ToolPicker({ enabledTools, onChange }: Props) {
+  const [open, setOpen] = useState(false);
+  const [tools, setTools] = useState<McpToolOption[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open || tools || loading || error) return;
+    setLoading(true);
+    fetch("/api/mcp/tools", { cache: "no-store" })
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to load tools");
+        setTools(data.tools || []);
+      })
+      .catch((err) => setError((err as Error).message))
+      .finally(() => setLoading(false));
+  }, [open, tools, loading, error]);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("pointerdown", onPointerDown);
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("pointerdown", onPointerDown);
+      document.removeEventListener("keydown", onKeyDown);
+    };
+  }, [open]);
+
+  const allNames = (tools || []).map((tool) => tool.name);
+  const isEnabled = (name: string) =>
+    !Array.isArray(enabledTools) || enabledTools.includes(name);
+
+  const toggleTool = (name: string) => {
+    const current = Array.isArray(enabledTools) ? enabledTools : allNames;
+    const next = current.includes(name)
+      ? current.filter((item) => item !== name)
+      : [...current, name];
+    // Going back to the full set means "all tools", including ones added later
+    const coversAll =
+      allNames.length > 0 && allNames.every((item) => next.includes(item));
+    onChange(coversAll ? null : next);
+  };
+
+  const groups = new Map<string, McpToolOption[]>();
+  for (const tool of tools || []) {
+    const key = tool.server || "other";
+    groups.set(key, [...(groups.get(key) || []), tool]);
+  }
+
+  const label = !Array.isArray(enabledTools)
+    ? "All tools"
+    : `${enabledTools.length} tool${enabledTools.length === 1 ? "" : "s"}`;
+
+  return (
+    <div className="tool-picker" ref={rootRef}>
+      <button
+        type="button"
+        className={clsx("chip", { active: open })}
+        onClick={() => {
+          setError("");
+          setOpen((prev) => !prev);
+        }}
+        title="Choose which tools DeepSearch may use in this chat"
+        aria-haspopup="dialog"
+        aria-expanded={open}
+      >
+        <svg
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path d="M14.7 6.3a1 1 0 0 0 0 1.4l1.6 1.6a1 1 0 0 0 1.4 0l3.77-3.77a6 6 0 0 1-7.94 7.94l-6.91 6.91a2.12 2.12 0 0 1-3-3l6.91-6.91a6 6 0 0 1 7.94-7.94l-3.76 3.76z" />
+        </svg>
+        {label}
+      </button>
+
+      {open && (
+        <div className="tool-picker-popover" role="dialog" aria-label="Tools">
+          <div className="tool-picker-head">
+            <span>Tools for this chat</span>
+            <div className="tool-picker-bulk">
+              <button
+                type="button"
+                className="mini-btn ghost"
+                onClick={() => onChange(null)}
+              >
+                All
+              </button>
+              <button
+                type="button"
+                className="mini-btn ghost"
+                onClick={() => onChange([])}
+              >
+                None
+              </button>
+            </div>
+          </div>
+          {loading && <div className="tool-picker-empty">Loading tools…</div>}
+          {error && <div className="tool-picker-empty error">{error}</div>}
+          {tools && !tools.length && (
+            <div className="tool-picker-empty">No MCP tools available.</div>
+          )}
+          {[...groups.entries()].map(([server, items]) => (
+            <div key={server} className="tool-picker-group">
+              <div className="tool-picker-server">{server}</div>
+              {items.map((tool) => (
+                <label
+                  key={tool.name}
+                  className="tool-picker-item"
+                  title={tool.description}
+                >
+                  <input
+                    type="checkbox"
+                    checked={isEnabled(tool.name)}
+                    onChange={() => toggleTool(tool.name)}
+                  />
+                  <span>{tool.tool}</span>
+                </label>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
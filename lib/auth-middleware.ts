@@ -1,6 +1,10 @@
 import { cookies } from "next/headers";
-import { SESSION_COOKIE_NAME } from "./auth";
-import { getSession, type StoredUser } from "./persistence";
+import { API_TOKEN_PREFIX, SESSION_COOKIE_NAME } from "./auth";
+import {
+    getSession,
+    getUserByApiToken,
+    type StoredUser,
+} from "./persistence";
 
 export type AuthUser = Omit<StoredUser, "passwordHash">;
 
@@ -46,3 +50,23 @@ export async function requireAdmin(): Promise<AuthUser> {
     }
     return user;
 }
+
+/**
+ * Authenticate an API request by its `Authorization: Bearer` token
+ * Returns null if the header is missing or the token is unknown or revoked
+ */
+export function getApiUser(request: Request): AuthUser | null {
+    try {
+        const header = request.headers.get("authorization") || "";
+        const match = header.match(/^Bearer\s+(\S+)$/i);
+        if (!match || !match[1].startsWith(API_TOKEN_PREFIX)) return null;
+
+        const user = getUserByApiToken(match[1]);
+        if (!user) return null;
+
+        const { passwordHash: _, ...safeUser } = user;
+        return safeUser;
+    } catch {
+        return null;
+    }
+}
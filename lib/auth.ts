@@ -2,6 +2,7 @@ import crypto from "node:crypto";
 
 export const SESSION_COOKIE_NAME = "superkagi_session";
 export const SESSION_DURATION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+export const API_TOKEN_PREFIX = "sk-kagi-";
 
 /**
  * Hash a password with a random salt using SHA-256
@@ -42,3 +43,18 @@ export function generateSessionToken(): string {
 export function generateUserId(): string {
     return crypto.randomBytes(16).toString("hex");
 }
+
+/**
+ * Generate a bearer token for the OpenAI-compatible API
+ */
+export function generateApiToken(): string {
+    return API_TOKEN_PREFIX + crypto.randomBytes(24).toString("hex");
+}
+
+/**
+ * Hash an API token for storage and lookup. Tokens are random, so an unsalted
+ * hash is enough and keeps lookups a single indexed query.
+ */
+export function hashApiToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,103 @@
+import {
+  GLOBAL_BUDGET_SCOPE,
+  getBudget,
+  type StoredBudget,
+} from "./persistence";
+import { spendSince } from "./pricing";
+
+// Spending limits are checked against the pricing ledger before a request is
+// sent to a provider. Cost is only known once a call finishes, so the request
+// that crosses a limit still completes and the next one is refused.
+
+/** Prefix of the error thrown when a request is over budget. */
+export const BUDGET_EXCEEDED = "Budget exceeded";
+
+const DEFAULT_WARN_PERCENT = 80;
+
+type Period = "daily" | "monthly";
+
+export type BudgetCheck = {
+  exceeded: boolean;
+  /** Set when spend is past the warning threshold but under the limit. */
+  warning?: string;
+  /** Set when a limit is reached. */
+  message?: string;
+};
+
+function periodStart(period: Period, now: number) {
+  const date = new Date(now);
+  return period === "daily"
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+function formatUsd(value: number) {
+  return `$${value.toFixed(2)}`;
+}
+
+function limitFor(budget: StoredBudget, period: Period) {
+  return period === "daily" ? budget.dailyLimit : budget.monthlyLimit;
+}
+
+/**
+ * Compares the caller's and the team's spend for the current UTC day and
+ * month against the configured limits. Callers without a user id are only
+ * held to the global cap.
+ */
+export function checkBudget(userId?: string, now = Date.now()): BudgetCheck {
+  const global = getBudget(GLOBAL_BUDGET_SCOPE);
+  const own = userId ? getBudget(userId) : null;
+  const warnPercent = global?.warnPercent ?? DEFAULT_WARN_PERCENT;
+
+  const scopes: Array<{
+    budget: StoredBudget | null;
+    owner: string;
+    subject: string;
+    possessive: string;
+  }> = [
+    { budget: own, owner: "your", subject: "You have", possessive: "your" },
+    {
+      budget: global,
+      owner: "the team's",
+      subject: "The team has",
+      possessive: "its",
+    },
+  ];
+
+  let warning: string | undefined;
+  for (const { budget, owner, subject, possessive } of scopes) {
+    if (!budget) continue;
+    for (const period of ["daily", "monthly"] as const) {
+      const limit = limitFor(budget, period);
+      if (limit == null) continue;
+      const spent = spendSince(
+        periodStart(period, now),
+        budget === own ? { userId } : {},
+      );
+      if (spent >= limit) {
+        return {
+          exceeded: true,
+          message: `${BUDGET_EXCEEDED}: ${owner} ${period} limit of ${formatUsd(limit)} has been reached (${formatUsd(spent)} spent). Ask an admin to raise it or try again ${period === "daily" ? "tomorrow" : "next month"}.`,
+        };
+      }
+      if (!warning && limit > 0 && (spent / limit) * 100 >= warnPercent) {
+        warning = `${subject} used ${Math.floor((spent / limit) * 100)}% of ${possessive} ${period} budget (${formatUsd(spent)} of ${formatUsd(limit)}).`;
+      }
+    }
+  }
+  return { exceeded: false, warning };
+}
+
+/**
+ * Throws when the caller is over budget, otherwise returns the warning to
+ * show, if any.
+ */
+export function enforceBudget(userId?: string): string | undefined {
+  const check = checkBudget(userId);
+  if (check.exceeded) throw new Error(check.message);
+  return check.warning;
+}
+
+export function isBudgetError(error: unknown) {
+  return !!(error as Error)?.message?.startsWith(BUDGET_EXCEEDED);
+}
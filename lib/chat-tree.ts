@@ -0,0 +1,70 @@
+import type { ChatMessage } from "@/types/chat";
+
+// Messages of a chat are stored as one flat array that forms a tree through
+// `parentId` (null for the first message). Edits and regenerations add
+// siblings instead of overwriting, and the chat remembers which leaf is shown.
+
+/**
+ * Fills in `parentId` for messages saved before branching existed, treating
+ * the array order as a single linear branch.
+ */
+export function normalizeTree(messages: ChatMessage[]): ChatMessage[] {
+  if (messages.every((m) => m.parentId !== undefined)) return messages;
+  return messages.map((m, idx) =>
+    m.parentId !== undefined
+      ? m
+      : { ...m, parentId: idx > 0 ? messages[idx - 1].id || null : null },
+  );
+}
+
+export function childrenOf(
+  messages: ChatMessage[],
+  parentId: string | null,
+): ChatMessage[] {
+  return messages.filter((m) => (m.parentId ?? null) === parentId);
+}
+
+export function siblingsOf(
+  messages: ChatMessage[],
+  msg: ChatMessage,
+): ChatMessage[] {
+  return childrenOf(messages, msg.parentId ?? null);
+}
+
+/** Follows the newest child at every level, starting from `id`. */
+export function deepestLeaf(messages: ChatMessage[], id: string): string {
+  let current = id;
+  const seen = new Set<string>();
+  while (!seen.has(current)) {
+    seen.add(current);
+    const children = childrenOf(messages, current);
+    if (!children.length) break;
+    current = children[children.length - 1].id || current;
+  }
+  return current;
+}
+
+/**
+ * The root-to-leaf branch currently on screen. Falls back to the newest
+ * message when the stored leaf no longer exists.
+ */
+export function activePath(
+  messages: ChatMessage[],
+  activeLeafId?: string | null,
+): ChatMessage[] {
+  if (!messages.length) return messages;
+  const nodes = normalizeTree(messages);
+  const byId = new Map(nodes.map((m) => [m.id, m]));
+  const leaf =
+    (activeLeafId && byId.get(activeLeafId)) || nodes[nodes.length - 1];
+
+  const path: ChatMessage[] = [];
+  const seen = new Set<string | undefined>();
+  let node: ChatMessage | undefined = leaf;
+  while (node && !seen.has(node.id)) {
+    seen.add(node.id);
+    path.push(node);
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+  return path.reverse();
+}
@@ -1,4 +1,11 @@
-import type { ChatMap, ChatMessage } from "@/types/chat";
+import { normalizeTree } from "@/lib/chat-tree";
+import type {
+  ChatInfo,
+  ChatMap,
+  ChatMessage,
+  GenerationParams,
+  ToolCallStep,
+} from "@/types/chat";
 
 export function createMessageId() {
   if (typeof crypto !== "undefined" && crypto.randomUUID) {
@@ -33,42 +40,84 @@ export function messageText(
   return base;
 }
 
+function titleCase(value: string) {
+  return value.replace(
+    /(^|[\s_-])(\w)/g,
+    (_m, sep: string, ch: string) =>
+      `${sep === "_" || sep === "-" ? " " : sep}${ch.toUpperCase()}`,
+  );
+}
+
+// Human-readable one-liner for a tool step, e.g. `Searched Kagi for "x"`
+export function describeToolCall(step: ToolCallStep): string {
+  const server = titleCase(step.server || step.name.split("__")[0] || "tool");
+  const tool = (step.tool || step.name).toLowerCase();
+  const args = step.arguments || {};
+  const queries = Array.isArray(args.queries)
+    ? (args.queries as unknown[]).map(String)
+    : typeof args.query === "string"
+      ? [args.query]
+      : [];
+  const running = step.status === "running";
+  if (queries.length) {
+    const quoted = queries.map((q) => `“${q}”`).join(", ");
+    return `${running ? "Searching" : "Searched"} ${server} for ${quoted}`;
+  }
+  if (typeof args.url === "string") {
+    const verb = tool.includes("summar")
+      ? running
+        ? "Summarizing"
+        : "Summarized"
+      : running
+        ? "Reading"
+        : "Read";
+    return `${verb} ${args.url}`;
+  }
+  return `${running ? "Running" : "Ran"} ${server} ${titleCase(step.tool || step.name)}`;
+}
+
 export type StoredChat = {
   id: string;
   title?: string;
   createdAt?: number;
   messages: ChatMessage[];
+  enabledTools?: string[] | null;
+  activeLeafId?: string | null;
+  presetId?: string | null;
+  generation?: GenerationParams | null;
+  collectionId?: string | null;
 };
 
-export function threadToStored(
-  id: string,
-  messages: ChatMessage[],
-): StoredChat {
-  return {
-    id,
-    createdAt: Number.isFinite(Number(id)) ? Number(id) : Date.now(),
-    messages: messages.map((m) => ({
-      ...m,
-      id: m.id || createMessageId(),
-      createdAt: m.createdAt || Date.now(),
-      // Ensure we keep cost/error/pending fields if needed?
-      // Typically we just store what's in ChatMessage
-    })),
-  };
-}
-
 export function chatsArrayToMap(chats: StoredChat[]): ChatMap {
   const map: ChatMap = {};
   chats.forEach((chat) => {
-    map[chat.id] = (chat.messages || []).map((m) => ({
-      ...m,
-      id: m.id || createMessageId(),
-      createdAt: m.createdAt || chat.createdAt || Date.now(),
-    }));
+    map[chat.id] = normalizeTree(
+      (chat.messages || []).map((m) => ({
+        ...m,
+        id: m.id || createMessageId(),
+        createdAt: m.createdAt || chat.createdAt || Date.now(),
+      })),
+    );
   });
   return map;
 }
 
+export function chatsArrayToInfo(
+  chats: StoredChat[],
+): Record<string, ChatInfo> {
+  const info: Record<string, ChatInfo> = {};
+  chats.forEach((chat) => {
+    info[chat.id] = {
+      enabledTools: chat.enabledTools ?? null,
+      activeLeafId: chat.activeLeafId ?? null,
+      presetId: chat.presetId ?? null,
+      generation: chat.generation ?? null,
+      collectionId: chat.collectionId ?? null,
+    };
+  });
+  return info;
+}
+
 export function formatCost(cost?: number | null) {
   if (cost == null || Number.isNaN(cost)) return "";
   if (cost >= 0.01) return `$${cost.toFixed(2)}`;
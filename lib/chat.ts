@@ -3,25 +3,67 @@ import type {
   ChatCompletionMessageParam,
   ChatCompletionTool,
 } from "openai/resources/chat/completions";
+import type {
+  Citation,
+  GenerationParams,
+  KnowledgeCollection,
+  MessageTokens,
+  ModelTarget,
+  ProviderErrorKind,
+  RoutingPolicy,
+  ToolCallStep,
+} from "@/types/chat";
+import { enforceBudget, isBudgetError } from "./budgets";
+import { collectCitations, formatSourcesBlock } from "./citations";
 import {
   env,
   type NormalizedChatConfig,
   type Provider,
+  resolveProvider,
   withDefaults,
 } from "./env";
-import { callMcpTool, getMcpTools, warmMcpClient } from "./mcp";
+import {
+  generationForProvider,
+  parseGenerationParams,
+  toCompletionParams,
+} from "./generation-params";
+import { inlineImageUrl } from "./image-blobs";
+import {
+  type Embedder,
+  embedTexts,
+  knowledgeContext,
+  searchKnowledge,
+} from "./knowledge-base";
+import {
+  callMcpTool,
+  getMcpToolRoute,
+  getMcpTools,
+  warmMcpClient,
+} from "./mcp";
 import { getNanoApiBase } from "./nanogpt";
 import {
+  getChatEnabledTools,
+  getKnowledgeCollection,
+  loadConfig,
+  saveStoppedAnswer,
+} from "./persistence";
+import {
+  type CostAttribution,
+  estimateUsage,
+  normalizeUsage,
+  ollamaUsage,
+  recordLocalUsage,
   recordNanogptCost,
   recordOpenrouterCost,
   type UsageRecord,
 } from "./pricing";
+import { withFallbacks } from "./provider-routing";
+import { parseRoutingPolicy } from "./routing";
 
-if (env.kagiApiKey) {
-  warmMcpClient();
-}
+warmMcpClient();
 
 type IncomingMessage = {
+  id?: string;
   role: "user" | "assistant" | "tool";
   content:
     | string
@@ -40,26 +82,97 @@ type ChatPayload = {
   localUrl?: string;
   systemPrompt?: string;
   deepSearch?: boolean;
+  /** Sampling and output settings; omitted fields use the provider's. */
+  generation?: GenerationParams | null;
+  /** Tool names this chat may use during deep search; omitted means all. */
+  enabledTools?: string[] | null;
+  /** Knowledge collection searched for passages before answering. */
+  collectionId?: string | null;
+  /** Retries and fallback models for failed requests; omitted uses defaults. */
+  routing?: RoutingPolicy | null;
+  /** Chat and assistant message the answer is for, used to attribute cost. */
+  chatId?: string;
+  messageId?: string;
+};
+
+/**
+ * Server-side details about the caller. The user is never read from the
+ * request body.
+ */
+export type ChatContext = CostAttribution & {
+  /** Extra fields stored with the cost event, e.g. the API user. */
+  costMetadata?: Record<string, unknown>;
+  /**
+   * Aborts when the client goes away. Cancels the provider request and any
+   * MCP call in flight, and fails the answer; stopping an answer on purpose
+   * goes through `stopChatStream`.
+   */
+  signal?: AbortSignal;
 };
 
 export type ChatResult = {
   content: string;
   cost?: number | null;
+  // Who answered, which is a fallback when the requested model failed
+  provider?: Provider;
   model?: string;
+  fallbackReason?: ProviderErrorKind;
   usage?: UsageRecord;
+  // Prompt and completion tokens, whichever way the provider counts them
+  tokens?: MessageTokens;
+  latencyMs?: number;
   reasoning?: string | null;
   reasoning_details?: unknown;
+  toolCalls?: ToolCallStep[];
+  citations?: Citation[];
+  /** Shown to the user when their spend is close to a budget limit. */
+  budgetWarning?: string;
+  /** The answer was cut short by the client and saved as far as it got. */
+  stopped?: boolean;
 };
 
-export type ChatMeta = Pick<ChatResult, "cost" | "model" | "usage">;
+export type ChatMeta = Pick<
+  ChatResult,
+  | "cost"
+  | "provider"
+  | "model"
+  | "fallbackReason"
+  | "usage"
+  | "tokens"
+  | "latencyMs"
+  | "citations"
+  | "budgetWarning"
+  | "stopped"
+>;
+
+export type ToolCallEvent = {
+  type: "tool_call_started" | "tool_call_result" | "tool_call_error";
+  toolCall: ToolCallStep;
+};
 
 export type StreamChunk = {
   content?: string;
   reasoning?: string;
   reasoning_details?: unknown;
+  toolCall?: ToolCallEvent;
 };
 
-function normalizeContent(content: any): any {
+const TOOL_RESULT_PREVIEW_CHARS = 2000;
+const TITLE_SOURCE_CHARS = 1500;
+// Text of the latest message used to search a knowledge collection
+const KNOWLEDGE_QUERY_CHARS = 2000;
+const MAX_TITLE_CHARS = 80;
+const TITLE_PROMPT =
+  "Write a short title, at most six words, for the conversation below. Reply with the title only: no quotes, no trailing punctuation.";
+
+// Stops for the answers streaming now, by user and assistant message
+const streamStops = new Map<string, AbortController>();
+
+function streamStopKey(messageId: string, userId?: string) {
+  return `${userId ?? ""}:${messageId}`;
+}
+
+function normalizeContent(content: any, userId?: string): any {
   if (content == null) return "";
   if (typeof content === "string") return content;
   if (Array.isArray(content)) {
@@ -69,7 +182,11 @@ function normalizeContent(content: any): any {
       if (typeof part !== "object") return { type: "text", text: String(part) };
       const type = part.type || (part.image_url ? "image_url" : "text");
       if (type === "image_url") {
-        const url = part.image_url?.url || part.url || "";
+        // Stored images are only reachable through this server
+        const url = inlineImageUrl(
+          part.image_url?.url || part.url || "",
+          userId,
+        );
         return { type: "image_url", image_url: { url } };
       }
       if (type === "input_text" || type === "text") {
@@ -85,6 +202,7 @@ function normalizeContent(content: any): any {
 function sanitizeMessages(
   messages: IncomingMessage[] | undefined,
   systemPrompt?: string,
+  userId?: string,
 ): ChatCompletionMessageParam[] {
   console.log("[chat] sanitizeMessages start", {
     count: messages?.length,
@@ -94,7 +212,7 @@ function sanitizeMessages(
     .filter((m) => !m.pending)
     .map((m) => ({
       role: m.role,
-      content: normalizeContent(m.content),
+      content: normalizeContent(m.content, userId),
     })) as ChatCompletionMessageParam[];
 
   if (systemPrompt?.trim().length) {
@@ -103,7 +221,200 @@ function sanitizeMessages(
   return sanitized;
 }
 
-function buildClient(config: NormalizedChatConfig) {
+/**
+ * Request fields for the payload's generation params, less the ones the
+ * provider does not accept. Throws on invalid values.
+ */
+function completionOptions(payload: ChatPayload, provider: Provider) {
+  const { params, error } = parseGenerationParams(payload.generation);
+  if (!params) throw new Error(`Invalid generation parameters: ${error}`);
+  return toCompletionParams(generationForProvider(params, provider));
+}
+
+/**
+ * The client, model and request fields for a completion, on the payload's own
+ * provider and model or on `target`.
+ */
+function chatRoute(payload: ChatPayload, target?: ModelTarget) {
+  // A fallback on another provider must not be sent the primary's key
+  const resolved = withDefaults(
+    target ? { ...payload, ...target, apiKey: undefined } : payload,
+  );
+  return {
+    resolved,
+    client: buildClient(resolved),
+    options: completionOptions(payload, resolved.provider),
+  };
+}
+
+/**
+ * Completions for one answer under the payload's routing policy. `route`
+ * moves to a fallback when `create` exhausts the current model, and remembers
+ * why the first switch happened.
+ */
+function chatRouter(payload: ChatPayload, signal?: AbortSignal) {
+  const { policy, error } = parseRoutingPolicy(payload.routing);
+  if (!policy) throw new Error(`Invalid routing policy: ${error}`);
+  const fallbacks = [...policy.fallbacks];
+  const route: ReturnType<typeof chatRoute> & {
+    fallbackReason?: ProviderErrorKind;
+  } = chatRoute(payload);
+
+  const create = (params: Record<string, unknown>): Promise<any> =>
+    withFallbacks(
+      policy,
+      () =>
+        route.client.chat.completions.create(
+          {
+            model: route.resolved.model,
+            ...params,
+            ...route.options,
+          } as any,
+          // Retries are the policy's to make
+          { maxRetries: 0, signal },
+        ),
+      (kind) => {
+        const next = fallbacks.shift();
+        if (!next) return false;
+        console.warn("[chat] falling back", {
+          from: `${route.resolved.provider}/${route.resolved.model}`,
+          to: `${next.provider}/${next.model}`,
+          kind,
+        });
+        Object.assign(route, chatRoute(payload, next));
+        route.fallbackReason ??= kind;
+        return true;
+      },
+      signal,
+    );
+
+  return { route, create };
+}
+
+/**
+ * Searches the chat's knowledge collection with the latest user message and
+ * puts the closest passages in a system message just before it, numbered into
+ * `citations`. Chats whose collection was deleted are answered without.
+ */
+async function addKnowledgeContext(
+  messages: ChatCompletionMessageParam[],
+  payload: ChatPayload,
+  userId: string | undefined,
+  citations: Citation[],
+) {
+  if (!payload.collectionId || !userId) return;
+  const collection = getKnowledgeCollection(payload.collectionId, userId);
+  if (!collection) return;
+  const last = messages.findLastIndex((m) => m.role === "user");
+  const query =
+    last === -1
+      ? ""
+      : normalizeMessageText(messages[last].content as any)
+          .trim()
+          .slice(0, KNOWLEDGE_QUERY_CHARS);
+  if (!query) return;
+
+  let passages: Awaited<ReturnType<typeof searchKnowledge>>;
+  try {
+    passages = await searchKnowledge(
+      collectionEmbedder(collection, {
+        ...withChatIds(payload, {}),
+        userId,
+        costMetadata: { source: "chat" },
+      }),
+      collection,
+      query,
+      userId,
+    );
+  } catch (err) {
+    if (isBudgetError(err)) throw err;
+    throw new Error(
+      `Knowledge search in "${collection.name}" failed: ${(err as Error).message}`,
+    );
+  }
+  console.log("[chat] knowledge passages", {
+    collection: collection.id,
+    passages: passages.length,
+  });
+  if (!passages.length) return;
+  messages.splice(last, 0, {
+    role: "system",
+    content: knowledgeContext(collection, passages, citations),
+  });
+}
+
+/**
+ * Provider settings from `userId`'s saved config, falling back to the server
+ * environment, for calls that do not come with settings of their own.
+ */
+export function savedChatConfig(
+  userId: string,
+  provider?: string,
+  model?: string,
+): NormalizedChatConfig {
+  const saved = loadConfig(userId) as Record<string, any>;
+  const resolvedProvider = resolveProvider(provider || saved.provider);
+  return withDefaults({
+    provider: resolvedProvider,
+    model: model || saved.models?.[resolvedProvider] || undefined,
+    apiKeyOpenrouter: saved.apiKeyOpenrouter || undefined,
+    apiKeyNanogpt: saved.apiKeyNanogpt || undefined,
+    localUrl: saved.localUrl || undefined,
+  });
+}
+
+/**
+ * Embeds for `collection` with its owner's saved keys, so adding documents
+ * and searching run on the same account. Every call is checked against the
+ * owner's budget and logged as an "embedding" cost event; providers that
+ * report no usage are billed on an estimate.
+ */
+export function collectionEmbedder(
+  collection: KnowledgeCollection,
+  context: ChatContext & { userId: string },
+): Embedder {
+  const resolved = savedChatConfig(
+    context.userId,
+    collection.provider,
+    collection.embeddingModel,
+  );
+  const client = buildClient(resolved);
+  return async (model, texts) => {
+    enforceBudget(context.userId);
+    const startedAt = Date.now();
+    let usage: UsageRecord | undefined;
+    let estimated = false;
+    try {
+      const vectors = await embedTexts(client, model, texts, (batch) => {
+        usage = {
+          prompt_tokens: (usage?.prompt_tokens ?? 0) + batch.prompt_tokens,
+          completion_tokens: 0,
+        };
+      });
+      if (!usage) {
+        usage = estimateUsage(texts.join("\n"), "");
+        estimated = true;
+      }
+      return vectors;
+    } finally {
+      await recordUsageCost(
+        resolved,
+        { model, usage, latencyMs: Date.now() - startedAt },
+        {
+          ...context,
+          costMetadata: {
+            ...context.costMetadata,
+            purpose: "embedding",
+            collectionId: collection.id,
+            ...(estimated ? { estimatedUsage: true } : {}),
+          },
+        },
+      );
+    }
+  };
+}
+
+export function buildClient(config: NormalizedChatConfig) {
   const isOpenRouter = config.provider === "openrouter";
   const isNano = config.provider === "nanogpt";
   const baseURL = isOpenRouter
@@ -139,18 +450,27 @@ function buildClient(config: NormalizedChatConfig) {
   return client;
 }
 
-export async function runChat(payload: ChatPayload): Promise<ChatResult> {
-  const resolved = withDefaults(payload);
-  const messages = sanitizeMessages(payload.messages, payload.systemPrompt);
-  const client = buildClient(resolved);
-  let usage: UsageRecord | undefined;
-  let modelUsed: string = resolved.model;
-  let cost: number | null = null;
+export async function runChat(
+  payload: ChatPayload,
+  context: ChatContext = {},
+): Promise<ChatResult> {
+  const budgetWarning = enforceBudget(context.userId);
+  const { route, create } = chatRouter(payload, context.signal);
+  const messages = sanitizeMessages(
+    payload.messages,
+    payload.systemPrompt,
+    context.userId,
+  );
+  const citations: Citation[] = [];
+  await addKnowledgeContext(messages, payload, context.userId, citations);
 
   let tools: ChatCompletionTool[] = [];
   if (payload.deepSearch) {
     try {
-      tools = await getMcpTools();
+      tools = filterEnabledTools(
+        await getMcpTools(),
+        enabledTools(payload, context.userId),
+      );
       console.log(
         "[MCP] tools loaded:",
         tools.map((t) =>
@@ -165,45 +485,35 @@ export async function runChat(payload: ChatPayload): Promise<ChatResult> {
   }
 
   console.log("[chat] runChat start", {
-    provider: resolved.provider,
-    model: resolved.model,
+    provider: route.resolved.provider,
+    model: route.resolved.model,
     messages: messages.length,
     tools: tools.length,
   });
 
-  let response = await client.chat.completions.create({
-    model: resolved.model,
+  const startedAt = Date.now();
+  let response = await create({
     messages,
     tools: tools.length ? tools : undefined,
     tool_choice: tools.length ? "auto" : undefined,
-  } as any);
+  });
 
   let choice = response.choices[0];
   const workingMessages = [...messages];
+  const toolSteps: ToolCallStep[] = [];
 
   while (choice.finish_reason === "tool_calls" && choice.message.tool_calls) {
     workingMessages.push(choice.message as any);
     for (const toolCall of choice.message.tool_calls) {
       if (toolCall.type === "function") {
-        const funcName = toolCall.function.name;
-        const args = safeJsonParse(toolCall.function.arguments || "{}");
-        try {
-          console.log("[MCP] call", funcName, args);
-          const result = await callMcpTool(funcName, args);
-          console.log("[MCP] result", result);
-          workingMessages.push({
-            role: "tool",
-            content: JSON.stringify(result.content),
-            tool_call_id: toolCall.id,
-          } as any);
-        } catch (error) {
-          console.error("[MCP] error", error);
-          workingMessages.push({
-            role: "tool",
-            content: `Error: ${(error as Error).message}`,
-            tool_call_id: toolCall.id,
-          } as any);
-        }
+        const { message, step } = await runToolCall(
+          toolCall,
+          tools,
+          citations,
+          context.signal,
+        );
+        workingMessages.push(message);
+        toolSteps.push(step);
       }
     }
 
@@ -212,35 +522,30 @@ export async function runChat(payload: ChatPayload): Promise<ChatResult> {
       workingMessages: workingMessages.length,
     });
 
-    response = await client.chat.completions.create({
-      model: resolved.model,
+    response = await create({
       messages: workingMessages,
       tools: tools.length ? tools : undefined,
-    } as any);
+    });
     choice = response.choices[0];
   }
 
-  usage = (response as any)?.usage as UsageRecord | undefined;
-  modelUsed =
-    ((response as any)?.model as string | undefined) || resolved.model;
+  const latencyMs = Date.now() - startedAt;
+  const usage = ((response as any)?.usage ?? ollamaUsage(response)) as
+    | UsageRecord
+    | undefined;
+  const modelUsed =
+    ((response as any)?.model as string | undefined) || route.resolved.model;
 
-  if (resolved.provider === "openrouter" && usage) {
-    const record = await recordOpenrouterCost({
+  const cost = await recordUsageCost(
+    route.resolved,
+    {
       model: modelUsed,
       usage,
       pricing: (response as any)?.pricing,
-      apiKey: resolved.apiKey,
-    });
-    cost = record?.cost ?? null;
-  } else if (resolved.provider === "nanogpt" && usage) {
-    const record = await recordNanogptCost({
-      model: modelUsed,
-      usage,
-      pricing: (response as any)?.pricing,
-      apiKey: resolved.apiKey,
-    });
-    cost = record?.cost ?? null;
-  }
+      latencyMs,
+    },
+    withChatIds(payload, context),
+  );
 
   const finalMessage: any = choice?.message ?? {};
   const finalReasoning =
@@ -255,26 +560,61 @@ export async function runChat(payload: ChatPayload): Promise<ChatResult> {
     reasoning: finalReasoning ?? null,
     reasoning_details: finalMessage?.reasoning_details,
     cost,
+    provider: route.resolved.provider,
     model: modelUsed,
+    fallbackReason: route.fallbackReason,
     usage,
+    tokens: tokenCounts(usage),
+    latencyMs,
+    toolCalls: toolSteps.length ? toolSteps : undefined,
+    citations: citations.length ? citations : undefined,
+    budgetWarning,
   };
 }
 
+/**
+ * Stops the user's answer streaming into `messageId`. The stream ends
+ * normally with what was generated so far, which is saved as a stopped
+ * answer. Returns false when no such answer is streaming.
+ */
+export function stopChatStream(messageId: string, userId?: string) {
+  const stop = streamStops.get(streamStopKey(messageId, userId));
+  stop?.abort();
+  return !!stop;
+}
+
 export async function streamChat(
   payload: ChatPayload,
   onChunk: (chunk: StreamChunk) => void,
+  context: ChatContext = {},
 ): Promise<ChatMeta> {
-  const resolved = withDefaults(payload);
-  const baseMessages = sanitizeMessages(payload.messages, payload.systemPrompt);
-  const client = buildClient(resolved);
+  const budgetWarning = enforceBudget(context.userId);
+  const stop = new AbortController();
+  const signal = context.signal
+    ? AbortSignal.any([context.signal, stop.signal])
+    : stop.signal;
+  const { route, create } = chatRouter(payload, signal);
+  const baseMessages = sanitizeMessages(
+    payload.messages,
+    payload.systemPrompt,
+    context.userId,
+  );
   let latestUsage: UsageRecord | undefined;
   let streamedModel: string | undefined;
-  let cost: number | null = null;
+  // What the client has been sent, kept in case the answer is stopped
+  let content = "";
+  let reasoning = "";
+  // Usage and output of the request in flight, for billing a stopped one
+  let roundUsage: UsageRecord | undefined;
+  let roundOutput = "";
 
   let tools: ChatCompletionTool[] = [];
   if (payload.deepSearch) {
     try {
-      tools = await getMcpTools();
+      tools = filterEnabledTools(
+        await getMcpTools(),
+        enabledTools(payload, context.userId),
+      );
       console.log(
         "[MCP] tools loaded (stream):",
         tools.map((t) =>
@@ -290,33 +630,41 @@ export async function streamChat(
   }
 
   const messages = baseMessages;
+  const citations: Citation[] = [];
+  await addKnowledgeContext(messages, payload, context.userId, citations);
 
   async function streamOnce() {
     const toolCalls: any[] = [];
     let finishReason: string | undefined;
+    roundUsage = undefined;
+    roundOutput = "";
     console.log("[chat] streamOnce start", {
-      provider: resolved.provider,
-      model: resolved.model,
+      provider: route.resolved.provider,
+      model: route.resolved.model,
       messages: messages.length,
       tools: tools.length,
     });
-    const s = await client.chat.completions.create({
-      model: resolved.model,
+    // Only opening the stream is retried; once text has been sent to the
+    // client a failure ends the answer
+    const s = await create({
       messages,
       tools: tools.length ? tools : undefined,
       tool_choice: tools.length ? "auto" : undefined,
       stream: true,
-      stream_options: { include_usage: true } as any,
-    } as any);
+      stream_options: { include_usage: true },
+    });
 
     for await (const chunk of s as any) {
       if (chunk?.model) streamedModel = chunk.model;
-      if (chunk?.usage) latestUsage = chunk.usage as UsageRecord;
+      const usage = (chunk?.usage as UsageRecord) ?? ollamaUsage(chunk);
+      if (usage) latestUsage = roundUsage = usage;
       const choice = chunk?.choices?.[0];
       if (!choice) continue;
       finishReason = choice.finish_reason || finishReason;
       const delta: any = choice.delta || {};
       if (typeof delta.content === "string" && delta.content.length) {
+        content += delta.content;
+        roundOutput += delta.content;
         onChunk({ content: delta.content });
       }
       const reasoningDelta =
@@ -325,7 +673,11 @@ export async function streamChat(
           : typeof delta.reasoning_content === "string"
             ? delta.reasoning_content
             : "";
-      if (reasoningDelta) onChunk({ reasoning: reasoningDelta });
+      if (reasoningDelta) {
+        reasoning += reasoningDelta;
+        roundOutput += reasoningDelta;
+        onChunk({ reasoning: reasoningDelta });
+      }
       if (delta.reasoning_details)
         onChunk({ reasoning_details: delta.reasoning_details });
       if (Array.isArray(delta.tool_calls)) {
@@ -354,72 +706,351 @@ export async function streamChat(
     return { finishReason, toolCalls };
   }
 
-  while (true) {
-    const { finishReason, toolCalls } = await streamOnce();
-    if (finishReason === "tool_calls" && toolCalls && toolCalls.length) {
-      (messages as any).push({
-        role: "assistant",
-        content: "",
-        tool_calls: toolCalls,
-      });
-      for (const call of toolCalls) {
-        if (call?.type === "function") {
-          let args: any = {};
-          try {
-            args = call.function?.arguments
-              ? JSON.parse(call.function.arguments)
-              : {};
-          } catch {
-            args = {};
-          }
-          try {
-            console.log("[MCP] call (stream)", call.function?.name, args);
-            const result = await callMcpTool(call.function?.name, args);
-            console.log("[MCP] result (stream)", result);
-            (messages as any).push({
-              role: "tool",
-              content: JSON.stringify(result.content),
-              tool_call_id: call.id,
-            });
-          } catch (err) {
-            console.error("[MCP] error (stream)", err);
-            (messages as any).push({
-              role: "tool",
-              content: `Error: ${(err as Error).message}`,
-              tool_call_id: call.id,
-            });
+  const stopKey = payload.messageId
+    ? streamStopKey(payload.messageId, context.userId)
+    : null;
+  if (stopKey) streamStops.set(stopKey, stop);
+  const startedAt = Date.now();
+  try {
+    while (true) {
+      const { finishReason, toolCalls } = await streamOnce();
+      if (finishReason === "tool_calls" && toolCalls && toolCalls.length) {
+        (messages as any).push({
+          role: "assistant",
+          content: "",
+          tool_calls: toolCalls,
+        });
+        for (const call of toolCalls) {
+          if (call?.type === "function") {
+            const { message } = await runToolCall(
+              call,
+              tools,
+              citations,
+              signal,
+              (event) => onChunk({ toolCall: event }),
+            );
+            messages.push(message);
           }
         }
+        continue;
       }
-      continue;
+      break;
+    }
+  } catch (error) {
+    if (!signal.aborted) throw error;
+  } finally {
+    if (stopKey && streamStops.get(stopKey) === stop) {
+      streamStops.delete(stopKey);
     }
-    break;
   }
+  // An aborted stream can also just end, without an error
+  const aborted = signal.aborted;
+  const stopped = stop.signal.aborted;
 
-  if (resolved.provider === "openrouter" && latestUsage) {
-    const record = await recordOpenrouterCost({
-      model: streamedModel || resolved.model,
-      usage: latestUsage,
-      apiKey: resolved.apiKey,
-    });
-    cost = record?.cost ?? null;
-  } else if (resolved.provider === "nanogpt" && latestUsage) {
-    const record = await recordNanogptCost({
-      model: streamedModel || resolved.model,
-      usage: latestUsage,
-      pricing: undefined,
-      apiKey: resolved.apiKey,
-    });
-    cost = record?.cost ?? null;
+  const latencyMs = Date.now() - startedAt;
+  const model = streamedModel || route.resolved.model;
+  // A stream cut off before its usage chunk is still billed by the provider
+  // for what it generated, so that is estimated from the text. Images are
+  // left out; their inlined data would count as a huge prompt.
+  const estimated = aborted && !roundUsage;
+  const usage = estimated
+    ? estimateUsage(
+        messages.map((m: any) => normalizeMessageText(m.content)).join("\n"),
+        roundOutput,
+      )
+    : latestUsage;
+  const costContext = withChatIds(payload, context);
+  const cost = await recordUsageCost(
+    route.resolved,
+    { model, usage, latencyMs },
+    aborted
+      ? {
+          ...costContext,
+          costMetadata: {
+            ...costContext.costMetadata,
+            [stopped ? "stopped" : "aborted"]: true,
+            ...(estimated ? { estimatedUsage: true } : {}),
+          },
+        }
+      : costContext,
+  );
+  if (!stopped && aborted) {
+    throw new Error("Request was aborted before the answer finished");
+  }
+  const tokens = tokenCounts(usage);
+
+  // Saved here rather than left to the client, whose copy may be behind or
+  // never synced
+  if (stopped) {
+    console.log("[chat] stream stopped", { model, chars: content.length });
+    if (payload.chatId && payload.messageId && context.userId) {
+      saveStoppedAnswer(
+        payload.chatId,
+        {
+          id: payload.messageId,
+          role: "assistant",
+          content,
+          reasoning: reasoning || undefined,
+          parentId: payload.messages.at(-1)?.id,
+          createdAt: startedAt,
+          cost: cost ?? undefined,
+          provider: route.resolved.provider,
+          model,
+          fallbackReason: route.fallbackReason,
+          tokens,
+          latencyMs,
+          citations: citations.length ? citations : undefined,
+          generation: payload.generation ?? undefined,
+        },
+        context.userId,
+      );
+    }
   }
 
   return {
     cost,
-    model: streamedModel || resolved.model,
-    usage: latestUsage,
+    provider: route.resolved.provider,
+    model,
+    fallbackReason: route.fallbackReason,
+    usage,
+    tokens,
+    latencyMs,
+    citations: citations.length ? citations : undefined,
+    budgetWarning,
+    stopped: stopped || undefined,
   };
 }
 
+/**
+ * Asks the configured model for a short title for the opening exchange of a
+ * chat. The call is billed to the chat like any other completion. Returns a
+ * null title when the model gave nothing usable.
+ */
+export async function generateChatTitle(
+  payload: ChatPayload,
+  context: ChatContext = {},
+): Promise<{ title: string | null; cost: number | null }> {
+  enforceBudget(context.userId);
+  const resolved = withDefaults(payload);
+  const transcript = (payload.messages || [])
+    .map((m) => {
+      const text = normalizeMessageText(m.content);
+      return `${m.role}: ${truncate(text, TITLE_SOURCE_CHARS)}`;
+    })
+    .join("\n\n");
+  const client = buildClient(resolved);
+
+  const startedAt = Date.now();
+  const response = await client.chat.completions.create({
+    model: resolved.model,
+    messages: [
+      { role: "system", content: TITLE_PROMPT },
+      { role: "user", content: transcript },
+    ],
+    max_tokens: 32,
+  } as any);
+  const usage = ((response as any)?.usage ?? ollamaUsage(response)) as
+    | UsageRecord
+    | undefined;
+  const cost = await recordUsageCost(
+    resolved,
+    {
+      model: ((response as any)?.model as string | undefined) || resolved.model,
+      usage,
+      pricing: (response as any)?.pricing,
+      latencyMs: Date.now() - startedAt,
+    },
+    withChatIds(payload, {
+      ...context,
+      costMetadata: { ...context.costMetadata, purpose: "title" },
+    }),
+  );
+
+  return { title: cleanTitle(response.choices[0]?.message?.content), cost };
+}
+
+function normalizeMessageText(content: IncomingMessage["content"]): string {
+  if (typeof content === "string") return content;
+  return (content || [])
+    .map((part) => (part?.type === "text" ? part.text || "" : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Models tend to wrap titles in quotes or prefix them with "Title:"
+function cleanTitle(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const line = raw
+    .split("\n")
+    .map((l) => l.trim())
+    .find(Boolean);
+  if (!line) return null;
+  const unquote = (text: string) => text.replace(/^["'*`]+|["'*`]+$/g, "");
+  const title = unquote(unquote(line).replace(/^title:\s*/i, ""))
+    .replace(/[.!?:;,]+$/, "")
+    .trim();
+  return title ? truncate(title, MAX_TITLE_CHARS) : null;
+}
+
+function tokenCounts(usage?: UsageRecord): MessageTokens | undefined {
+  if (!usage) return undefined;
+  const { prompt, completion } = normalizeUsage(usage);
+  return { prompt, completion };
+}
+
+function withChatIds(payload: ChatPayload, context: ChatContext): ChatContext {
+  return { chatId: payload.chatId, messageId: payload.messageId, ...context };
+}
+
+// Writes a pricing event for a finished completion and returns its cost.
+// Local models are logged for token volume and latency but have no cost.
+export async function recordUsageCost(
+  resolved: NormalizedChatConfig,
+  options: {
+    model: string;
+    usage?: UsageRecord;
+    pricing?: any;
+    latencyMs?: number;
+  },
+  context: ChatContext = {},
+): Promise<number | null> {
+  const { costMetadata, signal: _signal, ...attribution } = context;
+  const input = {
+    ...options,
+    ...attribution,
+    metadata: costMetadata,
+    apiKey: resolved.apiKey,
+  };
+  if (resolved.provider === "local") {
+    recordLocalUsage(input);
+    return null;
+  }
+  if (!options.usage) return null;
+  const record =
+    resolved.provider === "openrouter"
+      ? await recordOpenrouterCost(input)
+      : resolved.provider === "nanogpt"
+        ? await recordNanogptCost(input)
+        : null;
+  return record?.cost ?? null;
+}
+
+function toolResultText(content: unknown): string {
+  if (Array.isArray(content)) {
+    const texts = content
+      .map((part: any) => (part?.type === "text" ? part.text : ""))
+      .filter(Boolean);
+    if (texts.length) return texts.join("\n");
+  }
+  return JSON.stringify(content ?? "");
+}
+
+function truncate(text: string, max: number) {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+// Runs one model-requested tool call and reports its progress. Failures are
+// handed back to the model as a tool message rather than thrown. Source URLs
+// in the result are numbered into `citations` so the model can cite them.
+async function runToolCall(
+  call: { id: string; function?: { name?: string; arguments?: string } },
+  offered: ChatCompletionTool[],
+  citations: Citation[],
+  signal?: AbortSignal,
+  onEvent?: (event: ToolCallEvent) => void,
+): Promise<{ message: ChatCompletionMessageParam; step: ToolCallStep }> {
+  const name = call.function?.name || "";
+  const args = safeJsonParse(call.function?.arguments || "{}") ?? {};
+  const route = getMcpToolRoute(name);
+  const step: ToolCallStep = {
+    id: call.id,
+    name,
+    server: route?.serverName,
+    tool: route?.tool,
+    arguments: args,
+    status: "running",
+    startedAt: Date.now(),
+  };
+  onEvent?.({ type: "tool_call_started", toolCall: { ...step } });
+
+  try {
+    assertToolEnabled(name, offered);
+    console.log("[MCP] call", name, args);
+    const result = await callMcpTool(name, args, signal);
+    console.log("[MCP] result", name, { isError: result.isError });
+    const text = toolResultText(result.content);
+    const sources = result.isError
+      ? []
+      : collectCitations(text, citations, call.id);
+    step.status = result.isError ? "error" : "done";
+    step.durationMs = Date.now() - step.startedAt;
+    step.result = truncate(text, TOOL_RESULT_PREVIEW_CHARS);
+    if (result.isError) step.error = truncate(text, 500);
+    onEvent?.({
+      type: result.isError ? "tool_call_error" : "tool_call_result",
+      toolCall: { ...step },
+    });
+    return {
+      message: {
+        role: "tool",
+        content: [JSON.stringify(result.content), formatSourcesBlock(sources)]
+          .filter(Boolean)
+          .join("\n\n"),
+        tool_call_id: call.id,
+      },
+      step,
+    };
+  } catch (error) {
+    console.error("[MCP] error", name, error);
+    const message = (error as Error).message;
+    step.status = "error";
+    step.durationMs = Date.now() - step.startedAt;
+    step.error = message;
+    onEvent?.({ type: "tool_call_error", toolCall: { ...step } });
+    return {
+      message: {
+        role: "tool",
+        content: `Error: ${message}`,
+        tool_call_id: call.id,
+      },
+      step,
+    };
+  }
+}
+
+function toolName(tool: ChatCompletionTool) {
+  return "function" in tool ? tool.function.name : "";
+}
+
+// A saved chat's own allowlist decides which tools it may call; the one in the
+// request can only narrow it
+function enabledTools(payload: ChatPayload, userId?: string) {
+  const saved =
+    payload.chatId && userId
+      ? getChatEnabledTools(payload.chatId, userId)
+      : null;
+  if (!saved) return payload.enabledTools;
+  if (!Array.isArray(payload.enabledTools)) return saved;
+  return payload.enabledTools.filter((name) => saved.includes(name));
+}
+
+function filterEnabledTools(
+  tools: ChatCompletionTool[],
+  enabledTools?: string[] | null,
+) {
+  if (!Array.isArray(enabledTools)) return tools;
+  const allowed = new Set(enabledTools);
+  return tools.filter((tool) => allowed.has(toolName(tool)));
+}
+
+// The model only sees allowed tools, but it can still hallucinate a call to
+// anything it knows about, so every call is checked against what was offered.
+function assertToolEnabled(name: string, offered: ChatCompletionTool[]) {
+  if (!offered.some((tool) => toolName(tool) === name)) {
+    throw new Error(`Tool ${name} is not enabled for this chat`);
+  }
+}
+
 function safeJsonParse(input: string) {
   try {
     return JSON.parse(input);
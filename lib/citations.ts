@@ -0,0 +1,95 @@
+import type { Citation } from "@/types/chat";
+
+const URL_PATTERN = /https?:\/\/[^\s<>"'`\]}]+/g;
+const MAX_CITATIONS_PER_RESULT = 20;
+
+function cleanUrl(url: string) {
+  let cleaned = url.replace(/[.,;:!?]+$/, "");
+  // Keep balanced parens (wiki-style URLs) but drop a closing one from prose
+  while (
+    cleaned.endsWith(")") &&
+    (cleaned.match(/\(/g) || []).length < (cleaned.match(/\)/g) || []).length
+  ) {
+    cleaned = cleaned.slice(0, -1).replace(/[.,;:!?]+$/, "");
+  }
+  return cleaned;
+}
+
+function titleFromLine(line: string | undefined) {
+  if (!line) return undefined;
+  // Search results are usually listed as "1: Title" or "Title:" lines
+  const title = line
+    .replace(/^\s*(\d+[:.)]|[-*])\s*/, "")
+    .replace(/^title:\s*/i, "")
+    .trim();
+  if (
+    !/[a-z0-9]/i.test(title) ||
+    title.length > 200 ||
+    /https?:\/\//.test(title)
+  ) {
+    return undefined;
+  }
+  return title;
+}
+
+/**
+ * Pulls source URLs out of a tool result and appends any new ones to
+ * `citations`, numbering them after the ones already collected. Returns the
+ * citations that belong to this result (including previously seen URLs).
+ */
+export function collectCitations(
+  text: string,
+  citations: Citation[],
+  toolCallId?: string,
+): Citation[] {
+  const found: Citation[] = [];
+  const lines = text.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const matches = lines[i].match(URL_PATTERN) || [];
+    for (const raw of matches) {
+      if (found.length >= MAX_CITATIONS_PER_RESULT) return found;
+      const url = cleanUrl(raw);
+      if (found.some((c) => c.url === url)) continue;
+      let citation = citations.find((c) => c.url === url);
+      if (!citation) {
+        const sameLine = lines[i].replace(raw, "").trim();
+        citation = {
+          index: citations.length + 1,
+          url,
+          title: titleFromLine(sameLine) || titleFromLine(lines[i - 1]),
+          toolCallId,
+        };
+        citations.push(citation);
+      }
+      found.push(citation);
+    }
+  }
+  return found;
+}
+
+export function formatSourcesBlock(citations: Citation[]) {
+  if (!citations.length) return "";
+  const lines = citations.map(
+    (c) => `[${c.index}] ${c.title ? `${c.title} - ` : ""}${c.url}`,
+  );
+  return `Sources (cite inline as [n]):\n${lines.join("\n")}`;
+}
+
+/**
+ * Turns bare [n] markers into markdown links to the matching citation,
+ * leaving fenced and inline code untouched.
+ */
+export function linkCitations(markdown: string, citations?: Citation[]) {
+  if (!citations?.length) return markdown;
+  const byIndex = new Map(citations.map((c) => [c.index, c]));
+  return markdown
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/g)
+    .map((segment, i) => {
+      if (i % 2 === 1) return segment;
+      return segment.replace(/\[(\d{1,3})\](?![(:])/g, (match, num) => {
+        const citation = byIndex.get(Number(num));
+        return citation ? `[[${num}]](${citation.url})` : match;
+      });
+    })
+    .join("");
+}
@@ -0,0 +1,62 @@
+import type {
+  ChatMessage,
+  CompareTarget,
+  MessageTokens,
+  Provider,
+} from "@/types/chat";
+
+// Compare mode sends one prompt to several provider/model pairs at once. Each
+// answer is its own assistant message under the prompt, streamed and billed
+// separately, and shown side by side until one is picked to continue from.
+
+export const MIN_COMPARE_TARGETS = 2;
+export const MAX_COMPARE_TARGETS = 4;
+
+const providerLabels: Record<Provider, string> = {
+  local: "Local",
+  openrouter: "OpenRouter",
+  nanogpt: "NanoGPT",
+};
+
+/** Targets with a model, without repeats, at most MAX_COMPARE_TARGETS. */
+export function usableCompareTargets(targets: CompareTarget[]) {
+  const seen = new Set<string>();
+  const usable: CompareTarget[] = [];
+  for (const target of targets) {
+    const model = target.model.trim();
+    const key = `${target.provider}:${model}`;
+    if (!model || seen.has(key)) continue;
+    seen.add(key);
+    usable.push({ provider: target.provider, model });
+  }
+  return usable.slice(0, MAX_COMPARE_TARGETS);
+}
+
+export function compareTargetLabel(target: Partial<CompareTarget>) {
+  const model = target.model?.split("/").pop() || "Model";
+  return target.provider
+    ? `${model} · ${providerLabels[target.provider]}`
+    : model;
+}
+
+/**
+ * The answers shown next to `msg` while its comparison is open, in the order
+ * they were requested. Null once a winner has been picked.
+ */
+export function openComparison(messages: ChatMessage[], msg: ChatMessage) {
+  if (!msg.compareGroup) return null;
+  const group = messages.filter(
+    (m) => m.role === "assistant" && m.compareGroup === msg.compareGroup,
+  );
+  return group.some((m) => m.compareWinner) ? null : group;
+}
+
+export function formatLatency(ms?: number) {
+  if (ms == null) return "";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+export function formatTokens(tokens?: MessageTokens) {
+  if (!tokens) return "";
+  return `${tokens.prompt.toLocaleString()} in · ${tokens.completion.toLocaleString()} out`;
+}
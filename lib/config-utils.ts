@@ -1,4 +1,5 @@
 import type { Provider, UiConfig } from "@/types/chat";
+import { DEFAULT_ROUTING } from "./routing";
 
 export const defaultModels = {
   local: "llama3",
@@ -36,7 +37,7 @@ export const defaultImageResolutions = [
 ];
 
 export const deepSearchPrompt =
-  "\nUse web search/browsing MCP tools to gather and verify up-to-date information. Prefer calling tools to fetch pages; summarize with concise bullet points and include source names.";
+  "\nUse web search/browsing MCP tools to gather and verify up-to-date information. Prefer calling tools to fetch pages; summarize with concise bullet points and include source names. When tool results list numbered sources, cite them inline as [n].";
 
 export const initialConfig: UiConfig = {
   provider: fallbackDefaults.provider,
@@ -59,6 +60,10 @@ export const initialConfig: UiConfig = {
   localUrl: fallbackDefaults.localUrl,
   systemPrompt: fallbackDefaults.systemPrompt,
   deepSearch: fallbackDefaults.deepSearch,
+  autoTitle: false,
+  titleModel: "",
+  generation: {},
+  routing: DEFAULT_ROUTING,
   userSet: { models: {} },
 };
 
@@ -0,0 +1,122 @@
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import { MIGRATIONS, type Migration } from "./migrations";
+
+// Single connection to data/app.db shared by persistence and pricing. The
+// schema is owned by the numbered migrations in ./migrations; a migration that
+// fails stops startup instead of leaving the database half-upgraded.
+
+type Transaction = (() => void) & { immediate?: () => void };
+
+export type SqliteInstance = {
+  pragma?: (sql: string) => unknown;
+  exec: (sql: string) => unknown;
+  prepare: (sql: string) => any;
+  transaction?: (fn: () => void) => Transaction;
+};
+
+let db: SqliteInstance | null = null;
+const require = createRequire(import.meta.url);
+
+function createDatabase(dbPath: string): SqliteInstance {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const Better = require("better-sqlite3");
+    return new Better(dbPath);
+  } catch (err) {
+    if (typeof (globalThis as any).Bun !== "undefined") {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const BunSqlite = require("bun:sqlite");
+      return new BunSqlite.Database(dbPath, { create: true, strict: true });
+    }
+    throw err;
+  }
+}
+
+/** Directory holding app.db and other on-disk state. */
+export function dataDir() {
+  return path.join(process.cwd(), "data");
+}
+
+export function runTransaction(database: SqliteInstance, fn: () => void) {
+  if (typeof database.transaction === "function") {
+    return database.transaction(fn)();
+  }
+  // Fallback: just execute (no transactional guarantees)
+  return fn();
+}
+
+/**
+ * Applies every migration newer than the recorded schema version, each in its
+ * own write transaction together with its `schema_version` row. Another
+ * process may migrate concurrently, so the version is re-checked under the
+ * write lock. Returns the number of migrations applied.
+ */
+export function runMigrations(
+  database: SqliteInstance,
+  migrations: Migration[] = MIGRATIONS,
+): number {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    );
+  `);
+  const isApplied = database.prepare(
+    "SELECT 1 FROM schema_version WHERE version = :version",
+  );
+  const markApplied = database.prepare(
+    "INSERT INTO schema_version (version, name, applied_at) VALUES (:version, :name, :appliedAt)",
+  );
+
+  let applied = 0;
+  const ordered = [...migrations].sort((a, b) => a.version - b.version);
+  for (const migration of ordered) {
+    if (isApplied.get({ version: migration.version })) continue;
+    const apply = () => {
+      if (isApplied.get({ version: migration.version })) return;
+      migration.up(database);
+      markApplied.run({
+        version: migration.version,
+        name: migration.name,
+        appliedAt: Date.now(),
+      });
+      applied += 1;
+      console.log(
+        `[db] applied migration ${migration.version} (${migration.name})`,
+      );
+    };
+    try {
+      const tx = database.transaction?.(apply);
+      if (tx) (tx.immediate ?? tx)();
+      else apply();
+    } catch (error) {
+      throw new Error(
+        `Database migration ${migration.version} (${migration.name}) failed: ${(error as Error).message}`,
+      );
+    }
+  }
+  return applied;
+}
+
+export function getDb(): SqliteInstance {
+  if (db) return db;
+  fs.mkdirSync(dataDir(), { recursive: true });
+  const database = createDatabase(path.join(dataDir(), "app.db"));
+  try {
+    if (database.pragma) database.pragma("journal_mode = WAL");
+    else database.exec("PRAGMA journal_mode = WAL;");
+  } catch {
+    // WAL may not be available; ignore.
+  }
+  try {
+    runMigrations(database);
+  } catch (error) {
+    console.error("[db] startup aborted:", (error as Error).message);
+    throw error;
+  }
+  db = database;
+  return db;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import { zipSync } from "fflate";
+import { extractDocument } from "./document-extraction";
+
+const encoder = new TextEncoder();
+
+const DOCUMENT_XML = encoder.encode(
+  "<w:document><w:body><w:p><w:r><w:t>Hello</w:t></w:r></w:p></w:body></w:document>",
+);
+
+// A .docx whose document.xml inflates to `megabytes` of spaces while its
+// header claims 1 KB. The deflate stream is written by hand: one literal
+// space, then copies of the last 258 bytes, 13 bits each.
+function bomb(megabytes: number) {
+  const bytes: number[] = [];
+  let bits = 0;
+  let used = 0;
+  const write = (code: number, length: number) => {
+    // Codes go most significant bit first; the header bits read the same way
+    for (let i = length - 1; i >= 0; i--) {
+      bits |= ((code >> i) & 1) << used;
+      if (++used === 8) {
+        bytes.push(bits);
+        bits = 0;
+        used = 0;
+      }
+    }
+  };
+  write(0b110, 3); // BFINAL, then BTYPE 01: one block with fixed codes
+  write(0x50, 8); // literal " "
+  for (let n = 1; n < megabytes * 1024 * 1024; n += 258) {
+    write(0b11000101, 8); // length 258
+    write(0, 5); // distance 1
+  }
+  write(0, 7); // end of block
+  if (used) bytes.push(bits);
+  const data = Uint8Array.from(bytes);
+
+  const name = encoder.encode("word/document.xml");
+  const header = new DataView(new ArrayBuffer(30));
+  header.setUint32(0, 0x04034b50, true);
+  header.setUint16(4, 20, true);
+  header.setUint16(8, 8, true);
+  header.setUint32(18, data.length, true);
+  header.setUint32(22, 1024, true);
+  header.setUint16(26, name.length, true);
+  return Buffer.concat([new Uint8Array(header.buffer), name, data]);
+}
+
+describe("docx unpacking", () => {
+  test("reads the document text", async () => {
+    const bytes = zipSync({ "word/document.xml": DOCUMENT_XML });
+    const document = await extractDocument(bytes, "docx");
+    expect(document.chunks.map((chunk) => chunk.text)).toEqual(["Hello"]);
+  });
+
+  test("stops inflating a zip bomb at the cap", async () => {
+    const bytes = bomb(512);
+    expect(bytes.length).toBeLessThan(4 * 1024 * 1024);
+    const before = process.memoryUsage().rss;
+    await expect(extractDocument(bytes, "docx")).rejects.toThrow(
+      "Archive is too large to unpack",
+    );
+    // Well under the 512 MB the part would take if inflated whole
+    expect(process.memoryUsage().rss - before).toBeLessThan(256 * 1024 * 1024);
+  });
+
+  test("rejects a part declared larger than the cap before inflating", async () => {
+    const bytes = zipSync({ "word/document.xml": DOCUMENT_XML }, { level: 0 });
+    // Local header field holding the inflated size
+    new DataView(bytes.buffer).setUint32(22, 100 * 1024 * 1024, true);
+    await expect(extractDocument(bytes, "docx")).rejects.toThrow(
+      "Archive is too large to unpack",
+    );
+  });
+
+  test("rejects archives with too many entries", async () => {
+    const files: Record<string, Uint8Array> = {
+      "word/document.xml": DOCUMENT_XML,
+    };
+    for (let i = 0; i <= 10_000; i++) files[`media/${i}`] = new Uint8Array(1);
+    await expect(
+      extractDocument(zipSync(files, { level: 0 }), "docx"),
+    ).rejects.toThrow("Archive has too many entries");
+  });
+});
@@ -0,0 +1,334 @@
+import { Unzip, UnzipInflate } from "fflate";
+import { extractText, getDocumentProxy } from "unpdf";
+import {
+  chunkText,
+  DOCUMENT_CHUNK_CHARS,
+  type DocumentChunk,
+  type DocumentFormat,
+  type ExtractedDocument,
+  MAX_DOCUMENT_CHARS,
+} from "./documents";
+
+// Text extraction for uploaded documents. PDFs go through pdf.js; DOCX, XLSX
+// and PPTX are zip archives of XML parts, read directly.
+
+// Limits on unpacking an archive, against zip bombs. Sizes count the bytes
+// actually inflated, since the sizes in the zip headers can lie.
+const MAX_PART_BYTES = 64 * 1024 * 1024;
+const MAX_ARCHIVE_BYTES = 128 * 1024 * 1024;
+const MAX_ARCHIVE_ENTRIES = 10_000;
+// Declared inflated size per compressed byte; XML rarely passes 100
+const MAX_COMPRESSION_RATIO = 200;
+// Compressed bytes fed to the inflater at a time. Deflate expands a byte to
+// about a thousand at most, so each step stays well under the caps.
+const UNZIP_SLICE_BYTES = 16 * 1024;
+
+type Section = { label: string | null; text: string };
+
+type Extracted = {
+  pages: number | null;
+  unit: ExtractedDocument["unit"];
+  sections: Section[];
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXml(text: string) {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] !== "#") return ENTITIES[entity] ?? match;
+    const code =
+      entity[1] === "x" || entity[1] === "X"
+        ? Number.parseInt(entity.slice(2), 16)
+        : Number.parseInt(entity.slice(1), 10);
+    return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+  });
+}
+
+/** Text of every `<tag>` element in `xml`, e.g. all `w:t` runs. */
+function elementTexts(xml: string, tag: string) {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`, "g");
+  return [...xml.matchAll(pattern)].map((match) => decodeXml(match[1]));
+}
+
+function attribute(element: string, name: string) {
+  return element.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+}
+
+function unzip(bytes: Uint8Array, wanted: (name: string) => boolean) {
+  const decoder = new TextDecoder();
+  const parts = new Map<string, string>();
+  let entries = 0;
+  let total = 0;
+  const archive = new Unzip((file) => {
+    entries += 1;
+    if (entries > MAX_ARCHIVE_ENTRIES) {
+      throw new Error("Archive has too many entries");
+    }
+    if (!wanted(file.name)) return;
+    // Sizes are missing from archives written as a stream
+    const declared = file.originalSize ?? 0;
+    if (
+      declared > MAX_PART_BYTES ||
+      declared > (file.size ?? 0) * MAX_COMPRESSION_RATIO
+    ) {
+      throw new Error("Archive is too large to unpack");
+    }
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    file.ondata = (error, chunk, final) => {
+      if (error) throw error;
+      size += chunk.length;
+      total += chunk.length;
+      if (size > MAX_PART_BYTES || total > MAX_ARCHIVE_BYTES) {
+        throw new Error("Archive is too large to unpack");
+      }
+      chunks.push(chunk);
+      if (!final) return;
+      const data = new Uint8Array(size);
+      let offset = 0;
+      for (const part of chunks) {
+        data.set(part, offset);
+        offset += part.length;
+      }
+      parts.set(file.name, decoder.decode(data));
+    };
+    file.start();
+  });
+  archive.register(UnzipInflate);
+  // Pushed in slices so a part is inflated step by step; a cap throwing from
+  // `ondata` ends the unpacking before the rest is read
+  for (let i = 0; i < bytes.length; i += UNZIP_SLICE_BYTES) {
+    archive.push(
+      bytes.subarray(i, i + UNZIP_SLICE_BYTES),
+      i + UNZIP_SLICE_BYTES >= bytes.length,
+    );
+  }
+  return parts;
+}
+
+// Relationship ids to part names, from a .rels part of the `dir` folder
+function relationships(rels: string | undefined, dir: string) {
+  const targets = new Map<string, string>();
+  for (const rel of rels?.match(/<Relationship\s[^>]*>/g) || []) {
+    const id = attribute(rel, "Id");
+    const target = attribute(rel, "Target");
+    if (id && target) {
+      targets.set(
+        id,
+        target.startsWith("/") ? target.slice(1) : `${dir}/${target}`,
+      );
+    }
+  }
+  return targets;
+}
+
+async function extractPdf(bytes: Uint8Array): Promise<Extracted> {
+  const pdf = await getDocumentProxy(bytes);
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+  return {
+    pages: totalPages,
+    unit: "page",
+    sections: text.map((page, index) => ({
+      label: `Page ${index + 1}`,
+      text: page,
+    })),
+  };
+}
+
+// Text runs, tabs and line breaks inside a Word paragraph
+const WORD_RUN_PATTERN =
+  /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>/g;
+
+function extractDocx(bytes: Uint8Array): Extracted {
+  const parts = unzip(bytes, (name) =>
+    ["word/document.xml", "docProps/app.xml"].includes(name),
+  );
+  const xml = parts.get("word/document.xml");
+  if (!xml) throw new Error("Not a Word document");
+  const paragraphs = xml.split(/<\/w:p>/).map((paragraph) => {
+    let text = "";
+    for (const match of paragraph.matchAll(WORD_RUN_PATTERN)) {
+      text += match[2]
+        ? match[2] === "tab"
+          ? "\t"
+          : "\n"
+        : decodeXml(match[1]);
+    }
+    return text;
+  });
+  // Word stores the page count from its last layout
+  const pages = Number(
+    parts.get("docProps/app.xml")?.match(/<Pages>(\d+)<\/Pages>/)?.[1],
+  );
+  return {
+    pages: pages > 0 ? pages : null,
+    unit: "page",
+    sections: [{ label: null, text: paragraphs.join("\n") }],
+  };
+}
+
+function columnIndex(ref: string) {
+  let index = 0;
+  for (const letter of ref.replace(/\d+$/, "").toUpperCase()) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function extractXlsx(bytes: Uint8Array): Extracted {
+  const parts = unzip(
+    bytes,
+    (name) =>
+      name === "xl/workbook.xml" ||
+      name === "xl/sharedStrings.xml" ||
+      name === "xl/_rels/workbook.xml.rels" ||
+      name.startsWith("xl/worksheets/sheet"),
+  );
+  const workbook = parts.get("xl/workbook.xml");
+  if (!workbook) throw new Error("Not an Excel workbook");
+
+  const shared = (parts.get("xl/sharedStrings.xml") || "")
+    .split(/<\/si>/)
+    .slice(0, -1)
+    .map((item) => elementTexts(item, "t").join(""));
+  const targets = relationships(parts.get("xl/_rels/workbook.xml.rels"), "xl");
+
+  const sections: Section[] = [];
+  const sheets = workbook.match(/<sheet\s[^>]*>/g) || [];
+  for (const [index, sheet] of sheets.entries()) {
+    const name = decodeXml(attribute(sheet, "name") || `${index + 1}`);
+    const rid = attribute(sheet, "r:id");
+    const xml =
+      parts.get(targets.get(rid || "") || "") ||
+      parts.get(`xl/worksheets/sheet${index + 1}.xml`) ||
+      "";
+    const rows: string[] = [];
+    for (const row of xml.match(/<row\b[^>]*?(?:\/>|>[\s\S]*?<\/row>)/g) ||
+      []) {
+      const cells: string[] = [];
+      for (const cell of row.match(/<c\s[^>]*?(?:\/>|>[\s\S]*?<\/c>)/g) || []) {
+        const type = attribute(cell, "t");
+        const raw =
+          type === "inlineStr"
+            ? elementTexts(cell, "t").join("")
+            : decodeXml(cell.match(/<v>([^<]*)<\/v>/)?.[1] ?? "");
+        const value =
+          type === "s"
+            ? (shared[Number(raw)] ?? "")
+            : type === "b"
+              ? raw === "1"
+                ? "TRUE"
+                : "FALSE"
+              : raw;
+        const ref = attribute(cell, "r");
+        const column = ref ? columnIndex(ref) : cells.length;
+        cells[column] = value;
+      }
+      if (cells.some((cell) => cell)) {
+        rows.push(Array.from(cells, (cell) => cell ?? "").join("\t"));
+      }
+    }
+    sections.push({ label: `Sheet ${name}`, text: rows.join("\n") });
+  }
+  return { pages: sheets.length, unit: "sheet", sections };
+}
+
+function extractPptx(bytes: Uint8Array): Extracted {
+  const parts = unzip(
+    bytes,
+    (name) =>
+      name === "ppt/presentation.xml" ||
+      name === "ppt/_rels/presentation.xml.rels" ||
+      /^ppt\/slides\/slide\d+\.xml$/.test(name),
+  );
+  // Slides in presentation order, or by file number without the index
+  const targets = relationships(
+    parts.get("ppt/_rels/presentation.xml.rels"),
+    "ppt",
+  );
+  const listed = (
+    parts.get("ppt/presentation.xml")?.match(/<p:sldId\s[^>]*>/g) || []
+  )
+    .map((slide) => targets.get(attribute(slide, "r:id") || "") || "")
+    .filter((name) => parts.has(name));
+  const slides = listed.length
+    ? listed
+    : [...parts.keys()]
+        .filter((name) => name.startsWith("ppt/slides/"))
+        .sort(
+          (a, b) =>
+            Number(a.match(/(\d+)\.xml$/)?.[1]) -
+            Number(b.match(/(\d+)\.xml$/)?.[1]),
+        );
+  if (!slides.length) throw new Error("Not a PowerPoint presentation");
+  return {
+    pages: slides.length,
+    unit: "slide",
+    sections: slides.map((name, index) => ({
+      label: `Slide ${index + 1}`,
+      text: (parts.get(name) || "")
+        .split(/<\/a:p>/)
+        .map((paragraph) => elementTexts(paragraph, "a:t").join(""))
+        .filter((line) => line.trim())
+        .join("\n"),
+    })),
+  };
+}
+
+function extractCsv(bytes: Uint8Array): Extracted {
+  return {
+    pages: null,
+    unit: "sheet",
+    sections: [{ label: null, text: new TextDecoder().decode(bytes) }],
+  };
+}
+
+/**
+ * Extracts the text of a document as chunks of at most `chunkSize`
+ * characters. Throws when the file cannot be read as `format`.
+ */
+export async function extractDocument(
+  bytes: Uint8Array,
+  format: DocumentFormat,
+  chunkSize = DOCUMENT_CHUNK_CHARS,
+): Promise<ExtractedDocument> {
+  const extracted =
+    format === "pdf"
+      ? await extractPdf(bytes)
+      : format === "docx"
+        ? extractDocx(bytes)
+        : format === "xlsx"
+          ? extractXlsx(bytes)
+          : format === "pptx"
+            ? extractPptx(bytes)
+            : extractCsv(bytes);
+
+  const chunks: DocumentChunk[] = [];
+  let chars = 0;
+  let truncated = false;
+  for (const section of extracted.sections) {
+    for (const chunk of chunkText(section.text, section.label, chunkSize)) {
+      if (chars + chunk.text.length > MAX_DOCUMENT_CHARS) {
+        truncated = true;
+        break;
+      }
+      chunks.push(chunk);
+      chars += chunk.text.length;
+    }
+    if (truncated) break;
+  }
+  return {
+    format,
+    pages: extracted.pages,
+    unit: extracted.unit,
+    chunks,
+    chars,
+    truncated,
+  };
+}
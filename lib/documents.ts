@@ -0,0 +1,128 @@
+// Documents attached to a message are extracted on the server (see
+// lib/document-extraction.ts) and sent back as labelled chunks. When the
+// message is sent, whole chunks are included in order until the context
+// budget is spent, so long files lose their tail instead of being cut
+// mid-sentence.
+
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+// Extracted text kept per document, far more than one message can carry
+export const MAX_DOCUMENT_CHARS = 2_000_000;
+export const DOCUMENT_CHUNK_CHARS = 4000;
+// Document text per message, about 30k tokens
+export const DOCUMENT_CONTEXT_CHARS = 120_000;
+
+export type DocumentFormat = "pdf" | "docx" | "xlsx" | "csv" | "pptx";
+
+export type DocumentChunk = {
+  // Where the text comes from, e.g. "Page 3" or "Sheet Revenue"
+  label: string | null;
+  text: string;
+};
+
+export type ExtractedDocument = {
+  format: DocumentFormat;
+  // Pages, slides or sheets, when the format has them
+  pages: number | null;
+  unit: "page" | "slide" | "sheet";
+  chunks: DocumentChunk[];
+  chars: number;
+  // Text past MAX_DOCUMENT_CHARS was dropped during extraction
+  truncated: boolean;
+};
+
+const FORMATS: Record<string, DocumentFormat> = {
+  pdf: "pdf",
+  docx: "docx",
+  xlsx: "xlsx",
+  csv: "csv",
+  pptx: "pptx",
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    "docx",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "text/csv": "csv",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation":
+    "pptx",
+};
+
+export const DOCUMENT_ACCEPT = ".pdf,.docx,.xlsx,.csv,.pptx";
+
+/** The format to extract a file as, from its extension or MIME type. */
+export function documentFormat(name: string, type = ""): DocumentFormat | null {
+  const ext = name.match(/\.([^.]+)$/)?.[1]?.toLowerCase() || "";
+  return FORMATS[ext] || FORMATS[type.toLowerCase()] || null;
+}
+
+/**
+ * Splits a section into chunks of at most `size` characters, breaking at
+ * paragraphs, then lines, then spaces where it can.
+ */
+export function chunkText(
+  text: string,
+  label: string | null = null,
+  size = DOCUMENT_CHUNK_CHARS,
+) {
+  const chunks: DocumentChunk[] = [];
+  let rest = text.trim();
+  while (rest.length > size) {
+    const window = rest.slice(0, size);
+    const min = size / 2;
+    let cut = window.lastIndexOf("\n\n");
+    if (cut < min) cut = window.lastIndexOf("\n");
+    if (cut < min) cut = window.lastIndexOf(" ");
+    if (cut < min) cut = size;
+    chunks.push({ label, text: rest.slice(0, cut).trimEnd() });
+    rest = rest.slice(cut).trimStart();
+  }
+  if (rest) chunks.push({ label, text: rest });
+  return chunks;
+}
+
+export function describeDocument(document: ExtractedDocument) {
+  const { pages, unit } = document;
+  return pages === null ? "" : `${pages} ${unit}${pages === 1 ? "" : "s"}`;
+}
+
+/**
+ * The document as message text, using at most `budget` characters. Returns
+ * the characters used so several documents can share one budget.
+ */
+export function documentContext(
+  name: string,
+  document: ExtractedDocument,
+  budget = DOCUMENT_CONTEXT_CHARS,
+): { text: string; used: number } {
+  const size = describeDocument(document);
+  const lines = [`Document ${name}${size ? ` (${size})` : ""}:`];
+  let used = 0;
+  let included = 0;
+  let lastLabel: string | null = null;
+  for (const chunk of document.chunks) {
+    const heading =
+      chunk.label && chunk.label !== lastLabel ? `[${chunk.label}]\n` : "";
+    const cost = heading.length + chunk.text.length;
+    if (used + cost > budget) {
+      // A first chunk too long for the budget is cut to fit
+      const room = budget - used - heading.length;
+      if (!included && room > 0) {
+        lines.push(`${heading}${chunk.text.slice(0, room)}`);
+        used += heading.length + room;
+      }
+      break;
+    }
+    lines.push(`${heading}${chunk.text}`);
+    used += cost;
+    included += 1;
+    lastLabel = chunk.label;
+  }
+
+  if (included < document.chunks.length) {
+    const from = document.chunks[included].label;
+    lines.push(
+      `[The rest of the document${from ? `, from ${from} on,` : ""} was left out to fit the context budget]`,
+    );
+  } else if (document.truncated) {
+    lines.push("[The document was too long to extract in full]");
+  }
+  return { text: lines.join("\n\n"), used };
+}
@@ -17,6 +17,7 @@ const envSchema = z.object({
   KAGI_API_KEY: z.string().optional(),
   KAGI_SUMMARIZER_ENGINE: z.string().optional(),
   APP_ORIGIN: z.string().optional(),
+  LOCAL_SHADOW_PRICES: z.string().optional(),
 });
 
 const parsed = envSchema.parse(process.env);
@@ -42,6 +43,30 @@ const kagiApiKey = parsed.KAGI_API_KEY || "";
 const kagiEngine = parsed.KAGI_SUMMARIZER_ENGINE || "cecil";
 const appOrigin = parsed.APP_ORIGIN || "http://localhost:3545";
 
+/** USD per million tokens that a local model would cost on a paid API. */
+export type ShadowPrice = { prompt: number; completion: number };
+
+// LOCAL_SHADOW_PRICES is a JSON object keyed by local model name, with "*"
+// as the fallback, e.g. {"llama3": {"prompt": 0.2, "completion": 0.6}}
+function parseShadowPrices(value?: string): Record<string, ShadowPrice> {
+  if (!value?.trim()) return {};
+  try {
+    const raw = JSON.parse(value) as Record<string, Partial<ShadowPrice>>;
+    const prices: Record<string, ShadowPrice> = {};
+    for (const [model, price] of Object.entries(raw || {})) {
+      prices[model] = {
+        prompt: Number(price?.prompt) || 0,
+        completion: Number(price?.completion) || 0,
+      };
+    }
+    return prices;
+  } catch {
+    console.warn("[env] LOCAL_SHADOW_PRICES is not valid JSON; ignoring");
+    return {};
+  }
+}
+const localShadowPrices = parseShadowPrices(parsed.LOCAL_SHADOW_PRICES);
+
 export const serverDefaults = {
   provider,
   modelLocal,
@@ -70,6 +95,7 @@ export const env = {
   kagiApiKey,
   kagiEngine,
   appOrigin,
+  localShadowPrices,
 };
 
 export type NormalizedChatConfig = {
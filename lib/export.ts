@@ -1,5 +1,30 @@
+import { describeToolCall } from "@/lib/chat-utils";
 import type { ChatMap, ChatMessage, ContentPart } from "@/types/chat";
 
+function toolCallsAsMarkdown(msg: ChatMessage): string {
+  if (!msg.toolCalls?.length) return "";
+  let markdown = "**Tool calls**\n\n";
+  for (const step of msg.toolCalls) {
+    const duration =
+      step.durationMs != null
+        ? ` (${(step.durationMs / 1000).toFixed(1)}s)`
+        : "";
+    markdown += `- ${describeToolCall(step)}${duration}\n`;
+    markdown += `  - \`${step.name}\` ${JSON.stringify(step.arguments)}\n`;
+    if (step.error) markdown += `  - Error: ${step.error}\n`;
+  }
+  return `${markdown}\n`;
+}
+
+function citationsAsMarkdown(msg: ChatMessage): string {
+  if (!msg.citations?.length) return "";
+  let markdown = "**Sources**\n\n";
+  for (const citation of msg.citations) {
+    markdown += `${citation.index}. [${citation.title || citation.url}](${citation.url})\n`;
+  }
+  return `${markdown}\n`;
+}
+
 export function exportChatAsJSON(
   chatId: string,
   messages: ChatMessage[],
@@ -13,6 +38,8 @@ export function exportChatAsJSON(
       content: msg.content,
       reasoning: msg.reasoning,
       reasoningDetails: msg.reasoningDetails,
+      toolCalls: msg.toolCalls,
+      citations: msg.citations,
       timestamp: new Date(parseInt(chatId, 10) + index * 1000).toISOString(),
     })),
   };
@@ -46,6 +73,8 @@ export function exportChatAsMarkdown(
     if (msg.reasoning) {
       markdown += `**Reasoning**\n\n${msg.reasoning}\n\n`;
     }
+    markdown += toolCallsAsMarkdown(msg);
+    markdown += citationsAsMarkdown(msg);
 
     markdown += `---\n\n`;
   });
@@ -103,6 +132,8 @@ export function exportAllChats(chats: ChatMap, format: "json" | "markdown") {
             content: msg.content,
             reasoning: msg.reasoning,
             reasoningDetails: msg.reasoningDetails,
+            toolCalls: msg.toolCalls,
+            citations: msg.citations,
           })),
         }),
       ),
@@ -1,4 +1,5 @@
 import type { Attachment } from "@/components/attachment-list";
+import { documentFormat, type ExtractedDocument } from "./documents";
 
 const MAX_UPLOAD_BYTES = 8 * 1024 * 1024;
 
@@ -25,21 +26,42 @@ export async function readAttachment(file: File): Promise<Attachment | null> {
         };
       return { kind: "image", name, url };
     }
+    if (documentFormat(name, type)) {
+      return await readDocument(file);
+    }
     if (
-      ["txt", "md", "csv", "json", "log", "html", "htm"].includes(ext) ||
+      ["txt", "md", "json", "log", "html", "htm"].includes(ext) ||
       type.startsWith("text/")
     ) {
       let text = await readAsText(file);
       text = String(text || "").slice(0, 20000);
       return { kind: "text", name, text };
     }
-    if (ext === "pdf" || type === "application/pdf") {
-      return { kind: "note", name, text: `[Attached PDF: ${name}]` };
-    }
   } catch {}
   return { kind: "note", name, text: `[Attached file: ${name}]` };
 }
 
+// Documents are extracted on the server; a failure still attaches a note so
+// the model knows a file was meant to be there
+async function readDocument(file: File): Promise<Attachment> {
+  const form = new FormData();
+  form.append("file", file);
+  const res = await fetch("/api/documents", { method: "POST", body: form });
+  const data = (await res.json().catch(() => ({}))) as {
+    document?: ExtractedDocument;
+    error?: string;
+  };
+  if (!res.ok || !data.document) {
+    return {
+      kind: "note",
+      name: file.name,
+      text: `[Attached file: ${file.name}]`,
+      error: data.error || `Could not read ${file.name}`,
+    };
+  }
+  return { kind: "document", name: file.name, document: data.document };
+}
+
 export function readAsDataURL(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
     const r = new FileReader();
@@ -0,0 +1,185 @@
+import type { GenerationParams, Provider } from "@/types/chat";
+
+// Sampling and output settings sent with each completion. The same shape holds
+// the user's defaults, a chat's overrides and the record kept on each
+// assistant message. Providers accept different fields, so params are checked
+// once and then narrowed to what the chat's provider understands.
+
+export type GenerationField = keyof GenerationParams;
+
+export const MAX_STOP_SEQUENCES = 4;
+export const MAX_STOP_LENGTH = 100;
+export const MAX_OUTPUT_TOKENS = 1_000_000;
+
+export const GENERATION_LABELS: Record<GenerationField, string> = {
+  temperature: "Temperature",
+  topP: "Top P",
+  maxTokens: "Max tokens",
+  stop: "Stop sequences",
+  seed: "Seed",
+  jsonMode: "JSON mode",
+};
+
+const ALL_FIELDS = Object.keys(GENERATION_LABELS) as GenerationField[];
+
+// Ollama's OpenAI-compatible endpoint and OpenRouter take every field. NanoGPT
+// has no seed or response_format, so those are left out there.
+const PROVIDER_FIELDS: Record<Provider, GenerationField[]> = {
+  local: ALL_FIELDS,
+  openrouter: ALL_FIELDS,
+  nanogpt: ["temperature", "topP", "maxTokens", "stop"],
+};
+
+export function supportedGenerationFields(provider: Provider) {
+  return PROVIDER_FIELDS[provider] ?? PROVIDER_FIELDS.local;
+}
+
+function readNumber(
+  input: Record<string, unknown>,
+  key: GenerationField,
+  { min, max, integer }: { min: number; max: number; integer?: boolean },
+): { value?: number; error?: string } {
+  const value = input[key];
+  if (value === undefined || value === null || value === "") return {};
+  const label = GENERATION_LABELS[key];
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return { error: `${label} must be a number` };
+  }
+  if (integer && !Number.isInteger(value)) {
+    return { error: `${label} must be a whole number` };
+  }
+  if (value < min || value > max) {
+    return { error: `${label} must be between ${min} and ${max}` };
+  }
+  return { value };
+}
+
+/**
+ * Validates params from a request or settings. Null and empty values leave a
+ * field unset, and a missing object means no params.
+ */
+export function parseGenerationParams(value: unknown): {
+  params?: GenerationParams;
+  error?: string;
+} {
+  if (value === undefined || value === null) return { params: {} };
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { error: "Generation parameters must be an object" };
+  }
+  const input = value as Record<string, unknown>;
+  const params: GenerationParams = {};
+
+  const numbers = [
+    ["temperature", readNumber(input, "temperature", { min: 0, max: 2 })],
+    ["topP", readNumber(input, "topP", { min: 0, max: 1 })],
+    [
+      "maxTokens",
+      readNumber(input, "maxTokens", {
+        min: 1,
+        max: MAX_OUTPUT_TOKENS,
+        integer: true,
+      }),
+    ],
+    [
+      "seed",
+      readNumber(input, "seed", {
+        min: Number.MIN_SAFE_INTEGER,
+        max: Number.MAX_SAFE_INTEGER,
+        integer: true,
+      }),
+    ],
+  ] as const;
+  for (const [key, { value: number, error }] of numbers) {
+    if (error) return { error };
+    if (number !== undefined) params[key] = number;
+  }
+
+  if (input.stop !== undefined && input.stop !== null) {
+    if (
+      !Array.isArray(input.stop) ||
+      input.stop.some((item) => typeof item !== "string")
+    ) {
+      return { error: "Stop sequences must be a list of strings" };
+    }
+    const stop = (input.stop as string[]).filter((item) => item.length);
+    if (stop.length > MAX_STOP_SEQUENCES) {
+      return { error: `At most ${MAX_STOP_SEQUENCES} stop sequences` };
+    }
+    if (stop.some((item) => item.length > MAX_STOP_LENGTH)) {
+      return {
+        error: `Stop sequences must be ${MAX_STOP_LENGTH} characters or less`,
+      };
+    }
+    if (stop.length) params.stop = stop;
+  }
+
+  if (input.jsonMode !== undefined && input.jsonMode !== null) {
+    if (typeof input.jsonMode !== "boolean") {
+      return { error: "JSON mode must be true or false" };
+    }
+    // false is kept so a chat can turn off JSON mode set in the settings
+    params.jsonMode = input.jsonMode;
+  }
+
+  return { params };
+}
+
+/** Layers params; fields set in later layers win. */
+export function mergeGenerationParams(
+  ...layers: Array<GenerationParams | null | undefined>
+): GenerationParams {
+  const merged: GenerationParams = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer || {})) {
+      if (value !== undefined) {
+        (merged as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+  return merged;
+}
+
+/** Drops the fields the provider does not accept. */
+export function generationForProvider(
+  params: GenerationParams,
+  provider: Provider,
+): GenerationParams {
+  const supported = supportedGenerationFields(provider);
+  const narrowed: GenerationParams = {};
+  for (const key of supported) {
+    if (params[key] !== undefined) {
+      (narrowed as Record<string, unknown>)[key] = params[key];
+    }
+  }
+  return narrowed;
+}
+
+/** Request fields for `chat.completions.create`. */
+export function toCompletionParams(params: GenerationParams) {
+  return {
+    ...(params.temperature !== undefined
+      ? { temperature: params.temperature }
+      : {}),
+    ...(params.topP !== undefined ? { top_p: params.topP } : {}),
+    ...(params.maxTokens !== undefined ? { max_tokens: params.maxTokens } : {}),
+    ...(params.stop?.length ? { stop: params.stop } : {}),
+    ...(params.seed !== undefined ? { seed: params.seed } : {}),
+    ...(params.jsonMode
+      ? { response_format: { type: "json_object" as const } }
+      : {}),
+  };
+}
+
+/** Short summary, e.g. "temp 0.7 · max 512 · JSON"; empty when unset. */
+export function describeGenerationParams(params?: GenerationParams | null) {
+  if (!params) return "";
+  const parts: string[] = [];
+  if (params.temperature !== undefined)
+    parts.push(`temp ${params.temperature}`);
+  if (params.topP !== undefined) parts.push(`top_p ${params.topP}`);
+  if (params.maxTokens !== undefined) parts.push(`max ${params.maxTokens}`);
+  if (params.stop?.length) parts.push(`stop ${params.stop.length}`);
+  if (params.seed !== undefined) parts.push(`seed ${params.seed}`);
+  if (params.jsonMode) parts.push("JSON");
+  return parts.join(" · ");
+}
@@ -0,0 +1,153 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { dataDir, getDb, type SqliteInstance } from "./db";
+
+// Generated images and uploaded attachments are kept on disk under
+// data/images, named by the SHA-256 of their bytes so an image saved twice is
+// stored once. Messages and the gallery refer to them as IMAGE_URL_PREFIX + id,
+// which /api/persistence/images/[id] serves to the users who saved them.
+
+export const IMAGE_URL_PREFIX = "/api/persistence/images/";
+
+// Raster types only: an SVG served from this origin could run script
+const DATA_URL_PATTERN = /^data:(image\/(?:png|jpeg|gif|webp));base64,/i;
+const ID_PATTERN = /^[a-f0-9]{64}$/;
+
+function blobPath(id: string) {
+  return path.join(dataDir(), "images", id.slice(0, 2), id);
+}
+
+export function imageIdFromUrl(url: string): string | null {
+  if (!url.startsWith(IMAGE_URL_PREFIX)) return null;
+  const id = url.slice(IMAGE_URL_PREFIX.length);
+  return ID_PATTERN.test(id) ? id : null;
+}
+
+function storeImageBytes(
+  database: SqliteInstance,
+  bytes: Buffer,
+  mime: string,
+  userId: string,
+): string {
+  const id = crypto.createHash("sha256").update(bytes).digest("hex");
+  const file = blobPath(id);
+  if (!fs.existsSync(file)) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    // Write then rename so a reader never sees a partial file
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, bytes);
+    fs.renameSync(tmp, file);
+  }
+  database
+    .prepare(
+      `INSERT OR IGNORE INTO image_blobs (id, mime, size, created_at)
+       VALUES (:id, :mime, :size, :createdAt)`,
+    )
+    .run({ id, mime, size: bytes.length, createdAt: Date.now() });
+  database
+    .prepare(
+      "INSERT OR IGNORE INTO image_blob_owners (blob_id, user_id) VALUES (:id, :userId)",
+    )
+    .run({ id, userId });
+  return id;
+}
+
+/**
+ * Moves a base64 image data URL into the store and returns the reference URL.
+ * Any other URL is returned unchanged.
+ */
+export function storeImageUrl(
+  url: string,
+  userId: string,
+  database: SqliteInstance = getDb(),
+): string {
+  const match = DATA_URL_PATTERN.exec(url);
+  if (!match) return url;
+  const bytes = Buffer.from(url.slice(match[0].length), "base64");
+  if (!bytes.length) return url;
+  return `${IMAGE_URL_PREFIX}${storeImageBytes(database, bytes, match[1].toLowerCase(), userId)}`;
+}
+
+/** Replaces inline image data URLs in message content with references. */
+export function externalizeImages(
+  content: unknown,
+  userId: string,
+  database: SqliteInstance = getDb(),
+): unknown {
+  if (!Array.isArray(content)) return content;
+  return content.map((part) => {
+    const url = part?.image_url?.url;
+    if (part?.type !== "image_url" || typeof url !== "string") return part;
+    const stored = storeImageUrl(url, userId, database);
+    return stored === url
+      ? part
+      : { ...part, image_url: { ...part.image_url, url: stored } };
+  });
+}
+
+type StoredImage = { data: Buffer; mime: string };
+
+function readBlob(id: string, mime: string): StoredImage | null {
+  try {
+    return { data: fs.readFileSync(blobPath(id)), mime };
+  } catch {
+    return null;
+  }
+}
+
+function toDataUrl(image: StoredImage) {
+  return `data:${image.mime};base64,${image.data.toString("base64")}`;
+}
+
+/** Reads a stored image if `userId` has saved it. */
+export function readImage(id: string, userId: string): StoredImage | null {
+  if (!ID_PATTERN.test(id)) return null;
+  const row = getDb()
+    .prepare(
+      `SELECT b.mime FROM image_blobs b
+       JOIN image_blob_owners o ON o.blob_id = b.id
+       WHERE b.id = :id AND o.user_id = :userId`,
+    )
+    .get({ id, userId }) as { mime: string } | undefined;
+  return row ? readBlob(id, row.mime) : null;
+}
+
+/**
+ * Turns a stored image reference back into a data URL for providers, which
+ * cannot fetch it from this server. Other URLs are returned unchanged.
+ */
+export function inlineImageUrl(url: string, userId?: string): string {
+  const id = imageIdFromUrl(url);
+  if (!id || !userId) return url;
+  const image = readImage(id, userId);
+  return image ? toDataUrl(image) : url;
+}
+
+/**
+ * Replaces image references in message content with data URLs, whoever saved
+ * them. Backups carry their images this way so they restore on an instance
+ * without this one's image store; saving the chat stores them again. Images
+ * missing from the store stay references.
+ */
+export function inlineImages(
+  content: unknown,
+  database: SqliteInstance = getDb(),
+): unknown {
+  if (!Array.isArray(content)) return content;
+  const mimeOf = database.prepare(
+    "SELECT mime FROM image_blobs WHERE id = :id",
+  );
+  return content.map((part) => {
+    const url = part?.image_url?.url;
+    if (part?.type !== "image_url" || typeof url !== "string") return part;
+    const id = imageIdFromUrl(url);
+    const row = id
+      ? (mimeOf.get({ id }) as { mime: string } | undefined)
+      : undefined;
+    const image = id && row ? readBlob(id, row.mime) : null;
+    return image
+      ? { ...part, image_url: { ...part.image_url, url: toDataUrl(image) } }
+      : part;
+  });
+}
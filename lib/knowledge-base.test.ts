@@ -0,0 +1,226 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import OpenAI from "openai";
+import type { KnowledgeCollection } from "@/types/chat";
+import { chunkText, type ExtractedDocument } from "./documents";
+import { KNOWLEDGE_CHUNK_CHARS } from "./knowledge";
+import {
+  clientEmbedder,
+  type Embedder,
+  embedDocument,
+  searchKnowledge,
+} from "./knowledge-base";
+import {
+  addKnowledgeDocument,
+  createUser,
+  getKnowledgeCollection,
+  saveKnowledgeCollection,
+} from "./persistence";
+
+// The database lives in data/ under the working directory, opened on first use
+const cwd = process.cwd();
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "knowledge-"));
+
+beforeAll(() => process.chdir(dir));
+afterAll(() => {
+  process.chdir(cwd);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Counts of a few words, so passages sharing words with the query score higher
+const VOCABULARY = ["solar", "panel", "battery", "garden", "tomato"];
+
+const wordEmbedder: Embedder = async (_model, texts) =>
+  texts.map((text) => {
+    const words = text.toLowerCase().match(/[a-z]+/g) || [];
+    return Float32Array.from(
+      VOCABULARY.map((word) => words.filter((w) => w === word).length),
+    );
+  });
+
+function document(texts: string[]): ExtractedDocument {
+  const chunks = texts.map((text) => ({ label: null, text }));
+  return {
+    format: "csv",
+    pages: null,
+    unit: "page",
+    chunks,
+    chars: texts.join("").length,
+    truncated: false,
+  };
+}
+
+async function collectionWith(
+  name: string,
+  userId: string,
+  documents: Record<string, string[]>,
+): Promise<KnowledgeCollection> {
+  const collection = saveKnowledgeCollection(
+    { name, description: "", provider: "local", embeddingModel: "words" },
+    userId,
+  ) as KnowledgeCollection;
+  for (const [documentName, texts] of Object.entries(documents)) {
+    const extracted = document(texts);
+    const chunks = await embedDocument(wordEmbedder, collection, extracted);
+    addKnowledgeDocument(
+      collection.id,
+      { name: documentName, format: "csv", pages: null, chars: 0 },
+      chunks,
+      userId,
+    );
+  }
+  return getKnowledgeCollection(collection.id, userId) as KnowledgeCollection;
+}
+
+describe("chunking", () => {
+  test("breaks passages at paragraphs and keeps them under the size", () => {
+    const paragraph = "word ".repeat(120).trim();
+    const text = [paragraph, paragraph, paragraph].join("\n\n");
+    const chunks = chunkText(text, "Page 1", KNOWLEDGE_CHUNK_CHARS);
+    expect(chunks.length).toBe(2);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(KNOWLEDGE_CHUNK_CHARS);
+      expect(chunk.label).toBe("Page 1");
+    }
+    expect(chunks[0].text).toBe([paragraph, paragraph].join("\n\n"));
+    expect(chunks[1].text).toBe(paragraph);
+  });
+
+  test("embeds each passage together with its label", async () => {
+    const seen: string[] = [];
+    const embed: Embedder = async (model, texts) => {
+      seen.push(...texts.map((text) => `${model}:${text}`));
+      return wordEmbedder(model, texts);
+    };
+    const collection = { embeddingModel: "words", dimensions: null };
+    const extracted = document(["solar panel"]);
+    extracted.chunks[0].label = "Sheet 1";
+    const [chunk] = await embedDocument(
+      embed,
+      collection as KnowledgeCollection,
+      extracted,
+    );
+    expect(seen).toEqual(["words:Sheet 1\nsolar panel"]);
+    expect([...chunk.embedding]).toEqual([1, 1, 0, 0, 0]);
+  });
+
+  test("rejects vectors that do not fit the collection", async () => {
+    const collection = { embeddingModel: "words", dimensions: 3 };
+    await expect(
+      embedDocument(
+        wordEmbedder,
+        collection as KnowledgeCollection,
+        document(["solar"]),
+      ),
+    ).rejects.toThrow("5-dimensional");
+  });
+});
+
+describe("retrieval", () => {
+  let owner: string;
+  let other: string;
+  let energy: KnowledgeCollection;
+
+  beforeAll(async () => {
+    owner = createUser("owner", "password").id;
+    other = createUser("other", "password").id;
+    energy = await collectionWith("Energy", owner, {
+      "solar.txt": [
+        "solar panel wiring",
+        "solar panel solar panel angles",
+        "battery storage",
+      ],
+      "notes.txt": ["nothing in common here"],
+    });
+    await collectionWith("Garden", owner, {
+      "garden.txt": ["solar garden lights", "tomato garden"],
+    });
+    await collectionWith("Other energy", other, {
+      "theirs.txt": ["solar panel solar panel solar panel"],
+    });
+  });
+
+  test("ranks the closest passages first and drops unrelated ones", async () => {
+    const passages = await searchKnowledge(
+      wordEmbedder,
+      energy,
+      "solar panel",
+      owner,
+    );
+    expect(passages.map((p) => p.text)).toEqual([
+      "solar panel wiring",
+      "solar panel solar panel angles",
+    ]);
+    expect(passages[0].score).toBeCloseTo(1);
+    expect(passages[0].documentName).toBe("solar.txt");
+  });
+
+  test("returns at most `limit` passages", async () => {
+    const passages = await searchKnowledge(
+      wordEmbedder,
+      energy,
+      "solar battery",
+      owner,
+      1,
+    );
+    expect(passages.map((p) => p.text)).toEqual(["battery storage"]);
+  });
+
+  test("searches only the chat's collection", async () => {
+    const passages = await searchKnowledge(
+      wordEmbedder,
+      energy,
+      "solar garden tomato",
+      owner,
+    );
+    expect(passages.map((p) => p.documentName)).toEqual([
+      "solar.txt",
+      "solar.txt",
+    ]);
+  });
+
+  test("finds nothing in another user's collection", async () => {
+    expect(
+      await searchKnowledge(wordEmbedder, energy, "solar panel", other),
+    ).toEqual([]);
+  });
+});
+
+describe("client embedder", () => {
+  test("keeps input order from an OpenAI-compatible endpoint", async () => {
+    const requests: any[] = [];
+    // Answers out of order, as the index field allows
+    const server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const body = await request.json();
+        requests.push(body);
+        const data = body.input.map((text: string, index: number) => ({
+          object: "embedding",
+          index,
+          embedding: [text.length, index],
+        }));
+        return Response.json({ object: "list", data: data.reverse() });
+      },
+    });
+    try {
+      const client = new OpenAI({
+        apiKey: "test",
+        baseURL: `http://localhost:${server.port}/v1`,
+      });
+      const vectors = await clientEmbedder(client)("stand-in", ["a", "bbb"]);
+      expect(vectors.map((v) => [...v])).toEqual([
+        [1, 0],
+        [3, 1],
+      ]);
+      expect(requests[0]).toMatchObject({
+        model: "stand-in",
+        encoding_format: "float",
+      });
+    } finally {
+      server.stop(true);
+    }
+  });
+});
@@ -0,0 +1,159 @@
+import type OpenAI from "openai";
+import type { Citation, KnowledgeCollection } from "@/types/chat";
+import type { ExtractedDocument } from "./documents";
+import { KNOWLEDGE_TOP_K, knowledgeDocumentUrl } from "./knowledge";
+import { type KnowledgePassage, listKnowledgePassages } from "./persistence";
+
+// Embedding and search for knowledge collections. Embeddings come from the
+// collection's provider through the OpenAI-compatible /embeddings endpoint,
+// which Ollama serves for fully local use. A collection is scored passage by
+// passage in process, which is fast enough for the few thousand passages a
+// personal collection holds.
+
+const EMBEDDING_BATCH_SIZE = 64;
+
+/**
+ * Vectors for `texts` from `model`, in the same order. Production embeds
+ * through a provider client; tests pass a stand-in.
+ */
+export type Embedder = (
+  model: string,
+  texts: string[],
+) => Promise<Float32Array[]>;
+
+/**
+ * Embeds `texts` in batches, keeping their order. `onUsage` gets the tokens
+ * of each batch the provider reports them for.
+ */
+export async function embedTexts(
+  client: OpenAI,
+  model: string,
+  texts: string[],
+  onUsage?: (usage: OpenAI.Embeddings.CreateEmbeddingResponse.Usage) => void,
+): Promise<Float32Array[]> {
+  const vectors: Float32Array[] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+    // Floats rather than the SDK's default base64, which Ollama does not send
+    const response = await client.embeddings.create({
+      model,
+      input: batch,
+      encoding_format: "float",
+    });
+    if (response.usage) onUsage?.(response.usage);
+    const data = [...(response.data || [])].sort((a, b) => a.index - b.index);
+    if (data.length !== batch.length) {
+      throw new Error(
+        `Expected ${batch.length} embeddings from ${model}, got ${data.length}`,
+      );
+    }
+    for (const item of data) vectors.push(Float32Array.from(item.embedding));
+  }
+  return vectors;
+}
+
+/** An embedder backed by the provider's /embeddings endpoint. */
+export function clientEmbedder(client: OpenAI): Embedder {
+  return (model, texts) => embedTexts(client, model, texts);
+}
+
+function assertDimensions(
+  collection: KnowledgeCollection,
+  vectors: Float32Array[],
+) {
+  const model = collection.embeddingModel;
+  const expected = collection.dimensions ?? vectors[0]?.length;
+  for (const vector of vectors) {
+    if (!vector.length) throw new Error(`${model} returned an empty embedding`);
+    if (vector.length !== expected) {
+      throw new Error(
+        `${model} returned ${vector.length}-dimensional embeddings, the collection holds ${expected}-dimensional ones`,
+      );
+    }
+  }
+}
+
+/**
+ * Embeds the passages of an extracted document with the collection's model.
+ * Throws when the provider fails or the vectors do not fit the collection.
+ */
+export async function embedDocument(
+  embed: Embedder,
+  collection: KnowledgeCollection,
+  document: ExtractedDocument,
+) {
+  const embeddings = await embed(
+    collection.embeddingModel,
+    document.chunks.map((chunk) =>
+      chunk.label ? `${chunk.label}\n${chunk.text}` : chunk.text,
+    ),
+  );
+  assertDimensions(collection, embeddings);
+  return document.chunks.map((chunk, index) => ({
+    ...chunk,
+    embedding: embeddings[index],
+  }));
+}
+
+function cosineSimilarity(a: Float32Array, b: Float32Array) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * The `limit` passages closest to `query`, best first. Passages with nothing
+ * in common with the query are left out.
+ */
+export async function searchKnowledge(
+  embed: Embedder,
+  collection: KnowledgeCollection,
+  query: string,
+  userId: string,
+  limit = KNOWLEDGE_TOP_K,
+): Promise<Array<KnowledgePassage & { score: number }>> {
+  if (!collection.chunkCount) return [];
+  const [vector] = await embed(collection.embeddingModel, [query]);
+  assertDimensions(collection, [vector]);
+  return listKnowledgePassages(collection.id, userId)
+    .map((passage) => ({
+      ...passage,
+      score: cosineSimilarity(vector, passage.embedding),
+    }))
+    .filter((passage) => passage.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * The passages as a system message, numbered after the citations already in
+ * `citations` so they share the [n] markers of deep-search sources.
+ */
+export function knowledgeContext(
+  collection: KnowledgeCollection,
+  passages: KnowledgePassage[],
+  citations: Citation[],
+) {
+  const sections = passages.map((passage) => {
+    const title = passage.label
+      ? `${passage.documentName} · ${passage.label}`
+      : passage.documentName;
+    const citation: Citation = {
+      index: citations.length + 1,
+      url: knowledgeDocumentUrl(collection.id, passage.documentId),
+      title,
+    };
+    citations.push(citation);
+    return `[${citation.index}] ${title}\n${passage.text}`;
+  });
+  return [
+    `Passages from the knowledge collection "${collection.name}" that may help with the user's latest message. Cite them inline as [n] when you use them, and say so when they do not cover the question.`,
+    ...sections,
+  ].join("\n\n");
+}
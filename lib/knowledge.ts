@@ -0,0 +1,84 @@
+import type { KnowledgeCollection, Provider } from "@/types/chat";
+
+// Knowledge collections hold documents split into passages small enough to
+// embed and quote. Before an answer, the passages closest to the chat's
+// latest message are handed to the model as numbered sources.
+
+export const MAX_COLLECTION_NAME = 60;
+export const MAX_COLLECTION_DESCRIPTION = 500;
+const MAX_EMBEDDING_MODEL = 200;
+const PROVIDERS: Provider[] = ["local", "openrouter", "nanogpt"];
+
+// Passage size; smaller than attachment chunks so each source stays on topic
+export const KNOWLEDGE_CHUNK_CHARS = 1500;
+// Passages given to the model per answer
+export const KNOWLEDGE_TOP_K = 6;
+
+// Models that work without further setup; the local one is Ollama's
+// `nomic-embed-text`
+export const DEFAULT_EMBEDDING_MODELS: Record<Provider, string> = {
+  local: "nomic-embed-text",
+  openrouter: "openai/text-embedding-3-small",
+  nanogpt: "text-embedding-3-small",
+};
+
+export type KnowledgeCollectionInput = Pick<
+  KnowledgeCollection,
+  "name" | "description" | "provider" | "embeddingModel"
+>;
+
+/**
+ * Validates a collection sent by the client. An empty embedding model uses
+ * the provider's default.
+ */
+export function parseCollectionInput(body: any): {
+  collection?: KnowledgeCollectionInput;
+  error?: string;
+} {
+  if (!body || typeof body !== "object") return { error: "Invalid body" };
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) return { error: "Name is required" };
+  if (name.length > MAX_COLLECTION_NAME) {
+    return { error: `Name must be ${MAX_COLLECTION_NAME} characters or less` };
+  }
+
+  const description =
+    typeof body.description === "string" ? body.description.trim() : "";
+  if (description.length > MAX_COLLECTION_DESCRIPTION) {
+    return {
+      error: `Description must be ${MAX_COLLECTION_DESCRIPTION} characters or less`,
+    };
+  }
+
+  const provider = body.provider || "local";
+  if (!PROVIDERS.includes(provider)) {
+    return { error: "Provider must be local, openrouter or nanogpt" };
+  }
+
+  const model =
+    typeof body.embeddingModel === "string" ? body.embeddingModel.trim() : "";
+  if (model.length > MAX_EMBEDDING_MODEL) {
+    return {
+      error: `Embedding model must be ${MAX_EMBEDDING_MODEL} characters or less`,
+    };
+  }
+
+  return {
+    collection: {
+      name,
+      description,
+      provider,
+      embeddingModel: model || DEFAULT_EMBEDDING_MODELS[provider as Provider],
+    },
+  };
+}
+
+export function describeCollection(collection: KnowledgeCollection) {
+  const { documentCount, chunkCount } = collection;
+  return `${documentCount} document${documentCount === 1 ? "" : "s"} · ${chunkCount} passage${chunkCount === 1 ? "" : "s"}`;
+}
+
+/** Where a cited passage's document can be read in full. */
+export function knowledgeDocumentUrl(collectionId: string, documentId: string) {
+  return `/api/persistence/collections/${encodeURIComponent(collectionId)}/documents/${encodeURIComponent(documentId)}`;
+}
@@ -1,25 +1,136 @@
+import crypto from "node:crypto";
 import { Client } from "@modelcontextprotocol/sdk/client";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import type { ChatCompletionTool } from "openai/resources/chat/completions";
-import { env } from "./env";
+import { listMcpServers, type StoredMcpServer } from "./persistence";
 
-let mcpClientPromise: Promise<Client> | null = null;
-let cachedTools: ChatCompletionTool[] | null = null;
-let toolsFetchedAt = 0;
-let toolsPromise: Promise<ChatCompletionTool[]> | null = null;
 const TOOLS_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+const TOOL_NAME_MAX = 64;
+const TOOL_SEPARATOR = "__";
+
+type ServerState = {
+  signature: string;
+  clientPromise: Promise<Client> | null;
+  client: Client | null;
+  tools: ChatCompletionTool[] | null;
+  toolsFetchedAt: number;
+  toolsPromise: Promise<ChatCompletionTool[]> | null;
+};
+
+type ToolRoute = { serverId: string; serverName: string; tool: string };
+
+const servers = new Map<string, ServerState>();
+const routes = new Map<string, ToolRoute>();
 let warmupStarted = false;
 
-async function connectMcp(): Promise<Client> {
-  const transport = new StdioClientTransport({
-    command: "uvx",
-    args: ["kagimcp"],
-    env: {
-      KAGI_API_KEY: env.kagiApiKey,
-      KAGI_SUMMARIZER_ENGINE: env.kagiEngine,
+// Replaces ${VAR} and ${VAR:-default} with values from the server environment
+// so secrets can stay out of the database.
+function interpolate(value: string, missing: Set<string>) {
+  return value.replace(
+    /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g,
+    (_match, name: string, fallback?: string) => {
+      const resolved = process.env[name];
+      if (resolved) return resolved;
+      if (fallback !== undefined) return fallback;
+      missing.add(name);
+      return "";
     },
-  });
+  );
+}
+
+function interpolateRecord(
+  record: Record<string, string> | undefined,
+  missing: Set<string>,
+) {
+  const out: Record<string, string> = {};
+  for (const [key, value] of Object.entries(record || {})) {
+    out[key] = interpolate(String(value), missing);
+  }
+  return out;
+}
+
+function serverSignature(server: StoredMcpServer) {
+  return JSON.stringify([
+    server.transport,
+    server.command,
+    server.args,
+    server.url,
+    server.env,
+    server.headers,
+  ]);
+}
+
+export function serverSlug(name: string) {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, "_")
+    .replace(/_+/g, "_")
+    .replace(/^_|_$/g, "");
+  return slug || "server";
+}
+
+function shortHash(value: string) {
+  return crypto.createHash("sha256").update(value).digest("hex").slice(0, 8);
+}
+
+// Tool names are stored in chat allowlists, so each one depends only on its
+// server and tool and never on which server registered first. Servers whose
+// names slug the same all get a hash of their id in the prefix.
+function toolPrefix(server: StoredMcpServer) {
+  const slug = serverSlug(server.name);
+  const shared = listMcpServers().some(
+    (other) => other.id !== server.id && serverSlug(other.name) === slug,
+  );
+  return shared ? `${slug}_${shortHash(server.id)}` : slug;
+}
+
+// Tools that differ only in replaced characters, and long names cut to fit,
+// get a hash of the server id and the original tool name.
+function namespacedToolName(
+  server: StoredMcpServer,
+  prefix: string,
+  tool: string,
+) {
+  const safeTool = tool.replace(/[^a-zA-Z0-9_-]/g, "_");
+  const name = `${prefix}${TOOL_SEPARATOR}${safeTool}`;
+  if (name.length <= TOOL_NAME_MAX && safeTool === tool) return name;
+  const hash = shortHash(`${server.id}\0${tool}`);
+  return `${name.slice(0, TOOL_NAME_MAX - hash.length - 1)}_${hash}`;
+}
 
+function createTransport(server: StoredMcpServer): Transport {
+  const missing = new Set<string>();
+  let transport: Transport;
+  if (server.transport === "stdio") {
+    if (!server.command) throw new Error("Missing command");
+    transport = new StdioClientTransport({
+      command: server.command,
+      args: (server.args || []).map((arg) => interpolate(arg, missing)),
+      env: interpolateRecord(server.env, missing),
+      stderr: "ignore",
+    });
+  } else {
+    if (!server.url) throw new Error("Missing URL");
+    const url = new URL(interpolate(server.url, missing));
+    const requestInit = { headers: interpolateRecord(server.headers, missing) };
+    transport =
+      server.transport === "sse"
+        ? new SSEClientTransport(url, { requestInit })
+        : new StreamableHTTPClientTransport(url, { requestInit });
+  }
+  if (missing.size) {
+    throw new Error(
+      `Missing environment variable${missing.size > 1 ? "s" : ""}: ${[...missing].join(", ")}`,
+    );
+  }
+  return transport;
+}
+
+async function connectServer(server: StoredMcpServer): Promise<Client> {
+  const transport = createTransport(server);
   const client = new Client({
     name: "super-kagi",
     version: "1.0.0",
@@ -29,34 +140,89 @@ async function connectMcp(): Promise<Client> {
   return client;
 }
 
-async function getMcpClient(): Promise<Client> {
-  if (!mcpClientPromise) {
-    mcpClientPromise = connectMcp().catch((error) => {
-      mcpClientPromise = null;
-      throw error;
+function getServerState(server: StoredMcpServer): ServerState {
+  const signature = serverSignature(server);
+  const existing = servers.get(server.id);
+  if (existing && existing.signature === signature) return existing;
+  if (existing) closeState(server.id, existing);
+
+  const state: ServerState = {
+    signature,
+    clientPromise: null,
+    client: null,
+    tools: null,
+    toolsFetchedAt: 0,
+    toolsPromise: null,
+  };
+  servers.set(server.id, state);
+  return state;
+}
+
+function closeState(id: string, state: ServerState) {
+  servers.delete(id);
+  for (const [name, route] of routes) {
+    if (route.serverId === id) routes.delete(name);
+  }
+  const client = state.client;
+  state.client = null;
+  state.clientPromise = null;
+  if (client) {
+    void client.close().catch(() => {
+      // Already closed
     });
   }
-  return mcpClientPromise;
 }
 
-export async function getMcpTools(): Promise<ChatCompletionTool[]> {
+async function getServerClient(server: StoredMcpServer): Promise<Client> {
+  const state = getServerState(server);
+  if (!state.clientPromise) {
+    state.clientPromise = connectServer(server)
+      .then((client) => {
+        state.client = client;
+        client.onclose = () => {
+          // Drop the dead connection so the next call reconnects
+          if (servers.get(server.id) === state) closeState(server.id, state);
+        };
+        return client;
+      })
+      .catch((error) => {
+        state.clientPromise = null;
+        throw error;
+      });
+  }
+  return state.clientPromise;
+}
+
+async function getServerTools(
+  server: StoredMcpServer,
+): Promise<ChatCompletionTool[]> {
+  const state = getServerState(server);
   const now = Date.now();
-  if (cachedTools && now - toolsFetchedAt < TOOLS_CACHE_TTL) return cachedTools;
-  if (toolsPromise) return toolsPromise;
+  if (state.tools && now - state.toolsFetchedAt < TOOLS_CACHE_TTL) {
+    return state.tools;
+  }
+  if (state.toolsPromise) return state.toolsPromise;
 
-  toolsPromise = (async () => {
+  state.toolsPromise = (async () => {
     try {
-      const client = await getMcpClient();
+      const client = await getServerClient(server);
       const res = await client.listTools();
       const tools = (res as any).tools ?? [];
+      const prefix = toolPrefix(server);
 
       const mapped = tools.map((tool: any) => {
         const schema = tool.inputSchema ||
           tool.input_schema || { type: "object", properties: {} };
+        const name = namespacedToolName(server, prefix, tool.name);
+        routes.set(name, {
+          serverId: server.id,
+          serverName: server.name,
+          tool: tool.name,
+        });
         return {
           type: "function" as const,
           function: {
-            name: tool.name,
+            name,
             description: tool.description,
             parameters: {
               type: schema.type || "object",
@@ -69,26 +235,87 @@ export async function getMcpTools(): Promise<ChatCompletionTool[]> {
         } satisfies ChatCompletionTool;
       });
 
-      cachedTools = mapped;
-      toolsFetchedAt = Date.now();
+      state.tools = mapped;
+      state.toolsFetchedAt = Date.now();
       return mapped;
     } finally {
-      toolsPromise = null;
+      state.toolsPromise = null;
     }
   })();
 
-  return toolsPromise;
+  return state.toolsPromise;
+}
+
+function enabledServers() {
+  return listMcpServers().filter((server) => server.enabled);
 }
 
-export async function callMcpTool(name: string, args: Record<string, unknown>) {
-  const client = await getMcpClient();
-  return client.callTool({ name, arguments: args }, undefined, {
+export async function getMcpTools(): Promise<ChatCompletionTool[]> {
+  const active = enabledServers();
+  const activeIds = new Set(active.map((server) => server.id));
+  for (const [id, state] of servers) {
+    if (!activeIds.has(id)) closeState(id, state);
+  }
+  if (!active.length) return [];
+
+  const results = await Promise.allSettled(active.map(getServerTools));
+  const tools: ChatCompletionTool[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  results.forEach((result, index) => {
+    const server = active[index];
+    if (result.status === "rejected") {
+      const message = (result.reason as Error)?.message || "unknown error";
+      console.warn(`[MCP] ${server.name} unavailable:`, message);
+      errors.push(`${server.name}: ${message}`);
+      return;
+    }
+    for (const tool of result.value) {
+      const name = "function" in tool ? tool.function.name : "";
+      if (seen.has(name)) continue;
+      seen.add(name);
+      tools.push(tool);
+    }
+  });
+
+  if (!tools.length && errors.length) {
+    throw new Error(errors.join("; "));
+  }
+  return tools;
+}
+
+export function getMcpToolRoute(name: string): ToolRoute | undefined {
+  return routes.get(name);
+}
+
+// Aborting `signal` cancels the call on the server as well as the wait for it.
+export async function callMcpTool(
+  name: string,
+  args: Record<string, unknown>,
+  signal?: AbortSignal,
+) {
+  if (!routes.has(name)) await getMcpTools();
+  const route = routes.get(name);
+  if (!route) throw new Error(`Unknown MCP tool: ${name}`);
+  const server = enabledServers().find((item) => item.id === route.serverId);
+  if (!server) throw new Error(`MCP server "${route.serverName}" is disabled`);
+
+  const client = await getServerClient(server);
+  return client.callTool({ name: route.tool, arguments: args }, undefined, {
     timeout: 300000,
+    signal,
   });
 }
 
+// Drops cached connections so the next request picks up registry changes.
+export function resetMcpServer(id?: string) {
+  for (const [serverId, state] of servers) {
+    if (!id || serverId === id) closeState(serverId, state);
+  }
+}
+
 export function warmMcpClient() {
-  if (warmupStarted || !env.kagiApiKey) return;
+  if (warmupStarted) return;
   warmupStarted = true;
   void getMcpTools().catch((error) => {
     // Non-fatal; we'll try again on the next deep-search request.
@@ -96,3 +323,77 @@ export function warmMcpClient() {
     warmupStarted = false;
   });
 }
+
+export async function probeMcpServer(
+  server: StoredMcpServer,
+): Promise<{ ok: boolean; tools?: string[]; error?: string }> {
+  try {
+    const tools = await getServerTools(server);
+    return {
+      ok: true,
+      tools: tools.map((tool) =>
+        "function" in tool ? tool.function.name : "",
+      ),
+    };
+  } catch (error) {
+    return { ok: false, error: (error as Error).message };
+  }
+}
+
+const TRANSPORTS = ["stdio", "http", "sse"] as const;
+
+function stringRecord(value: unknown): Record<string, string> | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return undefined;
+  }
+  const out: Record<string, string> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (key.trim()) out[key.trim()] = String(item ?? "");
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+// Validates a registry entry coming from the settings UI. Returns an error
+// message instead of throwing so routes can map it to a 400.
+export function parseMcpServerInput(
+  body: any,
+  existing?: StoredMcpServer,
+): { server?: StoredMcpServer; error?: string } {
+  const merged = { ...existing, ...body };
+  const name = typeof merged.name === "string" ? merged.name.trim() : "";
+  if (!name) return { error: "Name is required" };
+  if (name.length > 40) return { error: "Name must be 40 characters or less" };
+
+  const transport = merged.transport;
+  if (!TRANSPORTS.includes(transport)) {
+    return { error: "Transport must be stdio, http or sse" };
+  }
+
+  const server: StoredMcpServer = {
+    id: existing?.id || serverSlug(name),
+    name,
+    transport,
+    env: stringRecord(merged.env),
+    enabled: merged.enabled !== false,
+    createdAt: existing?.createdAt || Date.now(),
+  };
+
+  if (transport === "stdio") {
+    const command =
+      typeof merged.command === "string" ? merged.command.trim() : "";
+    if (!command) return { error: "Command is required for stdio servers" };
+    server.command = command;
+    server.args = Array.isArray(merged.args)
+      ? merged.args.map((arg: unknown) => String(arg)).filter(Boolean)
+      : [];
+  } else {
+    const url = typeof merged.url === "string" ? merged.url.trim() : "";
+    if (!/^https?:\/\//i.test(url) && !url.startsWith("${")) {
+      return { error: "A http(s) URL is required for remote servers" };
+    }
+    server.url = url;
+    server.headers = stringRecord(merged.headers);
+  }
+
+  return { server };
+}
@@ -0,0 +1,754 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { dataDir, type SqliteInstance } from "./db";
+
+// Numbered schema migrations, applied in order by runMigrations() in ./db.
+// Append new migrations with the next version number and never edit one that
+// has shipped.
+//
+// Versions 1-5 describe the schema as it was before versioning existed. They
+// are written to be safe on databases created by the old bootstrap code,
+// which may already have some of these tables and columns; later migrations
+// can assume the schema they leave behind.
+
+export type Migration = {
+  version: number;
+  name: string;
+  up: (db: SqliteInstance) => void;
+};
+
+function tableExists(db: SqliteInstance, table: string) {
+  return !!db
+    .prepare(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = :table",
+    )
+    .get({ table });
+}
+
+function addColumnIfMissing(
+  db: SqliteInstance,
+  table: string,
+  column: string,
+  definition: string,
+) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{
+    name: string;
+  }>;
+  if (columns.some((col) => col.name === column)) return;
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+// Helpers below are frozen copies of application code the migrations need,
+// so a migration does the same on every database however the application
+// changes later. Never update them; a migration that needs different
+// behaviour gets its own copy.
+
+// Raster types only: an SVG served from this origin could run script
+const IMAGE_DATA_URL_PATTERN = /^data:(image\/(?:png|jpeg|gif|webp));base64,/i;
+
+// storeImageUrl from ./image-blobs as of extract_inline_images (7)
+function storeImageUrlV7(db: SqliteInstance, url: string, userId: string) {
+  const match = IMAGE_DATA_URL_PATTERN.exec(url);
+  if (!match) return url;
+  const bytes = Buffer.from(url.slice(match[0].length), "base64");
+  if (!bytes.length) return url;
+  const id = crypto.createHash("sha256").update(bytes).digest("hex");
+  const file = path.join(dataDir(), "images", id.slice(0, 2), id);
+  if (!fs.existsSync(file)) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, bytes);
+    fs.renameSync(tmp, file);
+  }
+  db.prepare(
+    `INSERT OR IGNORE INTO image_blobs (id, mime, size, created_at)
+     VALUES (:id, :mime, :size, :createdAt)`,
+  ).run({
+    id,
+    mime: match[1].toLowerCase(),
+    size: bytes.length,
+    createdAt: Date.now(),
+  });
+  db.prepare(
+    "INSERT OR IGNORE INTO image_blob_owners (blob_id, user_id) VALUES (:id, :userId)",
+  ).run({ id, userId });
+  return `/api/persistence/images/${id}`;
+}
+
+// externalizeImages from ./image-blobs as of extract_inline_images (7)
+function externalizeImagesV7(
+  db: SqliteInstance,
+  content: unknown,
+  userId: string,
+): unknown {
+  if (!Array.isArray(content)) return content;
+  return content.map((part) => {
+    const url = part?.image_url?.url;
+    if (part?.type !== "image_url" || typeof url !== "string") return part;
+    const stored = storeImageUrlV7(db, url, userId);
+    return stored === url
+      ? part
+      : { ...part, image_url: { ...part.image_url, url: stored } };
+  });
+}
+
+/** Text of a message as indexed: text parts only, without image URLs. */
+function searchText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((part) => (part?.type === "text" ? String(part.text ?? "") : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+// indexChat from ./search as of chat_search (8)
+function indexChatV8(
+  db: SqliteInstance,
+  chat: {
+    id: string;
+    title: string;
+    messages: Array<{ id: string; content?: unknown; reasoning?: string }>;
+  },
+) {
+  db.prepare("DELETE FROM chat_search WHERE chat_id = :chatId").run({
+    chatId: chat.id,
+  });
+  const insert = db.prepare(
+    `INSERT INTO chat_search (chat_id, message_id, title, content, reasoning)
+     VALUES (:chatId, :messageId, :title, :content, :reasoning)`,
+  );
+  insert.run({
+    chatId: chat.id,
+    messageId: null,
+    title: chat.title,
+    content: "",
+    reasoning: "",
+  });
+  for (const message of chat.messages) {
+    const content = searchText(message.content);
+    const reasoning = message.reasoning || "";
+    if (!content.trim() && !reasoning.trim()) continue;
+    insert.run({
+      chatId: chat.id,
+      messageId: message.id,
+      title: "",
+      content,
+      reasoning,
+    });
+  }
+}
+
+// indexChat from ./search as of chat_search_rows (20), for a chat with no rows
+// yet: each row's rowid comes from its chat_search_rows entry
+function indexChatV20(
+  db: SqliteInstance,
+  chat: {
+    id: string;
+    title: string;
+    messages: Array<{ id: string; content?: unknown; reasoning?: string }>;
+  },
+) {
+  const insertRow = db.prepare(
+    "INSERT INTO chat_search_rows (chat_id, message_id) VALUES (:chatId, :messageId)",
+  );
+  const insertText = db.prepare(
+    `INSERT INTO chat_search (rowid, chat_id, message_id, title, content, reasoning)
+     VALUES (:id, :chatId, :messageId, :title, :content, :reasoning)`,
+  );
+  const insert = (row: {
+    messageId: string | null;
+    title: string;
+    content: string;
+    reasoning: string;
+  }) => {
+    const { lastInsertRowid } = insertRow.run({
+      chatId: chat.id,
+      messageId: row.messageId,
+    });
+    insertText.run({ id: lastInsertRowid, chatId: chat.id, ...row });
+  };
+  insert({ messageId: null, title: chat.title, content: "", reasoning: "" });
+  for (const message of chat.messages) {
+    const content = searchText(message.content);
+    const reasoning = message.reasoning || "";
+    if (!content.trim() && !reasoning.trim()) continue;
+    insert({ messageId: message.id, title: "", content, reasoning });
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "core_schema",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id TEXT PRIMARY KEY,
+          username TEXT UNIQUE NOT NULL,
+          password_hash TEXT NOT NULL,
+          is_admin INTEGER DEFAULT 0,
+          created_at INTEGER
+        );
+        CREATE TABLE IF NOT EXISTS sessions (
+          token TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          created_at INTEGER,
+          expires_at INTEGER,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+        CREATE TABLE IF NOT EXISTS chats (
+          id TEXT PRIMARY KEY,
+          title TEXT,
+          created_at INTEGER,
+          user_id TEXT REFERENCES users(id)
+        );
+        CREATE TABLE IF NOT EXISTS messages (
+          id TEXT PRIMARY KEY,
+          chat_id TEXT,
+          role TEXT,
+          content TEXT,
+          pending INTEGER,
+          error TEXT,
+          created_at INTEGER,
+          edited INTEGER,
+          cost REAL,
+          reasoning TEXT,
+          reasoning_details TEXT,
+          FOREIGN KEY (chat_id) REFERENCES chats(id) ON DELETE CASCADE
+        );
+        CREATE TABLE IF NOT EXISTS config (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id TEXT,
+          key TEXT NOT NULL,
+          value TEXT,
+          UNIQUE(user_id, key)
+        );
+        CREATE TABLE IF NOT EXISTS images (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          url TEXT NOT NULL,
+          prompt TEXT,
+          model TEXT,
+          size TEXT,
+          steps INTEGER,
+          guidance_scale REAL,
+          seed INTEGER,
+          cost REAL,
+          created_at INTEGER,
+          source_image_url TEXT,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+      `);
+      // Columns added over time by the old bootstrap code
+      addColumnIfMissing(db, "messages", "cost", "REAL");
+      addColumnIfMissing(db, "messages", "reasoning", "TEXT");
+      addColumnIfMissing(db, "messages", "reasoning_details", "TEXT");
+      addColumnIfMissing(db, "messages", "tool_calls", "TEXT");
+      addColumnIfMissing(db, "messages", "citations", "TEXT");
+      addColumnIfMissing(db, "messages", "parent_id", "TEXT");
+      addColumnIfMissing(db, "chats", "user_id", "TEXT REFERENCES users(id)");
+      addColumnIfMissing(db, "chats", "enabled_tools", "TEXT");
+      addColumnIfMissing(db, "chats", "active_leaf_id", "TEXT");
+    },
+  },
+  {
+    version: 2,
+    name: "mcp_registry",
+    up(db) {
+      const existed = tableExists(db, "mcp_servers");
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS mcp_servers (
+          id TEXT PRIMARY KEY,
+          name TEXT UNIQUE NOT NULL,
+          transport TEXT NOT NULL,
+          command TEXT,
+          args TEXT,
+          url TEXT,
+          env TEXT,
+          headers TEXT,
+          enabled INTEGER DEFAULT 1,
+          created_at INTEGER
+        );
+      `);
+      // Seed the built-in Kagi server only when the registry is new, so an
+      // admin who removed it does not get it back
+      if (existed) return;
+      db.prepare(
+        `INSERT OR IGNORE INTO mcp_servers
+          (id, name, transport, command, args, url, env, headers, enabled, created_at)
+         VALUES (:id, :name, 'stdio', :command, :args, NULL, :env, NULL, 1, :createdAt)`,
+      ).run({
+        id: "kagi",
+        name: "kagi",
+        command: "uvx",
+        args: JSON.stringify(["kagimcp"]),
+        // Resolved from the server environment at connect time so the key never lands in the DB
+        env: JSON.stringify({
+          // biome-ignore lint/suspicious/noTemplateCurlyInString: env reference
+          KAGI_API_KEY: "${KAGI_API_KEY}",
+          // biome-ignore lint/suspicious/noTemplateCurlyInString: env reference
+          KAGI_SUMMARIZER_ENGINE: "${KAGI_SUMMARIZER_ENGINE:-cecil}",
+        }),
+        createdAt: Date.now(),
+      });
+      console.log("[db] Seeded MCP registry with kagimcp");
+    },
+  },
+  {
+    version: 3,
+    name: "api_tokens",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS api_tokens (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          name TEXT,
+          token_hash TEXT UNIQUE NOT NULL,
+          prefix TEXT,
+          created_at INTEGER,
+          last_used_at INTEGER,
+          revoked_at INTEGER,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "budgets",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS budgets (
+          scope TEXT PRIMARY KEY,
+          daily_limit REAL,
+          monthly_limit REAL,
+          warn_percent REAL,
+          updated_at INTEGER
+        );
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "pricing_events",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS pricing_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          prompt_tokens INTEGER DEFAULT 0,
+          completion_tokens INTEGER DEFAULT 0,
+          cost REAL,
+          currency TEXT DEFAULT 'USD',
+          created_at INTEGER,
+          metadata TEXT
+        );
+      `);
+      addColumnIfMissing(db, "pricing_events", "user_id", "TEXT");
+      addColumnIfMissing(db, "pricing_events", "chat_id", "TEXT");
+      addColumnIfMissing(db, "pricing_events", "message_id", "TEXT");
+      addColumnIfMissing(db, "pricing_events", "latency_ms", "INTEGER");
+      addColumnIfMissing(db, "pricing_events", "shadow_cost", "REAL");
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_pricing_provider_created ON pricing_events(provider, created_at);
+        CREATE INDEX IF NOT EXISTS idx_pricing_model_created ON pricing_events(model, created_at);
+        CREATE INDEX IF NOT EXISTS idx_pricing_user_created ON pricing_events(user_id, created_at);
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: "image_store",
+    up(db) {
+      db.exec(`
+        CREATE TABLE image_blobs (
+          id TEXT PRIMARY KEY,
+          mime TEXT NOT NULL,
+          size INTEGER,
+          created_at INTEGER
+        );
+        CREATE TABLE image_blob_owners (
+          blob_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          PRIMARY KEY (blob_id, user_id),
+          FOREIGN KEY (blob_id) REFERENCES image_blobs(id) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "extract_inline_images",
+    up(db) {
+      // Images were stored as base64 data URLs inside message content and the
+      // gallery; move them to the file store
+      const messages = db
+        .prepare(
+          `SELECT m.id, m.content, c.user_id as userId FROM messages m
+           JOIN chats c ON c.id = m.chat_id
+           WHERE c.user_id IS NOT NULL AND m.content LIKE '%data:image/%'`,
+        )
+        .all() as Array<{ id: string; content: string; userId: string }>;
+      const updateMessage = db.prepare(
+        "UPDATE messages SET content = :content WHERE id = :id",
+      );
+      for (const row of messages) {
+        let content: unknown;
+        try {
+          content = JSON.parse(row.content);
+        } catch {
+          continue;
+        }
+        updateMessage.run({
+          id: row.id,
+          content: JSON.stringify(externalizeImagesV7(db, content, row.userId)),
+        });
+      }
+
+      const images = db
+        .prepare(
+          `SELECT id, user_id as userId, url, source_image_url as sourceImageUrl
+           FROM images
+           WHERE url LIKE 'data:image/%' OR source_image_url LIKE 'data:image/%'`,
+        )
+        .all() as Array<{
+        id: string;
+        userId: string;
+        url: string;
+        sourceImageUrl: string | null;
+      }>;
+      const updateImage = db.prepare(
+        "UPDATE images SET url = :url, source_image_url = :sourceImageUrl WHERE id = :id",
+      );
+      for (const row of images) {
+        updateImage.run({
+          id: row.id,
+          url: storeImageUrlV7(db, row.url, row.userId),
+          sourceImageUrl: row.sourceImageUrl
+            ? storeImageUrlV7(db, row.sourceImageUrl, row.userId)
+            : null,
+        });
+      }
+      if (messages.length || images.length) {
+        console.log(
+          `[db] moved inline images out of ${messages.length} messages and ${images.length} gallery entries; run VACUUM to reclaim the space`,
+        );
+      }
+    },
+  },
+  {
+    version: 8,
+    name: "chat_search",
+    up(db) {
+      db.exec(`
+        CREATE VIRTUAL TABLE chat_search USING fts5(
+          chat_id UNINDEXED,
+          message_id UNINDEXED,
+          title,
+          content,
+          reasoning,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+      `);
+      const chats = db
+        .prepare("SELECT id, COALESCE(title, '') AS title FROM chats")
+        .all() as Array<{ id: string; title: string }>;
+      const messages = db.prepare(
+        "SELECT id, content, reasoning FROM messages WHERE chat_id = :chatId",
+      );
+      for (const chat of chats) {
+        const rows = messages.all({ chatId: chat.id }) as Array<{
+          id: string;
+          content: string | null;
+          reasoning: string | null;
+        }>;
+        indexChatV8(db, {
+          id: chat.id,
+          title: chat.title,
+          messages: rows.map((row) => {
+            let content: unknown = row.content;
+            try {
+              content = JSON.parse(row.content || '""');
+            } catch {
+              // Content saved before it was JSON-encoded
+            }
+            return {
+              id: row.id,
+              content,
+              reasoning: row.reasoning ?? undefined,
+            };
+          }),
+        });
+      }
+    },
+  },
+  {
+    version: 9,
+    name: "chat_summaries",
+    up(db) {
+      // Sidebar pages are ordered by the newest message in each chat
+      db.exec(`
+        ALTER TABLE chats ADD COLUMN updated_at INTEGER;
+        UPDATE chats SET updated_at = COALESCE(
+          (SELECT MAX(created_at) FROM messages WHERE chat_id = chats.id),
+          created_at,
+          0
+        );
+        CREATE INDEX idx_chats_user_updated ON chats(user_id, updated_at, id);
+        CREATE INDEX IF NOT EXISTS idx_messages_chat_created ON messages(chat_id, created_at);
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: "message_sync",
+    up(db) {
+      db.exec(`
+        ALTER TABLE messages ADD COLUMN updated_at INTEGER;
+        UPDATE messages SET updated_at = COALESCE(created_at, 0);
+        CREATE TABLE chat_changes (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id TEXT,
+          chat_id TEXT NOT NULL,
+          message_id TEXT,
+          kind TEXT NOT NULL,
+          created_at INTEGER
+        );
+        CREATE INDEX idx_chat_changes_user_seq ON chat_changes(user_id, seq);
+        CREATE INDEX idx_chat_changes_created ON chat_changes(created_at);
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: "chat_organization",
+    up(db) {
+      db.exec(`
+        CREATE TABLE chat_folders (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          position INTEGER DEFAULT 0,
+          created_at INTEGER,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+        CREATE TABLE chat_tags (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          color TEXT NOT NULL,
+          created_at INTEGER,
+          UNIQUE(user_id, name),
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+        CREATE TABLE chat_tag_links (
+          chat_id TEXT NOT NULL,
+          tag_id TEXT NOT NULL,
+          PRIMARY KEY (chat_id, tag_id),
+          FOREIGN KEY (tag_id) REFERENCES chat_tags(id) ON DELETE CASCADE
+        );
+        CREATE INDEX idx_chat_tag_links_tag ON chat_tag_links(tag_id);
+        ALTER TABLE chats ADD COLUMN folder_id TEXT;
+        ALTER TABLE chats ADD COLUMN pinned_at INTEGER;
+        CREATE INDEX idx_chats_folder ON chats(folder_id);
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: "chat_titles",
+    up(db) {
+      // NULL is a title derived from the first message; "generated" and
+      // "user" titles are kept over derived ones
+      db.exec("ALTER TABLE chats ADD COLUMN title_source TEXT;");
+    },
+  },
+  {
+    version: 13,
+    name: "prompt_presets",
+    up(db) {
+      // Shared presets are listed for every user but only the owner (or an
+      // admin) may change them
+      db.exec(`
+        CREATE TABLE prompt_presets (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          system_prompt TEXT NOT NULL DEFAULT '',
+          provider TEXT,
+          model TEXT,
+          deep_search INTEGER DEFAULT 0,
+          temperature REAL,
+          shared INTEGER DEFAULT 0,
+          created_at INTEGER,
+          updated_at INTEGER,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+        CREATE INDEX idx_prompt_presets_user ON prompt_presets(user_id);
+        ALTER TABLE chats ADD COLUMN preset_id TEXT;
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: "prompt_templates",
+    up(db) {
+      db.exec(`
+        CREATE TABLE prompt_templates (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT NOT NULL DEFAULT '',
+          body TEXT NOT NULL,
+          created_at INTEGER,
+          updated_at INTEGER,
+          UNIQUE(user_id, name),
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 15,
+    name: "generation_params",
+    up(db) {
+      // JSON GenerationParams: a chat's overrides, and what each answer was
+      // requested with
+      db.exec(`
+        ALTER TABLE chats ADD COLUMN generation TEXT;
+        ALTER TABLE messages ADD COLUMN generation TEXT;
+      `);
+    },
+  },
+  {
+    version: 16,
+    name: "knowledge_collections",
+    up(db) {
+      // Embeddings are stored as float32 BLOBs and scored in process; a chat
+      // names the collection it searches
+      db.exec(`
+        CREATE TABLE knowledge_collections (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT NOT NULL DEFAULT '',
+          provider TEXT NOT NULL,
+          embedding_model TEXT NOT NULL,
+          dimensions INTEGER,
+          created_at INTEGER,
+          updated_at INTEGER,
+          UNIQUE(user_id, name),
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+        CREATE TABLE knowledge_documents (
+          id TEXT PRIMARY KEY,
+          collection_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          format TEXT NOT NULL,
+          pages INTEGER,
+          chars INTEGER NOT NULL DEFAULT 0,
+          created_at INTEGER,
+          FOREIGN KEY (collection_id) REFERENCES knowledge_collections(id) ON DELETE CASCADE
+        );
+        CREATE INDEX idx_knowledge_documents_collection ON knowledge_documents(collection_id);
+        CREATE TABLE knowledge_chunks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          collection_id TEXT NOT NULL,
+          document_id TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          label TEXT,
+          text TEXT NOT NULL,
+          embedding BLOB NOT NULL,
+          FOREIGN KEY (document_id) REFERENCES knowledge_documents(id) ON DELETE CASCADE
+        );
+        CREATE INDEX idx_knowledge_chunks_collection ON knowledge_chunks(collection_id);
+        CREATE INDEX idx_knowledge_chunks_document ON knowledge_chunks(document_id);
+        ALTER TABLE chats ADD COLUMN collection_id TEXT;
+      `);
+    },
+  },
+  {
+    version: 17,
+    name: "answer_stats",
+    up(db) {
+      // Which model answered and how fast, and the side-by-side comparison
+      // an answer belongs to; tokens is JSON MessageTokens
+      db.exec(`
+        ALTER TABLE messages ADD COLUMN provider TEXT;
+        ALTER TABLE messages ADD COLUMN model TEXT;
+        ALTER TABLE messages ADD COLUMN latency_ms INTEGER;
+        ALTER TABLE messages ADD COLUMN tokens TEXT;
+        ALTER TABLE messages ADD COLUMN compare_group TEXT;
+        ALTER TABLE messages ADD COLUMN compare_winner INTEGER DEFAULT 0;
+      `);
+    },
+  },
+  {
+    version: 18,
+    name: "fallback_reason",
+    up(db) {
+      // ProviderErrorKind of the failure that handed the answer to a fallback
+      db.exec("ALTER TABLE messages ADD COLUMN fallback_reason TEXT;");
+    },
+  },
+  {
+    version: 19,
+    name: "stopped_messages",
+    up(db) {
+      // Answers cut short by the user, kept with the text they got to
+      db.exec("ALTER TABLE messages ADD COLUMN stopped INTEGER DEFAULT 0;");
+    },
+  },
+  {
+    version: 20,
+    name: "chat_search_rows",
+    up(db) {
+      // Maps chat and message ids to chat_search rowids so rows can be
+      // replaced without scanning the FTS table; the index is rebuilt to
+      // match
+      db.exec(`
+        CREATE TABLE chat_search_rows (
+          id INTEGER PRIMARY KEY,
+          chat_id TEXT NOT NULL,
+          message_id TEXT
+        );
+        CREATE INDEX idx_chat_search_rows_chat ON chat_search_rows(chat_id);
+        CREATE INDEX idx_chat_search_rows_message ON chat_search_rows(message_id);
+        DELETE FROM chat_search;
+      `);
+      const chats = db
+        .prepare("SELECT id, COALESCE(title, '') AS title FROM chats")
+        .all() as Array<{ id: string; title: string }>;
+      const messages = db.prepare(
+        "SELECT id, content, reasoning FROM messages WHERE chat_id = :chatId",
+      );
+      for (const chat of chats) {
+        const rows = messages.all({ chatId: chat.id }) as Array<{
+          id: string;
+          content: string | null;
+          reasoning: string | null;
+        }>;
+        indexChatV20(db, {
+          id: chat.id,
+          title: chat.title,
+          messages: rows.map((row) => {
+            let content: unknown = row.content;
+            try {
+              content = JSON.parse(row.content || '""');
+            } catch {
+              // Content saved before it was JSON-encoded
+            }
+            return {
+              id: row.id,
+              content,
+              reasoning: row.reasoning ?? undefined,
+            };
+          }),
+        });
+      }
+    },
+  },
+];
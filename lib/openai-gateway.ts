@@ -0,0 +1,325 @@
+import crypto from "node:crypto";
+import type { AuthUser } from "./auth-middleware";
+import { enforceBudget, isBudgetError } from "./budgets";
+import {
+  buildClient,
+  type ChatContext,
+  recordUsageCost,
+  runChat,
+  savedChatConfig,
+  streamChat,
+} from "./chat";
+import { deepSearchPrompt } from "./config-utils";
+import type { NormalizedChatConfig } from "./env";
+import { estimateUsage, type UsageRecord } from "./pricing";
+
+// OpenAI-compatible gateway behind /api/v1. Requests are forwarded to the
+// provider configured for the calling user, and usage is recorded in the
+// pricing ledger like any chat from the UI.
+//
+// Non-standard request fields:
+//   provider       "local" | "openrouter" | "nanogpt", overrides the user's
+//   deep_search    run the MCP tool loop server-side before answering
+//   enabled_tools  limit deep search to these namespaced tool names
+
+export type GatewayRequest = {
+  model?: string;
+  messages?: any[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  provider?: string;
+  deep_search?: boolean;
+  enabled_tools?: string[] | null;
+  [key: string]: unknown;
+};
+
+const EXTENSION_FIELDS = [
+  "provider",
+  "deep_search",
+  "enabled_tools",
+  "stream",
+  "stream_options",
+];
+
+export function errorBody(message: string, type = "invalid_request_error") {
+  return { error: { message, type, code: null } };
+}
+
+// Resolves provider, model and credentials from the request and the caller's
+// saved settings, falling back to the server environment.
+export function resolveGatewayConfig(
+  user: AuthUser,
+  provider?: string,
+  model?: string,
+): NormalizedChatConfig {
+  return savedChatConfig(user.id, provider, model);
+}
+
+function completionId() {
+  return `chatcmpl-${crypto.randomBytes(12).toString("hex")}`;
+}
+
+function apiContext(user: AuthUser, signal?: AbortSignal): ChatContext {
+  return { userId: user.id, costMetadata: { source: "api" }, signal };
+}
+
+// Text of the request's messages, for estimating the prompt of a stream the
+// caller abandoned before the provider reported usage
+function promptText(messages: any[]) {
+  return messages
+    .map((m) =>
+      typeof m?.content === "string"
+        ? m.content
+        : Array.isArray(m?.content)
+          ? m.content.map((part: any) => part?.text || "").join("\n")
+          : "",
+    )
+    .join("\n");
+}
+
+function passthroughParams(body: GatewayRequest) {
+  const params: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (!EXTENSION_FIELDS.includes(key) && value !== undefined) {
+      params[key] = value;
+    }
+  }
+  return params;
+}
+
+// Returns an error message instead of throwing so routes can map it to a 400.
+export function validateGatewayRequest(body: GatewayRequest): string | null {
+  if (!body || typeof body !== "object") return "Request body must be JSON";
+  if (!Array.isArray(body.messages) || !body.messages.length) {
+    return "messages must be a non-empty array";
+  }
+  if (body.model != null && typeof body.model !== "string") {
+    return "model must be a string";
+  }
+  return null;
+}
+
+/**
+ * HTTP status for a failed completion: 402 when the caller is over budget,
+ * otherwise the upstream provider's status when the SDK reports one.
+ */
+export function upstreamStatus(error: unknown) {
+  if (isBudgetError(error)) return 402;
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === "number" && status >= 400 ? status : 502;
+}
+
+function deepSearchPayload(body: GatewayRequest, config: NormalizedChatConfig) {
+  return {
+    messages: body.messages || [],
+    provider: config.provider,
+    model: config.model,
+    apiKey: config.apiKey,
+    localUrl: config.localUrl,
+    systemPrompt: deepSearchPrompt.trim(),
+    deepSearch: true,
+    enabledTools: body.enabled_tools ?? null,
+  };
+}
+
+// `signal` is the HTTP request's, so a caller that disconnects cancels the
+// provider request
+export async function createCompletion(
+  user: AuthUser,
+  body: GatewayRequest,
+  signal?: AbortSignal,
+) {
+  const config = resolveGatewayConfig(user, body.provider, body.model);
+  const context = apiContext(user, signal);
+
+  if (body.deep_search) {
+    const result = await runChat(deepSearchPayload(body, config), context);
+    return {
+      id: completionId(),
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model: result.model || config.model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: result.content,
+            ...(result.reasoning ? { reasoning: result.reasoning } : {}),
+          },
+          finish_reason: "stop",
+        },
+      ],
+      usage: result.usage,
+    };
+  }
+
+  enforceBudget(user.id);
+  const client = buildClient(config);
+  const startedAt = Date.now();
+  const response: any = await client.chat.completions.create(
+    {
+      ...passthroughParams(body),
+      model: config.model,
+      stream: false,
+    } as any,
+    { signal },
+  );
+  await recordUsageCost(
+    config,
+    {
+      model: response?.model || config.model,
+      usage: response?.usage,
+      pricing: response?.pricing,
+      latencyMs: Date.now() - startedAt,
+    },
+    context,
+  );
+  return response;
+}
+
+// Returns an SSE stream of `chat.completion.chunk` objects ending in [DONE].
+// Plain requests open the upstream stream first so provider errors surface
+// as a normal HTTP error instead of an event in a 200 response.
+export async function streamCompletion(
+  user: AuthUser,
+  body: GatewayRequest,
+  signal?: AbortSignal,
+): Promise<ReadableStream<Uint8Array>> {
+  // Aborted when the caller disconnects or stops reading the stream
+  const cancelled = new AbortController();
+  const aborted = signal
+    ? AbortSignal.any([signal, cancelled.signal])
+    : cancelled.signal;
+  const config = resolveGatewayConfig(user, body.provider, body.model);
+  const context = apiContext(user, aborted);
+  const includeUsage = !!body.stream_options?.include_usage;
+  const encoder = new TextEncoder();
+
+  // Deep search is checked inside streamChat
+  if (!body.deep_search) enforceBudget(user.id);
+  const startedAt = Date.now();
+  const upstream = body.deep_search
+    ? null
+    : await buildClient(config).chat.completions.create(
+        {
+          ...passthroughParams(body),
+          model: config.model,
+          stream: true,
+          stream_options: { include_usage: true },
+        } as any,
+        { signal: aborted },
+      );
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // The stream cannot be written to or closed once the caller has
+      // cancelled it
+      const write = (text: string) => {
+        if (!cancelled.signal.aborted) {
+          controller.enqueue(encoder.encode(text));
+        }
+      };
+      const send = (obj: unknown) => write(`data: ${JSON.stringify(obj)}\n\n`);
+
+      try {
+        if (upstream) {
+          let usage: UsageRecord | undefined;
+          let model = config.model;
+          let output = "";
+          for await (const part of upstream as any) {
+            if (part?.model) model = part.model;
+            if (part?.usage) usage = part.usage;
+            const delta = part?.choices?.[0]?.delta;
+            output += `${delta?.content || ""}${delta?.reasoning || ""}`;
+            // Usage is always requested so the call can be billed; only
+            // forward the usage-only chunk when the client asked for it.
+            if (!includeUsage && part?.usage && !part.choices?.length) continue;
+            send(part);
+          }
+          // An abandoned stream ends early and is still billed by the
+          // provider for what it generated
+          const estimated = aborted.aborted && !usage;
+          await recordUsageCost(
+            config,
+            {
+              model,
+              usage: estimated
+                ? estimateUsage(promptText(body.messages || []), output)
+                : usage,
+              latencyMs: Date.now() - startedAt,
+            },
+            estimated
+              ? {
+                  ...context,
+                  costMetadata: {
+                    ...context.costMetadata,
+                    aborted: true,
+                    estimatedUsage: true,
+                  },
+                }
+              : context,
+          );
+        } else {
+          const id = completionId();
+          const created = Math.floor(Date.now() / 1000);
+          const chunk = (
+            delta: Record<string, unknown>,
+            finishReason: string | null = null,
+          ) => ({
+            id,
+            object: "chat.completion.chunk",
+            created,
+            model: config.model,
+            choices: [{ index: 0, delta, finish_reason: finishReason }],
+          });
+
+          send(chunk({ role: "assistant", content: "" }));
+          const meta = await streamChat(
+            deepSearchPayload(body, config),
+            (part) => {
+              if (part.content) send(chunk({ content: part.content }));
+              if (part.reasoning) send(chunk({ reasoning: part.reasoning }));
+            },
+            context,
+          );
+          send(chunk({}, "stop"));
+          if (includeUsage && meta.usage) {
+            send({ ...chunk({}), choices: [], usage: meta.usage });
+          }
+        }
+        write("data: [DONE]\n\n");
+      } catch (error) {
+        send(errorBody((error as Error).message, "api_error"));
+      } finally {
+        if (!cancelled.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      cancelled.abort();
+    },
+  });
+}
+
+export async function listModels(user: AuthUser, provider?: string) {
+  const config = resolveGatewayConfig(user, provider);
+  const owner = config.provider;
+  try {
+    const client = buildClient(config);
+    const page = await client.models.list();
+    const data = page.data.map((model: any) => ({
+      id: model.id,
+      object: "model",
+      created: model.created ?? 0,
+      owned_by: model.owned_by || owner,
+    }));
+    if (data.length) return { object: "list", data };
+  } catch (error) {
+    console.warn("[v1/models] listing failed:", (error as Error).message);
+  }
+  // Providers without a model listing still expose the configured default
+  return {
+    object: "list",
+    data: [{ id: config.model, object: "model", created: 0, owned_by: owner }],
+  };
+}
@@ -1,32 +1,71 @@
-import fs from "node:fs";
-import { createRequire } from "node:module";
-import path from "node:path";
+import type {
+  ChatFolder,
+  ChatSummary,
+  ChatTag,
+  ChatTitleSource,
+  GenerationParams,
+  KnowledgeCollection,
+  KnowledgeDocument,
+  PromptPreset,
+  PromptTemplate,
+  Provider,
+} from "@/types/chat";
 import {
+  generateApiToken,
   generateSessionToken,
   generateUserId,
+  hashApiToken,
   hashPassword,
   SESSION_DURATION_MS,
 } from "./auth";
+import { getDb as openDb, runTransaction, type SqliteInstance } from "./db";
+import type { DocumentChunk } from "./documents";
+import { externalizeImages, inlineImages, storeImageUrl } from "./image-blobs";
+import type { KnowledgeCollectionInput } from "./knowledge";
+import type { PromptPresetInput } from "./prompt-presets";
+import type { PromptTemplateInput } from "./prompt-templates";
+import { indexChat, indexChatTitle, indexMessage, unindexChat } from "./search";
 
 export type StoredMessage = {
   id: string;
+  parentId?: string | null;
   role: string;
   content: unknown;
   pending?: boolean;
   error?: string;
   createdAt?: number;
+  // Version of the stored row, bumped on every write
+  updatedAt?: number;
   edited?: boolean;
   cost?: number;
   reasoning?: string;
   reasoningDetails?: unknown;
+  toolCalls?: unknown;
+  citations?: unknown;
+  generation?: GenerationParams;
+  provider?: string;
+  model?: string;
+  latencyMs?: number;
+  tokens?: unknown;
+  compareGroup?: string;
+  compareWinner?: boolean;
+  fallbackReason?: string;
+  stopped?: boolean;
 };
 
 export type StoredChat = {
   id: string;
   title?: string;
+  // A title without a source counts as derived
+  titleSource?: ChatTitleSource;
   createdAt?: number;
   messages: StoredMessage[];
   userId?: string;
+  enabledTools?: string[] | null;
+  activeLeafId?: string | null;
+  presetId?: string | null;
+  generation?: GenerationParams | null;
+  collectionId?: string | null;
 };
 
 export type StoredConfig = Record<string, unknown>;
@@ -39,133 +78,17 @@ export type StoredUser = {
   createdAt: number;
 };
 
-type SqliteInstance = {
-  pragma?: (sql: string) => unknown;
-  exec: (sql: string) => unknown;
-  prepare: (sql: string) => any;
-  transaction?: (fn: () => void) => () => void;
-};
-
-let db: SqliteInstance | null = null;
-const require = createRequire(import.meta.url);
-
-function createDatabase(dbPath: string): SqliteInstance {
-  try {
-    // eslint-disable-next-line @typescript-eslint/no-var-requires
-    const Better = require("better-sqlite3");
-    return new Better(dbPath);
-  } catch (err) {
-    if (typeof (globalThis as any).Bun !== "undefined") {
-      // eslint-disable-next-line @typescript-eslint/no-var-requires
-      const BunSqlite = require("bun:sqlite");
-      return new BunSqlite.Database(dbPath, { create: true, strict: true });
-    }
-    throw err;
-  }
-}
+let bootstrapped = false;
 
+// The shared connection, plus a first-run admin account so a fresh install
+// can be logged into.
 function getDb() {
-  if (db) return db;
-  try {
-    const dataDir = path.join(process.cwd(), "data");
-    fs.mkdirSync(dataDir, { recursive: true });
-    const dbPath = path.join(dataDir, "app.db");
-    db = createDatabase(dbPath);
-    if (db.pragma) {
-      try {
-        db.pragma("journal_mode = WAL");
-      } catch { }
-    } else {
-      db.exec("PRAGMA journal_mode = WAL;");
-    }
-    db.exec(`
-      CREATE TABLE IF NOT EXISTS users (
-        id TEXT PRIMARY KEY,
-        username TEXT UNIQUE NOT NULL,
-        password_hash TEXT NOT NULL,
-        is_admin INTEGER DEFAULT 0,
-        created_at INTEGER
-      );
-      CREATE TABLE IF NOT EXISTS sessions (
-        token TEXT PRIMARY KEY,
-        user_id TEXT NOT NULL,
-        created_at INTEGER,
-        expires_at INTEGER,
-        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-      );
-      CREATE TABLE IF NOT EXISTS chats (
-        id TEXT PRIMARY KEY,
-        title TEXT,
-        created_at INTEGER,
-        user_id TEXT REFERENCES users(id)
-      );
-      CREATE TABLE IF NOT EXISTS messages (
-        id TEXT PRIMARY KEY,
-        chat_id TEXT,
-        role TEXT,
-        content TEXT,
-        pending INTEGER,
-        error TEXT,
-        created_at INTEGER,
-        edited INTEGER,
-        cost REAL,
-        reasoning TEXT,
-        reasoning_details TEXT,
-        FOREIGN KEY (chat_id) REFERENCES chats(id) ON DELETE CASCADE
-      );
-      CREATE TABLE IF NOT EXISTS config (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id TEXT,
-        key TEXT NOT NULL,
-        value TEXT,
-        UNIQUE(user_id, key)
-      );
-      CREATE TABLE IF NOT EXISTS images (
-        id TEXT PRIMARY KEY,
-        user_id TEXT NOT NULL,
-        url TEXT NOT NULL,
-        prompt TEXT,
-        model TEXT,
-        size TEXT,
-        steps INTEGER,
-        guidance_scale REAL,
-        seed INTEGER,
-        cost REAL,
-        created_at INTEGER,
-        source_image_url TEXT,
-        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-      );
-    `);
-    // Migration: add columns if missing (for existing databases)
-    try {
-      db.exec("ALTER TABLE messages ADD COLUMN cost REAL");
-    } catch {
-      // already added
-    }
-    try {
-      db.exec("ALTER TABLE messages ADD COLUMN reasoning TEXT");
-    } catch {
-      // already added
-    }
-    try {
-      db.exec("ALTER TABLE messages ADD COLUMN reasoning_details TEXT");
-    } catch {
-      // already added
-    }
-    try {
-      db.exec("ALTER TABLE chats ADD COLUMN user_id TEXT REFERENCES users(id)");
-    } catch {
-      // already added
-    }
-
-    // Bootstrap admin user if no users exist
-    bootstrapAdminUser(db);
-
-    return db;
-  } catch (error) {
-    console.error("[persistence] failed to init db:", error);
-    throw error;
+  const database = openDb();
+  if (!bootstrapped) {
+    bootstrapAdminUser(database);
+    bootstrapped = true;
   }
+  return database;
 }
 
 function bootstrapAdminUser(database: SqliteInstance) {
@@ -199,14 +122,6 @@ function bootstrapAdminUser(database: SqliteInstance) {
   }
 }
 
-function runTransaction(database: SqliteInstance, fn: () => void) {
-  if (typeof database.transaction === "function") {
-    return database.transaction(fn)();
-  }
-  // Fallback: just execute (no transactional guarantees)
-  return fn();
-}
-
 // ============ USER MANAGEMENT ============
 
 export function createUser(
@@ -293,7 +208,44 @@ export function deleteUser(id: string): boolean {
   // Cascade delete sessions, chats, messages, and config
   const tx = () => {
     database.prepare("DELETE FROM sessions WHERE user_id = :id").run({ id });
+    database.prepare("DELETE FROM api_tokens WHERE user_id = :id").run({ id });
     database.prepare("DELETE FROM config WHERE user_id = :id").run({ id });
+    database.prepare("DELETE FROM budgets WHERE scope = :id").run({ id });
+    database
+      .prepare("DELETE FROM image_blob_owners WHERE user_id = :id")
+      .run({ id });
+    const chatIds = database
+      .prepare("SELECT id FROM chats WHERE user_id = :id")
+      .all({ id }) as Array<{ id: string }>;
+    for (const chat of chatIds) unindexChat(database, chat.id);
+    database
+      .prepare(
+        "DELETE FROM chat_tag_links WHERE chat_id IN (SELECT id FROM chats WHERE user_id = :id)",
+      )
+      .run({ id });
+    database.prepare("DELETE FROM chat_tags WHERE user_id = :id").run({ id });
+    database
+      .prepare("DELETE FROM prompt_presets WHERE user_id = :id")
+      .run({ id });
+    database
+      .prepare("DELETE FROM prompt_templates WHERE user_id = :id")
+      .run({ id });
+    database
+      .prepare(
+        "DELETE FROM knowledge_chunks WHERE collection_id IN (SELECT id FROM knowledge_collections WHERE user_id = :id)",
+      )
+      .run({ id });
+    database
+      .prepare(
+        "DELETE FROM knowledge_documents WHERE collection_id IN (SELECT id FROM knowledge_collections WHERE user_id = :id)",
+      )
+      .run({ id });
+    database
+      .prepare("DELETE FROM knowledge_collections WHERE user_id = :id")
+      .run({ id });
+    database
+      .prepare("DELETE FROM chat_folders WHERE user_id = :id")
+      .run({ id });
     // Messages will cascade delete with chats due to FK
     database.prepare("DELETE FROM chats WHERE user_id = :id").run({ id });
     database.prepare("DELETE FROM users WHERE id = :id").run({ id });
@@ -354,6 +306,111 @@ export function cleanExpiredSessions(): number {
   return (result as any).changes || 0;
 }
 
+// ============ API TOKENS ============
+
+export type StoredApiToken = {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string;
+  createdAt: number;
+  lastUsedAt?: number;
+  revokedAt?: number;
+};
+
+function mapApiTokenRow(row: any): StoredApiToken {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name || "",
+    prefix: row.prefix || "",
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at || undefined,
+    revokedAt: row.revoked_at || undefined,
+  };
+}
+
+/**
+ * Create an API token for a user. The plain token is only returned here;
+ * the database keeps its hash.
+ */
+export function createApiToken(
+  userId: string,
+  name: string,
+): { token: string; record: StoredApiToken } {
+  const database = getDb();
+  const token = generateApiToken();
+  const record: StoredApiToken = {
+    id: generateUserId(),
+    userId,
+    name,
+    prefix: token.slice(0, 12),
+    createdAt: Date.now(),
+  };
+
+  database
+    .prepare(
+      `INSERT INTO api_tokens (id, user_id, name, token_hash, prefix, created_at)
+       VALUES (:id, :userId, :name, :tokenHash, :prefix, :createdAt)`,
+    )
+    .run({
+      id: record.id,
+      userId,
+      name,
+      tokenHash: hashApiToken(token),
+      prefix: record.prefix,
+      createdAt: record.createdAt,
+    });
+
+  return { token, record };
+}
+
+export function listApiTokens(userId: string): StoredApiToken[] {
+  const database = getDb();
+  const rows = database
+    .prepare(
+      `SELECT * FROM api_tokens WHERE user_id = :userId AND revoked_at IS NULL
+       ORDER BY created_at DESC`,
+    )
+    .all({ userId }) as any[];
+  return rows.map(mapApiTokenRow);
+}
+
+export function revokeApiToken(id: string, userId: string): boolean {
+  const database = getDb();
+  const result = database
+    .prepare(
+      `UPDATE api_tokens SET revoked_at = :now
+       WHERE id = :id AND user_id = :userId AND revoked_at IS NULL`,
+    )
+    .run({ id, userId, now: Date.now() });
+  return (result as any).changes > 0;
+}
+
+export function getUserByApiToken(token: string): StoredUser | null {
+  const database = getDb();
+  const row = database
+    .prepare(
+      `SELECT t.id as token_id, u.* FROM api_tokens t
+       JOIN users u ON t.user_id = u.id
+       WHERE t.token_hash = :tokenHash AND t.revoked_at IS NULL LIMIT 1`,
+    )
+    .get({ tokenHash: hashApiToken(token) }) as any;
+
+  if (!row) return null;
+  database
+    .prepare("UPDATE api_tokens SET last_used_at = :now WHERE id = :id")
+    .run({ id: row.token_id, now: Date.now() });
+
+  return {
+    id: row.id,
+    username: row.username,
+    passwordHash: row.password_hash,
+    isAdmin: !!row.is_admin,
+    createdAt: row.created_at,
+  };
+}
+
 // ============ CHAT MANAGEMENT (USER-SCOPED) ============
 
 export function listChats(
@@ -382,11 +439,224 @@ export function listChats(
   return (userId ? stmt.all({ userId }) : stmt.all()) as any;
 }
 
+export const CHAT_PAGE_SIZE = 50;
+export const MAX_CHAT_PAGE_SIZE = 200;
+const SUMMARY_SNIPPET_CHARS = 120;
+
+// Pages are keyed on (updated_at, id) so chats saved while paging neither
+// repeat nor shift later pages.
+function encodeChatCursor(updatedAt: number, id: string): string {
+  return Buffer.from(JSON.stringify([updatedAt, id])).toString("base64url");
+}
+
+export function decodeChatCursor(
+  cursor: string,
+): { updatedAt: number; id: string } | null {
+  try {
+    const [updatedAt, id] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8"),
+    );
+    if (typeof updatedAt !== "number" || typeof id !== "string") return null;
+    return { updatedAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/** Newest chats first, one page at a time, without their messages. */
+export function listChatSummaries(
+  userId?: string,
+  options: {
+    cursor?: { updatedAt: number; id: string } | null;
+    limit?: number;
+    // Only these chats
+    ids?: string[];
+    // "" for chats outside any folder
+    folderId?: string;
+    tagId?: string;
+    pinned?: boolean;
+  } = {},
+): { chats: ChatSummary[]; nextCursor: string | null } {
+  const database = getDb();
+  const limit = Math.min(
+    Math.max(options.limit ?? CHAT_PAGE_SIZE, 1),
+    MAX_CHAT_PAGE_SIZE,
+  );
+  const where: string[] = [];
+  const params: Record<string, unknown> = { limit: limit + 1 };
+  if (userId) {
+    where.push("c.user_id = :userId");
+    params.userId = userId;
+  }
+  if (options.ids) {
+    if (!options.ids.length) return { chats: [], nextCursor: null };
+    const names = options.ids.map((id, idx) => {
+      params[`id${idx}`] = id;
+      return `:id${idx}`;
+    });
+    where.push(`c.id IN (${names.join(", ")})`);
+  }
+  if (options.folderId !== undefined) {
+    where.push(
+      options.folderId ? "c.folder_id = :folderId" : "c.folder_id IS NULL",
+    );
+    if (options.folderId) params.folderId = options.folderId;
+  }
+  if (options.tagId) {
+    where.push(
+      "EXISTS (SELECT 1 FROM chat_tag_links l WHERE l.chat_id = c.id AND l.tag_id = :tagId)",
+    );
+    params.tagId = options.tagId;
+  }
+  if (options.pinned !== undefined) {
+    where.push(
+      options.pinned ? "c.pinned_at IS NOT NULL" : "c.pinned_at IS NULL",
+    );
+  }
+  if (options.cursor) {
+    where.push(
+      "(c.updated_at < :cursorUpdatedAt OR (c.updated_at = :cursorUpdatedAt AND c.id < :cursorId))",
+    );
+    params.cursorUpdatedAt = options.cursor.updatedAt;
+    params.cursorId = options.cursor.id;
+  }
+
+  const rows = database
+    .prepare(
+      `SELECT c.id, COALESCE(c.title, '') AS title,
+        COALESCE(c.title_source, 'derived') AS titleSource,
+        COALESCE(c.created_at, 0) AS createdAt,
+        COALESCE(c.updated_at, 0) AS updatedAt, c.folder_id AS folderId,
+        c.pinned_at IS NOT NULL AS pinned,
+        (SELECT group_concat(l.tag_id) FROM chat_tag_links l WHERE l.chat_id = c.id) AS tagIds,
+        (SELECT COUNT(*) FROM messages m WHERE m.chat_id = c.id) AS messageCount,
+        (SELECT COALESCE(SUM(m.cost), 0) FROM messages m WHERE m.chat_id = c.id) AS cost,
+        (SELECT m.content FROM messages m WHERE m.chat_id = c.id AND m.role = 'user'
+          ORDER BY m.created_at DESC, m.rowid DESC LIMIT 1) AS lastUserContent
+       FROM chats c
+       ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+       ORDER BY c.updated_at DESC, c.id DESC
+       LIMIT :limit`,
+    )
+    .all(params) as Array<
+    Omit<ChatSummary, "snippet" | "pinned" | "tagIds"> & {
+      pinned: number;
+      tagIds: string | null;
+      lastUserContent: string | null;
+    }
+  >;
+
+  const page = rows.slice(0, limit);
+  const chats = page.map(({ lastUserContent, ...row }) => ({
+    ...row,
+    pinned: !!row.pinned,
+    tagIds: row.tagIds ? row.tagIds.split(",") : [],
+    snippet: normalizeMessageText({
+      content: safeJsonParse(lastUserContent),
+    } as StoredMessage).slice(0, SUMMARY_SNIPPET_CHARS),
+  }));
+  const last = page[page.length - 1];
+  return {
+    chats,
+    nextCursor:
+      rows.length > limit && last
+        ? encodeChatCursor(last.updatedAt, last.id)
+        : null,
+  };
+}
+
+const MESSAGE_COLUMNS = `id, chat_id, parent_id, role, content, pending, error,
+  created_at as createdAt, updated_at as updatedAt, edited, cost, reasoning,
+  reasoning_details, tool_calls, citations, generation, provider, model,
+  latency_ms, tokens, compare_group, compare_winner, fallback_reason, stopped`;
+
+function messageFromRow(row: any, isTree = true): StoredMessage {
+  return {
+    id: row.id,
+    parentId: isTree ? (row.parent_id ?? null) : undefined,
+    role: row.role,
+    content: safeJsonParse(row.content),
+    pending: !!row.pending,
+    error: row.error || undefined,
+    createdAt: row.createdAt || undefined,
+    updatedAt: row.updatedAt || undefined,
+    edited: !!row.edited,
+    cost: typeof row.cost === "number" ? row.cost : undefined,
+    reasoning: row.reasoning || undefined,
+    reasoningDetails: row.reasoning_details
+      ? safeJsonParse(row.reasoning_details)
+      : undefined,
+    toolCalls: row.tool_calls ? safeJsonParse(row.tool_calls) : undefined,
+    citations: row.citations ? safeJsonParse(row.citations) : undefined,
+    generation: row.generation ? safeJsonParse(row.generation) : undefined,
+    provider: row.provider || undefined,
+    model: row.model || undefined,
+    latencyMs: typeof row.latency_ms === "number" ? row.latency_ms : undefined,
+    tokens: row.tokens ? safeJsonParse(row.tokens) : undefined,
+    compareGroup: row.compare_group || undefined,
+    compareWinner: row.compare_winner ? true : undefined,
+    fallbackReason: row.fallback_reason || undefined,
+    stopped: row.stopped ? true : undefined,
+  } as StoredMessage;
+}
+
+/** Column values for a messages row; inline images are moved to the store. */
+function messageParams(
+  database: SqliteInstance,
+  msg: StoredMessage,
+  chatId: string,
+  userId: string | undefined,
+  updatedAt: number,
+) {
+  return {
+    id: msg.id,
+    chat_id: chatId,
+    parent_id: msg.parentId ?? null,
+    role: msg.role,
+    content: JSON.stringify(
+      userId
+        ? externalizeImages(msg.content ?? "", userId, database)
+        : (msg.content ?? ""),
+    ),
+    pending: msg.pending ? 1 : 0,
+    error: msg.error || null,
+    created_at: msg.createdAt ?? Date.now(),
+    updated_at: updatedAt,
+    edited: msg.edited ? 1 : 0,
+    cost: msg.cost ?? null,
+    reasoning: msg.reasoning ?? null,
+    reasoning_details: msg.reasoningDetails
+      ? JSON.stringify(msg.reasoningDetails)
+      : null,
+    tool_calls: Array.isArray(msg.toolCalls)
+      ? JSON.stringify(msg.toolCalls)
+      : null,
+    citations: Array.isArray(msg.citations)
+      ? JSON.stringify(msg.citations)
+      : null,
+    generation: msg.generation ? JSON.stringify(msg.generation) : null,
+    provider: msg.provider || null,
+    model: msg.model || null,
+    latency_ms: msg.latencyMs ?? null,
+    tokens: msg.tokens ? JSON.stringify(msg.tokens) : null,
+    compare_group: msg.compareGroup || null,
+    compare_winner: msg.compareWinner ? 1 : 0,
+    fallback_reason: msg.fallbackReason || null,
+    stopped: msg.stopped ? 1 : 0,
+  };
+}
+
+const INSERT_MESSAGE_SQL = `INSERT INTO messages
+  (id, chat_id, parent_id, role, content, pending, error, created_at, updated_at, edited, cost, reasoning, reasoning_details, tool_calls, citations, generation,
+   provider, model, latency_ms, tokens, compare_group, compare_winner, fallback_reason, stopped)
+ VALUES (:id, :chat_id, :parent_id, :role, :content, :pending, :error, :created_at, :updated_at, :edited, :cost, :reasoning, :reasoning_details, :tool_calls, :citations, :generation,
+   :provider, :model, :latency_ms, :tokens, :compare_group, :compare_winner, :fallback_reason, :stopped)`;
+
 export function getChat(id: string, userId?: string): StoredChat | null {
   const database = getDb();
 
   let sql =
-    "SELECT id, title, created_at as createdAt, user_id FROM chats WHERE id = :id";
+    "SELECT id, title, title_source, created_at as createdAt, user_id, enabled_tools, active_leaf_id, preset_id, generation, collection_id FROM chats WHERE id = :id";
   if (userId) {
     sql += " AND user_id = :userId";
   }
@@ -395,33 +665,31 @@ export function getChat(id: string, userId?: string): StoredChat | null {
   const chatRow = database.prepare(sql).get(userId ? { id, userId } : { id }) as any;
   if (!chatRow) return null;
 
-  const messages = database
-    .prepare(
-      `SELECT id, role, content, pending, error, created_at as createdAt, edited, cost, reasoning, reasoning_details
-       FROM messages WHERE chat_id = :id ORDER BY created_at ASC`,
-    )
-    .all({ id })
-    .map((row: any) => ({
-      id: row.id,
-      role: row.role,
-      content: safeJsonParse(row.content),
-      pending: !!row.pending,
-      error: row.error || undefined,
-      createdAt: row.createdAt || undefined,
-      edited: !!row.edited,
-      cost: typeof row.cost === "number" ? row.cost : undefined,
-      reasoning: row.reasoning || undefined,
-      reasoningDetails: row.reasoning_details
-        ? safeJsonParse(row.reasoning_details)
-        : undefined,
-    })) as StoredMessage[];
+  const rows = database
+    .prepare(
+      `SELECT ${MESSAGE_COLUMNS}
+       FROM messages WHERE chat_id = :id ORDER BY created_at ASC, rowid ASC`,
+    )
+    .all({ id }) as any[];
+  // Chats saved before branching have no parent links at all; leave parentId
+  // unset so the client links them up in order.
+  const isTree = rows.some((row) => row.parent_id);
+  const messages = rows.map((row) => messageFromRow(row, isTree));
 
   return {
     id: chatRow.id,
     title: chatRow.title || undefined,
+    titleSource: chatRow.title_source || "derived",
     createdAt: chatRow.createdAt || undefined,
     messages,
     userId: chatRow.user_id,
+    enabledTools: chatRow.enabled_tools
+      ? safeJsonParse(chatRow.enabled_tools)
+      : null,
+    activeLeafId: chatRow.active_leaf_id || null,
+    presetId: chatRow.preset_id || null,
+    generation: chatRow.generation ? safeJsonParse(chatRow.generation) : null,
+    collectionId: chatRow.collection_id || null,
   };
 }
 
@@ -431,47 +699,66 @@ export function saveChat(chat: StoredChat, userId?: string) {
     chat.createdAt ??
     chat.messages?.find((m) => m.createdAt)?.createdAt ??
     Date.now();
-  const title =
-    chat.title ||
-    deriveTitleFromMessages(chat.messages) ||
-    `Chat ${chat.id.slice(-4)}`;
+  const stored = database
+    .prepare("SELECT title, title_source FROM chats WHERE id = :id")
+    .get({ id: chat.id }) as StoredTitle | undefined;
+  const { title, source: titleSource } = pickTitle(stored, {
+    title:
+      chat.title ||
+      deriveTitleFromMessages(chat.messages) ||
+      `Chat ${chat.id.slice(-4)}`,
+    source: chat.title ? (chat.titleSource ?? "derived") : "derived",
+  });
 
   const effectiveUserId = userId || chat.userId;
+  const updatedAt = (chat.messages || []).reduce(
+    (latest, m) => Math.max(latest, m.createdAt || 0),
+    createdAt,
+  );
 
   const insertChat = database.prepare(
-    `INSERT INTO chats (id, title, created_at, user_id) 
-     VALUES (:id, :title, :createdAt, :userId) 
-     ON CONFLICT(id) DO UPDATE SET title=excluded.title, created_at=excluded.created_at`,
+    `INSERT INTO chats (id, title, title_source, created_at, updated_at, user_id, enabled_tools, active_leaf_id, preset_id, generation, collection_id) 
+     VALUES (:id, :title, :titleSource, :createdAt, :updatedAt, :userId, :enabledTools, :activeLeafId, :presetId, :generation, :collectionId) 
+     ON CONFLICT(id) DO UPDATE SET title=excluded.title, title_source=excluded.title_source,
+       created_at=excluded.created_at,
+       updated_at=excluded.updated_at, enabled_tools=excluded.enabled_tools,
+       active_leaf_id=excluded.active_leaf_id, preset_id=excluded.preset_id,
+       generation=excluded.generation, collection_id=excluded.collection_id`,
   );
   const deleteMessages = database.prepare(
     "DELETE FROM messages WHERE chat_id = :id",
   );
-  const insertMessage = database.prepare(
-    `INSERT INTO messages
-      (id, chat_id, role, content, pending, error, created_at, edited, cost, reasoning, reasoning_details)
-     VALUES (:id, :chat_id, :role, :content, :pending, :error, :created_at, :edited, :cost, :reasoning, :reasoning_details)`,
-  );
+  const insertMessage = database.prepare(INSERT_MESSAGE_SQL);
 
   const tx = () => {
-    insertChat.run({ id: chat.id, title, createdAt, userId: effectiveUserId });
+    insertChat.run({
+      id: chat.id,
+      title,
+      titleSource: titleSource === "derived" ? null : titleSource,
+      createdAt,
+      updatedAt,
+      userId: effectiveUserId,
+      enabledTools: Array.isArray(chat.enabledTools)
+        ? JSON.stringify(chat.enabledTools)
+        : null,
+      activeLeafId: chat.activeLeafId || null,
+      presetId: chat.presetId || null,
+      generation: chat.generation ? JSON.stringify(chat.generation) : null,
+      collectionId: chat.collectionId || null,
+    });
     deleteMessages.run({ id: chat.id });
+    const savedAt = Date.now();
     for (const msg of chat.messages || []) {
-      insertMessage.run({
-        id: msg.id,
-        chat_id: chat.id,
-        role: msg.role,
-        content: JSON.stringify(msg.content ?? ""),
-        pending: msg.pending ? 1 : 0,
-        error: msg.error || null,
-        created_at: msg.createdAt ?? Date.now(),
-        edited: msg.edited ? 1 : 0,
-        cost: msg.cost ?? null,
-        reasoning: msg.reasoning ?? null,
-        reasoning_details: msg.reasoningDetails
-          ? JSON.stringify(msg.reasoningDetails)
-          : null,
-      });
+      insertMessage.run(
+        messageParams(database, msg, chat.id, effectiveUserId, savedAt),
+      );
     }
+    indexChat(database, { id: chat.id, title, messages: chat.messages || [] });
+    recordChatChange(database, {
+      userId: effectiveUserId,
+      chatId: chat.id,
+      kind: "chat_replaced",
+    });
   };
   runTransaction(database, tx);
 }
@@ -489,76 +776,1549 @@ export function deleteChat(id: string, userId?: string): boolean {
     }
   }
 
+  const owner = database
+    .prepare("SELECT user_id FROM chats WHERE id = :id LIMIT 1")
+    .get({ id }) as { user_id: string | null } | undefined;
   database.prepare("DELETE FROM chats WHERE id = :id").run({ id });
+  unindexChat(database, id);
+  database
+    .prepare("DELETE FROM chat_tag_links WHERE chat_id = :id")
+    .run({ id });
+  if (owner) {
+    recordChatChange(database, {
+      userId: owner.user_id ?? undefined,
+      chatId: id,
+      kind: "chat_deleted",
+    });
+  }
   return true;
 }
 
-// ============ CONFIG MANAGEMENT (USER-SCOPED) ============
+/**
+ * Stores a title written by the title model unless the user has renamed the
+ * chat. Returns the updated summary, or null when the title was not stored.
+ */
+export function setGeneratedChatTitle(
+  chatId: string,
+  title: string,
+  userId: string,
+): ChatSummary | null {
+  const database = getDb();
+  let updated = false;
+  const tx = () => {
+    const result = database
+      .prepare(
+        `UPDATE chats SET title = :title, title_source = 'generated'
+         WHERE id = :id AND user_id = :userId
+           AND COALESCE(title_source, 'derived') != 'user'`,
+      )
+      .run({ id: chatId, title, userId });
+    updated = (result as any).changes > 0;
+    if (!updated) return;
+    indexChatTitle(database, chatId, title);
+    recordChatChange(database, { userId, chatId, kind: "chat" });
+  };
+  runTransaction(database, tx);
+  if (!updated) return null;
+  return listChatSummaries(userId, { ids: [chatId] }).chats[0] ?? null;
+}
 
-export function saveConfig(config: StoredConfig, userId?: string) {
+/**
+ * The tools a saved chat of the user's may call, or null when it allows all of
+ * them or is not theirs.
+ */
+export function getChatEnabledTools(
+  chatId: string,
+  userId: string,
+): string[] | null {
+  const row = getDb()
+    .prepare(
+      "SELECT enabled_tools FROM chats WHERE id = :id AND user_id = :userId",
+    )
+    .get({ id: chatId, userId }) as
+    | { enabled_tools: string | null }
+    | undefined;
+  const tools = row?.enabled_tools ? safeJsonParse(row.enabled_tools) : null;
+  return Array.isArray(tools) ? tools : null;
+}
+
+// ============ MESSAGE SYNC ============
+// Clients send only the messages they changed, each with the version they
+// last saw, so two tabs editing one chat cannot silently overwrite each other.
+// Every write is appended to chat_changes, which other tabs poll for updates.
+
+const CHANGE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const CHANGE_PAGE_SIZE = 500;
+
+type ChatChangeKind = "message" | "chat" | "chat_replaced" | "chat_deleted";
+
+function recordChatChange(
+  database: SqliteInstance,
+  change: {
+    userId?: string;
+    chatId: string;
+    messageId?: string;
+    kind: ChatChangeKind;
+  },
+) {
+  database
+    .prepare(
+      `INSERT INTO chat_changes (user_id, chat_id, message_id, kind, created_at)
+       VALUES (:userId, :chatId, :messageId, :kind, :createdAt)`,
+    )
+    .run({
+      userId: change.userId ?? null,
+      chatId: change.chatId,
+      messageId: change.messageId ?? null,
+      kind: change.kind,
+      createdAt: Date.now(),
+    });
+}
+
+export type ChatPatch = {
+  title?: string;
+  createdAt?: number;
+  enabledTools?: string[] | null;
+  activeLeafId?: string | null;
+  presetId?: string | null;
+  generation?: GenerationParams | null;
+  collectionId?: string | null;
+  // `baseVersion` is the `updatedAt` the client last saw, null for a message
+  // it created
+  messages?: Array<StoredMessage & { baseVersion?: number | null }>;
+};
+
+export type ChatPatchResult = {
+  // New version of every message written
+  versions: Record<string, number>;
+  // Messages that changed on the server since the client's base version, as
+  // stored; these were not written
+  conflicts: StoredMessage[];
+};
+
+/**
+ * Upserts the given messages and chat settings. Returns null when the chat
+ * belongs to another user.
+ */
+export function applyChatPatch(
+  chatId: string,
+  patch: ChatPatch,
+  userId?: string,
+): ChatPatchResult | null {
   const database = getDb();
-  const insert = database.prepare(
-    `INSERT INTO config (user_id, key, value) VALUES (:userId, :key, :value) 
-     ON CONFLICT(user_id, key) DO UPDATE SET value=excluded.value`,
-  );
+  const result: ChatPatchResult = { versions: {}, conflicts: [] };
+
   const tx = () => {
-    Object.entries(config || {}).forEach(([key, value]) => {
-      insert.run({ userId: userId || null, key, value: JSON.stringify(value) });
+    const chat = database
+      .prepare(
+        `SELECT user_id, title, title_source, created_at, updated_at, enabled_tools, active_leaf_id, preset_id,
+           generation, collection_id
+         FROM chats WHERE id = :id`,
+      )
+      .get({ id: chatId }) as
+      | (StoredTitle & {
+          user_id: string | null;
+          created_at: number | null;
+          updated_at: number | null;
+          enabled_tools: string | null;
+          active_leaf_id: string | null;
+          preset_id: string | null;
+          generation: string | null;
+          collection_id: string | null;
+        })
+      | undefined;
+    if (chat && userId && chat.user_id !== userId) return false;
+    const ownerId = userId ?? chat?.user_id ?? undefined;
+    const messages = patch.messages || [];
+    const createdAt =
+      chat?.created_at ??
+      patch.createdAt ??
+      messages[0]?.createdAt ??
+      Date.now();
+    const { title } = pickTitle(chat, {
+      title:
+        patch.title ||
+        chat?.title ||
+        deriveTitleFromMessages(messages) ||
+        `Chat ${chatId.slice(-4)}`,
+      source: "derived",
     });
+    const updatedAt = messages.reduce(
+      (latest, m) => Math.max(latest, m.createdAt || 0),
+      chat?.updated_at ?? createdAt,
+    );
+
+    database
+      .prepare(
+        `INSERT INTO chats (id, title, created_at, updated_at, user_id, enabled_tools, active_leaf_id, preset_id, generation,
+           collection_id)
+         VALUES (:id, :title, :createdAt, :updatedAt, :userId, :enabledTools, :activeLeafId, :presetId, :generation,
+           :collectionId)
+         ON CONFLICT(id) DO UPDATE SET title=excluded.title, updated_at=excluded.updated_at,
+           enabled_tools=excluded.enabled_tools, active_leaf_id=excluded.active_leaf_id,
+           preset_id=excluded.preset_id, generation=excluded.generation,
+           collection_id=excluded.collection_id`,
+      )
+      .run({
+        id: chatId,
+        title,
+        createdAt,
+        updatedAt,
+        userId: ownerId ?? null,
+        // Settings left out of the patch keep their stored value
+        enabledTools:
+          patch.enabledTools === undefined
+            ? (chat?.enabled_tools ?? null)
+            : Array.isArray(patch.enabledTools)
+              ? JSON.stringify(patch.enabledTools)
+              : null,
+        activeLeafId:
+          patch.activeLeafId === undefined
+            ? (chat?.active_leaf_id ?? null)
+            : patch.activeLeafId || null,
+        presetId:
+          patch.presetId === undefined
+            ? (chat?.preset_id ?? null)
+            : patch.presetId || null,
+        generation:
+          patch.generation === undefined
+            ? (chat?.generation ?? null)
+            : patch.generation
+              ? JSON.stringify(patch.generation)
+              : null,
+        collectionId:
+          patch.collectionId === undefined
+            ? (chat?.collection_id ?? null)
+            : patch.collectionId || null,
+      });
+    if (!chat || chat.title !== title) indexChatTitle(database, chatId, title);
+    recordChatChange(database, { userId: ownerId, chatId, kind: "chat" });
+
+    const current = database.prepare(
+      `SELECT ${MESSAGE_COLUMNS} FROM messages WHERE id = :id`,
+    );
+    const upsertMessage = database.prepare(
+      `${INSERT_MESSAGE_SQL}
+       ON CONFLICT(id) DO UPDATE SET parent_id=excluded.parent_id, role=excluded.role,
+         content=excluded.content, pending=excluded.pending, error=excluded.error,
+         updated_at=excluded.updated_at, edited=excluded.edited, cost=excluded.cost,
+         reasoning=excluded.reasoning, reasoning_details=excluded.reasoning_details,
+         tool_calls=excluded.tool_calls, citations=excluded.citations,
+         generation=excluded.generation, provider=excluded.provider,
+         model=excluded.model, latency_ms=excluded.latency_ms,
+         tokens=excluded.tokens, compare_group=excluded.compare_group,
+         compare_winner=excluded.compare_winner,
+         fallback_reason=excluded.fallback_reason, stopped=excluded.stopped`,
+    );
+    for (const { baseVersion, ...msg } of messages) {
+      const existing = current.get({ id: msg.id }) as any;
+      // Message ids are global; never touch another chat's message
+      if (existing && existing.chat_id !== chatId) continue;
+      const existingVersion = existing ? existing.updatedAt || 0 : null;
+      if (existing && existingVersion !== (baseVersion ?? null)) {
+        result.conflicts.push(messageFromRow(existing));
+        continue;
+      }
+      // Versions only move forward, even if the clock does not
+      const version = Math.max(Date.now(), (existingVersion ?? 0) + 1);
+      upsertMessage.run(messageParams(database, msg, chatId, ownerId, version));
+      indexMessage(database, chatId, msg);
+      recordChatChange(database, {
+        userId: ownerId,
+        chatId,
+        messageId: msg.id,
+        kind: "message",
+      });
+      result.versions[msg.id] = version;
+    }
+    return true;
   };
-  runTransaction(database, tx);
+
+  let owned = true;
+  runTransaction(database, () => {
+    owned = tx();
+  });
+  return owned ? result : null;
 }
 
-export function loadConfig(userId?: string): StoredConfig {
+/**
+ * Saves what an answer got to before its generation was stopped, over the
+ * stored copy of the message if there is one. The client may be gone, so the
+ * server writes this itself. Only saved into an existing chat of the user's;
+ * returns null otherwise.
+ */
+export function saveStoppedAnswer(
+  chatId: string,
+  message: StoredMessage,
+  userId: string,
+): ChatPatchResult | null {
   const database = getDb();
+  const chat = database
+    .prepare("SELECT user_id FROM chats WHERE id = :id")
+    .get({ id: chatId }) as { user_id: string | null } | undefined;
+  if (!chat || chat.user_id !== userId) return null;
+  const row = database
+    .prepare(`SELECT ${MESSAGE_COLUMNS} FROM messages WHERE id = :id`)
+    .get({ id: message.id }) as any;
+  if (row && row.chat_id !== chatId) return null;
+  const stored = row ? messageFromRow(row) : null;
+  const known = Object.fromEntries(
+    Object.entries(message).filter(([, value]) => value !== undefined),
+  );
+  return applyChatPatch(
+    chatId,
+    {
+      messages: [
+        {
+          ...message,
+          ...stored,
+          ...known,
+          createdAt: stored?.createdAt ?? message.createdAt,
+          pending: false,
+          stopped: true,
+          baseVersion: stored?.updatedAt ?? null,
+        },
+      ],
+    },
+    userId,
+  );
+}
 
-  let sql = "SELECT key, value FROM config";
-  if (userId) {
-    sql += " WHERE user_id = :userId";
-  } else {
-    sql += " WHERE user_id IS NULL";
+export type ChatChangeFeed = {
+  // Pass back as `since` to get the changes after this response
+  cursor: number;
+  // The log no longer reaches back to `since`; reload everything
+  reset: boolean;
+  // Changed chats that still exist
+  chats: ChatSummary[];
+  info: Record<
+    string,
+    {
+      enabledTools: string[] | null;
+      activeLeafId: string | null;
+      presetId: string | null;
+      generation: GenerationParams | null;
+      collectionId: string | null;
+    }
+  >;
+  messages: Array<{ chatId: string; message: StoredMessage }>;
+  // Chats rewritten as a whole, to be reloaded if open
+  replacedChatIds: string[];
+  deletedChatIds: string[];
+};
+
+/**
+ * Changes to `userId`'s chats after `since`. Without `since`, only returns the
+ * current cursor, which is where a client starts following.
+ */
+export function listChatChanges(
+  userId: string,
+  since?: number,
+): ChatChangeFeed {
+  const database = getDb();
+  const latest = database
+    .prepare("SELECT seq FROM sqlite_sequence WHERE name = 'chat_changes'")
+    .get() as { seq: number } | undefined;
+  const feed: ChatChangeFeed = {
+    cursor: latest?.seq ?? 0,
+    reset: false,
+    chats: [],
+    info: {},
+    messages: [],
+    replacedChatIds: [],
+    deletedChatIds: [],
+  };
+  if (since === undefined) {
+    database
+      .prepare("DELETE FROM chat_changes WHERE created_at < :cutoff")
+      .run({ cutoff: Date.now() - CHANGE_RETENTION_MS });
+    return feed;
+  }
+  if (since >= feed.cursor) return feed;
+
+  const oldest = database
+    .prepare("SELECT MIN(seq) AS seq FROM chat_changes")
+    .get() as { seq: number | null };
+  if (oldest.seq === null || since < oldest.seq - 1) {
+    feed.reset = true;
+    return feed;
   }
 
-  const rows = database.prepare(sql).all(userId ? { userId } : {}) as any[];
-  const out: StoredConfig = {};
-  rows.forEach((row) => {
-    out[row.key] = safeJsonParse(row.value);
-  });
-  return out;
+  const rows = database
+    .prepare(
+      `SELECT seq, chat_id AS chatId, message_id AS messageId, kind
+       FROM chat_changes
+       WHERE user_id = :userId AND seq > :since
+       ORDER BY seq LIMIT :limit`,
+    )
+    .all({ userId, since, limit: CHANGE_PAGE_SIZE }) as Array<{
+    seq: number;
+    chatId: string;
+    messageId: string | null;
+    kind: ChatChangeKind;
+  }>;
+  // Stop at the last row read so a client behind by more than a page catches
+  // up over several polls
+  if (rows.length === CHANGE_PAGE_SIZE) feed.cursor = rows[rows.length - 1].seq;
+
+  const chatIds = new Set<string>();
+  const messageIds = new Set<string>();
+  const deleted = new Set<string>();
+  const replaced = new Set<string>();
+  for (const row of rows) {
+    if (row.kind === "chat_deleted") {
+      deleted.add(row.chatId);
+      chatIds.delete(row.chatId);
+      continue;
+    }
+    deleted.delete(row.chatId);
+    chatIds.add(row.chatId);
+    if (row.kind === "chat_replaced") replaced.add(row.chatId);
+    if (row.messageId) messageIds.add(row.messageId);
+  }
+  feed.deletedChatIds = [...deleted];
+  feed.replacedChatIds = [...replaced].filter((id) => chatIds.has(id));
+  if (!chatIds.size) return feed;
+
+  feed.chats = listChatSummaries(userId, {
+    ids: [...chatIds],
+    limit: MAX_CHAT_PAGE_SIZE,
+  }).chats;
+  const chatRow = database.prepare(
+    "SELECT enabled_tools, active_leaf_id, preset_id, generation, collection_id FROM chats WHERE id = :id AND user_id = :userId",
+  );
+  for (const chat of feed.chats) {
+    const row = chatRow.get({ id: chat.id, userId }) as any;
+    if (!row) continue;
+    feed.info[chat.id] = {
+      enabledTools: row.enabled_tools ? safeJsonParse(row.enabled_tools) : null,
+      activeLeafId: row.active_leaf_id || null,
+      presetId: row.preset_id || null,
+      generation: row.generation ? safeJsonParse(row.generation) : null,
+      collectionId: row.collection_id || null,
+    };
+  }
+  const messageRow = database.prepare(
+    `SELECT ${MESSAGE_COLUMNS} FROM messages WHERE id = :id`,
+  );
+  for (const id of messageIds) {
+    const row = messageRow.get({ id }) as any;
+    if (!row || !feed.info[row.chat_id]) continue;
+    feed.messages.push({ chatId: row.chat_id, message: messageFromRow(row) });
+  }
+  return feed;
 }
 
-// ============ BACKUP/RESTORE ============
+// ============ CHAT ORGANIZATION ============
+// Folders and tags belong to a user; a chat sits in at most one folder and
+// may carry any number of tags. Changes are logged as "chat" changes so other
+// devices pick them up through the change feed.
 
-export function backupAll(): {
-  chats: StoredChat[];
-  config: StoredConfig;
-} {
-  const chats = listChats()
-    .map((c) => getChat(c.id))
-    .filter(Boolean) as StoredChat[];
-  const config = loadConfig();
-  return { chats, config };
+function mapFolderRow(row: any): ChatFolder {
+  return { id: row.id, name: row.name, position: row.position ?? 0 };
 }
 
-export function restoreAll(data: {
-  chats?: StoredChat[];
-  config?: StoredConfig;
-}) {
+export function listChatFolders(userId: string): ChatFolder[] {
   const database = getDb();
-  const clearAll = () => {
-    database.exec(
-      "DELETE FROM messages; DELETE FROM chats; DELETE FROM config;",
-    );
-    if (data.config) saveConfig(data.config);
-    for (const c of data.chats || []) {
-      saveChat(c);
-    }
-  };
-  runTransaction(database, clearAll);
+  const rows = database
+    .prepare(
+      `SELECT id, name, position FROM chat_folders WHERE user_id = :userId
+       ORDER BY position ASC, created_at ASC`,
+    )
+    .all({ userId }) as any[];
+  return rows.map(mapFolderRow);
+}
+
+/** Creates the folder when `id` is unset; null if it belongs to someone else. */
+export function saveChatFolder(
+  folder: { id?: string; name: string; position?: number },
+  userId: string,
+): ChatFolder | null {
+  const database = getDb();
+  if (folder.id) {
+    const result = database
+      .prepare(
+        `UPDATE chat_folders SET name = :name, position = COALESCE(:position, position)
+         WHERE id = :id AND user_id = :userId`,
+      )
+      .run({
+        id: folder.id,
+        userId,
+        name: folder.name,
+        position: folder.position ?? null,
+      });
+    if ((result as any).changes === 0) return null;
+    return mapFolderRow(
+      database
+        .prepare("SELECT * FROM chat_folders WHERE id = :id")
+        .get({ id: folder.id }),
+    );
+  }
+
+  const last = database
+    .prepare(
+      "SELECT MAX(position) AS position FROM chat_folders WHERE user_id = :userId",
+    )
+    .get({ userId }) as { position: number | null };
+  const created: ChatFolder = {
+    id: generateUserId(),
+    name: folder.name,
+    position: folder.position ?? (last.position ?? -1) + 1,
+  };
+  database
+    .prepare(
+      `INSERT INTO chat_folders (id, user_id, name, position, created_at)
+       VALUES (:id, :userId, :name, :position, :createdAt)`,
+    )
+    .run({ ...created, userId, createdAt: Date.now() });
+  return created;
+}
+
+/** Deletes the folder and moves its chats out of it. */
+export function deleteChatFolder(id: string, userId: string): boolean {
+  const database = getDb();
+  let deleted = false;
+  const tx = () => {
+    const result = database
+      .prepare("DELETE FROM chat_folders WHERE id = :id AND user_id = :userId")
+      .run({ id, userId });
+    deleted = (result as any).changes > 0;
+    if (!deleted) return;
+    const chats = database
+      .prepare(
+        "SELECT id FROM chats WHERE folder_id = :id AND user_id = :userId",
+      )
+      .all({ id, userId }) as Array<{ id: string }>;
+    database
+      .prepare(
+        "UPDATE chats SET folder_id = NULL WHERE folder_id = :id AND user_id = :userId",
+      )
+      .run({ id, userId });
+    for (const chat of chats) {
+      recordChatChange(database, { userId, chatId: chat.id, kind: "chat" });
+    }
+  };
+  runTransaction(database, tx);
+  return deleted;
+}
+
+export function listChatTags(userId: string): ChatTag[] {
+  const database = getDb();
+  return database
+    .prepare(
+      `SELECT id, name, color FROM chat_tags WHERE user_id = :userId
+       ORDER BY name COLLATE NOCASE ASC`,
+    )
+    .all({ userId }) as ChatTag[];
+}
+
+/**
+ * Creates the tag when `id` is unset, reusing a tag of the same name; null if
+ * the tag belongs to someone else. Callers check renames against other names.
+ */
+export function saveChatTag(
+  tag: { id?: string; name: string; color: string },
+  userId: string,
+): ChatTag | null {
+  const database = getDb();
+  if (tag.id) {
+    const result = database
+      .prepare(
+        `UPDATE chat_tags SET name = :name, color = :color
+         WHERE id = :id AND user_id = :userId`,
+      )
+      .run({ id: tag.id, userId, name: tag.name, color: tag.color });
+    if ((result as any).changes === 0) return null;
+    return { id: tag.id, name: tag.name, color: tag.color };
+  }
+
+  database
+    .prepare(
+      `INSERT INTO chat_tags (id, user_id, name, color, created_at)
+       VALUES (:id, :userId, :name, :color, :createdAt)
+       ON CONFLICT(user_id, name) DO UPDATE SET color = excluded.color`,
+    )
+    .run({
+      id: generateUserId(),
+      userId,
+      name: tag.name,
+      color: tag.color,
+      createdAt: Date.now(),
+    });
+  return database
+    .prepare(
+      "SELECT id, name, color FROM chat_tags WHERE user_id = :userId AND name = :name",
+    )
+    .get({ userId, name: tag.name }) as ChatTag;
+}
+
+/** Deletes the tag and removes it from every chat. */
+export function deleteChatTag(id: string, userId: string): boolean {
+  const database = getDb();
+  let deleted = false;
+  const tx = () => {
+    const result = database
+      .prepare("DELETE FROM chat_tags WHERE id = :id AND user_id = :userId")
+      .run({ id, userId });
+    deleted = (result as any).changes > 0;
+    if (!deleted) return;
+    const links = database
+      .prepare("SELECT chat_id FROM chat_tag_links WHERE tag_id = :id")
+      .all({ id }) as Array<{ chat_id: string }>;
+    database
+      .prepare("DELETE FROM chat_tag_links WHERE tag_id = :id")
+      .run({ id });
+    for (const link of links) {
+      recordChatChange(database, {
+        userId,
+        chatId: link.chat_id,
+        kind: "chat",
+      });
+    }
+  };
+  runTransaction(database, tx);
+  return deleted;
+}
+
+export type ChatOrganization = {
+  // Set by the user, so never replaced by a generated or derived title
+  title?: string;
+  // null moves the chat out of its folder
+  folderId?: string | null;
+  pinned?: boolean;
+  // Replaces the chat's tags
+  tagIds?: string[];
+};
+
+/**
+ * Renames, files, pins or tags one of `userId`'s chats; fields left undefined
+ * are kept.
+ * Folders and tags of other users are ignored. Returns the updated summary,
+ * or null when the chat does not exist or belongs to someone else.
+ */
+export function updateChatOrganization(
+  chatId: string,
+  userId: string,
+  changes: ChatOrganization,
+): ChatSummary | null {
+  const database = getDb();
+  const owner = database
+    .prepare("SELECT user_id FROM chats WHERE id = :id LIMIT 1")
+    .get({ id: chatId }) as { user_id: string | null } | undefined;
+  if (!owner || owner.user_id !== userId) return null;
+
+  const tx = () => {
+    if (changes.title !== undefined) {
+      database
+        .prepare(
+          "UPDATE chats SET title = :title, title_source = 'user' WHERE id = :id",
+        )
+        .run({ id: chatId, title: changes.title });
+      indexChatTitle(database, chatId, changes.title);
+    }
+    if (changes.folderId !== undefined) {
+      const folder = changes.folderId
+        ? database
+            .prepare(
+              "SELECT id FROM chat_folders WHERE id = :id AND user_id = :userId",
+            )
+            .get({ id: changes.folderId, userId })
+        : null;
+      database
+        .prepare("UPDATE chats SET folder_id = :folderId WHERE id = :id")
+        .run({ id: chatId, folderId: folder ? changes.folderId : null });
+    }
+    if (changes.pinned !== undefined) {
+      database
+        .prepare(
+          `UPDATE chats SET pinned_at = CASE WHEN :pinned THEN COALESCE(pinned_at, :now) END
+           WHERE id = :id`,
+        )
+        .run({ id: chatId, pinned: changes.pinned ? 1 : 0, now: Date.now() });
+    }
+    if (changes.tagIds !== undefined) {
+      database
+        .prepare("DELETE FROM chat_tag_links WHERE chat_id = :id")
+        .run({ id: chatId });
+      const link = database.prepare(
+        `INSERT OR IGNORE INTO chat_tag_links (chat_id, tag_id)
+         SELECT :chatId, id FROM chat_tags WHERE id = :tagId AND user_id = :userId`,
+      );
+      for (const tagId of changes.tagIds) {
+        link.run({ chatId, tagId, userId });
+      }
+    }
+    recordChatChange(database, { userId, chatId, kind: "chat" });
+  };
+  runTransaction(database, tx);
+  return listChatSummaries(userId, { ids: [chatId] }).chats[0] ?? null;
+}
+
+// ============ PROMPT PRESETS ============
+// Named system prompts with the model settings they run with. A chat stores
+// the id of the preset it uses; ids of deleted or unshared presets are
+// ignored by the client and the chat falls back to the user's settings.
+
+const PRESET_COLUMNS = `p.id, p.user_id, p.name, p.system_prompt, p.provider, p.model,
+  p.deep_search, p.temperature, p.shared, COALESCE(u.username, '') AS owner_name`;
+
+function mapPresetRow(
+  row: any,
+  viewer: { id: string; isAdmin?: boolean },
+): PromptPreset {
+  return {
+    id: row.id,
+    name: row.name,
+    systemPrompt: row.system_prompt || "",
+    provider: (row.provider as Provider | null) || null,
+    model: row.model || null,
+    deepSearch: !!row.deep_search,
+    temperature: typeof row.temperature === "number" ? row.temperature : null,
+    shared: !!row.shared,
+    ownerName: row.owner_name,
+    editable: row.user_id === viewer.id || !!viewer.isAdmin,
+  };
+}
+
+/** The viewer's own presets and those shared by anyone else, by name. */
+export function listPromptPresets(viewer: {
+  id: string;
+  isAdmin?: boolean;
+}): PromptPreset[] {
+  const database = getDb();
+  const rows = database
+    .prepare(
+      `SELECT ${PRESET_COLUMNS}
+       FROM prompt_presets p LEFT JOIN users u ON u.id = p.user_id
+       WHERE p.user_id = :userId OR p.shared = 1
+       ORDER BY p.name COLLATE NOCASE ASC, p.created_at ASC`,
+    )
+    .all({ userId: viewer.id }) as any[];
+  return rows.map((row) => mapPresetRow(row, viewer));
+}
+
+function presetById(
+  id: string,
+  viewer: { id: string; isAdmin?: boolean },
+): PromptPreset | null {
+  const row = getDb()
+    .prepare(
+      `SELECT ${PRESET_COLUMNS}
+       FROM prompt_presets p LEFT JOIN users u ON u.id = p.user_id
+       WHERE p.id = :id`,
+    )
+    .get({ id });
+  return row ? mapPresetRow(row, viewer) : null;
+}
+
+/**
+ * Creates the preset when `id` is unset. Only the owner or an admin may
+ * change an existing one; returns null otherwise.
+ */
+export function savePromptPreset(
+  preset: PromptPresetInput & { id?: string },
+  viewer: { id: string; isAdmin?: boolean },
+): PromptPreset | null {
+  const database = getDb();
+  const params = {
+    name: preset.name,
+    systemPrompt: preset.systemPrompt,
+    provider: preset.provider,
+    model: preset.model,
+    deepSearch: preset.deepSearch ? 1 : 0,
+    temperature: preset.temperature,
+    shared: preset.shared ? 1 : 0,
+    now: Date.now(),
+  };
+  if (preset.id) {
+    const result = database
+      .prepare(
+        `UPDATE prompt_presets SET name = :name, system_prompt = :systemPrompt,
+           provider = :provider, model = :model, deep_search = :deepSearch,
+           temperature = :temperature, shared = :shared, updated_at = :now
+         WHERE id = :id AND (user_id = :userId OR :isAdmin)`,
+      )
+      .run({
+        ...params,
+        id: preset.id,
+        userId: viewer.id,
+        isAdmin: viewer.isAdmin ? 1 : 0,
+      });
+    if ((result as any).changes === 0) return null;
+    return presetById(preset.id, viewer);
+  }
+
+  const id = generateUserId();
+  database
+    .prepare(
+      `INSERT INTO prompt_presets (id, user_id, name, system_prompt, provider, model,
+         deep_search, temperature, shared, created_at, updated_at)
+       VALUES (:id, :userId, :name, :systemPrompt, :provider, :model,
+         :deepSearch, :temperature, :shared, :now, :now)`,
+    )
+    .run({ ...params, id, userId: viewer.id });
+  return presetById(id, viewer);
+}
+
+export function deletePromptPreset(
+  id: string,
+  viewer: { id: string; isAdmin?: boolean },
+): boolean {
+  const result = getDb()
+    .prepare(
+      "DELETE FROM prompt_presets WHERE id = :id AND (user_id = :userId OR :isAdmin)",
+    )
+    .run({ id, userId: viewer.id, isAdmin: viewer.isAdmin ? 1 : 0 });
+  return (result as any).changes > 0;
+}
+
+// ============ PROMPT TEMPLATES ============
+// Snippets a user inserts from the composer with /name; names are unique per
+// user.
+
+export function listPromptTemplates(userId: string): PromptTemplate[] {
+  const database = getDb();
+  return database
+    .prepare(
+      `SELECT id, name, description, body FROM prompt_templates
+       WHERE user_id = :userId ORDER BY name COLLATE NOCASE ASC`,
+    )
+    .all({ userId }) as PromptTemplate[];
+}
+
+/**
+ * Creates the template when `id` is unset; null if it belongs to someone
+ * else. Callers check the name against the user's other templates.
+ */
+export function savePromptTemplate(
+  template: PromptTemplateInput & { id?: string },
+  userId: string,
+): PromptTemplate | null {
+  const database = getDb();
+  const params = {
+    name: template.name,
+    description: template.description,
+    body: template.body,
+    userId,
+    now: Date.now(),
+  };
+  if (template.id) {
+    const result = database
+      .prepare(
+        `UPDATE prompt_templates SET name = :name, description = :description,
+           body = :body, updated_at = :now
+         WHERE id = :id AND user_id = :userId`,
+      )
+      .run({ ...params, id: template.id });
+    if ((result as any).changes === 0) return null;
+    return {
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      body: template.body,
+    };
+  }
+
+  const id = generateUserId();
+  database
+    .prepare(
+      `INSERT INTO prompt_templates (id, user_id, name, description, body, created_at, updated_at)
+       VALUES (:id, :userId, :name, :description, :body, :now, :now)`,
+    )
+    .run({ ...params, id });
+  return {
+    id,
+    name: template.name,
+    description: template.description,
+    body: template.body,
+  };
+}
+
+/** Adds the templates, replacing the user's templates of the same name. */
+export function importPromptTemplates(
+  templates: PromptTemplateInput[],
+  userId: string,
+): number {
+  const database = getDb();
+  const upsert = database.prepare(
+    `INSERT INTO prompt_templates (id, user_id, name, description, body, created_at, updated_at)
+     VALUES (:id, :userId, :name, :description, :body, :now, :now)
+     ON CONFLICT(user_id, name) DO UPDATE SET description = excluded.description,
+       body = excluded.body, updated_at = excluded.updated_at`,
+  );
+  const tx = () => {
+    const now = Date.now();
+    for (const template of templates) {
+      upsert.run({ ...template, id: generateUserId(), userId, now });
+    }
+  };
+  runTransaction(database, tx);
+  return templates.length;
+}
+
+export function deletePromptTemplate(id: string, userId: string): boolean {
+  const result = getDb()
+    .prepare(
+      "DELETE FROM prompt_templates WHERE id = :id AND user_id = :userId",
+    )
+    .run({ id, userId });
+  return (result as any).changes > 0;
+}
+
+// ============ KNOWLEDGE COLLECTIONS ============
+// Documents a user uploads once and searches from any chat. Each passage is
+// stored with its embedding; a chat keeps the id of the collection it
+// searches, and ids of deleted collections are ignored.
+
+const COLLECTION_COLUMNS = `c.id, c.name, c.description, c.provider, c.embedding_model,
+  c.dimensions, c.created_at, c.updated_at,
+  (SELECT COUNT(*) FROM knowledge_documents d WHERE d.collection_id = c.id) AS document_count,
+  (SELECT COUNT(*) FROM knowledge_chunks k WHERE k.collection_id = c.id) AS chunk_count`;
+
+function mapCollectionRow(row: any): KnowledgeCollection {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || "",
+    provider: row.provider as Provider,
+    embeddingModel: row.embedding_model,
+    dimensions: row.dimensions ?? null,
+    documentCount: row.document_count || 0,
+    chunkCount: row.chunk_count || 0,
+    createdAt: row.created_at || 0,
+    updatedAt: row.updated_at || 0,
+  };
+}
+
+function mapKnowledgeDocumentRow(row: any): KnowledgeDocument {
+  return {
+    id: row.id,
+    name: row.name,
+    format: row.format,
+    pages: row.pages ?? null,
+    chars: row.chars || 0,
+    chunkCount: row.chunk_count || 0,
+    createdAt: row.created_at || 0,
+  };
+}
+
+// better-sqlite3 returns BLOBs as Buffers and bun:sqlite as Uint8Arrays;
+// both may be views into a larger buffer
+function toVector(blob: Uint8Array): Float32Array {
+  return new Float32Array(
+    blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength),
+  );
+}
+
+export function listKnowledgeCollections(
+  userId: string,
+): KnowledgeCollection[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT ${COLLECTION_COLUMNS} FROM knowledge_collections c
+       WHERE c.user_id = :userId ORDER BY c.name COLLATE NOCASE ASC`,
+    )
+    .all({ userId }) as any[];
+  return rows.map(mapCollectionRow);
+}
+
+export function getKnowledgeCollection(
+  id: string,
+  userId: string,
+): KnowledgeCollection | null {
+  const row = getDb()
+    .prepare(
+      `SELECT ${COLLECTION_COLUMNS} FROM knowledge_collections c
+       WHERE c.id = :id AND c.user_id = :userId`,
+    )
+    .get({ id, userId });
+  return row ? mapCollectionRow(row) : null;
+}
+
+/**
+ * Creates the collection when `id` is unset; null if it belongs to someone
+ * else. Callers check the name against the user's other collections and keep
+ * the embedding model of a collection that has documents.
+ */
+export function saveKnowledgeCollection(
+  collection: KnowledgeCollectionInput & { id?: string },
+  userId: string,
+): KnowledgeCollection | null {
+  const database = getDb();
+  const params = {
+    name: collection.name,
+    description: collection.description,
+    provider: collection.provider,
+    embeddingModel: collection.embeddingModel,
+    userId,
+    now: Date.now(),
+  };
+  if (collection.id) {
+    // A new embedding model makes the stored vector length meaningless
+    const result = database
+      .prepare(
+        `UPDATE knowledge_collections SET name = :name, description = :description,
+           dimensions = CASE WHEN provider = :provider AND embedding_model = :embeddingModel
+             THEN dimensions ELSE NULL END,
+           provider = :provider, embedding_model = :embeddingModel, updated_at = :now
+         WHERE id = :id AND user_id = :userId`,
+      )
+      .run({ ...params, id: collection.id });
+    if ((result as any).changes === 0) return null;
+    return getKnowledgeCollection(collection.id, userId);
+  }
+
+  const id = generateUserId();
+  database
+    .prepare(
+      `INSERT INTO knowledge_collections (id, user_id, name, description, provider,
+         embedding_model, created_at, updated_at)
+       VALUES (:id, :userId, :name, :description, :provider, :embeddingModel, :now, :now)`,
+    )
+    .run({ ...params, id });
+  return getKnowledgeCollection(id, userId);
+}
+
+export function deleteKnowledgeCollection(id: string, userId: string): boolean {
+  const database = getDb();
+  let deleted = false;
+  const tx = () => {
+    const result = database
+      .prepare(
+        "DELETE FROM knowledge_collections WHERE id = :id AND user_id = :userId",
+      )
+      .run({ id, userId });
+    deleted = (result as any).changes > 0;
+    if (!deleted) return;
+    database
+      .prepare("DELETE FROM knowledge_chunks WHERE collection_id = :id")
+      .run({ id });
+    database
+      .prepare("DELETE FROM knowledge_documents WHERE collection_id = :id")
+      .run({ id });
+  };
+  runTransaction(database, tx);
+  return deleted;
+}
+
+/** The collection's documents, newest first; null if it is not the user's. */
+export function listKnowledgeDocuments(
+  collectionId: string,
+  userId: string,
+): KnowledgeDocument[] | null {
+  if (!getKnowledgeCollection(collectionId, userId)) return null;
+  const rows = getDb()
+    .prepare(
+      `SELECT d.id, d.name, d.format, d.pages, d.chars, d.created_at,
+         (SELECT COUNT(*) FROM knowledge_chunks k WHERE k.document_id = d.id) AS chunk_count
+       FROM knowledge_documents d WHERE d.collection_id = :collectionId
+       ORDER BY d.created_at DESC`,
+    )
+    .all({ collectionId }) as any[];
+  return rows.map(mapKnowledgeDocumentRow);
+}
+
+/** A document with its passages in order; null if it is not the user's. */
+export function getKnowledgeDocument(
+  collectionId: string,
+  documentId: string,
+  userId: string,
+): (KnowledgeDocument & { chunks: DocumentChunk[] }) | null {
+  const database = getDb();
+  const row = database
+    .prepare(
+      `SELECT d.id, d.name, d.format, d.pages, d.chars, d.created_at
+       FROM knowledge_documents d
+       JOIN knowledge_collections c ON c.id = d.collection_id
+       WHERE d.id = :documentId AND d.collection_id = :collectionId AND c.user_id = :userId`,
+    )
+    .get({ documentId, collectionId, userId });
+  if (!row) return null;
+  const chunks = database
+    .prepare(
+      `SELECT label, text FROM knowledge_chunks WHERE document_id = :documentId
+       ORDER BY position ASC`,
+    )
+    .all({ documentId }) as Array<{ label: string | null; text: string }>;
+  return {
+    ...mapKnowledgeDocumentRow({ ...row, chunk_count: chunks.length }),
+    chunks: chunks.map((chunk) => ({
+      label: chunk.label ?? null,
+      text: chunk.text,
+    })),
+  };
+}
+
+/**
+ * Stores an embedded document. The first document fixes the collection's
+ * vector length. Returns null when the collection is not the user's.
+ */
+export function addKnowledgeDocument(
+  collectionId: string,
+  document: Pick<KnowledgeDocument, "name" | "format" | "pages" | "chars">,
+  chunks: Array<DocumentChunk & { embedding: Float32Array }>,
+  userId: string,
+): KnowledgeDocument | null {
+  const database = getDb();
+  if (!getKnowledgeCollection(collectionId, userId)) return null;
+  const id = generateUserId();
+  const now = Date.now();
+  const insertChunk = database.prepare(
+    `INSERT INTO knowledge_chunks (collection_id, document_id, position, label, text, embedding)
+     VALUES (:collectionId, :documentId, :position, :label, :text, :embedding)`,
+  );
+  const tx = () => {
+    database
+      .prepare(
+        `INSERT INTO knowledge_documents (id, collection_id, name, format, pages, chars, created_at)
+         VALUES (:id, :collectionId, :name, :format, :pages, :chars, :now)`,
+      )
+      .run({ ...document, id, collectionId, now });
+    for (const [position, chunk] of chunks.entries()) {
+      insertChunk.run({
+        collectionId,
+        documentId: id,
+        position,
+        label: chunk.label,
+        text: chunk.text,
+        embedding: new Uint8Array(
+          chunk.embedding.buffer,
+          chunk.embedding.byteOffset,
+          chunk.embedding.byteLength,
+        ),
+      });
+    }
+    database
+      .prepare(
+        `UPDATE knowledge_collections SET updated_at = :now,
+           dimensions = COALESCE(dimensions, :dimensions)
+         WHERE id = :collectionId`,
+      )
+      .run({
+        collectionId,
+        now,
+        dimensions: chunks[0]?.embedding.length ?? null,
+      });
+  };
+  runTransaction(database, tx);
+  return {
+    id,
+    name: document.name,
+    format: document.format,
+    pages: document.pages,
+    chars: document.chars,
+    chunkCount: chunks.length,
+    createdAt: now,
+  };
+}
+
+export function deleteKnowledgeDocument(
+  collectionId: string,
+  documentId: string,
+  userId: string,
+): boolean {
+  const database = getDb();
+  if (!getKnowledgeCollection(collectionId, userId)) return false;
+  let deleted = false;
+  const tx = () => {
+    const result = database
+      .prepare(
+        "DELETE FROM knowledge_documents WHERE id = :documentId AND collection_id = :collectionId",
+      )
+      .run({ documentId, collectionId });
+    deleted = (result as any).changes > 0;
+    if (!deleted) return;
+    database
+      .prepare("DELETE FROM knowledge_chunks WHERE document_id = :documentId")
+      .run({ documentId });
+    database
+      .prepare(
+        "UPDATE knowledge_collections SET updated_at = :now WHERE id = :collectionId",
+      )
+      .run({ collectionId, now: Date.now() });
+  };
+  runTransaction(database, tx);
+  return deleted;
+}
+
+export type KnowledgePassage = DocumentChunk & {
+  documentId: string;
+  documentName: string;
+  embedding: Float32Array;
+};
+
+/** Every passage of the collection with its embedding, for scoring. */
+export function listKnowledgePassages(
+  collectionId: string,
+  userId: string,
+): KnowledgePassage[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT k.document_id, d.name AS document_name, k.label, k.text, k.embedding
+       FROM knowledge_chunks k
+       JOIN knowledge_documents d ON d.id = k.document_id
+       JOIN knowledge_collections c ON c.id = k.collection_id
+       WHERE k.collection_id = :collectionId AND c.user_id = :userId`,
+    )
+    .all({ collectionId, userId }) as any[];
+  return rows.map((row) => ({
+    documentId: row.document_id,
+    documentName: row.document_name,
+    label: row.label ?? null,
+    text: row.text,
+    embedding: toVector(row.embedding),
+  }));
+}
+
+// ============ CONFIG MANAGEMENT (USER-SCOPED) ============
+
+export function saveConfig(config: StoredConfig, userId?: string) {
+  const database = getDb();
+  const insert = database.prepare(
+    `INSERT INTO config (user_id, key, value) VALUES (:userId, :key, :value) 
+     ON CONFLICT(user_id, key) DO UPDATE SET value=excluded.value`,
+  );
+  const tx = () => {
+    Object.entries(config || {}).forEach(([key, value]) => {
+      insert.run({ userId: userId || null, key, value: JSON.stringify(value) });
+    });
+  };
+  runTransaction(database, tx);
+}
+
+export function loadConfig(userId?: string): StoredConfig {
+  const database = getDb();
+
+  let sql = "SELECT key, value FROM config";
+  if (userId) {
+    sql += " WHERE user_id = :userId";
+  } else {
+    sql += " WHERE user_id IS NULL";
+  }
+
+  const rows = database.prepare(sql).all(userId ? { userId } : {}) as any[];
+  const out: StoredConfig = {};
+  rows.forEach((row) => {
+    out[row.key] = safeJsonParse(row.value);
+  });
+  return out;
+}
+
+// ============ MCP SERVER REGISTRY ============
+
+export type McpTransport = "stdio" | "http" | "sse";
+
+export type StoredMcpServer = {
+  id: string;
+  name: string;
+  transport: McpTransport;
+  command?: string;
+  args?: string[];
+  url?: string;
+  env?: Record<string, string>;
+  headers?: Record<string, string>;
+  enabled: boolean;
+  createdAt: number;
+};
+
+function mapMcpServerRow(row: any): StoredMcpServer {
+  return {
+    id: row.id,
+    name: row.name,
+    transport: row.transport,
+    command: row.command || undefined,
+    args: row.args ? safeJsonParse(row.args) : undefined,
+    url: row.url || undefined,
+    env: row.env ? safeJsonParse(row.env) : undefined,
+    headers: row.headers ? safeJsonParse(row.headers) : undefined,
+    enabled: !!row.enabled,
+    createdAt: row.created_at,
+  };
+}
+
+export function listMcpServers(): StoredMcpServer[] {
+  const database = getDb();
+  const rows = database
+    .prepare("SELECT * FROM mcp_servers ORDER BY created_at ASC")
+    .all() as any[];
+  return rows.map(mapMcpServerRow);
+}
+
+export function getMcpServer(id: string): StoredMcpServer | null {
+  const database = getDb();
+  const row = database
+    .prepare("SELECT * FROM mcp_servers WHERE id = :id LIMIT 1")
+    .get({ id }) as any;
+  return row ? mapMcpServerRow(row) : null;
+}
+
+export function saveMcpServer(server: StoredMcpServer) {
+  const database = getDb();
+  database
+    .prepare(
+      `INSERT INTO mcp_servers
+        (id, name, transport, command, args, url, env, headers, enabled, created_at)
+       VALUES (:id, :name, :transport, :command, :args, :url, :env, :headers, :enabled, :createdAt)
+       ON CONFLICT(id) DO UPDATE SET
+         name=excluded.name, transport=excluded.transport, command=excluded.command,
+         args=excluded.args, url=excluded.url, env=excluded.env,
+         headers=excluded.headers, enabled=excluded.enabled`,
+    )
+    .run({
+      id: server.id,
+      name: server.name,
+      transport: server.transport,
+      command: server.command ?? null,
+      args: server.args ? JSON.stringify(server.args) : null,
+      url: server.url ?? null,
+      env: server.env ? JSON.stringify(server.env) : null,
+      headers: server.headers ? JSON.stringify(server.headers) : null,
+      enabled: server.enabled ? 1 : 0,
+      createdAt: server.createdAt || Date.now(),
+    });
+}
+
+export function deleteMcpServer(id: string): boolean {
+  const database = getDb();
+  const result = database
+    .prepare("DELETE FROM mcp_servers WHERE id = :id")
+    .run({ id });
+  return (result as any).changes > 0;
+}
+
+// ============ BUDGETS ============
+
+/** Budgets are keyed by user id, or GLOBAL_BUDGET_SCOPE for the team-wide cap. */
+export const GLOBAL_BUDGET_SCOPE = "global";
+
+export type StoredBudget = {
+  scope: string;
+  /** USD per UTC day; null means unlimited. */
+  dailyLimit: number | null;
+  /** USD per UTC calendar month; null means unlimited. */
+  monthlyLimit: number | null;
+  /** Percent of a limit at which users are warned. Only read from the global row. */
+  warnPercent: number | null;
+  updatedAt?: number;
+};
+
+function mapBudgetRow(row: any): StoredBudget {
+  return {
+    scope: row.scope,
+    dailyLimit: row.daily_limit ?? null,
+    monthlyLimit: row.monthly_limit ?? null,
+    warnPercent: row.warn_percent ?? null,
+    updatedAt: row.updated_at ?? undefined,
+  };
+}
+
+export function listBudgets(): StoredBudget[] {
+  const database = getDb();
+  const rows = database
+    .prepare("SELECT * FROM budgets ORDER BY scope ASC")
+    .all() as any[];
+  return rows.map(mapBudgetRow);
+}
+
+export function getBudget(scope: string): StoredBudget | null {
+  const database = getDb();
+  const row = database
+    .prepare("SELECT * FROM budgets WHERE scope = :scope LIMIT 1")
+    .get({ scope }) as any;
+  return row ? mapBudgetRow(row) : null;
+}
+
+export function saveBudget(budget: StoredBudget) {
+  const database = getDb();
+  database
+    .prepare(
+      `INSERT INTO budgets (scope, daily_limit, monthly_limit, warn_percent, updated_at)
+       VALUES (:scope, :dailyLimit, :monthlyLimit, :warnPercent, :updatedAt)
+       ON CONFLICT(scope) DO UPDATE SET
+         daily_limit=excluded.daily_limit, monthly_limit=excluded.monthly_limit,
+         warn_percent=excluded.warn_percent, updated_at=excluded.updated_at`,
+    )
+    .run({
+      scope: budget.scope,
+      dailyLimit: budget.dailyLimit,
+      monthlyLimit: budget.monthlyLimit,
+      warnPercent: budget.warnPercent,
+      updatedAt: Date.now(),
+    });
+}
+
+// ============ BACKUP/RESTORE ============
+
+// A backed-up chat carries its folder, pin and tags next to the messages
+export type BackupChat = StoredChat & {
+  folderId?: string | null;
+  pinnedAt?: number | null;
+  tagIds?: string[];
+};
+
+export type BackupFolder = {
+  id: string;
+  userId: string;
+  name: string;
+  position: number;
+  createdAt: number | null;
+};
+
+export type BackupTag = {
+  id: string;
+  userId: string;
+  name: string;
+  color: string;
+  createdAt: number | null;
+};
+
+// Images go into the backup as data URLs, and restoring stores them again for
+// the chat's owner
+export function backupAll(): {
+  chats: BackupChat[];
+  folders: BackupFolder[];
+  tags: BackupTag[];
+  config: StoredConfig;
+} {
+  const database = getDb();
+  const organization = database.prepare(
+    `SELECT folder_id, pinned_at,
+       (SELECT group_concat(tag_id) FROM chat_tag_links WHERE chat_id = :id) AS tag_ids
+     FROM chats WHERE id = :id`,
+  );
+  const chats = (
+    listChats()
+      .map((c) => getChat(c.id))
+      .filter(Boolean) as StoredChat[]
+  ).map((chat) => {
+    const row = organization.get({ id: chat.id }) as any;
+    return {
+      ...chat,
+      messages: chat.messages.map((m) => ({
+        ...m,
+        content: inlineImages(m.content),
+      })),
+      folderId: row?.folder_id ?? null,
+      pinnedAt: row?.pinned_at ?? null,
+      tagIds: row?.tag_ids ? row.tag_ids.split(",") : [],
+    };
+  });
+  const folders = database
+    .prepare(
+      `SELECT id, user_id AS userId, name, position, created_at AS createdAt
+       FROM chat_folders ORDER BY position ASC, created_at ASC`,
+    )
+    .all() as BackupFolder[];
+  const tags = database
+    .prepare(
+      `SELECT id, user_id AS userId, name, color, created_at AS createdAt
+       FROM chat_tags ORDER BY created_at ASC`,
+    )
+    .all() as BackupTag[];
+  const config = loadConfig();
+  return { chats, folders, tags, config };
+}
+
+// Backups made before folders and tags were included keep the current ones;
+// folders and tags of users missing from this install are skipped.
+export function restoreAll(data: {
+  chats?: BackupChat[];
+  folders?: BackupFolder[];
+  tags?: BackupTag[];
+  config?: StoredConfig;
+}) {
+  const database = getDb();
+  const clearAll = () => {
+    database.exec(
+      "DELETE FROM messages; DELETE FROM chats; DELETE FROM chat_search; DELETE FROM chat_search_rows; DELETE FROM chat_tag_links; DELETE FROM config;",
+    );
+    if (data.folders) {
+      database.exec("DELETE FROM chat_folders");
+      const insertFolder = database.prepare(
+        `INSERT INTO chat_folders (id, user_id, name, position, created_at)
+         SELECT :id, :userId, :name, :position, :createdAt
+         WHERE EXISTS (SELECT 1 FROM users WHERE id = :userId)`,
+      );
+      for (const f of data.folders) {
+        insertFolder.run({
+          id: f.id,
+          userId: f.userId,
+          name: f.name,
+          position: f.position ?? 0,
+          createdAt: f.createdAt ?? null,
+        });
+      }
+    }
+    if (data.tags) {
+      database.exec("DELETE FROM chat_tags");
+      const insertTag = database.prepare(
+        `INSERT OR IGNORE INTO chat_tags (id, user_id, name, color, created_at)
+         SELECT :id, :userId, :name, :color, :createdAt
+         WHERE EXISTS (SELECT 1 FROM users WHERE id = :userId)`,
+      );
+      for (const t of data.tags) {
+        insertTag.run({
+          id: t.id,
+          userId: t.userId,
+          name: t.name,
+          color: t.color,
+          createdAt: t.createdAt ?? null,
+        });
+      }
+    }
+    if (data.config) saveConfig(data.config);
+    // Folders and tags must belong to the chat's owner, as when filing a chat
+    const fileChat = database.prepare(
+      `UPDATE chats SET pinned_at = :pinnedAt,
+         folder_id = (SELECT f.id FROM chat_folders f
+                      WHERE f.id = :folderId AND f.user_id = chats.user_id)
+       WHERE id = :id`,
+    );
+    const link = database.prepare(
+      `INSERT OR IGNORE INTO chat_tag_links (chat_id, tag_id)
+       SELECT c.id, t.id FROM chats c JOIN chat_tags t ON t.user_id = c.user_id
+       WHERE c.id = :chatId AND t.id = :tagId`,
+    );
+    for (const c of data.chats || []) {
+      saveChat(c);
+      fileChat.run({
+        id: c.id,
+        folderId: c.folderId ?? null,
+        pinnedAt: c.pinnedAt ?? null,
+      });
+      for (const tagId of c.tagIds || []) {
+        link.run({ chatId: c.id, tagId });
+      }
+    }
+  };
+  runTransaction(database, clearAll);
 }
 
 // ============ UTILITIES ============
 
+type StoredTitle = { title: string | null; title_source: string | null };
+
+const TITLE_RANK: Record<ChatTitleSource, number> = {
+  derived: 0,
+  generated: 1,
+  user: 2,
+};
+
+/**
+ * Keeps the stored title over an incoming one from a lower-ranked source, so
+ * a rename is never replaced by a generated or derived title.
+ */
+function pickTitle(
+  stored: StoredTitle | undefined,
+  incoming: { title: string; source: ChatTitleSource },
+): { title: string; source: ChatTitleSource } {
+  const storedSource = (stored?.title_source || "derived") as ChatTitleSource;
+  if (stored?.title && TITLE_RANK[storedSource] > TITLE_RANK[incoming.source]) {
+    return { title: stored.title, source: storedSource };
+  }
+  return incoming;
+}
+
 function deriveTitleFromMessages(messages: StoredMessage[]): string | null {
   if (!messages?.length) return null;
   const firstUser = messages.find((m) => m.role === "user");
@@ -618,7 +2378,7 @@ export function saveImage(image: StoredImage, userId: string) {
     .run({
       id: image.id,
       userId,
-      url: image.url,
+      url: storeImageUrl(image.url, userId, database),
       prompt: image.prompt || "",
       model: image.model || "",
       size: image.size || "",
@@ -627,7 +2387,9 @@ export function saveImage(image: StoredImage, userId: string) {
       seed: image.seed ?? null,
       cost: image.cost ?? null,
       createdAt: image.createdAt || Date.now(),
-      sourceImageUrl: image.sourceImageUrl ?? null,
+      sourceImageUrl: image.sourceImageUrl
+        ? storeImageUrl(image.sourceImageUrl, userId, database)
+        : null,
     });
 }
 
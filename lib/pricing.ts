@@ -1,7 +1,4 @@
-import fs from "node:fs";
-import { createRequire } from "node:module";
-import path from "node:path";
-
+import { getDb } from "@/lib/db";
 import type { Provider } from "@/lib/env";
 import { env } from "@/lib/env";
 import { getNanoPaidModelsUrl } from "@/lib/nanogpt";
@@ -16,9 +13,40 @@ export type UsageRecord = {
   total_tokens?: number;
   input_tokens?: number;
   output_tokens?: number;
+  /** Ollama's native counters. */
+  prompt_eval_count?: number;
+  eval_count?: number;
+};
+
+/** Who caused a charge. Chat and message ids are empty for API calls. */
+export type CostAttribution = {
+  userId?: string;
+  chatId?: string;
+  messageId?: string;
+};
+
+export type CostFilter = {
+  userId?: string;
+  provider?: Provider;
+  model?: string;
+  /** Inclusive lower bound on `createdAt` (epoch ms). */
+  from?: number;
+  /** Exclusive upper bound on `createdAt` (epoch ms). */
+  to?: number;
+};
+
+export type CostBucket = "day" | "week" | "month";
+
+export type CostSeriesPoint = {
+  /** Start of the bucket as YYYY-MM-DD (UTC); weeks start on Monday. */
+  period: string;
+  /** Provider or model name, depending on how the series is grouped. */
+  key: string;
+  cost: number;
+  count: number;
 };
 
-export type CostEvent = {
+export type CostEvent = CostAttribution & {
   id?: number;
   provider: Provider;
   model: string;
@@ -27,9 +55,26 @@ export type CostEvent = {
   cost: number;
   currency: string;
   createdAt: number;
+  /** Wall time of the provider call(s), including tool rounds. */
+  latencyMs?: number;
+  /** What a local call would have cost at the configured shadow price. */
+  shadowCost?: number;
   metadata?: Record<string, unknown>;
 };
 
+export type ModelUsageSummary = {
+  provider: Provider;
+  model: string;
+  count: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  shadowCost: number;
+  avgLatencyMs: number | null;
+  /** Completion tokens per second over calls with a recorded latency. */
+  tokensPerSecond: number | null;
+};
+
 export type CostSummary = {
   currency: string;
   totalCost: number;
@@ -43,61 +88,6 @@ export type CostSummary = {
   topModels: Array<{ model: string; cost: number; count: number }>;
 };
 
-type SqliteInstance = {
-  pragma?: (sql: string) => unknown;
-  exec: (sql: string) => unknown;
-  prepare: (sql: string) => any;
-  transaction?: (fn: () => void) => () => void;
-};
-
-let db: SqliteInstance | null = null;
-const require = createRequire(import.meta.url);
-
-function createDatabase(dbPath: string): SqliteInstance {
-  try {
-    // eslint-disable-next-line @typescript-eslint/no-var-requires
-    const Better = require("better-sqlite3");
-    return new Better(dbPath);
-  } catch (err) {
-    if (typeof (globalThis as any).Bun !== "undefined") {
-      // eslint-disable-next-line @typescript-eslint/no-var-requires
-      const BunSqlite = require("bun:sqlite");
-      return new BunSqlite.Database(dbPath, { create: true, strict: true });
-    }
-    throw err;
-  }
-}
-
-function getDb() {
-  if (db) return db;
-  const dataDir = path.join(process.cwd(), "data");
-  fs.mkdirSync(dataDir, { recursive: true });
-  const dbPath = path.join(dataDir, "app.db");
-  db = createDatabase(dbPath);
-  try {
-    if (db.pragma) db.pragma("journal_mode = WAL");
-    else db.exec("PRAGMA journal_mode = WAL;");
-  } catch {
-    // WAL may not be available; ignore.
-  }
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS pricing_events (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      provider TEXT NOT NULL,
-      model TEXT NOT NULL,
-      prompt_tokens INTEGER DEFAULT 0,
-      completion_tokens INTEGER DEFAULT 0,
-      cost REAL,
-      currency TEXT DEFAULT 'USD',
-      created_at INTEGER,
-      metadata TEXT
-    );
-    CREATE INDEX IF NOT EXISTS idx_pricing_provider_created ON pricing_events(provider, created_at);
-    CREATE INDEX IF NOT EXISTS idx_pricing_model_created ON pricing_events(model, created_at);
-  `);
-  return db;
-}
-
 function toNumber(value: PricingValue): number | null {
   if (value == null) return null;
   if (typeof value === "number") {
@@ -128,10 +118,18 @@ function extractPricingFields(pricing: PricingShape) {
   };
 }
 
-function normalizeUsage(usage: UsageRecord | undefined) {
+export function normalizeUsage(usage: UsageRecord | undefined) {
   return {
-    prompt: usage?.prompt_tokens ?? usage?.input_tokens ?? 0,
-    completion: usage?.completion_tokens ?? usage?.output_tokens ?? 0,
+    prompt:
+      usage?.prompt_tokens ??
+      usage?.input_tokens ??
+      usage?.prompt_eval_count ??
+      0,
+    completion:
+      usage?.completion_tokens ??
+      usage?.output_tokens ??
+      usage?.eval_count ??
+      0,
     total: usage?.total_tokens ?? 0,
   };
 }
@@ -168,12 +166,61 @@ export function calculateOpenrouterCost(
   };
 }
 
+function withMetadata(
+  ...parts: Array<Record<string, unknown> | undefined>
+): Record<string, unknown> | undefined {
+  const merged = Object.assign({}, ...parts.filter(Boolean));
+  return Object.keys(merged).length ? merged : undefined;
+}
+
+function attributionOf(options: CostAttribution): CostAttribution {
+  return {
+    userId: options.userId,
+    chatId: options.chatId,
+    messageId: options.messageId,
+  };
+}
+
+// Builds the WHERE clause and named parameters shared by the ledger queries.
+// Provider and model filters go through idx_pricing_provider_created and
+// idx_pricing_model_created.
+function costWhere(filter: CostFilter = {}) {
+  const conditions: string[] = [];
+  const params: Record<string, string | number> = {};
+  if (filter.userId) {
+    conditions.push("user_id = :userId");
+    params.userId = filter.userId;
+  }
+  if (filter.provider) {
+    conditions.push("provider = :provider");
+    params.provider = filter.provider;
+  }
+  if (filter.model) {
+    conditions.push("model = :model");
+    params.model = filter.model;
+  }
+  if (filter.from != null) {
+    conditions.push("created_at >= :from");
+    params.from = filter.from;
+  }
+  if (filter.to != null) {
+    conditions.push("created_at < :to");
+    params.to = filter.to;
+  }
+  return {
+    where: conditions.length ? `WHERE ${conditions.join(" AND ")}` : "",
+    params,
+  };
+}
+
 function insertCostEvent(record: Omit<CostEvent, "id">): CostEvent {
   const database = getDb();
   const insert = database.prepare(
     `INSERT INTO pricing_events
-      (provider, model, prompt_tokens, completion_tokens, cost, currency, created_at, metadata)
-     VALUES (:provider, :model, :prompt_tokens, :completion_tokens, :cost, :currency, :created_at, :metadata)`,
+      (provider, model, prompt_tokens, completion_tokens, cost, currency, created_at, metadata,
+        user_id, chat_id, message_id, latency_ms, shadow_cost)
+     VALUES (:provider, :model, :prompt_tokens, :completion_tokens, :cost, :currency, :created_at, :metadata,
+        :user_id, :chat_id, :message_id, :latency_ms, :shadow_cost)`,
   );
   const result = insert.run({
     provider: record.provider,
@@ -184,17 +231,26 @@ function insertCostEvent(record: Omit<CostEvent, "id">): CostEvent {
     currency: record.currency,
     created_at: record.createdAt ?? Date.now(),
     metadata: record.metadata ? JSON.stringify(record.metadata) : null,
+    user_id: record.userId ?? null,
+    chat_id: record.chatId ?? null,
+    message_id: record.messageId ?? null,
+    latency_ms: record.latencyMs ?? null,
+    shadow_cost: record.shadowCost ?? null,
   });
   return { ...record, id: Number(result.lastInsertRowid || 0) };
 }
 
-export async function recordOpenrouterCost(options: {
-  model: string;
-  usage?: UsageRecord;
-  pricing?: PricingShape;
-  apiKey?: string;
-  currency?: string;
-}) {
+export async function recordOpenrouterCost(
+  options: CostAttribution & {
+    model: string;
+    usage?: UsageRecord;
+    pricing?: PricingShape;
+    apiKey?: string;
+    currency?: string;
+    latencyMs?: number;
+    metadata?: Record<string, unknown>;
+  },
+) {
   try {
     if (!options.model || !options.usage) return null;
     const pricing =
@@ -211,8 +267,12 @@ export async function recordOpenrouterCost(options: {
       cost: costInfo.cost,
       currency: options.currency || "USD",
       createdAt: Date.now(),
-      metadata:
+      latencyMs: options.latencyMs,
+      ...attributionOf(options),
+      metadata: withMetadata(
+        options.metadata,
         pricing && typeof pricing !== "string" ? { pricing } : undefined,
+      ),
     });
   } catch (error) {
     console.warn("[pricing] failed to record OpenRouter cost:", error);
@@ -334,12 +394,16 @@ export function calculateNanogptCost(
   };
 }
 
-export async function recordNanogptCost(options: {
-  model: string;
-  usage?: UsageRecord;
-  pricing?: NanoPricingEntry | PricingShape | null;
-  apiKey?: string;
-}) {
+export async function recordNanogptCost(
+  options: CostAttribution & {
+    model: string;
+    usage?: UsageRecord;
+    pricing?: NanoPricingEntry | PricingShape | null;
+    apiKey?: string;
+    latencyMs?: number;
+    metadata?: Record<string, unknown>;
+  },
+) {
   try {
     if (!options.model || !options.usage) return null;
     const pricing =
@@ -356,8 +420,12 @@ export async function recordNanogptCost(options: {
       cost: costInfo.cost,
       currency: costInfo.currency || "USD",
       createdAt: Date.now(),
-      metadata:
+      latencyMs: options.latencyMs,
+      ...attributionOf(options),
+      metadata: withMetadata(
+        options.metadata,
         pricing && typeof pricing === "object" ? { pricing } : undefined,
+      ),
     });
   } catch (error) {
     console.warn("[pricing] failed to record NanoGPT cost:", error);
@@ -365,13 +433,82 @@ export async function recordNanogptCost(options: {
   }
 }
 
-export function recordGenericCost(options: {
-  provider: Provider;
-  model: string;
-  cost: number;
-  currency?: string;
-  metadata?: Record<string, unknown>;
-}) {
+// -------- Local (self-hosted) usage --------
+
+/** Reads Ollama's native token counters from a response or final chunk. */
+export function ollamaUsage(source: any): UsageRecord | undefined {
+  if (
+    typeof source?.prompt_eval_count !== "number" &&
+    typeof source?.eval_count !== "number"
+  ) {
+    return undefined;
+  }
+  return {
+    prompt_eval_count: source.prompt_eval_count,
+    eval_count: source.eval_count,
+  };
+}
+
+// Roughly what most tokenizers average on English text and code
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Token counts guessed from text length, for a generation stopped before the
+ * provider reported its usage. Providers still bill the prompt and whatever
+ * was generated up to that point.
+ */
+export function estimateUsage(prompt: string, completion: string): UsageRecord {
+  return {
+    prompt_tokens: Math.ceil(prompt.length / CHARS_PER_TOKEN),
+    completion_tokens: Math.ceil(completion.length / CHARS_PER_TOKEN),
+  };
+}
+
+// Local calls are free, so they are logged at zero cost for their token
+// volume and latency. A shadow price from LOCAL_SHADOW_PRICES shows what the
+// same traffic would cost on a paid API without counting toward spend.
+export function recordLocalUsage(
+  options: CostAttribution & {
+    model: string;
+    usage?: UsageRecord;
+    latencyMs?: number;
+    metadata?: Record<string, unknown>;
+  },
+) {
+  try {
+    const { prompt, completion } = normalizeUsage(options.usage);
+    const shadow =
+      env.localShadowPrices[options.model] ?? env.localShadowPrices["*"];
+    return insertCostEvent({
+      provider: "local",
+      model: options.model,
+      promptTokens: prompt,
+      completionTokens: completion,
+      cost: 0,
+      currency: "USD",
+      createdAt: Date.now(),
+      latencyMs: options.latencyMs,
+      shadowCost: shadow
+        ? (prompt * shadow.prompt + completion * shadow.completion) / 1_000_000
+        : undefined,
+      ...attributionOf(options),
+      metadata: options.metadata,
+    });
+  } catch (error) {
+    console.warn("[pricing] failed to record local usage:", error);
+    return null;
+  }
+}
+
+export function recordGenericCost(
+  options: CostAttribution & {
+    provider: Provider;
+    model: string;
+    cost: number;
+    currency?: string;
+    metadata?: Record<string, unknown>;
+  },
+) {
   if (options.cost == null || Number.isNaN(options.cost)) return null;
   return insertCostEvent({
     provider: options.provider,
@@ -381,35 +518,50 @@ export function recordGenericCost(options: {
     cost: options.cost,
     currency: options.currency || "USD",
     createdAt: Date.now(),
+    ...attributionOf(options),
     metadata: options.metadata,
   });
 }
 
-export function listRecentCosts(limit = 50): CostEvent[] {
+export function listRecentCosts(
+  limit = 50,
+  filter: CostFilter = {},
+): CostEvent[] {
   const database = getDb();
+  const { where, params } = costWhere(filter);
   const stmt = database.prepare(
     `SELECT id, provider, model, prompt_tokens as promptTokens,
       completion_tokens as completionTokens, cost, currency,
-      created_at as createdAt, metadata
+      created_at as createdAt, metadata, user_id as userId,
+      chat_id as chatId, message_id as messageId,
+      latency_ms as latencyMs, shadow_cost as shadowCost
      FROM pricing_events
+     ${where}
      ORDER BY created_at DESC
      LIMIT :limit`,
   );
-  return (stmt.all({ limit }) as any[]).map((row) => ({
+  return (stmt.all({ ...params, limit }) as any[]).map((row) => ({
     ...row,
+    userId: row.userId ?? undefined,
+    chatId: row.chatId ?? undefined,
+    messageId: row.messageId ?? undefined,
+    latencyMs: row.latencyMs ?? undefined,
+    shadowCost: row.shadowCost ?? undefined,
     metadata: row.metadata ? safeJsonParse(row.metadata) : undefined,
   }));
 }
 
-export function summarizeCosts(): CostSummary {
+export function summarizeCosts(filter: CostFilter = {}): CostSummary {
   const database = getDb();
+  const { where, params } = costWhere(filter);
   const totals = database
     .prepare(
       `SELECT provider, COUNT(*) as count, COALESCE(SUM(cost), 0) as cost
        FROM pricing_events
+       ${where}
        GROUP BY provider`,
     )
-    .all() as Array<{ provider: Provider; count: number; cost: number }>;
+    .all(params) as Array<{ provider: Provider; count: number; cost: number }>;
 
   const providerTotals = {
     local: { cost: 0, count: 0 },
@@ -430,11 +582,12 @@ export function summarizeCosts(): CostSummary {
     .prepare(
       `SELECT model, COUNT(*) as count, COALESCE(SUM(cost), 0) as cost
        FROM pricing_events
+       ${where}
        GROUP BY model
        ORDER BY cost DESC
        LIMIT 10`,
     )
-    .all() as Array<{ model: string; count: number; cost: number }>;
+    .all(params) as Array<{ model: string; count: number; cost: number }>;
 
   return {
     currency: "USD",
@@ -444,6 +597,171 @@ export function summarizeCosts(): CostSummary {
   };
 }
 
+/** Token volume, latency and spend per model, busiest first. */
+export function summarizeModelUsage(
+  filter: CostFilter = {},
+): ModelUsageSummary[] {
+  const database = getDb();
+  const { where, params } = costWhere(filter);
+  const rows = database
+    .prepare(
+      `SELECT provider, model, COUNT(*) as count,
+        COALESCE(SUM(prompt_tokens), 0) as promptTokens,
+        COALESCE(SUM(completion_tokens), 0) as completionTokens,
+        COALESCE(SUM(cost), 0) as cost,
+        COALESCE(SUM(shadow_cost), 0) as shadowCost,
+        AVG(latency_ms) as avgLatencyMs,
+        SUM(CASE WHEN latency_ms > 0 THEN completion_tokens END) as timedTokens,
+        SUM(CASE WHEN latency_ms > 0 THEN latency_ms END) as timedMs
+       FROM pricing_events
+       ${where}
+       GROUP BY provider, model
+       ORDER BY promptTokens + completionTokens DESC
+       LIMIT 50`,
+    )
+    .all(params) as Array<
+    Omit<ModelUsageSummary, "tokensPerSecond"> & {
+      timedTokens: number | null;
+      timedMs: number | null;
+    }
+  >;
+  return rows.map(({ timedTokens, timedMs, ...row }) => ({
+    ...row,
+    tokensPerSecond:
+      timedTokens != null && timedMs ? (timedTokens * 1000) / timedMs : null,
+  }));
+}
+
+/** Total spend recorded since `since` (epoch ms), optionally for one user. */
+export function spendSince(since: number, filter: CostFilter = {}): number {
+  const database = getDb();
+  const { where, params } = costWhere({ ...filter, from: since });
+  const row = database
+    .prepare(
+      `SELECT COALESCE(SUM(cost), 0) as cost FROM pricing_events ${where}`,
+    )
+    .get(params) as { cost: number };
+  return row?.cost || 0;
+}
+
+const BUCKET_EXPRESSIONS: Record<CostBucket, string> = {
+  day: "date(created_at / 1000, 'unixepoch')",
+  // Moving forward to Sunday and back six days lands on that week's Monday
+  week: "date(created_at / 1000, 'unixepoch', 'weekday 0', '-6 days')",
+  month: "date(created_at / 1000, 'unixepoch', 'start of month')",
+};
+
+/**
+ * Spend per day, week or month (UTC), split by provider or model so it can
+ * be drawn as a stacked chart. Periods without spend are omitted.
+ */
+export function costTimeSeries(
+  bucket: CostBucket,
+  filter: CostFilter = {},
+  groupBy: "provider" | "model" = "provider",
+): CostSeriesPoint[] {
+  const database = getDb();
+  const { where, params } = costWhere(filter);
+  const keyColumn = groupBy === "model" ? "model" : "provider";
+  return database
+    .prepare(
+      `SELECT ${BUCKET_EXPRESSIONS[bucket]} as period, ${keyColumn} as key,
+        COALESCE(SUM(cost), 0) as cost, COUNT(*) as count
+       FROM pricing_events
+       ${where}
+       GROUP BY period, key
+       ORDER BY period ASC, cost DESC`,
+    )
+    .all(params) as CostSeriesPoint[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDay(value?: string) {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Reads the ledger filters shared by the pricing page and API from query
+ * parameters. `from` and `to` are inclusive UTC dates (YYYY-MM-DD); the user
+ * filter is left to the caller, which knows who may see what.
+ */
+export function costQueryFromParams(
+  query: Record<string, string | undefined>,
+): {
+  filter: CostFilter;
+  bucket: CostBucket;
+  groupBy: "provider" | "model";
+} {
+  const provider = query.provider;
+  const to = parseDay(query.to);
+  return {
+    filter: {
+      provider:
+        provider === "local" ||
+        provider === "openrouter" ||
+        provider === "nanogpt"
+          ? provider
+          : undefined,
+      model: query.model?.trim() || undefined,
+      from: parseDay(query.from),
+      to: to != null ? to + DAY_MS : undefined,
+    },
+    bucket:
+      query.bucket === "week" || query.bucket === "month"
+        ? query.bucket
+        : "day",
+    groupBy: query.groupBy === "model" ? "model" : "provider",
+  };
+}
+
+function csvField(value: string | number) {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function costSeriesToCsv(points: CostSeriesPoint[], keyLabel: string) {
+  const lines = [["period", keyLabel, "cost_usd", "calls"].join(",")];
+  for (const point of points) {
+    lines.push(
+      [
+        point.period,
+        csvField(point.key),
+        point.cost.toFixed(6),
+        point.count,
+      ].join(","),
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+// Spend per user for the admin panel. Events recorded before attribution
+// existed, or by unauthenticated callers, are grouped under a null userId.
+export function summarizeCostsByUser(): Array<{
+  userId: string | null;
+  cost: number;
+  count: number;
+  lastAt: number | null;
+}> {
+  const database = getDb();
+  return database
+    .prepare(
+      `SELECT user_id as userId, COUNT(*) as count,
+        COALESCE(SUM(cost), 0) as cost, MAX(created_at) as lastAt
+       FROM pricing_events
+       GROUP BY user_id
+       ORDER BY cost DESC`,
+    )
+    .all() as Array<{
+    userId: string | null;
+    cost: number;
+    count: number;
+    lastAt: number | null;
+  }>;
+}
+
 function safeJsonParse(value: string) {
   try {
     return JSON.parse(value);
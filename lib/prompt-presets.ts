@@ -0,0 +1,73 @@
+import type { PromptPreset, Provider } from "@/types/chat";
+
+export const MAX_PRESET_NAME = 60;
+export const MAX_PRESET_PROMPT = 20000;
+const MAX_PRESET_MODEL = 200;
+const PROVIDERS: Provider[] = ["local", "openrouter", "nanogpt"];
+
+export type PromptPresetInput = Omit<
+  PromptPreset,
+  "id" | "ownerName" | "editable"
+>;
+
+/**
+ * Validates a preset sent by the client. Empty provider, model and
+ * temperature become null so the chat falls back to the user's settings.
+ */
+export function parsePromptPresetInput(body: any): {
+  preset?: PromptPresetInput;
+  error?: string;
+} {
+  if (!body || typeof body !== "object") return { error: "Invalid body" };
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) return { error: "Name is required" };
+  if (name.length > MAX_PRESET_NAME) {
+    return { error: `Name must be ${MAX_PRESET_NAME} characters or less` };
+  }
+
+  const systemPrompt =
+    typeof body.systemPrompt === "string" ? body.systemPrompt : "";
+  if (systemPrompt.length > MAX_PRESET_PROMPT) {
+    return {
+      error: `System prompt must be ${MAX_PRESET_PROMPT} characters or less`,
+    };
+  }
+
+  const provider = body.provider || null;
+  if (provider !== null && !PROVIDERS.includes(provider)) {
+    return { error: "Provider must be local, openrouter or nanogpt" };
+  }
+
+  const model = typeof body.model === "string" ? body.model.trim() : "";
+  if (model.length > MAX_PRESET_MODEL) {
+    return { error: `Model must be ${MAX_PRESET_MODEL} characters or less` };
+  }
+
+  const temperature =
+    body.temperature === undefined ||
+    body.temperature === null ||
+    body.temperature === ""
+      ? null
+      : body.temperature;
+  if (
+    temperature !== null &&
+    (typeof temperature !== "number" ||
+      !Number.isFinite(temperature) ||
+      temperature < 0 ||
+      temperature > 2)
+  ) {
+    return { error: "Temperature must be a number between 0 and 2" };
+  }
+
+  return {
+    preset: {
+      name,
+      systemPrompt,
+      provider,
+      model: model || null,
+      deepSearch: body.deepSearch === true,
+      temperature,
+      shared: body.shared === true,
+    },
+  };
+}
@@ -0,0 +1,121 @@
+import type { PromptTemplate } from "@/types/chat";
+
+// Prompt templates are inserted from the composer by typing /name. Bodies may
+// use {{variable}} placeholders; built-in variables are filled automatically
+// and the rest are asked for before the text is inserted.
+
+export const MAX_TEMPLATE_NAME = 40;
+export const MAX_TEMPLATE_DESCRIPTION = 200;
+export const MAX_TEMPLATE_BODY = 20000;
+export const MAX_IMPORT_TEMPLATES = 500;
+const EXPORT_VERSION = 1;
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+const VARIABLE_PATTERN = /\{\{\s*([a-z_][\w-]*)\s*\}\}/gi;
+
+export const BUILTIN_VARIABLES: Record<string, string> = {
+  date: "Today's date",
+  time: "The current time",
+  datetime: "Today's date and time",
+  selection: "Text last selected on the page",
+};
+
+export type PromptTemplateInput = Omit<PromptTemplate, "id">;
+
+/** Placeholders the user fills in, in order of first use. */
+export function templateVariables(body: string): string[] {
+  const names = new Set<string>();
+  for (const match of body.matchAll(VARIABLE_PATTERN)) {
+    const name = match[1];
+    if (!(name in BUILTIN_VARIABLES)) names.add(name);
+  }
+  return [...names];
+}
+
+export function builtinValues(selection: string, now = new Date()) {
+  return {
+    date: now.toLocaleDateString(),
+    time: now.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }),
+    datetime: now.toLocaleString(),
+    selection,
+  };
+}
+
+/** Replaces placeholders with `values`; unknown ones are left as written. */
+export function renderTemplate(body: string, values: Record<string, string>) {
+  return body.replace(VARIABLE_PATTERN, (match, name: string) =>
+    name in values ? values[name] : match,
+  );
+}
+
+export function parsePromptTemplateInput(body: any): {
+  template?: PromptTemplateInput;
+  error?: string;
+} {
+  if (!body || typeof body !== "object") return { error: "Invalid body" };
+  const name =
+    typeof body.name === "string" ? body.name.trim().replace(/^\//, "") : "";
+  if (!name) return { error: "Name is required" };
+  if (name.length > MAX_TEMPLATE_NAME) {
+    return { error: `Name must be ${MAX_TEMPLATE_NAME} characters or less` };
+  }
+  if (!NAME_PATTERN.test(name)) {
+    return {
+      error: "Name may only use letters, digits, - and _ (e.g. code-review)",
+    };
+  }
+
+  const description =
+    typeof body.description === "string" ? body.description.trim() : "";
+  if (description.length > MAX_TEMPLATE_DESCRIPTION) {
+    return {
+      error: `Description must be ${MAX_TEMPLATE_DESCRIPTION} characters or less`,
+    };
+  }
+
+  const text = typeof body.body === "string" ? body.body : "";
+  if (!text.trim()) return { error: "Template text is required" };
+  if (text.length > MAX_TEMPLATE_BODY) {
+    return {
+      error: `Template text must be ${MAX_TEMPLATE_BODY} characters or less`,
+    };
+  }
+
+  return { template: { name, description, body: text } };
+}
+
+/** Reads an exported file, or a bare array of templates. */
+export function parseTemplateImport(data: unknown): {
+  templates?: PromptTemplateInput[];
+  error?: string;
+} {
+  const list = Array.isArray(data)
+    ? data
+    : (data as { templates?: unknown })?.templates;
+  if (!Array.isArray(list)) return { error: "Expected a list of templates" };
+  if (list.length > MAX_IMPORT_TEMPLATES) {
+    return { error: `At most ${MAX_IMPORT_TEMPLATES} templates per import` };
+  }
+  const templates: PromptTemplateInput[] = [];
+  for (const [index, item] of list.entries()) {
+    const { template, error } = parsePromptTemplateInput(item);
+    if (!template) return { error: `Template ${index + 1}: ${error}` };
+    templates.push(template);
+  }
+  return { templates };
+}
+
+export function exportTemplates(templates: PromptTemplate[]) {
+  return JSON.stringify(
+    {
+      version: EXPORT_VERSION,
+      templates: templates.map(({ name, description, body }) => ({
+        name,
+        description,
+        body,
+      })),
+    },
+    null,
+    2,
+  );
+}
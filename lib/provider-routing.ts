@@ -0,0 +1,110 @@
+import { APIConnectionError, APIError } from "openai";
+import type { ProviderErrorKind, RoutingPolicy } from "@/types/chat";
+import {
+  MAX_RETRY_DELAY_MS,
+  PROVIDER_ERROR_LABELS,
+  RETRYABLE_ERRORS,
+  retryDelay,
+} from "./routing";
+
+// Server side of lib/routing.ts: reading provider errors and running a request
+// under a routing policy.
+
+const CONTEXT_LENGTH_PATTERN =
+  /context[_ ]length|context window|maximum context|too many tokens|prompt is too long/;
+const CONTENT_FILTER_PATTERN =
+  /content[_ ]filter|content policy|moderation|flagged/;
+
+/**
+ * Sorts an error from the OpenAI SDK, or one thrown by `withFallbacks`, into
+ * the kinds routing acts on. Cancelled requests and unexpected failures are
+ * "other".
+ */
+export function providerErrorKind(error: unknown): ProviderErrorKind {
+  if (error instanceof APIConnectionError) return "network";
+  if (error instanceof APIError) {
+    const { status } = error;
+    const text = `${error.code ?? ""} ${error.message}`.toLowerCase();
+    if (status === 413 || CONTEXT_LENGTH_PATTERN.test(text)) {
+      return "context_length";
+    }
+    if (CONTENT_FILTER_PATTERN.test(text)) return "content_filter";
+    if (status === 429) return "rate_limit";
+    if (status === 401 || status === 403) return "auth";
+    if (status === 408 || (status !== undefined && status >= 500)) {
+      return "server";
+    }
+    return "other";
+  }
+  const cause = (error as Error | undefined)?.cause;
+  return cause ? providerErrorKind(cause) : "other";
+}
+
+// Retry-After in seconds or as a date, or OpenAI's retry-after-ms
+function retryAfterMs(error: unknown) {
+  const headers = error instanceof APIError ? error.headers : undefined;
+  if (!headers) return null;
+  const ms = Number(headers.get("retry-after-ms"));
+  if (ms > 0) return ms;
+  const value = headers.get("retry-after");
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Ends early when `signal` aborts, leaving the next request to fail on it
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Runs `request`, retrying retryable errors under the policy. When retries run
+ * out, or the error is one a different model may not hit, `advance` is asked
+ * to switch to the next fallback and the request starts over; it returns false
+ * when there is none. The error that ends routing is rethrown with its kind in
+ * the message. Nothing is retried once `signal` has aborted.
+ */
+export async function withFallbacks<T>(
+  policy: RoutingPolicy,
+  request: () => Promise<T>,
+  advance: (kind: ProviderErrorKind, error: unknown) => boolean,
+  signal?: AbortSignal,
+): Promise<T> {
+  let retry = 0;
+  while (true) {
+    try {
+      return await request();
+    } catch (error) {
+      const kind = providerErrorKind(error);
+      if (kind === "other" || signal?.aborted) throw error;
+      if (RETRYABLE_ERRORS.includes(kind) && retry < policy.retries) {
+        const asked = retryAfterMs(error);
+        await sleep(
+          asked === null
+            ? retryDelay(policy, retry)
+            : Math.min(asked, MAX_RETRY_DELAY_MS),
+          signal,
+        );
+        retry += 1;
+        continue;
+      }
+      if (!advance(kind, error)) {
+        throw new Error(
+          `${PROVIDER_ERROR_LABELS[kind]}: ${(error as Error).message}`,
+          { cause: error },
+        );
+      }
+      retry = 0;
+    }
+  }
+}
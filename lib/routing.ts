@@ -0,0 +1,131 @@
+import type {
+  ModelTarget,
+  Provider,
+  ProviderErrorKind,
+  RoutingPolicy,
+} from "@/types/chat";
+
+// Routing decides what happens when a completion request fails. Rate limits,
+// provider outages and dropped connections are retried with backoff; when
+// retries run out, or the error is one another model may not hit, the next
+// fallback model is tried. Anything else fails the request straight away.
+
+export const MAX_FALLBACKS = 4;
+export const MAX_RETRIES = 5;
+export const MAX_RETRY_DELAY_MS = 30_000;
+const MAX_MODEL_LENGTH = 200;
+const PROVIDERS: Provider[] = ["local", "openrouter", "nanogpt"];
+
+export const DEFAULT_ROUTING: RoutingPolicy = {
+  fallbacks: [],
+  retries: 2,
+  retryDelayMs: 1000,
+};
+
+export const PROVIDER_ERROR_LABELS: Record<ProviderErrorKind, string> = {
+  rate_limit: "Rate limited",
+  auth: "Authentication failed",
+  context_length: "Context too long",
+  content_filter: "Blocked by content filter",
+  server: "Provider error",
+  network: "Network error",
+  other: "Request failed",
+};
+
+// Worth trying the same model again after a pause
+export const RETRYABLE_ERRORS: ProviderErrorKind[] = [
+  "rate_limit",
+  "server",
+  "network",
+];
+
+function readInteger(
+  input: Record<string, unknown>,
+  key: "retries" | "retryDelayMs",
+  label: string,
+  max: number,
+): { value?: number; error?: string } {
+  const value = input[key];
+  if (value === undefined || value === null || value === "") {
+    return { value: DEFAULT_ROUTING[key] };
+  }
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    return { error: `${label} must be a whole number` };
+  }
+  if (value < 0 || value > max) {
+    return { error: `${label} must be between 0 and ${max}` };
+  }
+  return { value };
+}
+
+/**
+ * Validates a policy from a request or settings. A missing policy or field
+ * uses the defaults.
+ */
+export function parseRoutingPolicy(value: unknown): {
+  policy?: RoutingPolicy;
+  error?: string;
+} {
+  if (value === undefined || value === null) {
+    return { policy: DEFAULT_ROUTING };
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { error: "Routing policy must be an object" };
+  }
+  const input = value as Record<string, unknown>;
+
+  const retries = readInteger(input, "retries", "Retries", MAX_RETRIES);
+  if (retries.error) return { error: retries.error };
+  const delay = readInteger(
+    input,
+    "retryDelayMs",
+    "Retry delay",
+    MAX_RETRY_DELAY_MS,
+  );
+  if (delay.error) return { error: delay.error };
+
+  const list = input.fallbacks ?? [];
+  if (!Array.isArray(list)) return { error: "Fallbacks must be a list" };
+  if (list.length > MAX_FALLBACKS) {
+    return { error: `At most ${MAX_FALLBACKS} fallbacks are allowed` };
+  }
+  const fallbacks: ModelTarget[] = [];
+  for (const item of list) {
+    const provider = item?.provider;
+    const model = typeof item?.model === "string" ? item.model.trim() : "";
+    if (!PROVIDERS.includes(provider)) {
+      return {
+        error: "Fallback provider must be local, openrouter or nanogpt",
+      };
+    }
+    if (!model) return { error: "Every fallback needs a model" };
+    if (model.length > MAX_MODEL_LENGTH) {
+      return {
+        error: `Fallback model must be ${MAX_MODEL_LENGTH} characters or less`,
+      };
+    }
+    fallbacks.push({ provider, model });
+  }
+
+  return {
+    policy: {
+      fallbacks,
+      retries: retries.value ?? DEFAULT_ROUTING.retries,
+      retryDelayMs: delay.value ?? DEFAULT_ROUTING.retryDelayMs,
+    },
+  };
+}
+
+/**
+ * Pause before retry number `retry` (from 0): the policy's delay doubled per
+ * retry, capped, with up to half of it taken off at random so clients that
+ * failed together do not retry together.
+ */
+export function retryDelay(
+  policy: RoutingPolicy,
+  retry: number,
+  random = Math.random,
+) {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, policy.retryDelayMs * 2 ** retry);
+  return Math.round(delay / 2 + (random() * delay) / 2);
+}
@@ -0,0 +1,228 @@
+import { getDb, type SqliteInstance } from "./db";
+
+// Full-text search over chats. `chat_search` is an FTS5 table with one row per
+// chat holding its title and one row per message holding its text and
+// reasoning. saveChat rewrites a chat's rows whenever it saves the chat.
+// FTS5 cannot index chat_id and message_id, so `chat_search_rows` maps them
+// to the rowids of their rows; rows are only ever deleted by rowid.
+
+export type SnippetPart = { text: string; match: boolean };
+
+export type SearchHit = {
+  chatId: string;
+  messageId?: string;
+  title: string;
+  snippet: SnippetPart[];
+  createdAt?: number;
+};
+
+type IndexedMessage = { id: string; content?: unknown; reasoning?: string };
+
+// Control characters cannot appear in tokens, so they are safe to use as
+// highlight markers and never have to be escaped
+const MARK_START = "\u0002";
+const MARK_END = "\u0003";
+
+/** Text of a message as indexed: text parts only, without image URLs. */
+function contentText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((part) => (part?.type === "text" ? String(part.text ?? "") : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Deletes the rows `where` picks out of chat_search_rows, and their text
+function removeRows(
+  database: SqliteInstance,
+  where: string,
+  params: Record<string, unknown>,
+) {
+  const rows = database
+    .prepare(`SELECT id FROM chat_search_rows WHERE ${where}`)
+    .all(params) as Array<{ id: number }>;
+  if (!rows.length) return;
+  const removeText = database.prepare(
+    "DELETE FROM chat_search WHERE rowid = :id",
+  );
+  const removeRow = database.prepare(
+    "DELETE FROM chat_search_rows WHERE id = :id",
+  );
+  for (const { id } of rows) {
+    removeText.run({ id });
+    removeRow.run({ id });
+  }
+}
+
+function insertRow(
+  database: SqliteInstance,
+  row: {
+    chatId: string;
+    messageId: string | null;
+    title: string;
+    content: string;
+    reasoning: string;
+  },
+) {
+  const { lastInsertRowid } = database
+    .prepare(
+      "INSERT INTO chat_search_rows (chat_id, message_id) VALUES (:chatId, :messageId)",
+    )
+    .run({ chatId: row.chatId, messageId: row.messageId });
+  database
+    .prepare(
+      `INSERT INTO chat_search (rowid, chat_id, message_id, title, content, reasoning)
+       VALUES (:id, :chatId, :messageId, :title, :content, :reasoning)`,
+    )
+    .run({ id: lastInsertRowid, ...row });
+}
+
+function insertMessage(
+  database: SqliteInstance,
+  chatId: string,
+  message: IndexedMessage,
+) {
+  const content = contentText(message.content);
+  const reasoning = message.reasoning || "";
+  if (!content.trim() && !reasoning.trim()) return;
+  insertRow(database, {
+    chatId,
+    messageId: message.id,
+    title: "",
+    content,
+    reasoning,
+  });
+}
+
+export function indexChatTitle(
+  database: SqliteInstance,
+  chatId: string,
+  title: string,
+) {
+  removeRows(database, "chat_id = :chatId AND message_id IS NULL", {
+    chatId,
+  });
+  insertRow(database, {
+    chatId,
+    messageId: null,
+    title,
+    content: "",
+    reasoning: "",
+  });
+}
+
+export function indexMessage(
+  database: SqliteInstance,
+  chatId: string,
+  message: IndexedMessage,
+) {
+  removeRows(database, "message_id = :messageId", { messageId: message.id });
+  insertMessage(database, chatId, message);
+}
+
+export function indexChat(
+  database: SqliteInstance,
+  chat: { id: string; title: string; messages: IndexedMessage[] },
+) {
+  unindexChat(database, chat.id);
+  insertRow(database, {
+    chatId: chat.id,
+    messageId: null,
+    title: chat.title,
+    content: "",
+    reasoning: "",
+  });
+  for (const message of chat.messages) {
+    insertMessage(database, chat.id, message);
+  }
+}
+
+export function unindexChat(database: SqliteInstance, chatId: string) {
+  removeRows(database, "chat_id = :chatId", { chatId });
+}
+
+/**
+ * Turns free text into an FTS5 query: every word must match, and the last one
+ * may be a prefix so results update while typing. Returns null when nothing
+ * searchable is left.
+ */
+export function toMatchQuery(input: string): string | null {
+  const words = input
+    .split(/\s+/)
+    .map((word) => word.replace(/"/g, "").trim())
+    .filter(Boolean);
+  if (!words.length) return null;
+  return words
+    .map((word, idx) => (idx === words.length - 1 ? `"${word}"*` : `"${word}"`))
+    .join(" ");
+}
+
+function toSnippetParts(snippet: string): SnippetPart[] {
+  const [first, ...rest] = snippet.split(MARK_START);
+  const parts: SnippetPart[] = first ? [{ text: first, match: false }] : [];
+  for (const chunk of rest) {
+    const [hit, after = ""] = chunk.split(MARK_END);
+    if (hit) parts.push({ text: hit, match: true });
+    if (after) parts.push({ text: after, match: false });
+  }
+  return parts;
+}
+
+/**
+ * Best matches first; titles weigh more than message text, reasoning less.
+ * `filter` narrows the hits to a folder ("" for unfiled chats) or a tag.
+ */
+export function searchChats(
+  query: string,
+  userId?: string,
+  limit = 30,
+  filter: { folderId?: string | null; tagId?: string | null } = {},
+): SearchHit[] {
+  const match = toMatchQuery(query);
+  if (!match) return [];
+  let sql = `
+    SELECT chat_search.chat_id AS chatId, chat_search.message_id AS messageId,
+      COALESCE(c.title, '') AS title, m.created_at AS createdAt,
+      snippet(chat_search, -1, :markStart, :markEnd, '…', 16) AS snippet
+    FROM chat_search
+    JOIN chats c ON c.id = chat_search.chat_id
+    LEFT JOIN messages m ON m.id = chat_search.message_id
+    WHERE chat_search MATCH :match
+  `;
+  if (userId) sql += " AND c.user_id = :userId";
+  if (typeof filter.folderId === "string") {
+    sql += filter.folderId
+      ? " AND c.folder_id = :folderId"
+      : " AND c.folder_id IS NULL";
+  }
+  if (filter.tagId) {
+    sql +=
+      " AND EXISTS (SELECT 1 FROM chat_tag_links l WHERE l.chat_id = c.id AND l.tag_id = :tagId)";
+  }
+  sql += " ORDER BY bm25(chat_search, 0, 0, 4.0, 1.0, 0.5) LIMIT :limit";
+
+  const params: Record<string, unknown> = {
+    match,
+    limit,
+    markStart: MARK_START,
+    markEnd: MARK_END,
+  };
+  if (userId) params.userId = userId;
+  if (filter.folderId) params.folderId = filter.folderId;
+  if (filter.tagId) params.tagId = filter.tagId;
+  const rows = getDb().prepare(sql).all(params) as Array<{
+    chatId: string;
+    messageId: string | null;
+    title: string;
+    createdAt: number | null;
+    snippet: string;
+  }>;
+  return rows.map((row) => ({
+    chatId: row.chatId,
+    messageId: row.messageId ?? undefined,
+    title: row.title,
+    snippet: toSnippetParts(row.snippet),
+    createdAt: row.createdAt ?? undefined,
+  }));
+}
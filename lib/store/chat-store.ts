@@ -1,26 +1,182 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import type { Attachment } from "@/components/attachment-list";
-import type { ChatMap, ChatMessage } from "@/types/chat";
+import {
+  chatsArrayToInfo,
+  chatsArrayToMap,
+  type StoredChat,
+} from "@/lib/chat-utils";
+import type {
+  ChatFilter,
+  ChatFolder,
+  ChatInfo,
+  ChatMap,
+  ChatMessage,
+  ChatSummary,
+  ChatTag,
+  Provider,
+} from "@/types/chat";
+import { requestJson } from "./request-json";
+
+const SUMMARY_PAGE_SIZE = 50;
+// Pinned chats are loaded in one request, not paged
+const MAX_PINNED = 200;
+
+// Chats whose messages are being fetched, so repeated calls share one request
+const loadingChats = new Set<string>();
+
+// One sync at a time; changes made during a sync are picked up by a rerun,
+// which callers asking meanwhile wait for
+let syncRun: Promise<void> | null = null;
+let syncRerun: Promise<void> | null = null;
+
+type ChangeFeed = {
+  cursor: number;
+  reset: boolean;
+  chats: ChatSummary[];
+  info: Record<string, ChatInfo>;
+  messages: Array<{ chatId: string; message: ChatMessage }>;
+  replacedChatIds: string[];
+  deletedChatIds: string[];
+};
+
+function bySummaryOrder(a: ChatSummary, b: ChatSummary) {
+  return b.updatedAt - a.updatedAt || (a.id < b.id ? 1 : -1);
+}
+
+// Model settings for a title request; the chat's own provider and key
+type TitleSettings = {
+  provider: Provider;
+  model: string;
+  apiKey?: string;
+  localUrl?: string;
+};
+
+function matchesFilter(summary: ChatSummary, filter: ChatFilter) {
+  if (
+    filter.folderId !== null &&
+    (summary.folderId ?? "") !== filter.folderId
+  ) {
+    return false;
+  }
+  return !filter.tagId || summary.tagIds.includes(filter.tagId);
+}
+
+// Moves changed summaries into the pinned or history list they now belong to,
+// dropping the ones the filter hides
+function placeSummaries(
+  state: Pick<ChatState, "summaries" | "pinned" | "filter">,
+  changed: ChatSummary[],
+  removedIds: string[] = [],
+) {
+  const drop = new Set([...removedIds, ...changed.map((c) => c.id)]);
+  const shown = changed.filter((c) => matchesFilter(c, state.filter));
+  return {
+    pinned: [
+      ...state.pinned.filter((c) => !drop.has(c.id)),
+      ...shown.filter((c) => c.pinned),
+    ].sort(bySummaryOrder),
+    summaries: [
+      ...state.summaries.filter((c) => !drop.has(c.id)),
+      ...shown.filter((c) => !c.pinned),
+    ].sort(bySummaryOrder),
+  };
+}
+
+function filterParams(filter: ChatFilter) {
+  const params = new URLSearchParams();
+  if (filter.folderId !== null) params.set("folderId", filter.folderId);
+  if (filter.tagId) params.set("tagId", filter.tagId);
+  return params;
+}
+
+function syncedMessages(messages: ChatMessage[]) {
+  return Object.fromEntries(messages.map((m) => [m.id || "", m]));
+}
+
+const INFO_FIELDS = [
+  "enabledTools",
+  "activeLeafId",
+  "presetId",
+  "generation",
+  "collectionId",
+] as const;
+
+// Chat settings changed here since they were last synced. Only these are
+// sent, so a tab never overwrites settings another one changed.
+function changedInfo(info?: ChatInfo, synced?: ChatInfo) {
+  const changes: ChatInfo = {};
+  for (const field of INFO_FIELDS) {
+    const value = info?.[field] ?? null;
+    if (value !== (synced?.[field] ?? null)) {
+      (changes as Record<string, unknown>)[field] = value;
+    }
+  }
+  return changes;
+}
 
 interface ChatState {
+  // Messages of the chats opened so far; the server holds the full history
   chats: ChatMap;
+  chatInfo: Record<string, ChatInfo>;
+  // Server-side chats for the sidebar, newest first, one page at a time
+  summaries: ChatSummary[];
+  // Cursor of the next summary page, null when every page is loaded
+  summaryCursor: string | null;
+  // Pinned chats, kept out of `summaries` and listed above them
+  pinned: ChatSummary[];
+  folders: ChatFolder[];
+  tags: ChatTag[];
+  // Applies to both summary lists and to search
+  filter: ChatFilter;
+  // Messages and chat info as last saved to or read from the server, by
+  // chat. Anything in `chats` that is not the same object is unsaved.
+  synced: Record<string, Record<string, ChatMessage>>;
+  syncedInfo: Record<string, ChatInfo | undefined>;
+  // Position in the server change feed, null until following it
+  changeCursor: number | null;
   currentChatId: string;
   attachments: Attachment[];
   searchQuery: string;
   messageSearch: string;
+  // Message to scroll to once its chat is on screen, e.g. from a search hit
+  focusMessageId: string | null;
   regeneratingId: string | null;
   copiedId: string | null;
 
   setChats: (updater: ChatMap | ((prev: ChatMap) => ChatMap)) => void;
+  setChatInfo: (info: Record<string, ChatInfo>) => void;
+  updateChatInfo: (chatId: string, updater: Partial<ChatInfo>) => void;
   setCurrentChatId: (id: string) => void;
   setAttachments: (
     updater: Attachment[] | ((prev: Attachment[]) => Attachment[]),
   ) => void;
   setSearchQuery: (query: string) => void;
   setMessageSearch: (search: string) => void;
+  setFocusMessageId: (id: string | null) => void;
   setRegeneratingId: (id: string | null) => void;
   setCopiedId: (id: string | null) => void;
+  loadSummaries: (cursor?: string | null) => Promise<void>;
+  loadChat: (chatId: string) => Promise<void>;
+  syncChats: () => Promise<void>;
+  pullChanges: () => Promise<void>;
+  loadOrganization: () => Promise<void>;
+  setFilter: (filter: Partial<ChatFilter>) => Promise<void>;
+  createFolder: (name: string) => Promise<ChatFolder>;
+  renameFolder: (id: string, name: string) => Promise<void>;
+  deleteFolder: (id: string) => Promise<void>;
+  createTag: (name: string, color: string) => Promise<ChatTag>;
+  deleteTag: (id: string) => Promise<void>;
+  organizeChat: (
+    chatId: string,
+    changes: {
+      title?: string;
+      folderId?: string | null;
+      pinned?: boolean;
+      tagIds?: string[];
+    },
+  ) => Promise<void>;
+  generateTitle: (chatId: string, settings: TitleSettings) => Promise<void>;
 
   // Actions to manipulate chats more easily
   addMessage: (chatId: string, message: ChatMessage) => void;
@@ -35,12 +191,23 @@ interface ChatState {
 
 export const useChatStore = create<ChatState>()(
   persist(
-    (set, _get) => ({
+    (set, get) => ({
       chats: {},
+      chatInfo: {},
+      summaries: [],
+      summaryCursor: null,
+      pinned: [],
+      folders: [],
+      tags: [],
+      filter: { folderId: null, tagId: null },
+      synced: {},
+      syncedInfo: {},
+      changeCursor: null,
       currentChatId: "",
       attachments: [],
       searchQuery: "",
       messageSearch: "",
+      focusMessageId: null,
       regeneratingId: null,
       copiedId: null,
 
@@ -51,6 +218,14 @@ export const useChatStore = create<ChatState>()(
               ? (updater as any)(state.chats)
               : updater,
         })),
+      setChatInfo: (info) => set({ chatInfo: info }),
+      updateChatInfo: (chatId, updater) =>
+        set((state) => ({
+          chatInfo: {
+            ...state.chatInfo,
+            [chatId]: { ...state.chatInfo[chatId], ...updater },
+          },
+        })),
       setCurrentChatId: (id) => set({ currentChatId: id }),
       setAttachments: (updater) =>
         set((state) => ({
@@ -61,9 +236,395 @@ export const useChatStore = create<ChatState>()(
         })),
       setSearchQuery: (query) => set({ searchQuery: query }),
       setMessageSearch: (search) => set({ messageSearch: search }),
+      setFocusMessageId: (id) => set({ focusMessageId: id }),
       setRegeneratingId: (id) => set({ regeneratingId: id }),
       setCopiedId: (id) => set({ copiedId: id }),
 
+      loadSummaries: async (cursor) => {
+        const { filter } = get();
+        const params = filterParams(filter);
+        params.set("limit", String(SUMMARY_PAGE_SIZE));
+        params.set("pinned", "false");
+        if (cursor) params.set("cursor", cursor);
+        const pinnedParams = filterParams(filter);
+        pinnedParams.set("limit", String(MAX_PINNED));
+        pinnedParams.set("pinned", "true");
+        const [page, pinned] = await Promise.all([
+          requestJson<{ chats: ChatSummary[]; nextCursor: string | null }>(
+            `/api/persistence/chats?${params}`,
+            { cache: "no-store" },
+          ),
+          // Later pages leave the pinned list alone
+          cursor
+            ? null
+            : requestJson<{ chats: ChatSummary[] }>(
+                `/api/persistence/chats?${pinnedParams}`,
+                { cache: "no-store" },
+              ),
+        ]);
+        set((state) => {
+          // Filter changed while loading; that load wins
+          if (state.filter !== filter) return {};
+          const known = new Set(state.summaries.map((c) => c.id));
+          return {
+            summaries: cursor
+              ? [
+                  ...state.summaries,
+                  ...page.chats.filter((c) => !known.has(c.id)),
+                ]
+              : page.chats,
+            summaryCursor: page.nextCursor,
+            pinned: pinned ? pinned.chats : state.pinned,
+          };
+        });
+      },
+
+      loadChat: async (chatId) => {
+        if (loadingChats.has(chatId)) return;
+        loadingChats.add(chatId);
+        try {
+          const res = await fetch(`/api/persistence/chats/${chatId}`, {
+            cache: "no-store",
+          });
+          if (res.status === 404) {
+            // Deleted elsewhere
+            set((state) => placeSummaries(state, [], [chatId]));
+            return;
+          }
+          if (!res.ok) throw new Error(`Failed to load chat (${res.status})`);
+          const chat = (await res.json()) as StoredChat;
+          const messages = chatsArrayToMap([chat])[chatId];
+          const info = chatsArrayToInfo([chat])[chatId];
+          set((state) =>
+            // Keep messages written locally while the request was in flight
+            state.chats[chatId]?.length
+              ? {}
+              : {
+                  chats: { ...state.chats, [chatId]: messages },
+                  chatInfo: { ...state.chatInfo, [chatId]: info },
+                  synced: {
+                    ...state.synced,
+                    [chatId]: syncedMessages(messages),
+                  },
+                  syncedInfo: { ...state.syncedInfo, [chatId]: info },
+                },
+          );
+        } finally {
+          loadingChats.delete(chatId);
+        }
+      },
+
+      // Sends the messages and chat info changed since the last sync. Messages
+      // someone else changed first come back as conflicts and the server copy
+      // replaces the local one.
+      syncChats: () => {
+        if (syncRun) {
+          syncRerun ??= syncRun
+            .catch(() => null)
+            .then(() => {
+              syncRerun = null;
+              return get().syncChats();
+            });
+          return syncRerun;
+        }
+        const run = async () => {
+          const { chats, chatInfo, synced, syncedInfo } = get();
+          for (const [chatId, messages] of Object.entries(chats)) {
+            if (!messages.length) continue;
+            const known = synced[chatId] || {};
+            const dirty = messages.filter((m) => m.id && known[m.id] !== m);
+            const info = chatInfo[chatId];
+            const changes = changedInfo(info, syncedInfo[chatId]);
+            if (!dirty.length && !Object.keys(changes).length) continue;
+
+            const res = await fetch(
+              `/api/persistence/chats/${chatId}/messages`,
+              {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                  createdAt: Number(chatId) || undefined,
+                  ...changes,
+                  messages: dirty.map((m) => ({
+                    ...m,
+                    baseVersion: m.updatedAt ?? null,
+                  })),
+                }),
+              },
+            );
+            if (!res.ok && res.status !== 409) continue;
+            const result = (await res.json()) as {
+              versions: Record<string, number>;
+              conflicts: ChatMessage[];
+            };
+            const sent = new Map(dirty.map((m) => [m.id, m]));
+            const serverCopies = new Map(
+              result.conflicts.map((m) => [m.id, m]),
+            );
+            set((state) => {
+              const nextSynced = { ...state.synced[chatId] };
+              const next = (state.chats[chatId] || []).map((m) => {
+                const id = m.id || "";
+                const server = serverCopies.get(id);
+                if (server) {
+                  nextSynced[id] = server;
+                  return server;
+                }
+                const version = result.versions[id];
+                if (!version) return m;
+                const saved = { ...m, updatedAt: version };
+                // Edited again while the request was in flight: keep it
+                // unsaved, but based on the version just written
+                if (sent.get(id) === m) nextSynced[id] = saved;
+                return saved;
+              });
+              return {
+                chats: { ...state.chats, [chatId]: next },
+                synced: { ...state.synced, [chatId]: nextSynced },
+                syncedInfo: { ...state.syncedInfo, [chatId]: info },
+              };
+            });
+          }
+        };
+        syncRun = run().finally(() => {
+          syncRun = null;
+        });
+        return syncRun;
+      },
+
+      // Applies changes made in other tabs and devices. Unsaved local edits
+      // win here; the next sync resolves them against the server.
+      pullChanges: async () => {
+        const cursor = get().changeCursor;
+        const res = await fetch(
+          cursor === null
+            ? "/api/persistence/changes"
+            : `/api/persistence/changes?since=${cursor}`,
+          { cache: "no-store" },
+        );
+        if (!res.ok) return;
+        const feed = (await res.json()) as ChangeFeed;
+        if (cursor === null || feed.reset) {
+          set({ changeCursor: feed.cursor });
+          if (feed.reset) await get().loadSummaries();
+          return;
+        }
+
+        set((state) => {
+          const chats = { ...state.chats };
+          const chatInfo = { ...state.chatInfo };
+          const synced = { ...state.synced };
+          const syncedInfo = { ...state.syncedInfo };
+          const drop = (id: string) => {
+            delete chats[id];
+            delete chatInfo[id];
+            delete synced[id];
+            delete syncedInfo[id];
+          };
+
+          for (const id of feed.deletedChatIds) drop(id);
+          // Rewritten as a whole; reload when next opened unless edited here
+          for (const id of feed.replacedChatIds) {
+            const known = synced[id] || {};
+            if ((chats[id] || []).every((m) => known[m.id || ""] === m)) {
+              drop(id);
+            }
+          }
+
+          for (const { chatId, message } of feed.messages) {
+            const messages = chats[chatId];
+            if (!messages || !message.id) continue;
+            const known = synced[chatId] || {};
+            const idx = messages.findIndex((m) => m.id === message.id);
+            const local = idx >= 0 ? messages[idx] : undefined;
+            if (local && known[message.id] !== local) continue;
+            if (local && (local.updatedAt ?? 0) >= (message.updatedAt ?? 0)) {
+              continue;
+            }
+            chats[chatId] =
+              idx >= 0
+                ? messages.map((m, i) => (i === idx ? message : m))
+                : [...messages, message];
+            synced[chatId] = { ...known, [message.id]: message };
+          }
+
+          for (const [chatId, info] of Object.entries(feed.info)) {
+            if (!chats[chatId]) continue;
+            // Settings changed here and not yet saved stay as they are
+            const local = changedInfo(chatInfo[chatId], syncedInfo[chatId]);
+            chatInfo[chatId] = Object.keys(local).length
+              ? { ...info, ...local }
+              : info;
+            syncedInfo[chatId] = info;
+          }
+
+          const { pinned, summaries } = placeSummaries(
+            state,
+            feed.chats,
+            feed.deletedChatIds,
+          );
+
+          let currentChatId = state.currentChatId;
+          if (feed.deletedChatIds.includes(currentChatId)) {
+            currentChatId =
+              pinned[0]?.id || summaries[0]?.id || Date.now().toString();
+          }
+
+          return {
+            chats,
+            chatInfo,
+            synced,
+            syncedInfo,
+            pinned,
+            summaries,
+            currentChatId,
+            changeCursor: feed.cursor,
+          };
+        });
+      },
+
+      loadOrganization: async () => {
+        const [{ folders }, { tags }] = await Promise.all([
+          requestJson<{ folders: ChatFolder[] }>("/api/persistence/folders", {
+            cache: "no-store",
+          }),
+          requestJson<{ tags: ChatTag[] }>("/api/persistence/tags", {
+            cache: "no-store",
+          }),
+        ]);
+        set((state) => {
+          // Drop filters on folders or tags deleted elsewhere
+          const filter = { ...state.filter };
+          if (
+            filter.folderId &&
+            !folders.some((f) => f.id === filter.folderId)
+          ) {
+            filter.folderId = null;
+          }
+          if (filter.tagId && !tags.some((t) => t.id === filter.tagId)) {
+            filter.tagId = null;
+          }
+          const changed =
+            filter.folderId !== state.filter.folderId ||
+            filter.tagId !== state.filter.tagId;
+          return { folders, tags, ...(changed ? { filter } : {}) };
+        });
+      },
+
+      setFilter: async (changes) => {
+        set((state) => ({ filter: { ...state.filter, ...changes } }));
+        await get().loadSummaries();
+      },
+
+      createFolder: async (name) => {
+        const { folder } = await requestJson<{ folder: ChatFolder }>(
+          "/api/persistence/folders",
+          { method: "POST", body: JSON.stringify({ name }) },
+        );
+        set((state) => ({ folders: [...state.folders, folder] }));
+        return folder;
+      },
+
+      renameFolder: async (id, name) => {
+        const { folder } = await requestJson<{ folder: ChatFolder }>(
+          `/api/persistence/folders/${id}`,
+          { method: "PATCH", body: JSON.stringify({ name }) },
+        );
+        set((state) => ({
+          folders: state.folders.map((f) => (f.id === id ? folder : f)),
+        }));
+      },
+
+      // The folder's chats stay, outside any folder
+      deleteFolder: async (id) => {
+        await requestJson(`/api/persistence/folders/${id}`, {
+          method: "DELETE",
+        });
+        const unfile = (c: ChatSummary) =>
+          c.folderId === id ? { ...c, folderId: null } : c;
+        set((state) => ({
+          folders: state.folders.filter((f) => f.id !== id),
+          pinned: state.pinned.map(unfile),
+          summaries: state.summaries.map(unfile),
+        }));
+        if (get().filter.folderId === id) {
+          await get().setFilter({ folderId: null });
+        }
+      },
+
+      createTag: async (name, color) => {
+        const { tag } = await requestJson<{ tag: ChatTag }>(
+          "/api/persistence/tags",
+          { method: "POST", body: JSON.stringify({ name, color }) },
+        );
+        set((state) => ({
+          tags: [...state.tags.filter((t) => t.id !== tag.id), tag].sort(
+            (a, b) => a.name.localeCompare(b.name),
+          ),
+        }));
+        return tag;
+      },
+
+      deleteTag: async (id) => {
+        await requestJson(`/api/persistence/tags/${id}`, { method: "DELETE" });
+        const untag = (c: ChatSummary) =>
+          c.tagIds.includes(id)
+            ? { ...c, tagIds: c.tagIds.filter((t) => t !== id) }
+            : c;
+        set((state) => ({
+          tags: state.tags.filter((t) => t.id !== id),
+          pinned: state.pinned.map(untag),
+          summaries: state.summaries.map(untag),
+        }));
+        if (get().filter.tagId === id) {
+          await get().setFilter({ tagId: null });
+        }
+      },
+
+      organizeChat: async (chatId, changes) => {
+        const { pinned, summaries } = get();
+        // A chat only on this device has to reach the server first
+        if (![...pinned, ...summaries].some((c) => c.id === chatId)) {
+          await get().syncChats();
+        }
+        const { chat } = await requestJson<{ chat: ChatSummary }>(
+          `/api/persistence/chats/${chatId}`,
+          { method: "PATCH", body: JSON.stringify(changes) },
+        );
+        set((state) => placeSummaries(state, [chat]));
+      },
+
+      // Names a chat from its opening exchange. The chat is saved first so
+      // the server can store the title; a chat renamed meanwhile keeps its name.
+      generateTitle: async (chatId, settings) => {
+        const messages = get().chats[chatId] || [];
+        const question = messages.find((m) => m.role === "user");
+        const answer = messages.find(
+          (m) =>
+            m.role === "assistant" &&
+            m.parentId === question?.id &&
+            !m.pending &&
+            !m.error,
+        );
+        if (!question || !answer?.content) return;
+        await get().syncChats();
+        const { chat } = await requestJson<{ chat: ChatSummary | null }>(
+          "/api/chat/title",
+          {
+            method: "POST",
+            body: JSON.stringify({
+              ...settings,
+              chatId,
+              messages: [question, answer].map(({ role, content }) => ({
+                role,
+                content,
+              })),
+            }),
+          },
+        );
+        if (chat) set((state) => placeSummaries(state, [chat]));
+      },
+
       addMessage: (chatId, message) =>
         set((state) => {
           const currentMessages = state.chats[chatId] || [];
@@ -108,28 +669,42 @@ export const useChatStore = create<ChatState>()(
         set((state) => {
           const newChats = { ...state.chats };
           delete newChats[chatId];
+          const newInfo = { ...state.chatInfo };
+          delete newInfo[chatId];
+          const { pinned, summaries } = placeSummaries(state, [], [chatId]);
 
           // If we deleted the current chat, switch to another one
           let nextId = state.currentChatId;
           if (state.currentChatId === chatId) {
             const ids = Object.keys(newChats).sort().reverse();
-            nextId = ids[0] || "";
+            nextId = pinned[0]?.id || summaries[0]?.id || ids[0] || "";
             if (!nextId) {
               // Create new one if empty
               nextId = Date.now().toString();
               newChats[nextId] = [];
             }
           }
-          return { chats: newChats, currentChatId: nextId };
+          return {
+            chats: newChats,
+            chatInfo: newInfo,
+            pinned,
+            summaries,
+            currentChatId: nextId,
+          };
         });
       },
     }),
     {
       name: "superkagi-chats",
+      // Chats are loaded from the server on demand; only remember which one
+      // was open. Version 0 stored every chat here.
+      version: 1,
       partialize: (state) => ({
-        chats: state.chats,
         currentChatId: state.currentChatId,
       }),
+      migrate: (persisted) => ({
+        currentChatId: (persisted as { currentChatId?: string })?.currentChatId,
+      }),
     },
   ),
 );
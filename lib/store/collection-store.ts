@@ -0,0 +1,116 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { KnowledgeCollectionInput } from "@/lib/knowledge";
+import type { KnowledgeCollection, KnowledgeDocument } from "@/types/chat";
+import { requestJson } from "./request-json";
+
+function byName(a: KnowledgeCollection, b: KnowledgeCollection) {
+  return a.name.localeCompare(b.name, undefined, { sensitivity: "base" });
+}
+
+function collectionUrl(id: string) {
+  return `/api/persistence/collections/${encodeURIComponent(id)}`;
+}
+
+interface CollectionState {
+  // Kept between visits so a chat's collection is known before the list has
+  // been refreshed
+  collections: KnowledgeCollection[];
+
+  loadCollections: () => Promise<void>;
+  saveCollection: (
+    collection: KnowledgeCollectionInput & { id?: string },
+  ) => Promise<KnowledgeCollection>;
+  deleteCollection: (id: string) => Promise<void>;
+  loadDocuments: (collectionId: string) => Promise<KnowledgeDocument[]>;
+  // Extracts and embeds the file on the server, which can take a while
+  uploadDocument: (
+    collectionId: string,
+    file: File,
+  ) => Promise<{ document: KnowledgeDocument; truncated: boolean }>;
+  // Resolves to the documents left in the collection
+  deleteDocument: (
+    collectionId: string,
+    documentId: string,
+  ) => Promise<KnowledgeDocument[]>;
+}
+
+export const useCollectionStore = create<CollectionState>()(
+  persist(
+    (set, get) => {
+      const replace = (collection: KnowledgeCollection) =>
+        set((state) => ({
+          collections: [
+            ...state.collections.filter((c) => c.id !== collection.id),
+            collection,
+          ].sort(byName),
+        }));
+
+      return {
+        collections: [],
+
+        loadCollections: async () => {
+          const { collections } = await requestJson<{
+            collections: KnowledgeCollection[];
+          }>("/api/persistence/collections", { cache: "no-store" });
+          set({ collections });
+        },
+
+        saveCollection: async ({ id, ...collection }) => {
+          const { collection: saved } = await requestJson<{
+            collection: KnowledgeCollection;
+          }>(id ? collectionUrl(id) : "/api/persistence/collections", {
+            method: id ? "PATCH" : "POST",
+            body: JSON.stringify(collection),
+          });
+          replace(saved);
+          return saved;
+        },
+
+        deleteCollection: async (id) => {
+          await requestJson(collectionUrl(id), { method: "DELETE" });
+          set((state) => ({
+            collections: state.collections.filter((c) => c.id !== id),
+          }));
+        },
+
+        loadDocuments: async (collectionId) => {
+          const { collection, documents } = await requestJson<{
+            collection: KnowledgeCollection;
+            documents: KnowledgeDocument[];
+          }>(collectionUrl(collectionId), { cache: "no-store" });
+          replace(collection);
+          return documents;
+        },
+
+        uploadDocument: async (collectionId, file) => {
+          const form = new FormData();
+          form.append("file", file);
+          // Not requestJson: the browser sets the multipart content type
+          const res = await fetch(`${collectionUrl(collectionId)}/documents`, {
+            method: "POST",
+            body: form,
+          });
+          const data = await res.json().catch(() => ({}));
+          if (!res.ok) {
+            throw new Error(data.error || `Upload failed (${res.status})`);
+          }
+          replace(data.collection);
+          return { document: data.document, truncated: !!data.truncated };
+        },
+
+        deleteDocument: async (collectionId, documentId) => {
+          await requestJson(
+            `${collectionUrl(collectionId)}/documents/${encodeURIComponent(documentId)}`,
+            { method: "DELETE" },
+          );
+          return get().loadDocuments(collectionId);
+        },
+      };
+    },
+    {
+      name: "superkagi-collections",
+      partialize: (state) => ({ collections: state.collections }),
+    },
+  ),
+);
@@ -0,0 +1,69 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { PromptPresetInput } from "@/lib/prompt-presets";
+import type { PromptPreset } from "@/types/chat";
+import { requestJson } from "./request-json";
+
+function byName(a: PromptPreset, b: PromptPreset) {
+  return a.name.localeCompare(b.name, undefined, { sensitivity: "base" });
+}
+
+interface PresetState {
+  // Own and shared presets; kept between visits so a chat's persona is known
+  // before the list has been refreshed
+  presets: PromptPreset[];
+
+  loadPresets: () => Promise<void>;
+  savePreset: (
+    preset: PromptPresetInput & { id?: string },
+  ) => Promise<PromptPreset>;
+  deletePreset: (id: string) => Promise<void>;
+}
+
+export const usePresetStore = create<PresetState>()(
+  persist(
+    (set) => ({
+      presets: [],
+
+      loadPresets: async () => {
+        const { presets } = await requestJson<{ presets: PromptPreset[] }>(
+          "/api/persistence/presets",
+          { cache: "no-store" },
+        );
+        set({ presets });
+      },
+
+      savePreset: async ({ id, ...preset }) => {
+        const { preset: saved } = await requestJson<{ preset: PromptPreset }>(
+          id
+            ? `/api/persistence/presets/${encodeURIComponent(id)}`
+            : "/api/persistence/presets",
+          { method: id ? "PATCH" : "POST", body: JSON.stringify(preset) },
+        );
+        set((state) => ({
+          presets: [
+            ...state.presets.filter((p) => p.id !== saved.id),
+            saved,
+          ].sort(byName),
+        }));
+        return saved;
+      },
+
+      deletePreset: async (id) => {
+        await requestJson(
+          `/api/persistence/presets/${encodeURIComponent(id)}`,
+          {
+            method: "DELETE",
+          },
+        );
+        set((state) => ({
+          presets: state.presets.filter((p) => p.id !== id),
+        }));
+      },
+    }),
+    {
+      name: "superkagi-presets",
+      partialize: (state) => ({ presets: state.presets }),
+    },
+  ),
+);
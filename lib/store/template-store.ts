@@ -0,0 +1,81 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { PromptTemplateInput } from "@/lib/prompt-templates";
+import type { PromptTemplate } from "@/types/chat";
+import { requestJson } from "./request-json";
+
+function byName(a: PromptTemplate, b: PromptTemplate) {
+  return a.name.localeCompare(b.name, undefined, { sensitivity: "base" });
+}
+
+interface TemplateState {
+  // Kept between visits so slash commands work before the list is refreshed
+  templates: PromptTemplate[];
+
+  loadTemplates: () => Promise<void>;
+  saveTemplate: (
+    template: PromptTemplateInput & { id?: string },
+  ) => Promise<PromptTemplate>;
+  deleteTemplate: (id: string) => Promise<void>;
+  // Returns how many templates the file held
+  importTemplates: (data: unknown) => Promise<number>;
+}
+
+export const useTemplateStore = create<TemplateState>()(
+  persist(
+    (set) => ({
+      templates: [],
+
+      loadTemplates: async () => {
+        const { templates } = await requestJson<{
+          templates: PromptTemplate[];
+        }>("/api/persistence/templates", { cache: "no-store" });
+        set({ templates });
+      },
+
+      saveTemplate: async ({ id, ...template }) => {
+        const { template: saved } = await requestJson<{
+          template: PromptTemplate;
+        }>(
+          id
+            ? `/api/persistence/templates/${encodeURIComponent(id)}`
+            : "/api/persistence/templates",
+          { method: id ? "PATCH" : "POST", body: JSON.stringify(template) },
+        );
+        set((state) => ({
+          templates: [
+            ...state.templates.filter((t) => t.id !== saved.id),
+            saved,
+          ].sort(byName),
+        }));
+        return saved;
+      },
+
+      deleteTemplate: async (id) => {
+        await requestJson(
+          `/api/persistence/templates/${encodeURIComponent(id)}`,
+          { method: "DELETE" },
+        );
+        set((state) => ({
+          templates: state.templates.filter((t) => t.id !== id),
+        }));
+      },
+
+      importTemplates: async (data) => {
+        const { imported, templates } = await requestJson<{
+          imported: number;
+          templates: PromptTemplate[];
+        }>("/api/persistence/templates/import", {
+          method: "POST",
+          body: JSON.stringify(data),
+        });
+        set({ templates });
+        return imported;
+      },
+    }),
+    {
+      name: "superkagi-templates",
+      partialize: (state) => ({ templates: state.templates }),
+    },
+  ),
+);
@@ -1,6 +1,20 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import type { CustomShortcuts } from "@/lib/keyboard-shortcuts";
+import type { CompareTarget } from "@/types/chat";
+
+export type SettingsTab =
+  | "settings"
+  | "connection"
+  | "textModels"
+  | "imageModels"
+  | "prompts"
+  | "templates"
+  | "knowledge"
+  | "shortcuts"
+  | "users"
+  | "mcp"
+  | "apiTokens";
 
 interface UIState {
   showConfig: boolean;
@@ -9,13 +23,7 @@ interface UIState {
   heroValue: string;
   composerValue: string;
   statusMsg: { text: string; ok?: boolean } | null;
-  settingsTab:
-  | "settings"
-  | "connection"
-  | "textModels"
-  | "imageModels"
-  | "shortcuts"
-  | "users";
+  settingsTab: SettingsTab;
   customShortcuts: CustomShortcuts;
   editingShortcut: string | null;
   recordingKey: string;
@@ -23,6 +31,9 @@ interface UIState {
   editDraft: string;
   imageSettingsExpanded: boolean;
   showReasoning: boolean;
+  // Send prompts to every compare target instead of the chat's model
+  compareOn: boolean;
+  compareTargets: CompareTarget[];
 
   setShowConfig: (show: boolean) => void;
   setSidebarOpen: (updater: boolean | ((prev: boolean) => boolean)) => void;
@@ -32,9 +43,7 @@ interface UIState {
   setHeroValue: (value: string) => void;
   setComposerValue: (value: string) => void;
   setStatusMsg: (msg: { text: string; ok?: boolean } | null) => void;
-  setSettingsTab: (
-    tab: "settings" | "connection" | "textModels" | "imageModels" | "shortcuts" | "users",
-  ) => void;
+  setSettingsTab: (tab: SettingsTab) => void;
   setCustomShortcuts: (shortcuts: CustomShortcuts) => void;
   setEditingShortcut: (id: string | null) => void;
   setRecordingKey: (key: string) => void;
@@ -42,6 +51,8 @@ interface UIState {
   setEditDraft: (draft: string) => void;
   setImageSettingsExpanded: (expanded: boolean) => void;
   setShowReasoning: (show: boolean) => void;
+  setCompareOn: (on: boolean) => void;
+  setCompareTargets: (targets: CompareTarget[]) => void;
 }
 
 export const useUIStore = create<UIState>()(
@@ -61,6 +72,8 @@ export const useUIStore = create<UIState>()(
       editDraft: "",
       imageSettingsExpanded: false,
       showReasoning: true,
+      compareOn: false,
+      compareTargets: [],
 
       setShowConfig: (show) => set({ showConfig: show }),
       setSidebarOpen: (updater) =>
@@ -89,12 +102,16 @@ export const useUIStore = create<UIState>()(
       setImageSettingsExpanded: (expanded) =>
         set({ imageSettingsExpanded: expanded }),
       setShowReasoning: (show) => set({ showReasoning: show }),
+      setCompareOn: (on) => set({ compareOn: on }),
+      setCompareTargets: (targets) => set({ compareTargets: targets }),
     }),
     {
       name: "superkagi-ui",
       partialize: (state) => ({
         sidebarCollapsed: state.sidebarCollapsed,
         showReasoning: state.showReasoning,
+        compareOn: state.compareOn,
+        compareTargets: state.compareTargets,
       }),
     },
   ),
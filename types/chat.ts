@@ -1,25 +1,232 @@
+import type { DocumentFormat } from "@/lib/documents";
+
 export type Provider = "local" | "openrouter" | "nanogpt";
 
 export type ContentPart =
   | { type: "text"; text: string }
   | { type: "image_url"; image_url: { url: string } };
 
+export type ToolCallStatus = "running" | "done" | "error";
+
+// One MCP tool invocation made while producing an assistant message
+export type ToolCallStep = {
+  id: string;
+  name: string;
+  server?: string;
+  tool?: string;
+  arguments: Record<string, unknown>;
+  status: ToolCallStatus;
+  startedAt: number;
+  durationMs?: number;
+  // Truncated preview of what the tool returned
+  result?: string;
+  error?: string;
+};
+
+// A source URL returned by a tool, numbered the way the model cites it
+export type Citation = {
+  index: number;
+  url: string;
+  title?: string;
+  toolCallId?: string;
+};
+
 export type ChatMessage = {
   role: "user" | "assistant" | "tool";
   content: string | ContentPart[];
   id?: string;
+  // Previous message in the conversation tree; null for the first message
+  parentId?: string | null;
   pending?: boolean;
   error?: string;
   createdAt?: number;
+  // Server version of the message, unset until it has been saved
+  updatedAt?: number;
   edited?: boolean;
   tool_call_id?: string;
   reasoning?: string;
   reasoningDetails?: unknown;
   cost?: number;
+  toolCalls?: ToolCallStep[];
+  citations?: Citation[];
+  // Generation parameters the answer was requested with
+  generation?: GenerationParams;
+  // Who answered; the model is the one the provider reported
+  provider?: Provider;
+  model?: string;
+  // Time from request to the last token, tool calls included
+  latencyMs?: number;
+  tokens?: MessageTokens;
+  // Answers to one prompt from several models share a group, the id of the
+  // prompt; the group is open until one of them is picked as the winner
+  compareGroup?: string;
+  compareWinner?: boolean;
+  // Set when a fallback answered because the requested model failed this way
+  fallbackReason?: ProviderErrorKind;
+  // Generation was stopped before the model finished; content is partial
+  stopped?: boolean;
+};
+
+export type MessageTokens = {
+  prompt: number;
+  completion: number;
+};
+
+export type ModelTarget = {
+  provider: Provider;
+  model: string;
+};
+
+// A provider and model a prompt is sent to in compare mode
+export type CompareTarget = ModelTarget;
+
+// How a failed completion request went wrong, as far as the next step goes
+export type ProviderErrorKind =
+  | "rate_limit"
+  | "auth"
+  | "context_length"
+  | "content_filter"
+  | "server"
+  | "network"
+  | "other";
+
+// What to do when the chat's model fails: retry it, then try each fallback in
+// order with the same retries
+export type RoutingPolicy = {
+  fallbacks: ModelTarget[];
+  retries: number;
+  // First retry delay, doubled for each retry after it
+  retryDelayMs: number;
 };
 
 export type ChatMap = Record<string, ChatMessage[]>;
 
+// Sidebar entry for a chat whose messages may not be loaded yet
+// Where a chat title came from: the first message, a title model, or the user
+export type ChatTitleSource = "derived" | "generated" | "user";
+
+export type ChatSummary = {
+  id: string;
+  title: string;
+  titleSource: ChatTitleSource;
+  createdAt: number;
+  // Time of the newest message
+  updatedAt: number;
+  messageCount: number;
+  cost: number;
+  // Start of the latest user message
+  snippet: string;
+  folderId: string | null;
+  pinned: boolean;
+  tagIds: string[];
+};
+
+export type ChatFolder = {
+  id: string;
+  name: string;
+  position: number;
+};
+
+export type ChatTag = {
+  id: string;
+  name: string;
+  // CSS hex color, e.g. "#60a5fa"
+  color: string;
+};
+
+// Sidebar filters; a null folder shows every folder, "" only unfiled chats
+export type ChatFilter = {
+  folderId: string | null;
+  tagId: string | null;
+};
+
+// Per-chat settings that travel with the chat rather than the user config
+export type ChatInfo = {
+  // Deep-search tools this chat may call; null/undefined allows every tool
+  enabledTools?: string[] | null;
+  // Leaf message of the branch currently shown
+  activeLeafId?: string | null;
+  // Prompt preset (persona) answering in this chat; null uses the settings
+  presetId?: string | null;
+  // Overrides of the user's generation parameters for this chat
+  generation?: GenerationParams | null;
+  // Knowledge collection searched for context before each answer
+  collectionId?: string | null;
+};
+
+// Sampling and output settings for a completion; unset fields use the
+// provider's default
+export type GenerationParams = {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stop?: string[];
+  seed?: number;
+  // Ask for a JSON object as the reply
+  jsonMode?: boolean;
+};
+
+// A named system prompt with the model settings it runs with. Unset provider,
+// model and temperature fall back to the user's settings.
+export type PromptPreset = {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  provider: Provider | null;
+  model: string | null;
+  deepSearch: boolean;
+  temperature: number | null;
+  // Listed for every user on the instance
+  shared: boolean;
+  ownerName: string;
+  // Whether the current user may change or delete it
+  editable: boolean;
+};
+
+// A named set of documents, embedded once and searched for passages that
+// answer a chat's latest message. Every vector in a collection comes from the
+// same embedding model, so the model is fixed once documents are added.
+export type KnowledgeCollection = {
+  id: string;
+  name: string;
+  description: string;
+  provider: Provider;
+  embeddingModel: string;
+  // Length of the stored vectors; null until the first document is embedded
+  dimensions: number | null;
+  documentCount: number;
+  chunkCount: number;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type KnowledgeDocument = {
+  id: string;
+  name: string;
+  format: DocumentFormat;
+  // Pages, slides or sheets, when the format has them
+  pages: number | null;
+  chars: number;
+  chunkCount: number;
+  createdAt: number;
+};
+
+// Snippet inserted from the composer with /name. The body may hold
+// {{variable}} placeholders, filled in before it is inserted.
+export type PromptTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  body: string;
+};
+
+export type McpToolOption = {
+  name: string;
+  description?: string;
+  server: string;
+  tool: string;
+};
+
 export type ModelOption = {
   id: string;
   label: string;
@@ -62,6 +269,13 @@ export type UiConfig = {
   localUrl: string;
   systemPrompt: string;
   deepSearch: boolean;
+  // Name new chats with a model after the first reply
+  autoTitle: boolean;
+  // Model for titles on the current provider; empty uses the chat model
+  titleModel: string;
+  // Defaults for every chat, overridable per chat
+  generation: GenerationParams;
+  routing: RoutingPolicy;
   userSet?: {
     provider?: boolean;
     models?: { local?: boolean; openrouter?: boolean; nanogpt?: boolean };